@@ -2,14 +2,47 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import {
+  Effect,
+  Exit,
+  RateLimiter,
+  SchwabConfig,
+  runSchwabExit,
   SchwabTokenManager,
   saveConfig,
   loadConfig,
   getConfigDir,
   getTokensPath,
   type StoredConfig,
+  type RateLimitStatusShape,
 } from '@schwab-tools/core';
 
+/**
+ * Rate limit buckets as this process sees them, plus the configured per-account order limit
+ */
+const getRateLimitsProgram = Effect.gen(function* () {
+  const config = yield* SchwabConfig;
+  const rateLimiter = yield* RateLimiter;
+  const status = yield* rateLimiter.getStatus;
+  return { status, orderRequestsPerMinute: config.orderRequestsPerMinute };
+});
+
+function displayRateLimits(status: RateLimitStatusShape, orderRequestsPerMinute: number): void {
+  console.log('\n' + chalk.bold('Rate Limits') + chalk.gray(' (per minute)'));
+  for (const bucket of status.buckets) {
+    const remaining = bucket.requestsRemaining === 0
+      ? chalk.red(String(bucket.requestsRemaining))
+      : chalk.cyan(String(bucket.requestsRemaining));
+    let line = `  ${bucket.bucket.padEnd(20)} ${remaining}/${bucket.limit} remaining`;
+    if (bucket.pausedUntil) {
+      line += chalk.yellow(` (paused until ${bucket.pausedUntil.toLocaleTimeString()})`);
+    }
+    console.log(line);
+  }
+  if (!status.buckets.some((bucket) => bucket.bucket.startsWith('orders:'))) {
+    console.log(`  ${'orders (per account)'.padEnd(20)} ${chalk.cyan(String(orderRequestsPerMinute))}/${orderRequestsPerMinute} remaining`);
+  }
+}
+
 export function createAuthCommand(): Command {
   const auth = new Command('auth')
     .description('Manage Schwab API authentication');
@@ -79,6 +112,11 @@ export function createAuthCommand(): Command {
           console.log(`  Run ${chalk.cyan('schwab auth login')} to authenticate.`);
         }
 
+        const rateLimits = await runSchwabExit(getRateLimitsProgram);
+        if (Exit.isSuccess(rateLimits)) {
+          displayRateLimits(rateLimits.value.status, rateLimits.value.orderRequestsPerMinute);
+        }
+
         console.log();
       } catch (error) {
         console.error(chalk.red('Error checking status:'), error instanceof Error ? error.message : error);
@@ -116,7 +154,10 @@ export function createAuthCommand(): Command {
         callbackUrl = await readLine();
       }
 
+      // Keep settings such as paper trading that live alongside the credentials
+      const existing = await loadConfig();
       const config: StoredConfig = {
+        ...existing,
         clientId,
         clientSecret,
         callbackUrl: callbackUrl || 'https://127.0.0.1',
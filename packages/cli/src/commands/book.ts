@@ -0,0 +1,256 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import {
+  Effect,
+  Exit,
+  Schedule,
+  Stream,
+  StreamerService,
+  runSchwabExit,
+  formatCause,
+  formatOptionSymbol,
+  isOptionSymbol,
+  resolveOptionSymbol,
+  emptyOrderBook,
+  applyBookSnapshot,
+  bookSpread,
+  type BookService,
+  type BookSnapshot,
+  type OrderBook,
+  type OrderBookLevel,
+  type TimeAndSale,
+} from "@schwab-tools/core";
+import { CTRL_C, keypresses, liveScreen } from "../live-view.js";
+
+const REDRAW_MS = 250;
+const BAR_WIDTH = 16;
+const TAPE_LENGTH = 12;
+
+const VENUES: Record<string, readonly BookService[]> = {
+  nyse: ["NYSE_BOOK"],
+  nasdaq: ["NASDAQ_BOOK"],
+  both: ["NYSE_BOOK", "NASDAQ_BOOK"],
+};
+
+const VENUE_NAMES: Record<BookService, string> = {
+  NYSE_BOOK: "NYSE",
+  NASDAQ_BOOK: "NASDAQ",
+  OPTIONS_BOOK: "Options",
+};
+
+type BookUpdate =
+  | { readonly _tag: "Book"; readonly snapshot: BookSnapshot }
+  | { readonly _tag: "Print"; readonly print: TimeAndSale };
+
+// Sizes that grew since the last update show green, shrank red
+function formatSize(level: OrderBookLevel | undefined, align: "left" | "right"): string {
+  const text = level ? level.size.toLocaleString() : "";
+  const padded = align === "right" ? text.padStart(10) : text.padEnd(10);
+  if (level && level.sizeChange > 0) {
+    return chalk.green(padded);
+  }
+  if (level && level.sizeChange < 0) {
+    return chalk.red(padded);
+  }
+  return padded;
+}
+
+function depthBar(size: number, maxSize: number): string {
+  if (size <= 0 || maxSize <= 0) {
+    return "";
+  }
+  return "█".repeat(Math.max(1, Math.round((size / maxSize) * BAR_WIDTH)));
+}
+
+function renderBook(
+  book: OrderBook,
+  prints: readonly TimeAndSale[],
+  options: {
+    readonly depth: number;
+    readonly label: string;
+    readonly venues: readonly BookService[];
+  }
+): string[] {
+  const lines: string[] = [];
+  const spread = bookSpread(book);
+  const bids = book.bids.slice(0, options.depth);
+  const asks = book.asks.slice(0, options.depth);
+  const maxSize = Math.max(0, ...bids.map((l) => l.size), ...asks.map((l) => l.size));
+
+  lines.push(
+    chalk.bold.cyan(options.label) +
+      chalk.dim(
+        ` · Level II · ${options.venues.map((venue) => VENUE_NAMES[venue]).join(" + ")}` +
+          (spread !== undefined ? ` · spread ${spread.toFixed(2)}` : "") +
+          (book.bookTime > 0 ? ` · ${new Date(book.bookTime).toLocaleTimeString()}` : "")
+      )
+  );
+  lines.push("");
+  lines.push(
+    chalk.dim(
+      "".padStart(BAR_WIDTH) +
+        "Size".padStart(10) +
+        "MMs".padStart(5) +
+        "Bid".padStart(10) +
+        " │ " +
+        "Ask".padEnd(10) +
+        "MMs".padEnd(5) +
+        "Size".padEnd(10)
+    )
+  );
+
+  if (bids.length === 0 && asks.length === 0) {
+    lines.push(chalk.dim("  Waiting for book data..."));
+  }
+
+  for (let row = 0; row < Math.max(bids.length, asks.length); row++) {
+    const bid = bids[row];
+    const ask = asks[row];
+    lines.push(
+      chalk.green(depthBar(bid?.size ?? 0, maxSize).padStart(BAR_WIDTH)) +
+        formatSize(bid, "right") +
+        (bid ? String(bid.marketMakerCount) : "").padStart(5) +
+        (bid ? bid.price.toFixed(2) : "").padStart(10) +
+        chalk.dim(" │ ") +
+        (ask ? ask.price.toFixed(2) : "").padEnd(10) +
+        (ask ? String(ask.marketMakerCount) : "").padEnd(5) +
+        formatSize(ask, "left") +
+        " " +
+        chalk.red(depthBar(ask?.size ?? 0, maxSize))
+    );
+  }
+
+  if (prints.length > 0) {
+    lines.push("");
+    lines.push(chalk.bold("Time & Sales"));
+    prints.forEach((print, index) => {
+      const before = prints[index + 1];
+      const color =
+        !before || print.price === before.price
+          ? chalk.white
+          : print.price > before.price
+            ? chalk.green
+            : chalk.red;
+      lines.push(
+        chalk.dim(new Date(print.tradeTime).toLocaleTimeString().padEnd(12)) +
+          color(print.price.toFixed(2).padStart(10)) +
+          print.size.toLocaleString().padStart(10) +
+          chalk.dim(`  ${print.exchange ?? ""}`)
+      );
+    });
+  }
+
+  lines.push("");
+  lines.push(chalk.dim("[q] quit"));
+  return lines;
+}
+
+/**
+ * Live depth ladder, with the equity tape below it. Runs until q, or fails
+ * when the book can't be streamed (e.g. no level II permissions).
+ */
+const watchBookProgram = (
+  symbol: string,
+  options: {
+    readonly depth: number;
+    readonly venues: readonly BookService[];
+    readonly tape: boolean;
+  }
+) =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const streamer = yield* StreamerService;
+      const screen = yield* liveScreen;
+      const label = isOptionSymbol(symbol) ? formatOptionSymbol(symbol) : symbol;
+
+      let book = emptyOrderBook(symbol);
+      let prints: TimeAndSale[] = [];
+      const draw = Effect.suspend(() =>
+        screen.draw(
+          renderBook(book, prints, { depth: options.depth, label, venues: options.venues })
+        )
+      );
+      yield* draw;
+
+      const updates = Stream.mergeAll(
+        [
+          ...options.venues.map((venue) =>
+            Stream.map(
+              streamer.book(venue, [symbol]),
+              (snapshot): BookUpdate => ({ _tag: "Book", snapshot })
+            )
+          ),
+          ...(options.tape
+            ? [
+                Stream.map(
+                  streamer.timeAndSales([symbol]),
+                  (print): BookUpdate => ({ _tag: "Print", print })
+                ),
+              ]
+            : []),
+        ],
+        { concurrency: "unbounded" }
+      );
+
+      const follow = Stream.runForEach(updates, (update) =>
+        Effect.sync(() => {
+          if (update._tag === "Book") {
+            book = applyBookSnapshot(book, update.snapshot);
+          } else {
+            prints = [update.print, ...prints].slice(0, TAPE_LENGTH);
+          }
+        })
+      );
+
+      yield* draw.pipe(Effect.repeat(Schedule.spaced(REDRAW_MS)), Effect.forkScoped);
+
+      // Whichever ends first: the user quitting, or the book failing
+      yield* Effect.raceFirst(
+        keypresses.pipe(
+          Stream.runForEachWhile((key) => Effect.succeed(key !== "q" && key !== CTRL_C))
+        ),
+        follow
+      );
+    })
+  );
+
+export function createBookCommand(): Command {
+  return new Command("book")
+    .description("Live level II depth ladder (needs level II permissions)")
+    .argument("<symbol>", "Stock symbol, or option symbol / UNDERLYING:YYYY-MM-DD:C|P:STRIKE")
+    .option("-d, --depth <levels>", "Price levels per side", "10")
+    .option("--venue <venue>", "Equity book to show (nyse, nasdaq, both)", "both")
+    .option("--no-tape", "Hide time and sales")
+    .action(async (input: string, opts) => {
+      const option = isOptionSymbol(input) || input.includes(":");
+      let symbol: string;
+      try {
+        symbol = option ? resolveOptionSymbol(input) : input.toUpperCase();
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+
+      const venues: readonly BookService[] | undefined = option
+        ? ["OPTIONS_BOOK"]
+        : VENUES[String(opts.venue).toLowerCase()];
+      if (!venues) {
+        console.error(chalk.red(`Unknown venue ${opts.venue}; use nyse, nasdaq or both`));
+        process.exit(1);
+      }
+
+      const exit = await runSchwabExit(
+        watchBookProgram(symbol, {
+          depth: Math.max(1, parseInt(opts.depth, 10) || 10),
+          venues,
+          // The tape comes from level one equity trades
+          tape: opts.tape && !option,
+        })
+      );
+
+      if (Exit.isFailure(exit)) {
+        console.error(chalk.red(formatCause(exit.cause)));
+        process.exit(1);
+      }
+    });
+}
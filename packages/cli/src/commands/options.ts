@@ -5,15 +5,27 @@ import {
   Effect,
   Exit,
   OptionChainService,
+  OrderNotFoundError,
+  OrderService,
+  Schedule,
+  Stream,
+  StreamerService,
   runSchwabExit,
   formatCause,
   buildOptionSymbol,
   parseOptionSymbol,
   formatOptionSymbol,
+  isOptionSymbol,
+  toStreamerOptionSymbol,
+  estimateNetPrice,
   type CompactOption,
   type ContractType,
+  type LegQuote,
+  type LevelOneOption,
+  type Order,
   type StrikeRange,
 } from "@schwab-tools/core";
+import { CTRL_C, keypresses, liveScreen } from "../live-view.js";
 
 /**
  * Effect program to fetch option chain
@@ -79,6 +91,188 @@ function printOptionsTable(
   }
 }
 
+// ============================================================================
+// Watch mode
+// ============================================================================
+
+const REDRAW_MS = 250;
+
+const BUY_INSTRUCTIONS = new Set(["BUY", "BUY_TO_OPEN", "BUY_TO_CLOSE", "BUY_TO_COVER"]);
+
+const formatNumber = (value: number | undefined, digits = 2) =>
+  value !== undefined ? value.toFixed(digits) : "-";
+
+/**
+ * Contract table, and for a spread its live net mark next to the order price
+ */
+function renderOptionsWatch(
+  contracts: readonly string[],
+  quotes: ReadonlyMap<string, LevelOneOption>,
+  stockQuotes: ReadonlyMap<string, LegQuote>,
+  spread: Order | undefined
+): string[] {
+  const lines: string[] = [];
+  const quantities = new Map(
+    (spread?.orderLegCollection ?? []).map((leg) => [
+      leg.instrument.symbol,
+      BUY_INSTRUCTIONS.has(leg.instruction) ? leg.quantity : -leg.quantity,
+    ])
+  );
+
+  lines.push(
+    spread
+      ? chalk.bold.cyan(`Order ${spread.orderId}`) +
+          chalk.dim(
+            ` · ${spread.complexOrderStrategyType ?? spread.orderStrategyType} · ${spread.status}`
+          )
+      : chalk.bold.cyan("Option quotes")
+  );
+  lines.push("");
+  lines.push(
+    chalk.dim(
+      "Contract".padEnd(30) +
+        (spread ? "Qty".padStart(6) : "") +
+        "Bid".padStart(9) +
+        "Ask".padStart(9) +
+        "Mark".padStart(9) +
+        "Last".padStart(9) +
+        "Delta".padStart(8) +
+        "Gamma".padStart(8) +
+        "Theta".padStart(8) +
+        "Vega".padStart(8) +
+        "IV".padStart(8)
+    )
+  );
+
+  for (const symbol of contracts) {
+    const quote = quotes.get(symbol);
+    const quantity = quantities.get(symbol);
+    const label = formatOptionSymbol(symbol).padEnd(30);
+    lines.push(
+      (quote?.inTheMoney ? chalk.yellow(label) : label) +
+        (spread ? (quantity !== undefined ? String(quantity) : "").padStart(6) : "") +
+        formatNumber(quote?.bid).padStart(9) +
+        formatNumber(quote?.ask).padStart(9) +
+        formatNumber(quote?.mark).padStart(9) +
+        formatNumber(quote?.last).padStart(9) +
+        formatNumber(quote?.delta, 3).padStart(8) +
+        formatNumber(quote?.gamma, 3).padStart(8) +
+        formatNumber(quote?.theta, 3).padStart(8) +
+        formatNumber(quote?.vega, 3).padStart(8) +
+        (quote?.impliedVolatility !== undefined
+          ? quote.impliedVolatility.toFixed(1) + "%"
+          : "-"
+        ).padStart(8)
+    );
+  }
+
+  if (spread) {
+    for (const leg of spread.orderLegCollection) {
+      if (isOptionSymbol(leg.instrument.symbol)) {
+        continue;
+      }
+      const quote = stockQuotes.get(leg.instrument.symbol);
+      lines.push(
+        leg.instrument.symbol.padEnd(30) +
+          String(quantities.get(leg.instrument.symbol) ?? "").padStart(6) +
+          formatNumber(quote?.bid).padStart(9) +
+          formatNumber(quote?.ask).padStart(9)
+      );
+    }
+
+    const legQuotes = new Map<string, LegQuote>(stockQuotes);
+    for (const [symbol, quote] of quotes) {
+      if (quote.bid !== undefined && quote.ask !== undefined) {
+        legQuotes.set(symbol, { bid: quote.bid, ask: quote.ask });
+      }
+    }
+    const estimate = estimateNetPrice(spread, legQuotes);
+    lines.push("");
+    lines.push(
+      estimate.price !== undefined
+        ? chalk.bold(`Net mark $${estimate.price.toFixed(2)} ${estimate.orderType}`) +
+            (spread.price !== undefined
+              ? chalk.dim(`  ·  order $${spread.price.toFixed(2)} ${spread.orderType}`)
+              : "")
+        : chalk.dim("Net mark: waiting for a quote on every leg")
+    );
+  }
+
+  lines.push("");
+  lines.push(chalk.dim("[q] quit"));
+  return lines;
+}
+
+/**
+ * Stream the given contracts, plus every leg of the order when one is
+ * given, until q
+ */
+const watchOptionsProgram = (symbols: readonly string[], orderId?: string) =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const streamer = yield* StreamerService;
+
+      let spread: Order | undefined;
+      if (orderId) {
+        const orderService = yield* OrderService;
+        const orders = yield* orderService.getAllOrders();
+        spread = orders.find((order) => order.orderId === orderId);
+        if (!spread) {
+          return yield* Effect.fail(
+            new OrderNotFoundError({
+              orderId,
+              accountHash: "",
+              message: `No open order ${orderId} in any account`,
+            })
+          );
+        }
+      }
+
+      const legSymbols = spread?.orderLegCollection.map((leg) => leg.instrument.symbol) ?? [];
+      const contracts = [...new Set([...legSymbols.filter(isOptionSymbol), ...symbols])];
+      const stocks = legSymbols.filter((symbol) => !isOptionSymbol(symbol));
+
+      const quotes = new Map<string, LevelOneOption>();
+      const stockQuotes = new Map<string, LegQuote>();
+
+      const screen = yield* liveScreen;
+      const draw = Effect.suspend(() =>
+        screen.draw(renderOptionsWatch(contracts, quotes, stockQuotes, spread))
+      );
+      yield* draw;
+
+      // Stock legs (covered calls, collars) only feed the net mark
+      const follow = Effect.all(
+        [
+          Stream.runForEach(streamer.levelOneOptions(contracts), (quote) =>
+            Effect.sync(() => quotes.set(quote.symbol, quote))
+          ),
+          ...(stocks.length > 0
+            ? [
+                Stream.runForEach(streamer.levelOneEquities(stocks), (quote) =>
+                  Effect.sync(() => {
+                    if (quote.bidPrice !== undefined && quote.askPrice !== undefined) {
+                      stockQuotes.set(quote.symbol, { bid: quote.bidPrice, ask: quote.askPrice });
+                    }
+                  })
+                ),
+              ]
+            : []),
+        ],
+        { concurrency: "unbounded", discard: true }
+      );
+
+      yield* draw.pipe(Effect.repeat(Schedule.spaced(REDRAW_MS)), Effect.forkScoped);
+
+      yield* Effect.raceFirst(
+        keypresses.pipe(
+          Stream.runForEachWhile((key) => Effect.succeed(key !== "q" && key !== CTRL_C))
+        ),
+        follow
+      );
+    })
+  );
+
 export function createOptionsCommand(): Command {
   const options = new Command("options").description(
     "Options chain and symbol utilities"
@@ -191,6 +385,31 @@ export function createOptionsCommand(): Command {
       });
     });
 
+  options
+    .command("watch")
+    .description("Stream live option quotes and greeks")
+    .argument("[contracts...]", "OCC symbols or UNDERLYING:YYYY-MM-DD:C|P:STRIKE")
+    .option("-o, --order <orderId>", "Watch every leg of an open spread order, with its net mark")
+    .action(async (inputs: string[], opts) => {
+      let symbols: string[];
+      try {
+        symbols = inputs.map(toStreamerOptionSymbol);
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+      if (symbols.length === 0 && !opts.order) {
+        console.error(chalk.red("Give one or more contracts, or an order with --order"));
+        process.exit(1);
+      }
+
+      const exit = await runSchwabExit(watchOptionsProgram(symbols, opts.order));
+      if (Exit.isFailure(exit)) {
+        console.error(chalk.red(formatCause(exit.cause)));
+        process.exit(1);
+      }
+    });
+
   // Symbol building is a pure function - no Effect needed
   options
     .command("symbol")
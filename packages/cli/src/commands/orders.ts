@@ -4,7 +4,9 @@ import ora from "ora";
 import {
   Effect,
   Exit,
+  Stream,
   OrderService,
+  OrderEventService,
   AccountService,
   runSchwabExit,
   formatCause,
@@ -12,10 +14,20 @@ import {
   OrderBuilder,
   formatOptionSymbol,
   isOptionSymbol,
+  resolveOptionSymbol,
+  estimateNetPrice,
+  netPriceType,
+  fetchLegQuotes,
+  type LegQuote,
+  type NetPriceType,
+  type StrategySide,
   type Order,
+  type OrderEvent,
+  type OrderEventType,
   type OrderStatus,
   type OrderSpec,
   type OrderInstruction,
+  type PriceLinkBasis,
 } from "@schwab-tools/core";
 
 /**
@@ -58,6 +70,17 @@ const getOrderProgram = (accountHash: string, orderId: string) =>
     return yield* orderService.getOrder(accountHash, orderId);
   });
 
+/**
+ * Effect program that hands each order event to `onEvent` until interrupted
+ */
+const watchOrdersProgram = (onEvent: (event: OrderEvent) => void) =>
+  Effect.gen(function* () {
+    const orderEvents = yield* OrderEventService;
+    yield* Stream.runForEach(orderEvents.events, (event) =>
+      Effect.sync(() => onEvent(event))
+    );
+  });
+
 /**
  * Effect program to cancel an order
  */
@@ -130,9 +153,57 @@ function getStatusColor(status: string): (text: string) => string {
   }
 }
 
-function printOrderSummary(order: Order): void {
-  const statusColor = getStatusColor(order.status);
-  const legs = order.orderLegCollection
+function getEventColor(type: OrderEventType): (text: string) => string {
+  switch (type) {
+    case "FILLED":
+    case "PARTIAL_FILL":
+      return chalk.green;
+    case "ACCEPTED":
+    case "REPLACED":
+      return chalk.yellow;
+    case "CANCELED":
+    case "REJECTED":
+      return chalk.red;
+  }
+}
+
+function printOrderEvent(event: OrderEvent): void {
+  const { order } = event;
+  const eventColor = getEventColor(event.type);
+  const total = order.filledQuantity + order.remainingQuantity;
+  const fill =
+    event.fillQuantity !== undefined
+      ? ` +${event.fillQuantity} (${order.filledQuantity}/${total})`
+      : "";
+  const reason =
+    event.type === "REJECTED" && order.statusDescription
+      ? chalk.dim(` ${order.statusDescription}`)
+      : "";
+
+  console.log(
+    `${chalk.dim(event.time.toLocaleTimeString())} ` +
+      `${eventColor(event.type.padEnd(12))} ` +
+      `${formatLegs(order)} @ ${order.orderType}${order.price ? " $" + order.price : ""}` +
+      `${fill} ${chalk.dim("#" + order.orderId)}${reason}`
+  );
+}
+
+function formatTrailingStop(order: Order | OrderSpec): string {
+  if (order.stopPriceOffset === undefined) {
+    return "";
+  }
+  const offset =
+    order.stopPriceLinkType === "PERCENT"
+      ? `${order.stopPriceOffset}%`
+      : `$${order.stopPriceOffset}`;
+  const basis = order.stopPriceLinkBasis ? ` from ${order.stopPriceLinkBasis}` : "";
+  const limit =
+    order.priceOffset !== undefined ? `, limit offset $${order.priceOffset}` : "";
+  return ` trail ${offset}${basis}${limit}`;
+}
+
+function formatLegs(order: Order): string {
+  return order.orderLegCollection
     .map((leg) => {
       const sym =
         leg.instrument.assetType === "OPTION"
@@ -141,16 +212,38 @@ function printOrderSummary(order: Order): void {
       return `${leg.instruction} ${leg.quantity} ${sym}`;
     })
     .join(", ");
+}
+
+function printChildOrders(order: Order, indent: string): void {
+  for (const child of order.childOrderStrategies ?? []) {
+    const statusColor = getStatusColor(child.status);
+    const label =
+      child.orderStrategyType === "OCO"
+        ? "OCO"
+        : `${formatLegs(child)} @ ${child.orderType}${child.price ? " $" + child.price : ""}${child.stopPrice ? " stop $" + child.stopPrice : ""}${formatTrailingStop(child)}`;
+    console.log(
+      `${indent}└ ${chalk.dim(child.orderId)} ${statusColor(child.status)} ${label}`
+    );
+    printChildOrders(child, indent + "  ");
+  }
+}
+
+function printOrderSummary(order: Order): void {
+  const statusColor = getStatusColor(order.status);
+  const legs = formatLegs(order);
 
   console.log(`\n  ${chalk.dim(order.orderId)} ${statusColor(order.status)}`);
-  console.log(`    ${legs}`);
+  if (legs) {
+    console.log(`    ${legs}`);
+  }
   console.log(
-    `    ${order.orderType}${order.price ? " @ $" + order.price : ""} | ${order.duration}`
+    `    ${order.orderType}${order.price ? " @ $" + order.price : ""}${formatTrailingStop(order)} | ${order.duration}`
   );
   console.log(
     `    Filled: ${order.filledQuantity}/${order.filledQuantity + order.remainingQuantity}`
   );
   console.log(`    Entered: ${order.enteredTime.toLocaleString()}`);
+  printChildOrders(order, "    ");
 }
 
 function printOrderDetails(order: Order): void {
@@ -162,10 +255,23 @@ function printOrderDetails(order: Order): void {
   console.log(`  Account: ${order.accountNumber}`);
   console.log(`  Status: ${statusColor(order.status)}`);
   console.log(`  Type: ${order.orderType}`);
+  console.log(
+    `  Strategy: ${order.orderStrategyType}${
+      order.complexOrderStrategyType && order.complexOrderStrategyType !== "NONE"
+        ? ` (${order.complexOrderStrategyType})`
+        : ""
+    }`
+  );
   console.log(`  Duration: ${order.duration}`);
   if (order.price) {
     console.log(`  Price: $${order.price}`);
   }
+  if (order.stopPrice) {
+    console.log(`  Stop: $${order.stopPrice}`);
+  }
+  if (order.stopPriceOffset !== undefined) {
+    console.log(`  Trailing:${formatTrailingStop(order)}`);
+  }
   console.log(`  Filled: ${order.filledQuantity}`);
   console.log(`  Remaining: ${order.remainingQuantity}`);
   console.log(`  Entered: ${order.enteredTime.toLocaleString()}`);
@@ -184,6 +290,11 @@ function printOrderDetails(order: Order): void {
     );
   }
 
+  if (order.childOrderStrategies && order.childOrderStrategies.length > 0) {
+    console.log("\n  " + chalk.bold("Child Orders:"));
+    printChildOrders(order, "    ");
+  }
+
   console.log();
 }
 
@@ -256,16 +367,88 @@ async function confirm(): Promise<boolean> {
   });
 }
 
+const TRAIL_BASES: readonly PriceLinkBasis[] = ["MARK", "LAST", "BID", "ASK"];
+
+interface TrailingStopOptions {
+  trail?: string;
+  trailPercent?: string;
+  trailBasis?: string;
+  limitOffset?: string;
+}
+
+function applyTrailingStop(
+  order: OrderSpec,
+  options: TrailingStopOptions
+): OrderSpec {
+  if (options.trail === undefined && options.trailPercent === undefined) {
+    if (options.limitOffset !== undefined) {
+      throw new Error("--limit-offset requires --trail or --trail-percent");
+    }
+    return order;
+  }
+  if (options.trail !== undefined && options.trailPercent !== undefined) {
+    throw new Error("Use either --trail or --trail-percent, not both");
+  }
+  if (order.price !== undefined) {
+    throw new Error("Trailing stops cannot be combined with --limit");
+  }
+
+  const percent = options.trailPercent !== undefined;
+  const offset = parseFloat((percent ? options.trailPercent : options.trail)!);
+  const linkType = percent ? "PERCENT" : "VALUE";
+  const basis = (options.trailBasis?.toUpperCase() ?? "MARK") as PriceLinkBasis;
+  if (!TRAIL_BASES.includes(basis)) {
+    throw new Error(
+      `Unknown --trail-basis "${options.trailBasis}". Use one of: ${TRAIL_BASES.join(", ")}`
+    );
+  }
+
+  return options.limitOffset !== undefined
+    ? OrderBuilder.withTrailingStopLimit(
+        order,
+        offset,
+        parseFloat(options.limitOffset),
+        linkType,
+        basis
+      )
+    : OrderBuilder.withTrailingStop(order, offset, linkType, basis);
+}
+
 async function placeEquityOrderEffect(
   action: "BUY" | "SELL",
   symbol: string,
   quantity: number,
-  options: { limit?: string; account?: string; gtc?: boolean; yes?: boolean }
+  options: {
+    limit?: string;
+    account?: string;
+    gtc?: boolean;
+    yes?: boolean;
+  } & TrailingStopOptions
 ): Promise<void> {
   const price = options.limit ? parseFloat(options.limit) : undefined;
-  const orderType = price !== undefined ? "LIMIT" : "MARKET";
 
-  const desc = `${action} ${quantity} ${symbol} @ ${orderType}${price ? " $" + price : ""}`;
+  let order: OrderSpec;
+  try {
+    order = applyTrailingStop(
+      action === "BUY"
+        ? price !== undefined
+          ? OrderBuilder.equityBuyLimit(symbol, quantity, price)
+          : OrderBuilder.equityBuy(symbol, quantity)
+        : price !== undefined
+          ? OrderBuilder.equitySellLimit(symbol, quantity, price)
+          : OrderBuilder.equitySell(symbol, quantity),
+      options
+    );
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  if (options.gtc) {
+    order = OrderBuilder.withGTC(order);
+  }
+
+  const desc = `${action} ${quantity} ${symbol} @ ${order.orderType}${price ? " $" + price : ""}${formatTrailingStop(order)}`;
 
   if (!options.yes) {
     console.log(`\n${chalk.yellow("Order:")} ${desc}`);
@@ -282,20 +465,6 @@ async function placeEquityOrderEffect(
 
   const program = Effect.gen(function* () {
     const accountHash = yield* getAccountHashOrFirst(options.account);
-
-    let order =
-      action === "BUY"
-        ? price !== undefined
-          ? OrderBuilder.equityBuyLimit(symbol, quantity, price)
-          : OrderBuilder.equityBuy(symbol, quantity)
-        : price !== undefined
-          ? OrderBuilder.equitySellLimit(symbol, quantity, price)
-          : OrderBuilder.equitySell(symbol, quantity);
-
-    if (options.gtc) {
-      order = OrderBuilder.withGTC(order);
-    }
-
     return yield* placeOrderProgram(accountHash, order);
   });
 
@@ -386,6 +555,553 @@ async function placeOptionOrderEffect(
   });
 }
 
+async function placeBracketOrderEffect(
+  symbol: string,
+  quantity: number,
+  options: {
+    limit?: string;
+    target: string;
+    stop: string;
+    short?: boolean;
+    account?: string;
+    gtc?: boolean;
+    yes?: boolean;
+  }
+): Promise<void> {
+  const price = options.limit ? parseFloat(options.limit) : undefined;
+  const takeProfitPrice = parseFloat(options.target);
+  const stopLossPrice = parseFloat(options.stop);
+  const option = isOptionSymbol(symbol);
+
+  let action: OrderInstruction;
+  if (option) {
+    action = options.short ? "SELL_TO_OPEN" : "BUY_TO_OPEN";
+  } else if (options.short) {
+    console.error(chalk.red("Short brackets are only supported for options"));
+    process.exit(1);
+  } else {
+    action = "BUY";
+  }
+
+  let order: OrderSpec;
+  try {
+    order = OrderBuilder.bracket(
+      buildOrderSpec(
+        action,
+        symbol,
+        quantity,
+        price !== undefined ? "LIMIT" : "MARKET",
+        price,
+        options.gtc ? "GTC" : "DAY"
+      ),
+      takeProfitPrice,
+      stopLossPrice
+    );
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  const displaySymbol = option ? formatOptionSymbol(symbol) : symbol;
+  const exitAction = order.childOrderStrategies![0].childOrderStrategies![0]
+    .orderLegCollection[0].instruction;
+
+  if (!options.yes) {
+    console.log(`\n${chalk.yellow("Bracket order:")}`);
+    console.log(
+      `  Entry:       ${action.replace(/_/g, " ")} ${quantity} ${displaySymbol} @ ${price !== undefined ? "$" + price : "MARKET"}`
+    );
+    console.log(
+      `  Take profit: ${exitAction.replace(/_/g, " ")} ${quantity} @ LIMIT $${takeProfitPrice}`
+    );
+    console.log(
+      `  Stop loss:   ${exitAction.replace(/_/g, " ")} ${quantity} @ STOP $${stopLossPrice}`
+    );
+    console.log(chalk.yellow("Confirm order? (y/N): "));
+
+    const confirmed = await confirm();
+    if (!confirmed) {
+      console.log("Order canceled");
+      return;
+    }
+  }
+
+  const spinner = ora("Placing bracket order...").start();
+
+  const program = Effect.gen(function* () {
+    const accountHash = yield* getAccountHashOrFirst(options.account);
+    return yield* placeOrderProgram(accountHash, order);
+  });
+
+  const exit = await runSchwabExit(program);
+  spinner.stop();
+
+  Exit.match(exit, {
+    onFailure: (cause) => {
+      console.error(chalk.red("Order failed: " + formatCause(cause)));
+      process.exit(1);
+    },
+    onSuccess: (orderId) => {
+      console.log(chalk.green(`Bracket order placed: ${orderId}`));
+    },
+  });
+}
+
+interface SpreadOptions {
+  price?: string;
+  account?: string;
+  gtc?: boolean;
+  yes?: boolean;
+  /** Ratio and back spreads: the side the caller expects to be on */
+  credit?: boolean;
+  debit?: boolean;
+}
+
+/**
+ * Price a spread against live chain mids, show the legs, confirm and place it.
+ * `build` is called once with a provisional price to get the legs, then again
+ * with the final net price (the --price given, or the chain mid) and the side
+ * it is priced on (--credit / --debit, else the chain's).
+ */
+async function placeSpreadOrderEffect(
+  label: string,
+  build: (netPrice: number, priceType: NetPriceType) => OrderSpec,
+  options: SpreadOptions
+): Promise<void> {
+  const price = options.price !== undefined ? parseFloat(options.price) : undefined;
+  if (price !== undefined && (isNaN(price) || price < 0)) {
+    console.error(chalk.red("--price must be a non-negative number"));
+    process.exit(1);
+  }
+  if (options.credit && options.debit) {
+    console.error(chalk.red("Pass at most one of --credit and --debit"));
+    process.exit(1);
+  }
+  const requested: NetPriceType | undefined = options.credit
+    ? "NET_CREDIT"
+    : options.debit
+      ? "NET_DEBIT"
+      : undefined;
+
+  let order: OrderSpec;
+  try {
+    order = build(price ?? 0, requested ?? "NET_DEBIT");
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  const spinner = ora("Fetching live prices...").start();
+  const quotesExit = await runSchwabExit(fetchLegQuotes(order));
+  spinner.stop();
+
+  const quotes = Exit.match(quotesExit, {
+    onFailure: (cause) => {
+      console.error(chalk.yellow("Could not fetch live prices: " + formatCause(cause)));
+      return new Map<string, LegQuote>();
+    },
+    onSuccess: (quotes) => quotes,
+  });
+  const estimate = estimateNetPrice(order, quotes);
+
+  let priceType: NetPriceType;
+  try {
+    priceType = netPriceType(estimate, requested) ?? "NET_DEBIT";
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+
+  if (price === undefined) {
+    if (estimate.price === undefined || estimate.orderType === undefined) {
+      console.error(
+        chalk.red("No live mid available for every leg; pass a net price with --price")
+      );
+      process.exit(1);
+    }
+    // At the chain mid the chain also says which side of the trade it is on
+    order = { ...build(estimate.price, priceType), orderType: estimate.orderType };
+  } else {
+    order = build(price, priceType);
+  }
+  if (options.gtc) {
+    order = OrderBuilder.withGTC(order);
+  }
+
+  console.log(`\n${chalk.yellow(label + ":")}`);
+  for (const leg of estimate.legs) {
+    const display = isOptionSymbol(leg.symbol) ? formatOptionSymbol(leg.symbol) : leg.symbol;
+    console.log(
+      `  ${leg.instruction.replace(/_/g, " ").padEnd(14)} ${leg.quantity
+        .toString()
+        .padStart(5)}  ${display.padEnd(32)} ${
+        leg.mid !== undefined ? "mid $" + leg.mid.toFixed(2) : chalk.dim("no quote")
+      }`
+    );
+  }
+  if (estimate.price !== undefined) {
+    console.log(`  Chain mid:  $${estimate.price.toFixed(2)} ${estimate.orderType}`);
+  }
+  console.log(`  Order:      $${order.price!.toFixed(2)} ${order.orderType} ${order.duration}`);
+  if (
+    estimate.orderType !== undefined &&
+    estimate.orderType !== "NET_ZERO" &&
+    order.orderType !== "NET_ZERO" &&
+    estimate.orderType !== order.orderType
+  ) {
+    console.log(
+      chalk.yellow(
+        `  Warning: the chain prices this as a ${estimate.orderType}, but the order is a ${order.orderType}`
+      )
+    );
+  }
+
+  if (!options.yes) {
+    console.log(chalk.yellow("Confirm order? (y/N): "));
+
+    const confirmed = await confirm();
+    if (!confirmed) {
+      console.log("Order canceled");
+      return;
+    }
+  }
+
+  const placeSpinner = ora("Placing spread order...").start();
+
+  const program = Effect.gen(function* () {
+    const accountHash = yield* getAccountHashOrFirst(options.account);
+    return yield* placeOrderProgram(accountHash, order);
+  });
+
+  const exit = await runSchwabExit(program);
+  placeSpinner.stop();
+
+  Exit.match(exit, {
+    onFailure: (cause) => {
+      console.error(chalk.red("Order failed: " + formatCause(cause)));
+      process.exit(1);
+    },
+    onSuccess: (orderId) => {
+      console.log(chalk.green(`Spread order placed: ${orderId}`));
+    },
+  });
+}
+
+function sideOf(options: { short?: boolean }): StrategySide {
+  return options.short ? "SHORT" : "LONG";
+}
+
+function createSpreadCommand(): Command {
+  const spread = new Command("spread").description(
+    "Place multi-leg option spreads. Legs are OCC symbols or UNDERLYING:YYYY-MM-DD:C|P:STRIKE"
+  );
+
+  const withCommonOptions = (command: Command): Command =>
+    command
+      .option("-p, --price <net>", "Net debit/credit per spread (default: live chain mid)")
+      .option("-a, --account <hash>", "Account hash")
+      .option("--gtc", "Good til canceled (default: day)")
+      .option("-y, --yes", "Skip confirmation");
+
+  withCommonOptions(
+    spread
+      .command("vertical")
+      .description("Buy one option and sell another of the same type and expiration")
+      .argument("<long>", "Leg to buy")
+      .argument("<short>", "Leg to sell")
+      .argument("<quantity>", "Number of spreads")
+  ).action(async (long: string, short: string, quantity: string, opts) => {
+    await placeSpreadOrderEffect(
+      "Vertical spread",
+      (netPrice) =>
+        OrderBuilder.verticalSpread(
+          { symbol: resolveOptionSymbol(long), instruction: "BUY_TO_OPEN" },
+          { symbol: resolveOptionSymbol(short), instruction: "SELL_TO_OPEN" },
+          parseInt(quantity, 10),
+          netPrice
+        ),
+      opts
+    );
+  });
+
+  withCommonOptions(
+    spread
+      .command("iron-condor")
+      .description("Sell a put spread and a call spread for a net credit")
+      .argument("<longPut>", "Put to buy (lowest strike)")
+      .argument("<shortPut>", "Put to sell")
+      .argument("<shortCall>", "Call to sell")
+      .argument("<longCall>", "Call to buy (highest strike)")
+      .argument("<quantity>", "Number of condors")
+  ).action(
+    async (
+      longPut: string,
+      shortPut: string,
+      shortCall: string,
+      longCall: string,
+      quantity: string,
+      opts
+    ) => {
+      await placeSpreadOrderEffect(
+        "Iron condor",
+        (netPrice) =>
+          OrderBuilder.ironCondor(
+            {
+              shortPut: resolveOptionSymbol(shortPut),
+              longPut: resolveOptionSymbol(longPut),
+            },
+            {
+              shortCall: resolveOptionSymbol(shortCall),
+              longCall: resolveOptionSymbol(longCall),
+            },
+            parseInt(quantity, 10),
+            netPrice
+          ),
+        opts
+      );
+    }
+  );
+
+  withCommonOptions(
+    spread
+      .command("iron-butterfly")
+      .description("Sell a put and a call at the same strike, buy wings outside them")
+      .argument("<longPut>", "Put to buy (lower wing)")
+      .argument("<shortPut>", "Put to sell (body)")
+      .argument("<shortCall>", "Call to sell (body)")
+      .argument("<longCall>", "Call to buy (upper wing)")
+      .argument("<quantity>", "Number of butterflies")
+  ).action(
+    async (
+      longPut: string,
+      shortPut: string,
+      shortCall: string,
+      longCall: string,
+      quantity: string,
+      opts
+    ) => {
+      await placeSpreadOrderEffect(
+        "Iron butterfly",
+        (netPrice) =>
+          OrderBuilder.ironButterfly(
+            {
+              shortPut: resolveOptionSymbol(shortPut),
+              longPut: resolveOptionSymbol(longPut),
+            },
+            {
+              shortCall: resolveOptionSymbol(shortCall),
+              longCall: resolveOptionSymbol(longCall),
+            },
+            parseInt(quantity, 10),
+            netPrice
+          ),
+        opts
+      );
+    }
+  );
+
+  for (const [name, description, method] of [
+    ["straddle", "Buy (or --short sell) a call and a put at the same strike", "straddle"],
+    ["strangle", "Buy (or --short sell) an out-of-the-money call and put", "strangle"],
+  ] as const) {
+    withCommonOptions(
+      spread
+        .command(name)
+        .description(description)
+        .argument("<call>", "Call leg")
+        .argument("<put>", "Put leg")
+        .argument("<quantity>", "Number of spreads")
+        .option("--short", "Sell the strategy for a net credit")
+    ).action(async (call: string, put: string, quantity: string, opts) => {
+      await placeSpreadOrderEffect(
+        name.charAt(0).toUpperCase() + name.slice(1),
+        (netPrice) =>
+          OrderBuilder[method](
+            resolveOptionSymbol(call),
+            resolveOptionSymbol(put),
+            parseInt(quantity, 10),
+            netPrice,
+            sideOf(opts)
+          ),
+        opts
+      );
+    });
+  }
+
+  withCommonOptions(
+    spread
+      .command("butterfly")
+      .description("Buy 1 lower, sell 2 middle, buy 1 upper strike (--short reverses it)")
+      .argument("<lower>", "Lower strike leg")
+      .argument("<middle>", "Middle strike leg")
+      .argument("<upper>", "Upper strike leg")
+      .argument("<quantity>", "Number of butterflies")
+      .option("--short", "Sell the strategy for a net credit")
+  ).action(
+    async (lower: string, middle: string, upper: string, quantity: string, opts) => {
+      await placeSpreadOrderEffect(
+        "Butterfly",
+        (netPrice) =>
+          OrderBuilder.butterfly(
+            resolveOptionSymbol(lower),
+            resolveOptionSymbol(middle),
+            resolveOptionSymbol(upper),
+            parseInt(quantity, 10),
+            netPrice,
+            sideOf(opts)
+          ),
+        opts
+      );
+    }
+  );
+
+  for (const [name, label, method] of [
+    ["calendar", "Calendar spread", "calendarSpread"],
+    ["diagonal", "Diagonal spread", "diagonalSpread"],
+  ] as const) {
+    withCommonOptions(
+      spread
+        .command(name)
+        .description(
+          `${label}: sell the near expiration and buy the far one (--short reverses it)`
+        )
+        .argument("<near>", "Near-term leg")
+        .argument("<far>", "Far-term leg")
+        .argument("<quantity>", "Number of spreads")
+        .option("--short", "Sell the strategy for a net credit")
+    ).action(async (near: string, far: string, quantity: string, opts) => {
+      await placeSpreadOrderEffect(
+        label,
+        (netPrice) =>
+          OrderBuilder[method](
+            resolveOptionSymbol(near),
+            resolveOptionSymbol(far),
+            parseInt(quantity, 10),
+            netPrice,
+            sideOf(opts)
+          ),
+        opts
+      );
+    });
+  }
+
+  withCommonOptions(
+    spread
+      .command("covered-call")
+      .description("Buy 100 shares per contract and sell calls against them")
+      .argument("<stock>", "Stock symbol")
+      .argument("<call>", "Call to sell")
+      .argument("<contracts>", "Number of contracts")
+  ).action(async (stock: string, call: string, contracts: string, opts) => {
+    await placeSpreadOrderEffect(
+      "Covered call",
+      (netPrice) =>
+        OrderBuilder.coveredCall(
+          stock.toUpperCase(),
+          resolveOptionSymbol(call),
+          parseInt(contracts, 10),
+          netPrice
+        ),
+      opts
+    );
+  });
+
+  withCommonOptions(
+    spread
+      .command("collar")
+      .description("Buy 100 shares per contract, buy a put and sell a call")
+      .argument("<stock>", "Stock symbol")
+      .argument("<put>", "Put to buy")
+      .argument("<call>", "Call to sell")
+      .argument("<contracts>", "Number of contracts")
+  ).action(
+    async (stock: string, put: string, call: string, contracts: string, opts) => {
+      await placeSpreadOrderEffect(
+        "Collar",
+        (netPrice) =>
+          OrderBuilder.collar(
+            stock.toUpperCase(),
+            resolveOptionSymbol(put),
+            resolveOptionSymbol(call),
+            parseInt(contracts, 10),
+            netPrice
+          ),
+        opts
+      );
+    }
+  );
+
+  withCommonOptions(
+    spread
+      .command("ratio")
+      .description("Buy one strike and sell more contracts further out of the money")
+      .argument("<long>", "Leg to buy")
+      .argument("<short>", "Leg to sell")
+      .argument("<longQuantity>", "Contracts to buy")
+      .argument("<shortQuantity>", "Contracts to sell")
+      .option("--credit", "Expect a net credit; fails if the chain prices it as a debit")
+      .option("--debit", "Expect a net debit; fails if the chain prices it as a credit")
+  ).action(
+    async (
+      long: string,
+      short: string,
+      longQuantity: string,
+      shortQuantity: string,
+      opts
+    ) => {
+      await placeSpreadOrderEffect(
+        "Ratio spread",
+        (netPrice, priceType) =>
+          OrderBuilder.ratioSpread(
+            resolveOptionSymbol(long),
+            resolveOptionSymbol(short),
+            parseInt(longQuantity, 10),
+            parseInt(shortQuantity, 10),
+            netPrice,
+            priceType
+          ),
+        opts
+      );
+    }
+  );
+
+  withCommonOptions(
+    spread
+      .command("back-ratio")
+      .description("Sell one strike and buy more contracts further out of the money")
+      .argument("<short>", "Leg to sell")
+      .argument("<long>", "Leg to buy")
+      .argument("<shortQuantity>", "Contracts to sell")
+      .argument("<longQuantity>", "Contracts to buy")
+      .option("--credit", "Expect a net credit; fails if the chain prices it as a debit")
+      .option("--debit", "Expect a net debit; fails if the chain prices it as a credit")
+  ).action(
+    async (
+      short: string,
+      long: string,
+      shortQuantity: string,
+      longQuantity: string,
+      opts
+    ) => {
+      await placeSpreadOrderEffect(
+        "Back spread",
+        (netPrice, priceType) =>
+          OrderBuilder.backSpread(
+            resolveOptionSymbol(short),
+            resolveOptionSymbol(long),
+            parseInt(shortQuantity, 10),
+            parseInt(longQuantity, 10),
+            netPrice,
+            priceType
+          ),
+        opts
+      );
+    }
+  );
+
+  return spread;
+}
+
 export function createOrdersCommand(): Command {
   const orders = new Command("orders").description(
     "View and manage orders"
@@ -458,6 +1174,39 @@ export function createOrdersCommand(): Command {
       });
     });
 
+  orders
+    .command("watch")
+    .description("Print order events (accepted, fills, cancels, rejects, replaces) as they happen")
+    .option("--account <number>", "Only events for this account number")
+    .option("--bell", "Ring the terminal bell on fills")
+    .option("--json", "Output one JSON event per line")
+    .action(async (opts) => {
+      if (!opts.json) {
+        console.log(chalk.dim("Watching orders. Press Ctrl+C to stop.\n"));
+      }
+
+      const exit = await runSchwabExit(
+        watchOrdersProgram((event) => {
+          if (opts.account && event.accountNumber !== opts.account) {
+            return;
+          }
+          if (opts.json) {
+            console.log(JSON.stringify(event));
+            return;
+          }
+          printOrderEvent(event);
+          if (opts.bell && (event.type === "FILLED" || event.type === "PARTIAL_FILL")) {
+            process.stdout.write("\x07");
+          }
+        })
+      );
+
+      if (Exit.isFailure(exit)) {
+        console.error(chalk.red(formatCause(exit.cause)));
+        process.exit(1);
+      }
+    });
+
   orders
     .command("show")
     .description("Show order details")
@@ -634,6 +1383,17 @@ export function createOrderCommand(): Command {
     .argument("<symbol>", "Stock symbol")
     .argument("<quantity>", "Number of shares")
     .option("-l, --limit <price>", "Limit price (market order if not specified)")
+    .option("--trail <amount>", "Trailing stop offset in dollars")
+    .option("--trail-percent <percent>", "Trailing stop offset in percent")
+    .option(
+      "--trail-basis <basis>",
+      "Price the trailing stop follows (MARK, LAST, BID, ASK)",
+      "MARK"
+    )
+    .option(
+      "--limit-offset <amount>",
+      "Make it a trailing stop limit, with the limit this far from the stop"
+    )
     .option("-a, --account <hash>", "Account hash")
     .option("--gtc", "Good til canceled (default: day)")
     .option("-y, --yes", "Skip confirmation")
@@ -648,6 +1408,17 @@ export function createOrderCommand(): Command {
     .argument("<symbol>", "Stock symbol")
     .argument("<quantity>", "Number of shares")
     .option("-l, --limit <price>", "Limit price (market order if not specified)")
+    .option("--trail <amount>", "Trailing stop offset in dollars")
+    .option("--trail-percent <percent>", "Trailing stop offset in percent")
+    .option(
+      "--trail-basis <basis>",
+      "Price the trailing stop follows (MARK, LAST, BID, ASK)",
+      "MARK"
+    )
+    .option(
+      "--limit-offset <amount>",
+      "Make it a trailing stop limit, with the limit this far from the stop"
+    )
     .option("-a, --account <hash>", "Account hash")
     .option("--gtc", "Good til canceled (default: day)")
     .option("-y, --yes", "Skip confirmation")
@@ -655,6 +1426,26 @@ export function createOrderCommand(): Command {
       await placeEquityOrderEffect("SELL", symbol, parseInt(quantity, 10), opts);
     });
 
+  // Bracket (entry + OCO take-profit/stop-loss)
+  order
+    .command("bracket")
+    .description("Buy with an attached take-profit and stop-loss (one cancels the other)")
+    .argument("<symbol>", "Stock symbol or OCC option symbol")
+    .argument("<quantity>", "Number of shares or contracts")
+    .requiredOption("-t, --target <price>", "Take-profit limit price")
+    .requiredOption("-s, --stop <price>", "Stop-loss trigger price")
+    .option("-l, --limit <price>", "Entry limit price (market entry if not specified)")
+    .option("--short", "Sell to open instead of buy to open (options only)")
+    .option("-a, --account <hash>", "Account hash")
+    .option("--gtc", "Good til canceled for entry and exits (default: day)")
+    .option("-y, --yes", "Skip confirmation")
+    .action(async (symbol: string, quantity: string, opts) => {
+      await placeBracketOrderEffect(symbol, parseInt(quantity, 10), opts);
+    });
+
+  // Multi-leg option spreads
+  order.addCommand(createSpreadCommand());
+
   // Option orders subcommand
   const optionCmd = order
     .command("option")
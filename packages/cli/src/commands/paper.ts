@@ -0,0 +1,144 @@
+import { Command } from "commander";
+import chalk from "chalk";
+import ora from "ora";
+import {
+  Effect,
+  Exit,
+  AccountService,
+  runSchwabExit,
+  formatCause,
+  loadConfig,
+  saveConfig,
+  resetPaperLedger,
+  getPaperLedgerPath,
+  PAPER_ACCOUNT_HASH,
+} from "@schwab-tools/core";
+
+const getPaperAccountProgram = Effect.gen(function* () {
+  const accountService = yield* AccountService;
+  return yield* accountService.getAccount(PAPER_ACCOUNT_HASH);
+});
+
+function formatCurrency(value: number): string {
+  return (
+    "$" +
+    value.toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })
+  );
+}
+
+/**
+ * Turn paper trading on or off in the stored config
+ */
+async function setPaperTrading(enabled: boolean): Promise<void> {
+  const config = await loadConfig();
+  if (!config) {
+    console.error(chalk.red("No configuration found."));
+    console.log(`Run ${chalk.cyan("schwab auth configure")} first; paper fills use live quotes.`);
+    process.exit(1);
+  }
+  await saveConfig({ ...config, paperTrading: enabled });
+}
+
+export function createPaperCommand(): Command {
+  const paper = new Command("paper").description(
+    "Paper trading against live quotes with a local ledger"
+  );
+
+  paper
+    .command("enable")
+    .description("Route orders and account reads to the paper ledger")
+    .action(async () => {
+      await setPaperTrading(true);
+      const ledgerPath = (await loadConfig())?.paperLedgerPath;
+      console.log(chalk.green("✓ Paper trading enabled"));
+      console.log(`  Ledger: ${chalk.dim(getPaperLedgerPath({ ledgerPath }))}`);
+    });
+
+  paper
+    .command("disable")
+    .description("Send orders to the live Schwab account again")
+    .action(async () => {
+      await setPaperTrading(false);
+      console.log(chalk.yellow("Paper trading disabled: orders go to your live account"));
+    });
+
+  paper
+    .command("reset")
+    .description("Clear paper positions, orders and transactions")
+    .option("--cash <amount>", "Starting cash", "100000")
+    .action(async (options) => {
+      const startingCash = parseFloat(options.cash);
+      if (isNaN(startingCash) || startingCash < 0) {
+        console.error(chalk.red(`Invalid starting cash: ${options.cash}`));
+        process.exit(1);
+      }
+
+      const ledgerPath = (await loadConfig())?.paperLedgerPath;
+      const exit = await Effect.runPromiseExit(
+        resetPaperLedger({ ledgerPath, startingCash })
+      );
+
+      Exit.match(exit, {
+        onFailure: (cause) => {
+          console.error(chalk.red(formatCause(cause)));
+          process.exit(1);
+        },
+        onSuccess: () => {
+          console.log(chalk.green(`✓ Paper ledger reset with ${formatCurrency(startingCash)}`));
+        },
+      });
+    });
+
+  paper
+    .command("status")
+    .description("Show paper trading mode and the paper account")
+    .option("--json", "Output as JSON")
+    .action(async (options) => {
+      const config = await loadConfig();
+      const spinner = options.json ? null : ora("Loading paper account...").start();
+
+      const exit = await runSchwabExit(getPaperAccountProgram, { paperTrading: true });
+
+      spinner?.stop();
+
+      Exit.match(exit, {
+        onFailure: (cause) => {
+          console.error(chalk.red(formatCause(cause)));
+          process.exit(1);
+        },
+        onSuccess: (account) => {
+          if (options.json) {
+            console.log(JSON.stringify(account, null, 2));
+            return;
+          }
+
+          const enabled = config?.paperTrading === true;
+          console.log("\n" + chalk.bold("Paper Trading"));
+          console.log("=".repeat(60));
+          console.log(
+            `  Mode:      ${enabled ? chalk.green("enabled") : chalk.dim("disabled (use --paper per command)")}`
+          );
+          console.log(`  Ledger:    ${chalk.dim(getPaperLedgerPath({ ledgerPath: config?.paperLedgerPath }))}`);
+          console.log(`  Cash:      ${formatCurrency(account.balances.cashBalance)}`);
+          console.log(`  Equity:    ${formatCurrency(account.balances.equity)}`);
+
+          if (account.positions.length > 0) {
+            console.log("\n" + chalk.bold("Positions"));
+            for (const position of account.positions) {
+              const pl = position.unrealizedPL;
+              const plText = (pl >= 0 ? chalk.green : chalk.red)(formatCurrency(pl));
+              console.log(
+                `  ${position.symbol.padEnd(22)} ${String(position.quantity).padStart(8)}  ` +
+                  `${formatCurrency(position.averagePrice).padStart(12)}  ${plText}`
+              );
+            }
+          }
+        },
+      });
+    });
+
+  return paper;
+}
@@ -11,17 +11,35 @@ import ora from "ora";
 import {
   Effect,
   Exit,
+  Fiber,
+  Schedule,
+  Stream,
   QuoteService,
   PriceHistoryService,
+  CandleRepository,
+  RateLimiter,
+  StreamerService,
+  MARKET_DATA_BUCKET,
+  withRequestPriority,
+  bypassCache,
   runSchwabExit,
   formatCause,
+  parseIndicators,
+  computeIndicators,
+  type IndicatorSeries,
+  type IndicatorSpec,
   type Quote,
+  type EquityQuote,
+  type LevelOneEquity,
+  type RateLimitStatusShape,
   type Candle,
+  type CandleSyncResult,
   type PriceHistoryPeriod,
   type PriceHistoryFrequency,
   type QuoteField,
   type QuoteRequestParams,
 } from "@schwab-tools/core";
+import { CTRL_C, editPrompt, keypresses, liveScreen } from "../live-view.js";
 
 /**
  * Effect program to fetch quotes
@@ -29,7 +47,7 @@ import {
 const getQuotesProgram = (request: QuoteRequestParams) =>
   Effect.gen(function* () {
     const quoteService = yield* QuoteService;
-    return yield* quoteService.getQuotesByRequest(request);
+    return yield* quoteService.getQuoteResults(request);
   });
 
 /**
@@ -51,32 +69,166 @@ const getPriceHistoryProgram = (
     return yield* priceHistoryService.getPriceHistory(symbol, params);
   });
 
+/**
+ * Effect program to bring stored candle series up to date, one symbol at a time
+ */
+const syncCandlesProgram = (
+  symbols: readonly string[],
+  frequency: PriceHistoryFrequency,
+  startDate?: Date
+) =>
+  Effect.gen(function* () {
+    const repository = yield* CandleRepository;
+    return yield* Effect.forEach(symbols, (symbol) =>
+      repository.sync(symbol, frequency, startDate)
+    );
+  }).pipe(withRequestPriority("background"));
+
 function formatPrice(price: number): string {
   return price.toFixed(2);
 }
 
-function displayQuotes(quotes: readonly Quote[]): void {
+type QuoteSection = "fundamental" | "extended" | "regular";
+
+// Sections shown only when asked for with --fields
+function requestedSections(fields: readonly QuoteField[] | undefined): readonly QuoteSection[] {
+  const sections: readonly QuoteSection[] = ["fundamental", "extended", "regular"];
+  return fields?.includes("all")
+    ? sections
+    : sections.filter((section) => fields?.includes(section));
+}
+
+// Futures and currencies quote to their tick, e.g. 4 or 5 places for EUR/USD
+function priceDigits(q: Quote): number {
+  const tick = q.assetType === "FUTURE" || q.assetType === "FOREX" ? q.tickSize : undefined;
+  if (tick === undefined) {
+    return q.assetType === "FOREX" ? 4 : 2;
+  }
+  const decimals = String(tick).split(".")[1]?.length ?? 0;
+  return Math.max(2, decimals);
+}
+
+function formatDate(date: Date | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : "-";
+}
+
+function formatOptional(value: number | undefined, digits = 2): string {
+  return value === undefined ? "-" : value.toFixed(digits);
+}
+
+function formatMarketCap(value: number | undefined): string {
+  if (value === undefined) {
+    return "-";
+  }
+  const [divisor, suffix] =
+    value >= 1e12 ? [1e12, "T"] : value >= 1e9 ? [1e9, "B"] : value >= 1e6 ? [1e6, "M"] : [1, ""];
+  return `${(value / divisor).toFixed(2)}${suffix}`;
+}
+
+function displaySections(q: EquityQuote, sections: readonly QuoteSection[]): void {
+  const f = q.fundamental;
+  if (sections.includes("fundamental") && f) {
+    console.log(chalk.bold("  Fundamentals"));
+    console.log(
+      `    P/E: ${formatOptional(f.peRatio)}  EPS: ${formatOptional(f.eps)}  ` +
+        `Market cap: ${formatMarketCap(f.marketCap)}`
+    );
+    console.log(
+      `    Dividend: ${formatOptional(f.divAmount)}/yr (${formatOptional(f.divYield)}%)  ` +
+        `Ex: ${formatDate(f.divExDate)}  Paid: ${formatDate(f.divPayDate)}  ` +
+        `Next ex: ${formatDate(f.nextDivExDate)}`
+    );
+  }
+
+  const e = q.extended;
+  if (sections.includes("extended") && e) {
+    console.log(chalk.bold("  Extended hours"));
+    console.log(
+      `    Last: ${formatOptional(e.lastPrice)}  Bid: ${formatOptional(e.bidPrice)}  ` +
+        `Ask: ${formatOptional(e.askPrice)}  Volume: ${(e.totalVolume ?? 0).toLocaleString()}` +
+        (e.tradeTime ? chalk.dim(`  ${e.tradeTime.toLocaleTimeString()}`) : "")
+    );
+  }
+
+  const r = q.regular;
+  if (sections.includes("regular") && r) {
+    const change = r.netChange ?? 0;
+    const changeColor = change >= 0 ? chalk.green : chalk.red;
+    const changeSign = change >= 0 ? "+" : "";
+    console.log(chalk.bold("  Regular session"));
+    console.log(
+      `    Last: ${formatOptional(r.lastPrice)}  ` +
+        changeColor(
+          `${changeSign}${formatPrice(change)} (${changeSign}${formatOptional(r.netChangePercent)}%)`
+        )
+    );
+  }
+}
+
+function displayQuotes(
+  quotes: readonly Quote[],
+  sections: readonly QuoteSection[] = []
+): void {
   console.log("\n" + chalk.bold("Quotes"));
   console.log("=".repeat(80));
 
   for (const q of quotes) {
     const changeColor = q.netChange >= 0 ? chalk.green : chalk.red;
     const changeSign = q.netChange >= 0 ? "+" : "";
+    const digits = priceDigits(q);
+    const price = (value: number) => value.toFixed(digits);
 
     console.log(`\n${chalk.bold.cyan(q.symbol)} - ${q.description}`);
     console.log(chalk.dim("-".repeat(60)));
     console.log(
-      `  Last: ${chalk.bold(formatPrice(q.lastPrice))}  ` +
-        `${changeColor(changeSign + formatPrice(q.netChange))} (${changeColor(changeSign + q.netChangePercent.toFixed(2) + "%")})`
-    );
-    console.log(
-      `  Bid: ${formatPrice(q.bidPrice)}  Ask: ${formatPrice(q.askPrice)}  Spread: ${formatPrice(q.askPrice - q.bidPrice)}`
+      `  ${q.assetType === "INDEX" ? "Level" : "Last"}: ${chalk.bold(price(q.lastPrice))}  ` +
+        `${changeColor(changeSign + price(q.netChange))} (${changeColor(changeSign + q.netChangePercent.toFixed(2) + "%")})`
     );
+    // Indexes have no bid or ask
+    if (q.assetType !== "INDEX") {
+      console.log(
+        `  Bid: ${price(q.bidPrice)}  Ask: ${price(q.askPrice)}  Spread: ${price(q.askPrice - q.bidPrice)}`
+      );
+    }
     console.log(
-      `  Open: ${formatPrice(q.openPrice)}  High: ${formatPrice(q.highPrice)}  Low: ${formatPrice(q.lowPrice)}`
+      `  Open: ${price(q.openPrice)}  High: ${price(q.highPrice)}  Low: ${price(q.lowPrice)}`
     );
-    console.log(`  Volume: ${q.totalVolume.toLocaleString()}`);
-    console.log(`  Mark: ${formatPrice(q.mark)}`);
+    if (q.assetType !== "INDEX" || q.totalVolume > 0) {
+      console.log(`  Volume: ${q.totalVolume.toLocaleString()}`);
+    }
+    if (q.assetType !== "INDEX") {
+      console.log(`  Mark: ${price(q.mark)}`);
+    }
+    if (q.low52Week !== undefined && q.high52Week !== undefined) {
+      console.log(`  52 Week: ${price(q.low52Week)} - ${price(q.high52Week)}`);
+    }
+    if (q.securityStatus && !["Normal", "Unknown"].includes(q.securityStatus)) {
+      console.log(chalk.yellow(`  Status: ${q.securityStatus}`));
+    }
+
+    switch (q.assetType) {
+      case "INDEX":
+        break;
+      case "FUTURE":
+        console.log(
+          `  Contract: ${q.activeSymbol ?? q.symbol}  Expires: ${formatDate(q.expirationDate)}  ` +
+            `Multiplier: ${q.multiplier ?? "-"}`
+        );
+        console.log(
+          `  Tick: ${q.tickSize ?? "-"}` +
+            (q.tickAmount !== undefined ? ` ($${q.tickAmount.toFixed(2)})` : "") +
+            `  Settlement: ${q.settlementPrice !== undefined ? price(q.settlementPrice) : "-"}` +
+            `  Open interest: ${q.openInterest?.toLocaleString() ?? "-"}`
+        );
+        break;
+      case "FOREX":
+        if (q.tradingHours) {
+          console.log(chalk.dim(`  Hours: ${q.tradingHours}`));
+        }
+        break;
+      default:
+        displaySections(q, sections);
+    }
   }
 
   console.log();
@@ -140,6 +292,319 @@ function displayCandles(
   console.log();
 }
 
+function displayIndicators(indicators: Record<string, IndicatorSeries>): void {
+  console.log(chalk.bold("Indicators (latest candle)"));
+  const entries = Object.entries(indicators);
+  const width = Math.max(...entries.map(([label]) => label.length)) + 2;
+  let warmingUp = false;
+  for (const [label, series] of entries) {
+    const latest = series.at(-1);
+    warmingUp ||= latest === undefined;
+    console.log(`  ${label.padEnd(width)}${latest === undefined ? "-" : latest.toFixed(2)}`);
+  }
+  if (warmingUp) {
+    console.log(chalk.dim("  - needs more candles; try a longer --period"));
+  }
+  console.log();
+}
+
+// ============================================================================
+// Watch mode
+// ============================================================================
+
+type WatchColumn = "bid" | "ask" | "last" | "volume" | "change" | "changePercent";
+type WatchRow = Partial<Record<WatchColumn, number>>;
+
+const WATCH_COLUMNS: readonly {
+  readonly key: WatchColumn;
+  readonly label: string;
+  readonly width: number;
+  readonly format: (value: number) => string;
+}[] = [
+  { key: "bid", label: "Bid", width: 10, format: formatPrice },
+  { key: "ask", label: "Ask", width: 10, format: formatPrice },
+  { key: "last", label: "Last", width: 10, format: formatPrice },
+  { key: "volume", label: "Volume", width: 14, format: (value) => value.toLocaleString() },
+  {
+    key: "change",
+    label: "Change",
+    width: 10,
+    format: (value) => (value >= 0 ? "+" : "") + formatPrice(value),
+  },
+  {
+    key: "changePercent",
+    label: "Change %",
+    width: 10,
+    format: (value) => (value >= 0 ? "+" : "") + value.toFixed(2) + "%",
+  },
+];
+
+// How long a changed cell stays highlighted
+const HIGHLIGHT_MS = 1500;
+const REDRAW_MS = 250;
+// Polling may use at most this share of the market data rate limit
+const POLL_BUDGET_SHARE = 0.25;
+
+interface WatchState {
+  symbols: string[];
+  readonly rows: Map<string, WatchRow>;
+  /** Last change per `symbol:column`, for highlighting */
+  readonly changes: Map<string, { readonly at: number; readonly up: boolean }>;
+  source: "streaming" | "polling";
+  sourceDetail: string;
+  prompt?: { readonly action: "add" | "remove"; readonly text: string };
+  message?: string;
+}
+
+const rowFromQuote = (quote: Quote): WatchRow => ({
+  bid: quote.bidPrice,
+  ask: quote.askPrice,
+  last: quote.lastPrice,
+  volume: quote.totalVolume,
+  change: quote.netChange,
+  changePercent: quote.netChangePercent,
+});
+
+const rowFromLevelOne = (update: LevelOneEquity): WatchRow => ({
+  bid: update.bidPrice,
+  ask: update.askPrice,
+  last: update.lastPrice,
+  volume: update.totalVolume,
+  change: update.netChange,
+  changePercent: update.netPercentChange,
+});
+
+const applyRow = (state: WatchState, symbol: string, row: WatchRow): void => {
+  const previous = state.rows.get(symbol) ?? {};
+  const next: WatchRow = { ...previous };
+  const now = Date.now();
+  for (const { key } of WATCH_COLUMNS) {
+    const value = row[key];
+    if (value === undefined) {
+      continue;
+    }
+    const before = previous[key];
+    if (before !== undefined && before !== value) {
+      state.changes.set(`${symbol}:${key}`, { at: now, up: value > before });
+    }
+    next[key] = value;
+  }
+  state.rows.set(symbol, next);
+};
+
+/**
+ * Delay before the next poll: the requested interval, stretched so polling
+ * stays within its share of the market data bucket and past any 429 pause
+ */
+const pollDelayMs = (intervalMs: number, status: RateLimitStatusShape): number => {
+  const bucket = status.buckets.find((b) => b.bucket === MARKET_DATA_BUCKET);
+  if (!bucket) {
+    return intervalMs;
+  }
+  const budgetMs = Math.ceil(60_000 / Math.max(1, bucket.limit * POLL_BUDGET_SHARE));
+  const pausedMs = bucket.pausedUntil ? bucket.pausedUntil.getTime() - Date.now() : 0;
+  return Math.max(intervalMs, budgetMs, pausedMs);
+};
+
+const parseSymbols = (text: string): string[] =>
+  text
+    .split(/[\s,]+/)
+    .map((symbol) => symbol.trim().toUpperCase())
+    .filter(Boolean);
+
+function renderWatch(state: WatchState): string[] {
+  const now = Date.now();
+  const lines: string[] = [];
+
+  lines.push(
+    chalk.bold(`Watching ${state.symbols.length} symbol${state.symbols.length === 1 ? "" : "s"}`) +
+      chalk.dim(` · ${state.sourceDetail} · ${new Date().toLocaleTimeString()}`)
+  );
+  lines.push("");
+  lines.push(
+    chalk.dim(
+      "Symbol".padEnd(10) + WATCH_COLUMNS.map((c) => c.label.padStart(c.width)).join("")
+    )
+  );
+  lines.push(chalk.dim("-".repeat(10 + WATCH_COLUMNS.reduce((sum, c) => sum + c.width, 0))));
+
+  for (const symbol of state.symbols) {
+    const row = state.rows.get(symbol);
+    let line = chalk.bold.cyan(symbol.padEnd(10));
+    for (const column of WATCH_COLUMNS) {
+      const value = row?.[column.key];
+      const text = (value === undefined ? "-" : column.format(value)).padStart(column.width);
+      const change = state.changes.get(`${symbol}:${column.key}`);
+      if (change && now - change.at < HIGHLIGHT_MS) {
+        line += change.up ? chalk.bgGreen.black(text) : chalk.bgRed.white(text);
+      } else if (column.key.startsWith("change") && value !== undefined) {
+        line += value >= 0 ? chalk.green(text) : chalk.red(text);
+      } else {
+        line += text;
+      }
+    }
+    lines.push(line);
+  }
+
+  lines.push("");
+  if (state.message) {
+    lines.push(chalk.yellow(state.message));
+  }
+  if (state.prompt) {
+    const label = state.prompt.action === "add" ? "Add symbols" : "Remove symbols";
+    lines.push(
+      `${label}: ${state.prompt.text}` +
+        chalk.inverse(" ") +
+        chalk.dim("  (Enter to apply, Esc to cancel)")
+    );
+  } else {
+    lines.push(chalk.dim("[a] add  [d] remove  [q] quit"));
+  }
+  return lines;
+}
+
+/**
+ * Live quote table. Streams level one quotes when the streamer is available,
+ * otherwise polls getQuotes in the background priority lane.
+ */
+const watchQuotesProgram = (
+  initialSymbols: readonly string[],
+  options: { readonly intervalMs: number; readonly poll: boolean }
+) =>
+  Effect.scoped(
+    Effect.gen(function* () {
+      const quoteService = yield* QuoteService;
+      const streamer = yield* StreamerService;
+      const rateLimiter = yield* RateLimiter;
+      const screen = yield* liveScreen;
+
+      const state: WatchState = {
+        symbols: [...new Set(initialSymbols.map((symbol) => symbol.toUpperCase()))],
+        rows: new Map(),
+        changes: new Map(),
+        source: "streaming",
+        sourceDetail: "connecting to streamer...",
+      };
+      yield* screen.draw(renderWatch(state));
+
+      // An empty subscription waits for login without subscribing to anything
+      const streaming = options.poll
+        ? false
+        : yield* streamer.add("LEVELONE_EQUITIES", []).pipe(
+            Effect.as(true),
+            Effect.catchAll((error) =>
+              Effect.sync(() => {
+                state.message = `Streaming unavailable, polling instead: ${error.message}`;
+                return false;
+              })
+            )
+          );
+
+      // Each symbol gets its own stream so removing one leaves the others
+      const streams = new Map<string, Fiber.RuntimeFiber<void>>();
+      const startSymbol = (symbol: string) =>
+        streaming
+          ? streamer.levelOneEquities([symbol]).pipe(
+              Stream.runForEach((update) =>
+                Effect.sync(() => applyRow(state, symbol, rowFromLevelOne(update)))
+              ),
+              Effect.catchAll((error) =>
+                Effect.sync(() => {
+                  state.message = `${symbol}: ${error.message}`;
+                })
+              ),
+              Effect.forkScoped,
+              Effect.tap((fiber) => Effect.sync(() => streams.set(symbol, fiber))),
+              Effect.asVoid
+            )
+          : Effect.void;
+      const stopSymbol = (symbol: string) =>
+        Effect.suspend(() => {
+          const fiber = streams.get(symbol);
+          streams.delete(symbol);
+          return fiber ? Fiber.interrupt(fiber) : Effect.void;
+        });
+
+      if (streaming) {
+        yield* Effect.forEach(state.symbols, startSymbol, { discard: true });
+      } else {
+        state.source = "polling";
+        // Reads the symbol list each round, so adds and removes need no restart
+        yield* Effect.gen(function* () {
+          if (state.symbols.length > 0) {
+            // Each poll wants fresh quotes, not the cached ones
+            yield* withRequestPriority("background")(
+              bypassCache(quoteService.getQuotes(state.symbols))
+            ).pipe(
+              Effect.match({
+                onFailure: (error) => {
+                  state.message = `Poll failed: ${error.message}`;
+                },
+                onSuccess: (quotes) => {
+                  quotes.forEach((quote) => applyRow(state, quote.symbol, rowFromQuote(quote)));
+                },
+              })
+            );
+          }
+          const delayMs = pollDelayMs(options.intervalMs, yield* rateLimiter.getStatus);
+          state.sourceDetail = `polling every ${(delayMs / 1000).toFixed(1)}s`;
+          yield* Effect.sleep(delayMs);
+        }).pipe(Effect.forever, Effect.forkScoped);
+      }
+
+      yield* Effect.gen(function* () {
+        if (state.source === "streaming") {
+          const status = yield* streamer.status;
+          state.sourceDetail =
+            `streaming (${status.state}` +
+            (status.reconnects > 0 ? `, ${status.reconnects} reconnects` : "") +
+            ")";
+        }
+        yield* screen.draw(renderWatch(state));
+      }).pipe(Effect.repeat(Schedule.spaced(REDRAW_MS)), Effect.forkScoped);
+
+      const applyPrompt = (action: "add" | "remove", text: string) =>
+        Effect.gen(function* () {
+          const symbols = parseSymbols(text);
+          if (action === "add") {
+            const added = symbols.filter((symbol) => !state.symbols.includes(symbol));
+            state.symbols = [...state.symbols, ...added];
+            yield* Effect.forEach(added, startSymbol, { discard: true });
+          } else {
+            state.symbols = state.symbols.filter((symbol) => !symbols.includes(symbol));
+            symbols.forEach((symbol) => state.rows.delete(symbol));
+            yield* Effect.forEach(symbols, stopSymbol, { discard: true });
+          }
+        });
+
+      // Runs until q or Ctrl+C; closing the scope stops the streams
+      yield* keypresses.pipe(
+        Stream.runForEachWhile((key) =>
+          Effect.gen(function* () {
+            if (key === CTRL_C) {
+              return false;
+            }
+            if (state.prompt) {
+              const edited = editPrompt(state.prompt.text, key);
+              const action = state.prompt.action;
+              state.prompt = edited.done ? undefined : { action, text: edited.text };
+              if (edited.done === "submit") {
+                yield* applyPrompt(action, edited.text);
+              }
+            } else if (key === "q") {
+              return false;
+            } else if (key === "a" || key === "d") {
+              state.message = undefined;
+              state.prompt = { action: key === "a" ? "add" : "remove", text: "" };
+            }
+            yield* screen.draw(renderWatch(state));
+            return true;
+          })
+        )
+      );
+    })
+  );
+
 export function createQuoteCommand(): Command {
   const quote = new Command("quote")
     .description("Get stock/ETF quotes")
@@ -156,7 +621,28 @@ export function createQuoteCommand(): Command {
     )
     .option("--realtime", "Advisor-token-only realtime quote request")
     .option("--json", "Output as JSON")
+    .option("-w, --watch", "Keep a live table open (streaming, or polling as a fallback)")
+    .option("--poll", "With --watch, poll quotes instead of streaming")
+    .option("--interval <seconds>", "With --watch, seconds between polls", "5")
     .action(async (symbols: string[], options) => {
+      if (options.watch) {
+        if (symbols.length === 0) {
+          console.error(chalk.red("Provide symbols to watch."));
+          process.exit(1);
+        }
+        const exit = await runSchwabExit(
+          watchQuotesProgram(symbols, {
+            intervalMs: Math.max(1, Number(options.interval) || 5) * 1000,
+            poll: Boolean(options.poll),
+          })
+        );
+        if (Exit.isFailure(exit)) {
+          console.error(chalk.red(formatCause(exit.cause)));
+          process.exit(1);
+        }
+        return;
+      }
+
       const spinner = ora("Fetching quotes...").start();
       const fields = options.fields
         ? (options.fields
@@ -203,11 +689,18 @@ export function createQuoteCommand(): Command {
           console.error(chalk.red(formatCause(cause)));
           process.exit(1);
         },
-        onSuccess: (quotes) => {
+        onSuccess: ({ quotes, unresolved }) => {
+          if (unresolved.length > 0) {
+            const color = quotes.length === 0 ? chalk.red : chalk.yellow;
+            console.error(color(`No quote for: ${unresolved.join(", ")}`));
+            if (quotes.length === 0) {
+              process.exit(1);
+            }
+          }
           if (options.json) {
             console.log(JSON.stringify(quotes, null, 2));
           } else {
-            displayQuotes(quotes);
+            displayQuotes(quotes, requestedSections(fields));
           }
         },
       });
@@ -216,6 +709,17 @@ export function createQuoteCommand(): Command {
   return quote;
 }
 
+function displaySyncResult(result: CandleSyncResult): void {
+  const range = `${formatDate(result.first)} to ${formatDate(result.last)}`;
+  console.log(
+    `${chalk.bold(result.symbol)} ${result.frequency}: ${result.candles} candles, ` +
+      `${chalk.green(`${result.added} new`)} (${range})`
+  );
+  if (result.readjusted) {
+    console.log(chalk.yellow("  Prices were re-adjusted (split); the series was downloaded again"));
+  }
+}
+
 export function createHistoryCommand(): Command {
   const history = new Command("history")
     .description("Get price history")
@@ -234,8 +738,21 @@ export function createHistoryCommand(): Command {
     .option("--end <isoDate>", "End date/time in ISO-8601 format")
     .option("--extended-hours", "Include extended-hours candles")
     .option("--previous-close", "Request previous close values")
+    .option(
+      "--indicators <list>",
+      "Comma-separated indicators: sma, ema, rsi, macd, bbands, atr, vwap, stoch, obv, hv " +
+        "(a number sets the period, e.g. sma50,rsi14)"
+    )
     .option("--json", "Output as JSON")
     .action(async (symbol: string, options) => {
+      let indicators: IndicatorSpec[];
+      try {
+        indicators = options.indicators ? parseIndicators(options.indicators) : [];
+      } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+      }
+
       const spinner = ora(`Fetching price history for ${symbol}...`).start();
 
       const exit = await runSchwabExit(
@@ -257,14 +774,53 @@ export function createHistoryCommand(): Command {
           process.exit(1);
         },
         onSuccess: (candles) => {
+          const values =
+            indicators.length > 0
+              ? computeIndicators(candles, indicators, options.freq as PriceHistoryFrequency)
+              : undefined;
           if (options.json) {
-            console.log(JSON.stringify(candles, null, 2));
+            const output = values ? { candles, indicators: values } : candles;
+            console.log(JSON.stringify(output, null, 2));
           } else {
             displayCandles(symbol, candles, options.period, options.freq);
+            if (values) {
+              displayIndicators(values);
+            }
           }
         },
       });
     });
 
+  history
+    .command("sync")
+    .description("Download price history into the local candle store (~/.schwab-tools/candles)")
+    .argument("<symbols...>", "Symbols to backfill")
+    .option("-f, --freq <frequency>", "Candle frequency (1min, 5min, ..., 1d, 1w, 1mo)", "1d")
+    .option(
+      "--from <isoDate>",
+      "Backfill from this date (default: 20 years for daily and longer bars, 10 days for minutes)"
+    )
+    .action(async (symbols: string[], options) => {
+      const spinner = ora(`Syncing ${symbols.length} symbol(s)...`).start();
+
+      const exit = await runSchwabExit(
+        syncCandlesProgram(
+          symbols,
+          options.freq as PriceHistoryFrequency,
+          options.from ? new Date(options.from) : undefined
+        )
+      );
+
+      spinner.stop();
+
+      Exit.match(exit, {
+        onFailure: (cause) => {
+          console.error(chalk.red(formatCause(cause)));
+          process.exit(1);
+        },
+        onSuccess: (results) => results.forEach(displaySyncResult),
+      });
+    });
+
   return history;
 }
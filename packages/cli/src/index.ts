@@ -6,23 +6,34 @@ import { createQuoteCommand, createHistoryCommand } from './commands/quote.js';
 import { createOptionsCommand } from './commands/options.js';
 import { createMarketCommand } from './commands/market.js';
 import { createOrdersCommand, createOrderCommand } from './commands/orders.js';
+import { createPaperCommand } from './commands/paper.js';
+import { createBookCommand } from './commands/book.js';
 
 const program = new Command();
 
 program
   .name('schwab')
   .description('Schwab API command-line tools')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--paper', 'Use the local paper trading ledger for orders and accounts')
+  .hook('preAction', (thisCommand) => {
+    // Config resolution reads the environment, so every command picks this up
+    if (thisCommand.opts().paper) {
+      process.env.SCHWAB_PAPER_TRADING = '1';
+    }
+  });
 
 // Add commands
 program.addCommand(createAuthCommand());
 program.addCommand(createAccountsCommand());
 program.addCommand(createQuoteCommand());
+program.addCommand(createBookCommand());
 program.addCommand(createHistoryCommand());
 program.addCommand(createOptionsCommand());
 program.addCommand(createMarketCommand());
 program.addCommand(createOrdersCommand());
 program.addCommand(createOrderCommand());
+program.addCommand(createPaperCommand());
 
 // Parse and execute
 program.parse(process.argv);
@@ -0,0 +1,72 @@
+/**
+ * Terminal helpers for views that redraw in place until the user quits.
+ */
+import { Effect, Stream } from "@schwab-tools/core";
+
+/** Ctrl+C as delivered in raw mode */
+export const CTRL_C = "\u0003";
+
+/**
+ * Keys typed on stdin, one character at a time. Raw mode is switched on
+ * while the stream runs so keys arrive without Enter, which means Ctrl+C
+ * arrives as a key (`CTRL_C`) rather than a signal.
+ */
+export const keypresses: Stream.Stream<string> = Stream.async<string>((emit) => {
+  const stdin = process.stdin;
+  const onData = (data: Buffer) => {
+    for (const char of data.toString("utf8")) {
+      void emit.single(char);
+    }
+  };
+
+  if (stdin.isTTY) {
+    stdin.setRawMode(true);
+  }
+  stdin.resume();
+  stdin.on("data", onData);
+
+  return Effect.sync(() => {
+    stdin.off("data", onData);
+    if (stdin.isTTY) {
+      stdin.setRawMode(false);
+    }
+    stdin.pause();
+  });
+});
+
+/**
+ * Takes over the screen for the scope: hides the cursor and restores it
+ * when the view closes. Each `draw` replaces everything on screen.
+ */
+export const liveScreen = Effect.acquireRelease(
+  Effect.sync(() => {
+    process.stdout.write("\x1b[?25l");
+    return {
+      draw: (lines: readonly string[]) =>
+        Effect.sync(() => {
+          process.stdout.write("\x1b[H\x1b[2J" + lines.join("\n") + "\n");
+        }),
+    };
+  }),
+  () => Effect.sync(() => process.stdout.write("\x1b[?25h\n"))
+);
+
+/**
+ * Line editor for a prompt typed into a live view: returns the new text, or
+ * `{ done }` when Enter or Escape ends the prompt.
+ */
+export const editPrompt = (
+  text: string,
+  key: string
+): { readonly text: string; readonly done?: "submit" | "cancel" } => {
+  if (key === "\r" || key === "\n") {
+    return { text, done: "submit" };
+  }
+  if (key === "\x1b") {
+    return { text, done: "cancel" };
+  }
+  if (key === "\x7f" || key === "\b") {
+    return { text: text.slice(0, -1) };
+  }
+  return key >= " " ? { text: text + key } : { text };
+};
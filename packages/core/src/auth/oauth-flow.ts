@@ -96,7 +96,7 @@ export async function exchangeCodeForTokens(
     code_verifier: codeVerifier,
   });
 
-  const response = await fetch(SCHWAB_TOKEN_URL, {
+  const response = await fetch(config.tokenUrl ?? SCHWAB_TOKEN_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -124,7 +124,7 @@ export async function refreshAccessToken(
     refresh_token: refreshToken,
   });
 
-  const response = await fetch(SCHWAB_TOKEN_URL, {
+  const response = await fetch(config.tokenUrl ?? SCHWAB_TOKEN_URL, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
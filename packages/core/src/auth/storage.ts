@@ -13,6 +13,13 @@ export interface StoredConfig {
   clientSecret: string;
   callbackPort?: number;
   callbackUrl?: string;
+  baseUrl?: string;
+  tokenUrl?: string;
+  orderRequestsPerMinute?: number;
+  paperTrading?: boolean;
+  paperLedgerPath?: string;
+  cache?: boolean;
+  cacheDir?: string;
 }
 
 async function ensureConfigDir(): Promise<void> {
@@ -33,6 +33,7 @@ export class SchwabTokenManager implements TokenManager {
       clientSecret: config?.clientSecret || storedConfig?.clientSecret || process.env.SCHWAB_CLIENT_SECRET || '',
       callbackPort: config?.callbackPort || storedConfig?.callbackPort || 443,
       callbackUrl: config?.callbackUrl || storedConfig?.callbackUrl || process.env.SCHWAB_CALLBACK_URL || 'https://127.0.0.1',
+      tokenUrl: config?.tokenUrl || process.env.SCHWAB_TOKEN_URL || storedConfig?.tokenUrl,
     };
 
     if (!finalConfig.clientId || !finalConfig.clientSecret) {
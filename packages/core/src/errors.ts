@@ -43,6 +43,16 @@ export class ApiError extends Data.TaggedError("ApiError")<{
   readonly body?: unknown;
 }> {}
 
+/**
+ * 403 from the Schwab API: the credentials are valid but not entitled to the
+ * resource (account not linked, market data or trading permission missing)
+ */
+export class ForbiddenError extends Data.TaggedError("ForbiddenError")<{
+  readonly endpoint: string;
+  readonly method: string;
+  readonly message: string;
+}> {}
+
 /**
  * Rate limit exceeded error
  */
@@ -136,6 +146,23 @@ export class FileSystemError extends Data.TaggedError("FileSystemError")<{
   readonly cause?: unknown;
 }> {}
 
+/**
+ * Streamer (WebSocket) errors
+ */
+export type StreamerErrorCode =
+  | "NOT_AVAILABLE"
+  | "CONNECTION"
+  | "LOGIN_DENIED"
+  | "COMMAND_FAILED"
+  | "NOT_ENTITLED"
+  | "TIMEOUT";
+
+export class StreamerError extends Data.TaggedError("StreamerError")<{
+  readonly code: StreamerErrorCode;
+  readonly message: string;
+  readonly cause?: unknown;
+}> {}
+
 /**
  * Union type for all Schwab client errors
  */
@@ -143,6 +170,7 @@ export type SchwabClientError =
   | AuthError
   | TokenExpiredError
   | ApiError
+  | ForbiddenError
   | RateLimitError
   | NetworkError
   | ValidationError
@@ -151,5 +179,6 @@ export type SchwabClientError =
   | OrderNotFoundError
   | SymbolNotFoundError
   | OrderRejectedError
+  | StreamerError
   | ConfigError
   | FileSystemError;
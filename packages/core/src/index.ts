@@ -1,5 +1,5 @@
 // Re-export Effect
-export { Effect, Exit, Layer, Context, Data, Ref, Schedule, Schema } from "effect";
+export { Effect, Exit, Fiber, Layer, Context, Data, Ref, Schedule, Schema, Stream } from "effect";
 
 // Errors
 export * from "./errors.js";
@@ -20,13 +20,16 @@ export {
   RateLimiter,
   type RateLimiterShape,
   type RateLimitStatusShape,
+  type RateLimitBucketStatusShape,
   HttpClient,
   type HttpClientShape,
   type RequestConfig,
+  type RequestPriority,
   AccountService,
   type AccountServiceShape,
   QuoteService,
   type QuoteServiceShape,
+  type QuoteResults,
   PriceHistoryService,
   type PriceHistoryServiceShape,
   MoverService,
@@ -39,20 +42,97 @@ export {
   type UserPreferenceServiceShape,
   OrderService,
   type OrderServiceShape,
+  StreamerService,
+  type StreamerServiceShape,
+  type StreamerDataItemShape,
+  type StreamerStatusShape,
+  OrderEventService,
+  type OrderEventServiceShape,
+  CandleStore,
+  type CandleStoreShape,
+  CandleRepository,
+  type CandleRepositoryShape,
+  type CandleSyncResult,
 } from "./services/index.js";
 
 // Layers
 export {
   SchwabServicesLive,
   type SchwabServices,
+  type SchwabServicesOverrides,
   type AllErrors,
 } from "./layers/live.js";
 export * from "./layers/test.js";
 
+// Paper trading (local ledger in place of live orders and accounts)
+export {
+  PaperTradingLive,
+  resetPaperLedger,
+  getPaperLedgerPath,
+  PAPER_ACCOUNT_NUMBER,
+  PAPER_ACCOUNT_HASH,
+  type PaperTradingOptions,
+} from "./services/paper-trading.js";
+
+// Rate limit buckets (market data, trader reads, order writes per account)
+// and priority lanes within each bucket
+export {
+  rateLimitBucket,
+  withRequestPriority,
+  currentRequestPriority,
+  MARKET_DATA_BUCKET,
+  TRADER_BUCKET,
+} from "./services/rate-limiter.js";
+
+// Streamer (WebSocket market data)
+export { StreamerServiceLive, type StreamerOptions } from "./services/streamer.js";
+
+// Order events (account activity stream, or polling)
+export {
+  OrderEventServiceLive,
+  diffOrders,
+  type OrderEventOptions,
+} from "./services/order-events.js";
+
+// Candle store (rolling one-minute bars per symbol)
+export {
+  CandleStoreLive,
+  mergeCandles,
+  type CandleStoreOptions,
+} from "./services/candle-store.js";
+
+// Candle repository (price history stored on disk, synced incrementally)
+export {
+  CandleRepositoryLive,
+  candleSeriesFile,
+  type CandleRepositoryOptions,
+} from "./services/candle-repository.js";
+
+// Market data response cache
+export {
+  CachedHttpClient,
+  bypassCache,
+  cacheClass,
+  DEFAULT_CACHE_TTLS,
+  type CacheOptions,
+  type CacheClass,
+} from "./services/http-cache.js";
+
+// HTTP cassettes (record with `recordCassette`, replay with HttpClientReplay)
+export {
+  loadCassette,
+  type Cassette,
+  type CassetteInteraction,
+  type CassetteRequest,
+  type CassetteResponse,
+} from "./services/cassette.js";
+
 // Runtime helpers
 export {
   runSchwab,
   runSchwabExit,
+  keepSchwabServices,
+  type SchwabServicesSource,
   handleExit,
   formatError,
   formatCause,
@@ -71,18 +151,55 @@ export {
   type StoredConfig,
 } from "./auth/index.js";
 
-// Utilities (option symbols, order builder)
+// Utilities (option symbols, order builder, spread pricing, order book, indicators)
 export {
   buildOptionSymbol,
   parseOptionSymbol,
   formatOptionSymbol,
   isOptionSymbol,
+  resolveOptionSymbol,
+  toStreamerOptionSymbol,
   OrderBuilder,
+  estimateNetPrice,
+  netPriceType,
+  fetchLegQuotes,
+  strategyLegWeights,
+  emptyOrderBook,
+  applyBookSnapshot,
+  bookSpread,
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollingerBands,
+  atr,
+  vwap,
+  stochastic,
+  obv,
+  historicalVolatility,
+  parseIndicators,
+  indicatorLabel,
+  computeIndicators,
+  INDICATOR_NAMES,
+  PERIODS_PER_YEAR,
+  type IndicatorName,
+  type IndicatorSpec,
+  type IndicatorSeries,
+  type MacdResult,
+  type BollingerBandsResult,
+  type StochasticResult,
+  type OrderBook,
+  type OrderBookLevel,
+  type NetPriceType,
+  type LegQuote,
+  type LegPriceEstimate,
+  type NetPriceEstimate,
   type OptionSymbolParams,
   type OrderSpec,
   type OrderLeg,
   type OrderInstruction,
   type LegSpec,
+  type StrategySide,
 } from "./utils/index.js";
 
 // Legacy types (for compatibility)
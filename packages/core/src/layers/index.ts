@@ -12,6 +12,12 @@ export {
   PriceHistoryServiceLive,
   OptionChainServiceLive,
   OrderServiceLive,
+  PaperTradingLive,
+  StreamerServiceLive,
+  OrderEventServiceLive,
+  CandleStoreLive,
+  CandleRepositoryLive,
+  CachedHttpClient,
   type SchwabServices,
 } from "./live.js";
 
@@ -23,6 +29,7 @@ export {
   TokenManagerTest,
   RateLimiterTest,
   HttpClientTest,
+  HttpClientReplay,
   AccountServiceTest,
   QuoteServiceTest,
   PriceHistoryServiceTest,
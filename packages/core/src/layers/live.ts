@@ -1,4 +1,4 @@
-import { Layer } from "effect";
+import { Effect, Layer } from "effect";
 import {
   SchwabConfig,
   TokenStorage,
@@ -13,6 +13,10 @@ import {
   OptionChainService,
   UserPreferenceService,
   OrderService,
+  StreamerService,
+  OrderEventService,
+  CandleStore,
+  CandleRepository,
 } from "../services/index.js";
 import { ConfigLive, type ConfigOptions } from "../services/config.js";
 import { TokenStorageLive } from "../services/token-storage.js";
@@ -26,6 +30,12 @@ import { MoverServiceLive, InstrumentServiceLive } from "../services/market-tool
 import { OptionChainServiceLive } from "../services/options.js";
 import { UserPreferenceServiceLive } from "../services/user-preferences.js";
 import { OrderServiceLive } from "../services/orders.js";
+import { PaperTradingLive } from "../services/paper-trading.js";
+import { StreamerServiceLive } from "../services/streamer.js";
+import { OrderEventServiceLive } from "../services/order-events.js";
+import { CandleStoreLive } from "../services/candle-store.js";
+import { CandleRepositoryLive } from "../services/candle-repository.js";
+import { CachedHttpClient } from "../services/http-cache.js";
 import type { ConfigError, FileSystemError, SchwabClientError } from "../errors.js";
 
 /**
@@ -49,22 +59,77 @@ export type SchwabServices =
   | InstrumentService
   | OptionChainService
   | UserPreferenceService
-  | OrderService;
+  | OrderService
+  | StreamerService
+  | OrderEventService
+  | CandleStore
+  | CandleRepository;
 
 /**
- * Domain services layer (depends on HTTP client)
+ * Market data services layer (depends on HTTP client)
  */
-const DomainServicesLive = Layer.mergeAll(
-  AccountServiceLive,
+const MarketServicesLive = Layer.mergeAll(
   QuoteServiceLive,
   PriceHistoryServiceLive,
   MoverServiceLive,
   InstrumentServiceLive,
   OptionChainServiceLive,
-  UserPreferenceServiceLive,
+  UserPreferenceServiceLive
+);
+
+/**
+ * HTTP client for market data services: cached unless `cache` is off
+ */
+const MarketDataHttpClientLive = Layer.unwrapEffect(
+  Effect.map(
+    SchwabConfig,
+    (config): Layer.Layer<HttpClient, never, HttpClient> =>
+      config.cache === false
+        ? Layer.effect(HttpClient, HttpClient)
+        : CachedHttpClient({ dir: config.cacheDir })
+  )
+);
+
+/**
+ * Domain services layer (depends on HTTP client)
+ */
+const DomainServicesLive = Layer.mergeAll(
+  MarketServicesLive,
+  AccountServiceLive,
   OrderServiceLive
 );
 
+/**
+ * Account and order services: the Schwab API, or the local paper trading
+ * ledger when `paperTrading` is configured
+ */
+const TradingServicesLive = Layer.unwrapEffect(
+  Effect.map(
+    SchwabConfig,
+    (
+      config
+    ): Layer.Layer<
+      AccountService | OrderService,
+      FileSystemError,
+      QuoteService | HttpClient
+    > =>
+      config.paperTrading
+        ? PaperTradingLive({ ledgerPath: config.paperLedgerPath })
+        : Layer.merge(AccountServiceLive, OrderServiceLive)
+  )
+);
+
+/**
+ * Layers SchwabServicesLive uses in place of its own, e.g. to keep tests
+ * away from ~/.schwab-tools
+ */
+export interface SchwabServicesOverrides {
+  /** Config instead of the one resolved from options, env and config.json */
+  readonly config?: Layer.Layer<SchwabConfig, ConfigError>;
+  /** Token storage instead of ~/.schwab-tools/tokens.json */
+  readonly tokenStorage?: Layer.Layer<TokenStorage>;
+}
+
 /**
  * Complete live layer with all services
  *
@@ -81,11 +146,12 @@ const DomainServicesLive = Layer.mergeAll(
  * ```
  */
 export const SchwabServicesLive = (
-  options: ConfigOptions = {}
+  options: ConfigOptions = {},
+  overrides: SchwabServicesOverrides = {}
 ): Layer.Layer<SchwabServices, ConfigError | FileSystemError> => {
   // Config and storage are independent
-  const configLayer = ConfigLive(options);
-  const storageLayer = TokenStorageLive;
+  const configLayer = overrides.config ?? ConfigLive(options);
+  const storageLayer = overrides.tokenStorage ?? TokenStorageLive;
 
   // Token manager depends on config and storage
   const tokenManagerLayer = TokenManagerLive.pipe(
@@ -103,11 +169,46 @@ export const SchwabServicesLive = (
     Layer.provide(rateLimiterLayer)
   );
 
+  // Market data goes through the response cache
+  const marketDataHttpClientLayer = MarketDataHttpClientLive.pipe(
+    Layer.provide(httpClientLayer),
+    Layer.provide(configLayer)
+  );
+
   // Domain services depend on HTTP client
-  const domainServicesLayer = DomainServicesLive.pipe(
-    Layer.provide(httpClientLayer)
+  const marketServicesLayer = MarketServicesLive.pipe(
+    Layer.provide(marketDataHttpClientLayer)
+  );
+
+  // Trading services pick live or paper from config; paper fills need quotes
+  const tradingServicesLayer = TradingServicesLive.pipe(
+    Layer.provide(marketServicesLayer),
+    Layer.provide(httpClientLayer),
+    Layer.provide(configLayer)
+  );
+
+  // Streamer reads its endpoint from user preferences; it connects lazily
+  const streamerLayer = StreamerServiceLive().pipe(
+    Layer.provide(marketServicesLayer),
+    Layer.provide(tokenManagerLayer)
+  );
+
+  // Order events read whichever order service is configured, live or paper
+  const orderEventsLayer = OrderEventServiceLive().pipe(
+    Layer.provide(tradingServicesLayer),
+    Layer.provide(streamerLayer),
+    Layer.provide(configLayer)
+  );
+
+  // Candle windows backfill from price history and follow the chart streams
+  const candleStoreLayer = CandleStoreLive().pipe(
+    Layer.provide(marketServicesLayer),
+    Layer.provide(streamerLayer)
   );
 
+  // Stored candle series under ~/.schwab-tools/candles, topped up from price history
+  const candleRepositoryLayer = CandleRepositoryLive().pipe(Layer.provide(marketServicesLayer));
+
   // Merge all layers
   return Layer.mergeAll(
     configLayer,
@@ -115,7 +216,12 @@ export const SchwabServicesLive = (
     tokenManagerLayer,
     rateLimiterLayer,
     httpClientLayer,
-    domainServicesLayer
+    marketServicesLayer,
+    tradingServicesLayer,
+    streamerLayer,
+    orderEventsLayer,
+    candleStoreLayer,
+    candleRepositoryLayer
   ) as Layer.Layer<SchwabServices, ConfigError | FileSystemError>;
 };
 
@@ -142,4 +248,10 @@ export {
   OptionChainServiceLive,
   UserPreferenceServiceLive,
   OrderServiceLive,
+  PaperTradingLive,
+  StreamerServiceLive,
+  OrderEventServiceLive,
+  CandleStoreLive,
+  CandleRepositoryLive,
+  CachedHttpClient,
 };
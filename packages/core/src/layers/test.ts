@@ -20,7 +20,7 @@ import {
 import { ConfigTest } from "../services/config.js";
 import { TokenStorageTest } from "../services/token-storage.js";
 import { RateLimiterTest } from "../services/rate-limiter.js";
-import { HttpClientTest } from "../services/http-client.js";
+import { HttpClientTest, HttpClientReplay } from "../services/http-client.js";
 import {
   AccountNotFoundError,
   SymbolNotFoundError,
@@ -54,7 +54,9 @@ export const testConfig: SchwabConfigShape = {
   callbackPort: 443,
   callbackUrl: "https://127.0.0.1",
   baseUrl: "https://api.schwabapi.com",
+  tokenUrl: "https://api.schwabapi.com/v1/oauth/token",
   requestsPerMinute: 120,
+  orderRequestsPerMinute: 120,
   maxRetries: 3,
 };
 
@@ -178,6 +180,18 @@ export const QuoteServiceTest = (mockQuotes: readonly Quote[]) =>
           return true;
         })
       ),
+    getQuoteResults: (request: { symbols?: readonly string[] }) => {
+      const symbols = (request.symbols ?? []).map((s) => s.toUpperCase());
+      const quotes = symbols.flatMap((symbol) =>
+        mockQuotes.filter((q) => q.symbol.toUpperCase() === symbol)
+      );
+      return Effect.succeed({
+        quotes,
+        unresolved: symbols.filter(
+          (symbol) => !quotes.some((q) => q.symbol.toUpperCase() === symbol)
+        ),
+      });
+    },
     getQuote: (symbol: string) => {
       const quote = mockQuotes.find(
         (q) => q.symbol.toUpperCase() === symbol.toUpperCase()
@@ -278,6 +292,21 @@ export const OptionChainServiceTest = (mockData: {
         })
       );
     },
+    getContracts: (symbols: readonly string[]) => {
+      const chain = mockData.optionChain;
+      if (!chain) {
+        return Effect.succeed([]);
+      }
+      const contracts = [chain.callExpDateMap, chain.putExpDateMap].flatMap(
+        (dateMap) =>
+          Object.values(dateMap).flatMap((strikeMap) =>
+            Object.values(strikeMap).flat()
+          )
+      );
+      return Effect.succeed(
+        contracts.filter((contract) => symbols.includes(contract.symbol))
+      );
+    },
   });
 
 /**
@@ -351,4 +380,10 @@ export const SchwabServicesTest = (
 /**
  * Re-export test utilities
  */
-export { ConfigTest, TokenStorageTest, RateLimiterTest, HttpClientTest };
+export {
+  ConfigTest,
+  TokenStorageTest,
+  RateLimiterTest,
+  HttpClientTest,
+  HttpClientReplay,
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import { keepSchwabServices, runSchwab, type SchwabServicesSource } from "./runtime.js";
+import { SchwabServicesLive } from "./layers/live.js";
+import { HttpClient, QuoteService, type SchwabConfigShape } from "./services/index.js";
+import { ConfigTest } from "./services/config.js";
+import { TokenStorageTest } from "./services/token-storage.js";
+import { testConfig, testTokens } from "./layers/test.js";
+import { startFakeSchwabServer, type FakeSchwabServer } from "../test/fake-server.js";
+
+const services = Effect.all([QuoteService, HttpClient]);
+
+const getQuote = Effect.flatMap(QuoteService, (quotes) => quotes.getQuotes(["AAPL"]));
+
+describe("runSchwab with kept services", () => {
+  let server: FakeSchwabServer;
+  let release: () => Promise<void>;
+  // Read on every call, so tests can change the config between calls
+  let config: SchwabConfigShape;
+  let builds: number;
+
+  // Live services over the fake API, with config and tokens kept in memory
+  const source: SchwabServicesSource = {
+    config: () => Effect.succeed(config),
+    layer: (options) => {
+      builds++;
+      return SchwabServicesLive(options, {
+        config: ConfigTest(config),
+        tokenStorage: TokenStorageTest(testTokens),
+      });
+    },
+  };
+
+  const quoteReads = () =>
+    server.requests.filter((request) => request.path === "/marketdata/v1/quotes").length;
+
+  beforeEach(() => {
+    server = startFakeSchwabServer();
+    config = { ...testConfig, baseUrl: server.url, tokenUrl: server.tokenUrl };
+    builds = 0;
+    release = keepSchwabServices(source);
+  });
+
+  afterEach(async () => {
+    await release();
+    server.stop();
+  });
+
+  it("shares services and their cache across calls, in sequence and overlapping", async () => {
+    const first = await runSchwab(services);
+    const [second, third] = await Promise.all([runSchwab(services), runSchwab(services)]);
+    await runSchwab(getQuote);
+    await runSchwab(getQuote);
+
+    expect(second[0]).toBe(first[0]);
+    expect(second[1]).toBe(first[1]);
+    expect(third[0]).toBe(first[0]);
+    expect(builds).toBe(1);
+    expect(quoteReads()).toBe(1);
+  });
+
+  it("rebuilds services once the resolved config changes", async () => {
+    const [first] = await runSchwab(services);
+    config = { ...config, orderRequestsPerMinute: 60 };
+    const [second] = await runSchwab(services);
+    const [third] = await runSchwab(services);
+
+    expect(second).not.toBe(first);
+    expect(third).toBe(second);
+    expect(builds).toBe(2);
+  });
+
+  it("builds once for overlapping calls after a config change", async () => {
+    await runSchwab(services);
+    config = { ...config, orderRequestsPerMinute: 60 };
+    const [[second], [third]] = await Promise.all([runSchwab(services), runSchwab(services)]);
+
+    expect(third).toBe(second);
+    expect(builds).toBe(2);
+  });
+});
@@ -1,10 +1,121 @@
-import { Effect, Exit, Cause, pipe, Chunk } from "effect";
+import { Effect, Exit, Cause, type Layer, ManagedRuntime, pipe, Chunk } from "effect";
 import type { ConfigError, FileSystemError, SchwabClientError } from "./errors.js";
 import { SchwabServicesLive, type SchwabServices } from "./layers/live.js";
-import type { ConfigOptions } from "./services/config.js";
+import { makeConfigFromOptions, type ConfigOptions } from "./services/config.js";
+import type { SchwabConfigShape } from "./services/index.js";
 
 type AllErrors = SchwabClientError | ConfigError | FileSystemError;
 
+interface KeptServices {
+  readonly key: string;
+  readonly config: string;
+  readonly runtime: ManagedRuntime.ManagedRuntime<SchwabServices, ConfigError | FileSystemError>;
+  /** Calls still running on these services */
+  active: number;
+  /** Replaced or failed to build; disposed once its calls finish */
+  retired: boolean;
+}
+
+/**
+ * How kept services are built, and the config that decides when to rebuild
+ * them; tests swap in their own
+ */
+export interface SchwabServicesSource {
+  readonly config: (options: ConfigOptions) => Effect.Effect<SchwabConfigShape, ConfigError>;
+  readonly layer: (
+    options: ConfigOptions
+  ) => Layer.Layer<SchwabServices, ConfigError | FileSystemError>;
+}
+
+const liveSource: SchwabServicesSource = {
+  config: makeConfigFromOptions,
+  layer: (options) => SchwabServicesLive(options),
+};
+
+// Set while services are kept
+let keptSource: SchwabServicesSource | undefined;
+const keptServices = new Map<string, KeptServices>();
+
+const retire = (kept: KeptServices) => {
+  kept.retired = true;
+  if (keptServices.get(kept.key) === kept) {
+    keptServices.delete(kept.key);
+  }
+  return kept.active === 0 ? kept.runtime.dispose() : Promise.resolve();
+};
+
+/**
+ * Keep the services runSchwab and runSchwabExit build for the life of the
+ * process instead of building them for every call, so the response cache,
+ * in-flight request sharing and quote batching carry across calls. Meant for
+ * long-lived hosts such as the MCP server. Services are rebuilt when the
+ * resolved config changes. Returns a function that stops keeping them and
+ * disposes them.
+ */
+export const keepSchwabServices = (
+  source: SchwabServicesSource = liveSource
+): (() => Promise<void>) => {
+  keptSource = source;
+  return async () => {
+    keptSource = undefined;
+    await Promise.all([...keptServices.values()].map(retire));
+  };
+};
+
+// The new entry is stored before the old one is disposed, so overlapping
+// calls after a config change all land on the same services
+const acquireKept = (source: SchwabServicesSource, options: ConfigOptions, config: string) =>
+  Effect.promise(async () => {
+    const key = JSON.stringify(options);
+    let kept = keptServices.get(key);
+    const previous = kept?.config === config ? undefined : kept;
+    if (!kept || previous) {
+      kept = {
+        key,
+        config,
+        runtime: ManagedRuntime.make(source.layer(options)),
+        active: 0,
+        retired: false,
+      };
+      keptServices.set(key, kept);
+    }
+    kept.active++;
+    if (previous) {
+      await retire(previous);
+    }
+    return kept;
+  });
+
+const releaseKept = (kept: KeptServices) =>
+  Effect.promise(() => {
+    kept.active--;
+    return kept.retired && kept.active === 0 ? kept.runtime.dispose() : Promise.resolve();
+  });
+
+/**
+ * Provide the Schwab services: the kept ones, rebuilt if the config they were
+ * built from has changed or they failed to build, or a fresh set for this call
+ */
+const provideServices = <A, E extends AllErrors>(
+  effect: Effect.Effect<A, E, SchwabServices>,
+  options: ConfigOptions
+): Effect.Effect<A, E | ConfigError | FileSystemError> => {
+  const source = keptSource;
+  return source
+    ? Effect.flatMap(source.config(options), (config) =>
+        Effect.acquireUseRelease(
+          acquireKept(source, options, JSON.stringify(config)),
+          (kept) =>
+            kept.runtime.runtimeEffect.pipe(
+              Effect.tapError(() => Effect.sync(() => void retire(kept))),
+              Effect.flatMap((runtime) => Effect.provide(effect, runtime))
+            ),
+          releaseKept
+        )
+      )
+    : effect.pipe(Effect.provide(SchwabServicesLive(options)));
+};
+
 /**
  * Run an Effect program with Schwab services and return a Promise.
  * This is the main entry point for CLI and MCP server integration.
@@ -22,10 +133,7 @@ type AllErrors = SchwabClientError | ConfigError | FileSystemError;
 export const runSchwab = <A, E extends AllErrors>(
   effect: Effect.Effect<A, E, SchwabServices>,
   options: ConfigOptions = {}
-): Promise<A> =>
-  Effect.runPromise(
-    effect.pipe(Effect.provide(SchwabServicesLive(options)))
-  );
+): Promise<A> => Effect.runPromise(provideServices(effect, options));
 
 /**
  * Run an Effect program and return an Exit value for more control over error handling.
@@ -48,10 +156,7 @@ export const runSchwab = <A, E extends AllErrors>(
 export const runSchwabExit = <A, E extends AllErrors>(
   effect: Effect.Effect<A, E, SchwabServices>,
   options: ConfigOptions = {}
-): Promise<Exit.Exit<A, AllErrors>> =>
-  Effect.runPromiseExit(
-    effect.pipe(Effect.provide(SchwabServicesLive(options)))
-  );
+): Promise<Exit.Exit<A, AllErrors>> => Effect.runPromiseExit(provideServices(effect, options));
 
 /**
  * Format an Effect error into a human-readable message for CLI/MCP output.
@@ -64,6 +169,8 @@ export const formatError = (error: AllErrors): string => {
       return `Token Expired: ${error.tokenType} token expired at ${error.expiredAt.toISOString()}`;
     case "ApiError":
       return `API Error ${error.statusCode} on ${error.method} ${error.endpoint}: ${error.message}`;
+    case "ForbiddenError":
+      return `Forbidden on ${error.method} ${error.endpoint}: ${error.message}`;
     case "RateLimitError":
       return `Rate Limit Exceeded: ${error.message}. Retry after ${error.retryAfterMs}ms`;
     case "NetworkError":
@@ -80,6 +187,8 @@ export const formatError = (error: AllErrors): string => {
       return `Symbol Not Found: ${error.symbol}`;
     case "OrderRejectedError":
       return `Order Rejected: ${error.reason}`;
+    case "StreamerError":
+      return `Streamer Error (${error.code}): ${error.message}`;
     case "ConfigError":
       return `Configuration Error (${error.field}): ${error.message}`;
     case "FileSystemError":
@@ -18,3 +18,6 @@ export * from "./user-preferences.js";
 
 // Market movers and instruments schemas
 export * from "./market.js";
+
+// Streamer (WebSocket) schemas
+export * from "./streamer.js";
@@ -1,12 +1,15 @@
 import { Schema } from "effect";
 import {
   AssetType,
+  ComplexOrderStrategyType,
   OrderDuration,
   OrderInstruction,
   OrderSession,
   OrderStatus,
   OrderStrategyType,
   OrderType,
+  PriceLinkBasis,
+  PriceLinkType,
 } from "./primitives.js";
 
 // Order Leg
@@ -21,19 +24,40 @@ export const OrderLeg = Schema.Struct({
 export type OrderLeg = typeof OrderLeg.Type;
 
 // Order Spec (for placing orders)
-export const OrderSpec = Schema.Struct({
+const orderSpecFields = {
   orderType: OrderType,
   session: OrderSession,
   duration: OrderDuration,
   price: Schema.optional(Schema.Number),
   stopPrice: Schema.optional(Schema.Number),
+  // Trailing stop: the stop follows the link basis at this offset
+  stopPriceLinkBasis: Schema.optional(PriceLinkBasis),
+  stopPriceLinkType: Schema.optional(PriceLinkType),
+  stopPriceOffset: Schema.optional(Schema.Number),
+  // Trailing stop limit: the limit price sits at this offset from the stop
+  priceLinkBasis: Schema.optional(PriceLinkBasis),
+  priceLinkType: Schema.optional(PriceLinkType),
+  priceOffset: Schema.optional(Schema.Number),
   orderLegCollection: Schema.Array(OrderLeg),
   orderStrategyType: OrderStrategyType,
+  complexOrderStrategyType: Schema.optional(ComplexOrderStrategyType),
+};
+
+// Child strategies nest recursively: TRIGGER parents fire their children on
+// fill, OCO containers hold the legs that cancel each other.
+export interface OrderSpec extends Schema.Struct.Type<typeof orderSpecFields> {
+  readonly childOrderStrategies?: readonly OrderSpec[];
+}
+
+export const OrderSpec = Schema.Struct({
+  ...orderSpecFields,
+  childOrderStrategies: Schema.optional(
+    Schema.Array(Schema.suspend((): Schema.Schema<OrderSpec> => OrderSpec))
+  ),
 });
-export type OrderSpec = typeof OrderSpec.Type;
 
 // Order (full order with status)
-export const Order = Schema.Struct({
+const orderFields = {
   orderId: Schema.String,
   accountNumber: Schema.String,
   orderType: OrderType,
@@ -41,16 +65,63 @@ export const Order = Schema.Struct({
   duration: OrderDuration,
   price: Schema.optional(Schema.Number),
   stopPrice: Schema.optional(Schema.Number),
+  stopPriceLinkBasis: Schema.optional(PriceLinkBasis),
+  stopPriceLinkType: Schema.optional(PriceLinkType),
+  stopPriceOffset: Schema.optional(Schema.Number),
+  priceLinkBasis: Schema.optional(PriceLinkBasis),
+  priceLinkType: Schema.optional(PriceLinkType),
+  priceOffset: Schema.optional(Schema.Number),
   orderLegCollection: Schema.Array(OrderLeg),
   orderStrategyType: OrderStrategyType,
+  complexOrderStrategyType: Schema.optional(ComplexOrderStrategyType),
   status: OrderStatus,
   filledQuantity: Schema.Number,
   remainingQuantity: Schema.Number,
   enteredTime: Schema.Date,
   closeTime: Schema.optional(Schema.Date),
   statusDescription: Schema.optional(Schema.String),
+};
+
+export interface Order extends Schema.Struct.Type<typeof orderFields> {
+  readonly childOrderStrategies?: readonly Order[];
+}
+
+interface OrderEncoded extends Schema.Struct.Encoded<typeof orderFields> {
+  readonly childOrderStrategies?: readonly OrderEncoded[];
+}
+
+export const Order = Schema.Struct({
+  ...orderFields,
+  childOrderStrategies: Schema.optional(
+    Schema.Array(
+      Schema.suspend((): Schema.Schema<Order, OrderEncoded> => Order)
+    )
+  ),
 });
-export type Order = typeof Order.Type;
+
+// Order Event (a lifecycle change seen on the account activity stream or by polling)
+export const OrderEventType = Schema.Literal(
+  "ACCEPTED",
+  "PARTIAL_FILL",
+  "FILLED",
+  "CANCELED",
+  "REJECTED",
+  "REPLACED"
+);
+export type OrderEventType = typeof OrderEventType.Type;
+
+export const OrderEvent = Schema.Struct({
+  type: OrderEventType,
+  orderId: Schema.String,
+  accountNumber: Schema.String,
+  symbol: Schema.String,
+  // Quantity filled since the previous event, for fills
+  fillQuantity: Schema.optional(Schema.Number),
+  source: Schema.Literal("stream", "poll"),
+  time: Schema.Date,
+  order: Order,
+});
+export type OrderEvent = typeof OrderEvent.Type;
 
 // Order Query Params
 export const OrderQueryParams = Schema.Struct({
@@ -85,7 +156,7 @@ export const SchwabOrderLeg = Schema.Struct({
   quantity: Schema.Number,
 });
 
-export const SchwabOrder = Schema.Struct({
+const schwabOrderFields = {
   session: Schema.String,
   duration: Schema.String,
   orderType: Schema.String,
@@ -103,6 +174,7 @@ export const SchwabOrder = Schema.Struct({
   stopType: Schema.optional(Schema.String),
   priceLinkBasis: Schema.optional(Schema.String),
   priceLinkType: Schema.optional(Schema.String),
+  priceOffset: Schema.optional(Schema.Number),
   orderLegCollection: Schema.Array(SchwabOrderLeg),
   orderStrategyType: Schema.String,
   orderId: Schema.Number,
@@ -114,4 +186,15 @@ export const SchwabOrder = Schema.Struct({
   tag: Schema.optional(Schema.String),
   accountNumber: Schema.Number,
   statusDescription: Schema.optional(Schema.String),
+};
+
+export interface SchwabOrder extends Schema.Struct.Type<typeof schwabOrderFields> {
+  readonly childOrderStrategies?: readonly SchwabOrder[];
+}
+
+export const SchwabOrder = Schema.Struct({
+  ...schwabOrderFields,
+  childOrderStrategies: Schema.optional(
+    Schema.Array(Schema.suspend((): Schema.Schema<SchwabOrder> => SchwabOrder))
+  ),
 });
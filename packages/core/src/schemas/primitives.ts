@@ -77,6 +77,32 @@ export const OrderStrategyType = Schema.Literal(
 );
 export type OrderStrategyType = typeof OrderStrategyType.Type;
 
+// Complex Order Strategy Type (multi-leg option strategies)
+export const ComplexOrderStrategyType = Schema.Literal(
+  "NONE",
+  "COVERED",
+  "VERTICAL",
+  "BACK_RATIO",
+  "CALENDAR",
+  "DIAGONAL",
+  "STRADDLE",
+  "STRANGLE",
+  "COLLAR_SYNTHETIC",
+  "BUTTERFLY",
+  "CONDOR",
+  "IRON_CONDOR",
+  "VERTICAL_ROLL",
+  "COLLAR_WITH_STOCK",
+  "DOUBLE_DIAGONAL",
+  "UNBALANCED_BUTTERFLY",
+  "UNBALANCED_CONDOR",
+  "UNBALANCED_IRON_CONDOR",
+  "UNBALANCED_VERTICAL_ROLL",
+  "MUTUAL_FUND_SWAP",
+  "CUSTOM"
+);
+export type ComplexOrderStrategyType = typeof ComplexOrderStrategyType.Type;
+
 // Order Status
 export const OrderStatus = Schema.Literal(
   "AWAITING_PARENT_ORDER",
@@ -103,6 +129,24 @@ export const OrderStatus = Schema.Literal(
 );
 export type OrderStatus = typeof OrderStatus.Type;
 
+// Price Link Basis (reference price a trailing offset is measured from)
+export const PriceLinkBasis = Schema.Literal(
+  "MANUAL",
+  "BASE",
+  "TRIGGER",
+  "LAST",
+  "BID",
+  "ASK",
+  "ASK_BID",
+  "MARK",
+  "AVERAGE"
+);
+export type PriceLinkBasis = typeof PriceLinkBasis.Type;
+
+// Price Link Type (unit of a trailing offset)
+export const PriceLinkType = Schema.Literal("VALUE", "PERCENT", "TICK");
+export type PriceLinkType = typeof PriceLinkType.Type;
+
 // Order Instruction
 export const OrderInstruction = Schema.Literal(
   "BUY",
@@ -1,15 +1,63 @@
 import { Schema } from "effect";
 import { MarketType, PriceHistoryFrequency, PriceHistoryPeriod } from "./primitives.js";
 
-// Quote
-export const Quote = Schema.Struct({
+// Quote sections, present when the response carries them (fields
+// "fundamental", "extended" and "regular", or no fields at all)
+export const QuoteFundamental = Schema.Struct({
+  peRatio: Schema.optional(Schema.Number),
+  eps: Schema.optional(Schema.Number),
+  divAmount: Schema.optional(Schema.Number),
+  divYield: Schema.optional(Schema.Number),
+  /** Payments per year */
+  divFreq: Schema.optional(Schema.Number),
+  divPayAmount: Schema.optional(Schema.Number),
+  divExDate: Schema.optional(Schema.Date),
+  divPayDate: Schema.optional(Schema.Date),
+  nextDivExDate: Schema.optional(Schema.Date),
+  nextDivPayDate: Schema.optional(Schema.Date),
+  declarationDate: Schema.optional(Schema.Date),
+  marketCap: Schema.optional(Schema.Number),
+  avg10DaysVolume: Schema.optional(Schema.Number),
+  avg1YearVolume: Schema.optional(Schema.Number),
+});
+export type QuoteFundamental = typeof QuoteFundamental.Type;
+
+/** Pre- and post-market trading */
+export const QuoteExtended = Schema.Struct({
+  lastPrice: Schema.optional(Schema.Number),
+  lastSize: Schema.optional(Schema.Number),
+  bidPrice: Schema.optional(Schema.Number),
+  bidSize: Schema.optional(Schema.Number),
+  askPrice: Schema.optional(Schema.Number),
+  askSize: Schema.optional(Schema.Number),
+  mark: Schema.optional(Schema.Number),
+  totalVolume: Schema.optional(Schema.Number),
+  quoteTime: Schema.optional(Schema.Date),
+  tradeTime: Schema.optional(Schema.Date),
+});
+export type QuoteExtended = typeof QuoteExtended.Type;
+
+/** The regular session's last trade, which stays put after the close */
+export const QuoteRegular = Schema.Struct({
+  lastPrice: Schema.optional(Schema.Number),
+  lastSize: Schema.optional(Schema.Number),
+  netChange: Schema.optional(Schema.Number),
+  netChangePercent: Schema.optional(Schema.Number),
+  tradeTime: Schema.optional(Schema.Date),
+});
+export type QuoteRegular = typeof QuoteRegular.Type;
+
+// Fields every quote has, whatever the asset class
+const QuoteBase = {
   symbol: Schema.String,
+  /** 0 for indexes, which have no bid or ask */
   bidPrice: Schema.Number,
   askPrice: Schema.Number,
   lastPrice: Schema.Number,
   totalVolume: Schema.Number,
   netChange: Schema.Number,
   netChangePercent: Schema.Number,
+  /** The index level for indexes */
   mark: Schema.Number,
   openPrice: Schema.Number,
   highPrice: Schema.Number,
@@ -19,7 +67,67 @@ export const Quote = Schema.Struct({
   tradeTime: Schema.Date,
   exchange: Schema.String,
   description: Schema.String,
+  bidSize: Schema.optional(Schema.Number),
+  askSize: Schema.optional(Schema.Number),
+  lastSize: Schema.optional(Schema.Number),
+  high52Week: Schema.optional(Schema.Number),
+  low52Week: Schema.optional(Schema.Number),
+  /** e.g. "Normal", "Halted", "Closed" */
+  securityStatus: Schema.optional(Schema.String),
+};
+
+/** Stocks and ETFs, and the other asset classes Schwab quotes in the same shape */
+export const EquityQuote = Schema.Struct({
+  assetType: Schema.Literal("EQUITY", "MUTUAL_FUND", "OPTION", "FUTURE_OPTION", "BOND"),
+  ...QuoteBase,
+  postMarketChange: Schema.optional(Schema.Number),
+  postMarketChangePercent: Schema.optional(Schema.Number),
+  fundamental: Schema.optional(QuoteFundamental),
+  extended: Schema.optional(QuoteExtended),
+  regular: Schema.optional(QuoteRegular),
+});
+export type EquityQuote = typeof EquityQuote.Type;
+
+/** Indexes such as $SPX: a level, no bid or ask */
+export const IndexQuote = Schema.Struct({
+  assetType: Schema.Literal("INDEX"),
+  ...QuoteBase,
+});
+export type IndexQuote = typeof IndexQuote.Type;
+
+export const FutureQuote = Schema.Struct({
+  assetType: Schema.Literal("FUTURE"),
+  ...QuoteBase,
+  /** Root, e.g. "/ES" */
+  product: Schema.optional(Schema.String),
+  /** The front contract Schwab maps the root to, e.g. "/ESZ24" */
+  activeSymbol: Schema.optional(Schema.String),
+  expirationDate: Schema.optional(Schema.Date),
+  multiplier: Schema.optional(Schema.Number),
+  tickSize: Schema.optional(Schema.Number),
+  /** Dollar value of one tick */
+  tickAmount: Schema.optional(Schema.Number),
+  settlementPrice: Schema.optional(Schema.Number),
+  openInterest: Schema.optional(Schema.Number),
+  isActive: Schema.optional(Schema.Boolean),
+  tradingHours: Schema.optional(Schema.String),
+});
+export type FutureQuote = typeof FutureQuote.Type;
+
+export const ForexQuote = Schema.Struct({
+  assetType: Schema.Literal("FOREX"),
+  ...QuoteBase,
+  /** Pair, e.g. "EUR/USD" */
+  product: Schema.optional(Schema.String),
+  tickSize: Schema.optional(Schema.Number),
+  tickAmount: Schema.optional(Schema.Number),
+  isTradable: Schema.optional(Schema.Boolean),
+  tradingHours: Schema.optional(Schema.String),
 });
+export type ForexQuote = typeof ForexQuote.Type;
+
+// Quote, discriminated on assetType
+export const Quote = Schema.Union(EquityQuote, IndexQuote, FutureQuote, ForexQuote);
 export type Quote = typeof Quote.Type;
 
 export const QuoteField = Schema.Literal(
@@ -125,6 +233,36 @@ export const SchwabQuoteData = Schema.Struct({
   tradeTime: Schema.optional(Schema.Number),
 });
 
+export const SchwabFundamental = Schema.Struct({
+  avg10DaysVolume: Schema.optional(Schema.Number),
+  avg1YearVolume: Schema.optional(Schema.Number),
+  declarationDate: Schema.optional(Schema.String),
+  divAmount: Schema.optional(Schema.Number),
+  divExDate: Schema.optional(Schema.String),
+  divFreq: Schema.optional(Schema.Number),
+  divPayAmount: Schema.optional(Schema.Number),
+  divPayDate: Schema.optional(Schema.String),
+  divYield: Schema.optional(Schema.Number),
+  eps: Schema.optional(Schema.Number),
+  marketCap: Schema.optional(Schema.Number),
+  nextDivExDate: Schema.optional(Schema.String),
+  nextDivPayDate: Schema.optional(Schema.String),
+  peRatio: Schema.optional(Schema.Number),
+});
+
+export const SchwabExtendedMarket = Schema.Struct({
+  askPrice: Schema.optional(Schema.Number),
+  askSize: Schema.optional(Schema.Number),
+  bidPrice: Schema.optional(Schema.Number),
+  bidSize: Schema.optional(Schema.Number),
+  lastPrice: Schema.optional(Schema.Number),
+  lastSize: Schema.optional(Schema.Number),
+  mark: Schema.optional(Schema.Number),
+  quoteTime: Schema.optional(Schema.Number),
+  totalVolume: Schema.optional(Schema.Number),
+  tradeTime: Schema.optional(Schema.Number),
+});
+
 export const SchwabReference = Schema.Struct({
   cusip: Schema.optional(Schema.String),
   description: Schema.optional(Schema.String),
@@ -141,6 +279,8 @@ export const SchwabQuote = Schema.Struct({
   symbol: Schema.String,
   quote: SchwabQuoteData,
   reference: SchwabReference,
+  fundamental: Schema.optional(SchwabFundamental),
+  extended: Schema.optional(SchwabExtendedMarket),
   regular: Schema.optional(
     Schema.Struct({
       regularMarketLastPrice: Schema.optional(Schema.Number),
@@ -152,6 +292,111 @@ export const SchwabQuote = Schema.Struct({
   ),
 });
 
+export const SchwabIndexQuote = Schema.Struct({
+  assetMainType: Schema.Literal("INDEX"),
+  realtime: Schema.optional(Schema.Boolean),
+  ssid: Schema.optional(Schema.Number),
+  symbol: Schema.String,
+  quote: Schema.Struct({
+    "52WeekHigh": Schema.optional(Schema.Number),
+    "52WeekLow": Schema.optional(Schema.Number),
+    closePrice: Schema.optional(Schema.Number),
+    highPrice: Schema.optional(Schema.Number),
+    lastPrice: Schema.optional(Schema.Number),
+    lowPrice: Schema.optional(Schema.Number),
+    netChange: Schema.optional(Schema.Number),
+    netPercentChange: Schema.optional(Schema.Number),
+    openPrice: Schema.optional(Schema.Number),
+    securityStatus: Schema.optional(Schema.String),
+    totalVolume: Schema.optional(Schema.Number),
+    tradeTime: Schema.optional(Schema.Number),
+  }),
+  reference: SchwabReference,
+});
+
+export const SchwabFutureQuote = Schema.Struct({
+  assetMainType: Schema.Literal("FUTURE"),
+  realtime: Schema.optional(Schema.Boolean),
+  ssid: Schema.optional(Schema.Number),
+  symbol: Schema.String,
+  quote: Schema.Struct({
+    askPrice: Schema.optional(Schema.Number),
+    askSize: Schema.optional(Schema.Number),
+    bidPrice: Schema.optional(Schema.Number),
+    bidSize: Schema.optional(Schema.Number),
+    closePrice: Schema.optional(Schema.Number),
+    futurePercentChange: Schema.optional(Schema.Number),
+    highPrice: Schema.optional(Schema.Number),
+    lastPrice: Schema.optional(Schema.Number),
+    lastSize: Schema.optional(Schema.Number),
+    lowPrice: Schema.optional(Schema.Number),
+    mark: Schema.optional(Schema.Number),
+    netChange: Schema.optional(Schema.Number),
+    openInterest: Schema.optional(Schema.Number),
+    openPrice: Schema.optional(Schema.Number),
+    quoteTime: Schema.optional(Schema.Number),
+    quotedInSession: Schema.optional(Schema.Boolean),
+    securityStatus: Schema.optional(Schema.String),
+    settleTime: Schema.optional(Schema.Number),
+    tick: Schema.optional(Schema.Number),
+    tickAmount: Schema.optional(Schema.Number),
+    totalVolume: Schema.optional(Schema.Number),
+    tradeTime: Schema.optional(Schema.Number),
+  }),
+  reference: Schema.Struct({
+    description: Schema.optional(Schema.String),
+    exchange: Schema.optional(Schema.String),
+    exchangeName: Schema.optional(Schema.String),
+    futureActiveSymbol: Schema.optional(Schema.String),
+    futureExpirationDate: Schema.optional(Schema.Number),
+    futureIsActive: Schema.optional(Schema.Boolean),
+    futureMultiplier: Schema.optional(Schema.Number),
+    futurePriceFormat: Schema.optional(Schema.String),
+    futureSettlementPrice: Schema.optional(Schema.Number),
+    futureTradingHours: Schema.optional(Schema.String),
+    product: Schema.optional(Schema.String),
+  }),
+});
+
+export const SchwabForexQuote = Schema.Struct({
+  assetMainType: Schema.Literal("FOREX"),
+  realtime: Schema.optional(Schema.Boolean),
+  ssid: Schema.optional(Schema.Number),
+  symbol: Schema.String,
+  quote: Schema.Struct({
+    "52WeekHigh": Schema.optional(Schema.Number),
+    "52WeekLow": Schema.optional(Schema.Number),
+    askPrice: Schema.optional(Schema.Number),
+    askSize: Schema.optional(Schema.Number),
+    bidPrice: Schema.optional(Schema.Number),
+    bidSize: Schema.optional(Schema.Number),
+    closePrice: Schema.optional(Schema.Number),
+    highPrice: Schema.optional(Schema.Number),
+    lastPrice: Schema.optional(Schema.Number),
+    lastSize: Schema.optional(Schema.Number),
+    lowPrice: Schema.optional(Schema.Number),
+    mark: Schema.optional(Schema.Number),
+    netChange: Schema.optional(Schema.Number),
+    netPercentChange: Schema.optional(Schema.Number),
+    openPrice: Schema.optional(Schema.Number),
+    quoteTime: Schema.optional(Schema.Number),
+    securityStatus: Schema.optional(Schema.String),
+    tick: Schema.optional(Schema.Number),
+    tickAmount: Schema.optional(Schema.Number),
+    totalVolume: Schema.optional(Schema.Number),
+    tradeTime: Schema.optional(Schema.Number),
+  }),
+  reference: Schema.Struct({
+    description: Schema.optional(Schema.String),
+    exchange: Schema.optional(Schema.String),
+    exchangeName: Schema.optional(Schema.String),
+    isTradable: Schema.optional(Schema.Boolean),
+    marketMaker: Schema.optional(Schema.String),
+    product: Schema.optional(Schema.String),
+    tradingHours: Schema.optional(Schema.String),
+  }),
+});
+
 export const SchwabQuoteResponse = Schema.Record({
   key: Schema.String,
   value: SchwabQuote,
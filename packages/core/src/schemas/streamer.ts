@@ -0,0 +1,254 @@
+import { Schema } from "effect";
+import { PutCall } from "./primitives.js";
+
+// ============================================================================
+// Wire format
+// ============================================================================
+
+/**
+ * Streamer services this client can subscribe to
+ */
+export const StreamerServiceName = Schema.Literal(
+  "LEVELONE_EQUITIES",
+  "LEVELONE_OPTIONS",
+  "LEVELONE_FUTURES",
+  "LEVELONE_FUTURES_OPTIONS",
+  "LEVELONE_FOREX",
+  "NYSE_BOOK",
+  "NASDAQ_BOOK",
+  "OPTIONS_BOOK",
+  "CHART_EQUITY",
+  "CHART_FUTURES",
+  "SCREENER_EQUITY",
+  "SCREENER_OPTION",
+  "ACCT_ACTIVITY"
+);
+export type StreamerServiceName = typeof StreamerServiceName.Type;
+
+/**
+ * Acknowledgement of a request (LOGIN, SUBS, ADD, UNSUBS, VIEW, LOGOUT)
+ */
+export const StreamerResponse = Schema.Struct({
+  service: Schema.String,
+  command: Schema.String,
+  requestid: Schema.String,
+  SchwabClientCorrelId: Schema.optional(Schema.String),
+  timestamp: Schema.optional(Schema.Number),
+  content: Schema.Struct({
+    code: Schema.Number,
+    msg: Schema.optional(Schema.String),
+  }),
+});
+export type StreamerResponse = typeof StreamerResponse.Type;
+
+/**
+ * A batch of updates for one service. Content entries carry a `key` plus
+ * numbered fields; level one entries only include fields that changed.
+ */
+export const StreamerData = Schema.Struct({
+  service: Schema.String,
+  command: Schema.optional(Schema.String),
+  timestamp: Schema.optional(Schema.Number),
+  content: Schema.Array(Schema.Record({ key: Schema.String, value: Schema.Unknown })),
+});
+export type StreamerData = typeof StreamerData.Type;
+
+export const StreamerMessage = Schema.Struct({
+  response: Schema.optional(Schema.Array(StreamerResponse)),
+  data: Schema.optional(Schema.Array(StreamerData)),
+  notify: Schema.optional(Schema.Array(Schema.Record({ key: Schema.String, value: Schema.Unknown }))),
+});
+export type StreamerMessage = typeof StreamerMessage.Type;
+
+// ============================================================================
+// Typed updates
+// ============================================================================
+
+const optionalNumber = Schema.optional(Schema.Number);
+const optionalString = Schema.optional(Schema.String);
+const optionalBoolean = Schema.optional(Schema.Boolean);
+
+/**
+ * LEVELONE_EQUITIES update, merged over earlier updates for the same symbol
+ */
+export const LevelOneEquity = Schema.Struct({
+  symbol: Schema.String,
+  delayed: optionalBoolean,
+  bidPrice: optionalNumber,
+  askPrice: optionalNumber,
+  lastPrice: optionalNumber,
+  bidSize: optionalNumber,
+  askSize: optionalNumber,
+  askId: optionalString,
+  bidId: optionalString,
+  totalVolume: optionalNumber,
+  lastSize: optionalNumber,
+  highPrice: optionalNumber,
+  lowPrice: optionalNumber,
+  closePrice: optionalNumber,
+  exchangeId: optionalString,
+  marginable: optionalBoolean,
+  description: optionalString,
+  lastId: optionalString,
+  openPrice: optionalNumber,
+  netChange: optionalNumber,
+  high52Week: optionalNumber,
+  low52Week: optionalNumber,
+  peRatio: optionalNumber,
+  annualDividendAmount: optionalNumber,
+  dividendYield: optionalNumber,
+  nav: optionalNumber,
+  exchangeName: optionalString,
+  dividendDate: optionalString,
+  regularMarketQuote: optionalBoolean,
+  regularMarketTrade: optionalBoolean,
+  regularMarketLastPrice: optionalNumber,
+  regularMarketLastSize: optionalNumber,
+  regularMarketNetChange: optionalNumber,
+  securityStatus: optionalString,
+  markPrice: optionalNumber,
+  quoteTime: optionalNumber,
+  tradeTime: optionalNumber,
+  regularMarketTradeTime: optionalNumber,
+  bidTime: optionalNumber,
+  askTime: optionalNumber,
+  askMicId: optionalString,
+  bidMicId: optionalString,
+  lastMicId: optionalString,
+  netPercentChange: optionalNumber,
+  regularMarketPercentChange: optionalNumber,
+  markPriceNetChange: optionalNumber,
+  markPricePercentChange: optionalNumber,
+  hardToBorrowQuantity: optionalNumber,
+  hardToBorrowRate: optionalNumber,
+  hardToBorrow: optionalNumber,
+  shortable: optionalNumber,
+  postMarketNetChange: optionalNumber,
+  postMarketPercentChange: optionalNumber,
+});
+export type LevelOneEquity = typeof LevelOneEquity.Type;
+
+/**
+ * LEVELONE_OPTIONS update, merged over earlier updates for the same contract.
+ * Field names follow OptionContract; the contract terms come from the symbol,
+ * everything else only once the streamer has sent it.
+ */
+export const LevelOneOption = Schema.Struct({
+  symbol: Schema.String,
+  underlying: optionalString,
+  description: optionalString,
+  delayed: optionalBoolean,
+  bid: optionalNumber,
+  ask: optionalNumber,
+  last: optionalNumber,
+  mark: optionalNumber,
+  bidSize: optionalNumber,
+  askSize: optionalNumber,
+  lastSize: optionalNumber,
+  highPrice: optionalNumber,
+  lowPrice: optionalNumber,
+  openPrice: optionalNumber,
+  closePrice: optionalNumber,
+  netChange: optionalNumber,
+  volume: optionalNumber,
+  openInterest: optionalNumber,
+  strikePrice: Schema.Number,
+  expirationDate: Schema.String,
+  daysToExpiration: optionalNumber,
+  putCall: PutCall,
+  inTheMoney: optionalBoolean,
+  multiplier: optionalNumber,
+  delta: optionalNumber,
+  gamma: optionalNumber,
+  theta: optionalNumber,
+  vega: optionalNumber,
+  rho: optionalNumber,
+  impliedVolatility: optionalNumber,
+  theoreticalValue: optionalNumber,
+  timeValue: optionalNumber,
+  intrinsicValue: optionalNumber,
+  underlyingPrice: optionalNumber,
+  quoteTime: optionalNumber,
+  tradeTime: optionalNumber,
+});
+export type LevelOneOption = typeof LevelOneOption.Type;
+
+/**
+ * CHART_EQUITY one-minute bar
+ */
+export const ChartEquity = Schema.Struct({
+  symbol: Schema.String,
+  sequence: optionalNumber,
+  openPrice: Schema.Number,
+  highPrice: Schema.Number,
+  lowPrice: Schema.Number,
+  closePrice: Schema.Number,
+  volume: Schema.Number,
+  chartTime: Schema.Number,
+  chartDay: optionalNumber,
+});
+export type ChartEquity = typeof ChartEquity.Type;
+
+/**
+ * CHART_FUTURES one-minute bar
+ */
+export const ChartFutures = Schema.Struct({
+  symbol: Schema.String,
+  openPrice: Schema.Number,
+  highPrice: Schema.Number,
+  lowPrice: Schema.Number,
+  closePrice: Schema.Number,
+  volume: Schema.Number,
+  chartTime: Schema.Number,
+});
+export type ChartFutures = typeof ChartFutures.Type;
+
+/**
+ * Level II book services: NYSE and NASDAQ equity books, and the options book
+ */
+export const BookService = Schema.Literal("NYSE_BOOK", "NASDAQ_BOOK", "OPTIONS_BOOK");
+export type BookService = typeof BookService.Type;
+
+export const BookMarketMaker = Schema.Struct({
+  marketMakerId: Schema.String,
+  size: Schema.Number,
+  quoteTime: optionalNumber,
+});
+export type BookMarketMaker = typeof BookMarketMaker.Type;
+
+export const BookLevel = Schema.Struct({
+  price: Schema.Number,
+  /** Total size across market makers at this price */
+  size: Schema.Number,
+  marketMakerCount: Schema.Number,
+  marketMakers: Schema.Array(BookMarketMaker),
+});
+export type BookLevel = typeof BookLevel.Type;
+
+/**
+ * Full depth of one book service for one symbol. Each message replaces the
+ * previous snapshot from the same service.
+ */
+export const BookSnapshot = Schema.Struct({
+  symbol: Schema.String,
+  service: BookService,
+  bookTime: Schema.Number,
+  /** Best (highest) price first */
+  bids: Schema.Array(BookLevel),
+  /** Best (lowest) price first */
+  asks: Schema.Array(BookLevel),
+});
+export type BookSnapshot = typeof BookSnapshot.Type;
+
+/**
+ * One trade print, taken from the level one last-trade fields
+ */
+export const TimeAndSale = Schema.Struct({
+  symbol: Schema.String,
+  price: Schema.Number,
+  size: Schema.Number,
+  tradeTime: Schema.Number,
+  /** MIC of the venue that reported the trade */
+  exchange: optionalString,
+});
+export type TimeAndSale = typeof TimeAndSale.Type;
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CandleRepository, PriceHistoryService } from "./index.js";
+import { CandleRepositoryLive, candleSeriesFile, mergeCandleRows } from "./candle-repository.js";
+import type { Candle, PriceHistoryParams } from "../schemas/index.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const TODAY = Math.floor(Date.now() / DAY) * DAY;
+
+describe("mergeCandleRows", () => {
+  it("keeps one row per datetime, oldest first, preferring newer rows", () => {
+    const merged = mergeCandleRows(
+      [
+        [2, 1, 1, 1, 1, 1],
+        [1, 1, 1, 1, 1, 1],
+      ],
+      [
+        [3, 3, 3, 3, 3, 3],
+        [2, 2, 2, 2, 2, 2],
+      ]
+    );
+    expect(merged.map((row) => [row[0], row[4]])).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+});
+
+describe("candleSeriesFile", () => {
+  it("escapes index and futures symbols", () => {
+    expect(candleSeriesFile("aapl", "1d")).toBe("AAPL_1d.json");
+    expect(candleSeriesFile("$SPX", "1d")).toBe("%24SPX_1d.json");
+    expect(candleSeriesFile("/ES", "5min")).toBe("%2FES_5min.json");
+  });
+});
+
+describe("CandleRepositoryLive", () => {
+  let dir: string;
+  let requests: PriceHistoryParams[];
+  // Schwab's history divides prices by this, as it does after a split
+  let splitFactor: number;
+
+  // One daily candle per day in [startDate, endDate], closing at 150 less its age in days
+  const history = (params: PriceHistoryParams = {}): Candle[] => {
+    const start = params.startDate?.getTime() ?? 0;
+    const end = params.endDate?.getTime() ?? TODAY;
+    const candles: Candle[] = [];
+    for (let day = Math.ceil(start / DAY) * DAY; day <= end; day += DAY) {
+      const close = (150 - (TODAY - day) / DAY) / splitFactor;
+      candles.push({
+        open: close,
+        high: close,
+        low: close,
+        close,
+        volume: 1000,
+        datetime: new Date(day),
+      });
+    }
+    return candles;
+  };
+
+  const makeLayer = () =>
+    CandleRepositoryLive({ dir }).pipe(
+      Layer.provide(
+        Layer.succeed(PriceHistoryService, {
+          getPriceHistory: (_symbol, params) =>
+            Effect.sync(() => {
+              requests.push(params ?? {});
+              return history(params);
+            }),
+          getMarketHours: () => Effect.succeed([]),
+          getMarketHour: () => Effect.succeed([]),
+        })
+      )
+    );
+
+  const run = <A, E>(effect: Effect.Effect<A, E, CandleRepository>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(makeLayer())));
+
+  const sync = (startDate?: Date) =>
+    run(
+      Effect.flatMap(CandleRepository, (repository) =>
+        repository.sync("AAPL", "1d", startDate)
+      )
+    );
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "schwab-candles-"));
+    requests = [];
+    splitFactor = 1;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("downloads the whole range once, then only the newest candles", async () => {
+    const first = await sync(new Date(TODAY - 10 * DAY));
+    expect(first.candles).toBe(11);
+    expect(first.added).toBe(11);
+    expect(requests[0].startDate?.getTime()).toBe(TODAY - 10 * DAY);
+    expect(requests[0].frequency).toBe("1d");
+    expect(requests[0].period).toBe("1y");
+
+    const second = await sync();
+    expect(second.added).toBe(0);
+    expect(second.readjusted).toBe(false);
+    expect(second.first?.getTime()).toBe(TODAY - 10 * DAY);
+    expect(requests[1].startDate?.getTime()).toBe(TODAY - DAY);
+    expect(await readdir(dir)).toEqual(["AAPL_1d.json"]);
+  });
+
+  it("downloads only the part of a range before the stored series", async () => {
+    await sync(new Date(TODAY - 5 * DAY));
+
+    const candles = await run(
+      Effect.flatMap(CandleRepository, (repository) =>
+        repository.getCandles("AAPL", "1d", {
+          startDate: new Date(TODAY - 8 * DAY),
+          endDate: new Date(TODAY - 3 * DAY),
+        })
+      )
+    );
+
+    expect(candles.map((candle) => candle.datetime.getTime())).toEqual(
+      [8, 7, 6, 5, 4, 3].map((days) => TODAY - days * DAY)
+    );
+    expect(requests).toHaveLength(2);
+    expect(requests[1].startDate?.getTime()).toBe(TODAY - 8 * DAY);
+    expect(requests[1].endDate?.getTime()).toBe(TODAY - 5 * DAY);
+  });
+
+  it("downloads the series again once Schwab has re-adjusted it for a split", async () => {
+    await sync(new Date(TODAY - 5 * DAY));
+    splitFactor = 4;
+
+    const result = await sync();
+
+    expect(result.readjusted).toBe(true);
+    expect(requests.at(-1)?.startDate?.getTime()).toBe(TODAY - 5 * DAY);
+    const stored = JSON.parse(await readFile(join(dir, "AAPL_1d.json"), "utf-8"));
+    expect(stored.candles[0][4]).toBe(145 / 4);
+  });
+
+  it("downloads again over a corrupt series file", async () => {
+    await writeFile(join(dir, "AAPL_1d.json"), "{ not json");
+
+    const result = await sync(new Date(TODAY - 2 * DAY));
+
+    expect(result.candles).toBe(3);
+    expect(requests).toHaveLength(1);
+  });
+});
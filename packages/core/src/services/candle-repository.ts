@@ -0,0 +1,276 @@
+import { Effect, Layer } from "effect";
+import { homedir } from "os";
+import { join } from "path";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import {
+  CandleRepository,
+  PriceHistoryService,
+  type CandleRepositoryShape,
+  type CandleSyncResult,
+} from "./index.js";
+import { FileSystemError } from "../errors.js";
+import type { Candle, PriceHistoryFrequency, PriceHistoryPeriod } from "../schemas/index.js";
+
+export interface CandleRepositoryOptions {
+  /** Directory for the stored series (default: ~/.schwab-tools/candles) */
+  readonly dir?: string;
+}
+
+const DEFAULT_DIR = join(homedir(), ".schwab-tools", "candles");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A stored close further than this from Schwab's means the history was re-adjusted
+const ADJUSTMENT_TOLERANCE = 0.001;
+
+type CandleRow = readonly [
+  datetime: number,
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+  volume: number,
+];
+
+/**
+ * A series file: the range downloaded so far and its candles, oldest first
+ */
+interface StoredSeries {
+  readonly version: 1;
+  readonly symbol: string;
+  readonly frequency: PriceHistoryFrequency;
+  readonly from: number;
+  readonly to: number;
+  readonly candles: readonly CandleRow[];
+}
+
+const isMinuteFrequency = (frequency: PriceHistoryFrequency) => frequency.endsWith("min");
+
+// Schwab wants a period type that allows the frequency, even when dates set the range
+const periodFor = (frequency: PriceHistoryFrequency): PriceHistoryPeriod =>
+  isMinuteFrequency(frequency) ? "1d" : "1y";
+
+const defaultStart = (frequency: PriceHistoryFrequency, now: number): number =>
+  now - (isMinuteFrequency(frequency) ? 10 : 20 * 365) * DAY_MS;
+
+const toRow = (candle: Candle): CandleRow => [
+  candle.datetime.getTime(),
+  candle.open,
+  candle.high,
+  candle.low,
+  candle.close,
+  candle.volume,
+];
+
+const toCandle = ([datetime, open, high, low, close, volume]: CandleRow): Candle => ({
+  open,
+  high,
+  low,
+  close,
+  volume,
+  datetime: new Date(datetime),
+});
+
+/**
+ * One row per datetime, oldest first; rows in `newer` replace those in `older`
+ */
+export const mergeCandleRows = (
+  older: readonly CandleRow[],
+  newer: readonly CandleRow[]
+): CandleRow[] => {
+  const byTime = new Map(older.map((row) => [row[0], row] as const));
+  for (const row of newer) {
+    byTime.set(row[0], row);
+  }
+  return [...byTime.values()].sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * File name for a series; symbols like $SPX and /ES are escaped
+ */
+export const candleSeriesFile = (symbol: string, frequency: PriceHistoryFrequency): string =>
+  `${encodeURIComponent(symbol.toUpperCase())}_${frequency}.json`;
+
+const readSeries = (path: string): Effect.Effect<StoredSeries | undefined, FileSystemError> =>
+  Effect.tryPromise({
+    try: () => readFile(path, "utf-8"),
+    catch: (error) => error as NodeJS.ErrnoException,
+  }).pipe(
+    // An unreadable series is downloaded again rather than failing
+    Effect.map((text): StoredSeries | undefined => {
+      try {
+        const series = JSON.parse(text) as StoredSeries;
+        return series.version === 1 && Array.isArray(series.candles) ? series : undefined;
+      } catch {
+        return undefined;
+      }
+    }),
+    Effect.catchAll((error) =>
+      error.code === "ENOENT"
+        ? Effect.succeed(undefined)
+        : Effect.fail(
+            new FileSystemError({
+              operation: "read",
+              path,
+              message: `Failed to read candle series: ${error.message}`,
+              cause: error,
+            })
+          )
+    )
+  );
+
+// Written beside the target and renamed, so readers never see half a file
+const writeSeries = (dir: string, path: string, series: StoredSeries) =>
+  Effect.tryPromise({
+    try: async () => {
+      await mkdir(dir, { recursive: true, mode: 0o700 });
+      const partial = `${path}.${process.pid}.tmp`;
+      await writeFile(partial, JSON.stringify(series));
+      await rename(partial, path);
+    },
+    catch: (error) =>
+      new FileSystemError({
+        operation: "write",
+        path,
+        message: `Failed to save candle series: ${(error as Error).message}`,
+        cause: error,
+      }),
+  });
+
+const makeCandleRepository = (options: CandleRepositoryOptions) =>
+  Effect.gen(function* () {
+    const priceHistory = yield* PriceHistoryService;
+    const dir = options.dir ?? DEFAULT_DIR;
+
+    // One update at a time per series
+    const locks = new Map<string, Effect.Semaphore>();
+    const lockFor = (file: string) => {
+      const existing = locks.get(file);
+      if (existing) {
+        return existing;
+      }
+      const lock = Effect.unsafeMakeSemaphore(1);
+      locks.set(file, lock);
+      return lock;
+    };
+
+    const download = (
+      symbol: string,
+      frequency: PriceHistoryFrequency,
+      start: number,
+      end: number
+    ) =>
+      priceHistory
+        .getPriceHistory(symbol, {
+          period: periodFor(frequency),
+          frequency,
+          startDate: new Date(start),
+          endDate: new Date(end),
+        })
+        .pipe(Effect.map((candles) => candles.map(toRow)));
+
+    /**
+     * Extend the stored series to cover [start, end] and save it. The newest
+     * stored candles are downloaded again, as the last may have been
+     * unfinished and the one before shows whether Schwab has re-adjusted
+     * prices since (after a split), in which case all of it is replaced.
+     */
+    const update = (
+      symbol: string,
+      frequency: PriceHistoryFrequency,
+      start: number | undefined,
+      end: number
+    ) => {
+      const file = candleSeriesFile(symbol, frequency);
+      const path = join(dir, file);
+      return lockFor(file).withPermits(1)(
+        Effect.gen(function* () {
+          const stored = yield* readSeries(path);
+          const from = Math.min(
+            start ?? stored?.from ?? defaultStart(frequency, end),
+            stored?.from ?? Infinity
+          );
+          let candles: readonly CandleRow[] = stored?.candles ?? [];
+          let to = stored?.to ?? from;
+          let readjusted = false;
+
+          if (!stored) {
+            candles = yield* download(symbol, frequency, from, end);
+            to = end;
+          } else {
+            if (end > stored.to) {
+              const check = candles.at(-2);
+              const tail = yield* download(
+                symbol,
+                frequency,
+                check?.[0] ?? candles.at(-1)?.[0] ?? stored.to,
+                end
+              );
+              const fresh = check && tail.find((row) => row[0] === check[0]);
+              if (fresh && Math.abs(fresh[4] - check[4]) > check[4] * ADJUSTMENT_TOLERANCE) {
+                candles = yield* download(symbol, frequency, stored.from, end);
+                readjusted = true;
+              } else {
+                candles = mergeCandleRows(candles, tail);
+              }
+              to = end;
+            }
+            if (from < stored.from) {
+              const head = yield* download(symbol, frequency, from, stored.from);
+              candles = mergeCandleRows(head, candles);
+            }
+          }
+
+          const known = new Set(stored?.candles.map((row) => row[0]));
+          const added = candles.filter((row) => !known.has(row[0])).length;
+          if (!stored || added > 0 || readjusted || from !== stored.from || to !== stored.to) {
+            yield* writeSeries(dir, path, {
+              version: 1,
+              symbol: symbol.toUpperCase(),
+              frequency,
+              from,
+              to,
+              candles,
+            });
+          }
+          return { candles, added, readjusted };
+        })
+      );
+    };
+
+    const getCandles: CandleRepositoryShape["getCandles"] = (symbol, frequency, range) =>
+      Effect.gen(function* () {
+        const start = range.startDate.getTime();
+        const end = Math.min(range.endDate?.getTime() ?? Date.now(), Date.now());
+        const { candles } = yield* update(symbol, frequency, start, end);
+        return candles.filter((row) => row[0] >= start && row[0] <= end).map(toCandle);
+      });
+
+    const sync: CandleRepositoryShape["sync"] = (symbol, frequency, startDate) =>
+      Effect.gen(function* () {
+        const { candles, added, readjusted } = yield* update(
+          symbol,
+          frequency,
+          startDate?.getTime(),
+          Date.now()
+        );
+        const first = candles.at(0);
+        const last = candles.at(-1);
+        return {
+          symbol: symbol.toUpperCase(),
+          frequency,
+          candles: candles.length,
+          added,
+          readjusted,
+          first: first && new Date(first[0]),
+          last: last && new Date(last[0]),
+        } satisfies CandleSyncResult;
+      });
+
+    return { getCandles, sync } satisfies CandleRepositoryShape;
+  });
+
+/**
+ * Candle repository layer, storing one JSON file per symbol and frequency
+ */
+export const CandleRepositoryLive = (options: CandleRepositoryOptions = {}) =>
+  Layer.effect(CandleRepository, makeCandleRepository(options));
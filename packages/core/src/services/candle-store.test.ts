@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Chunk, Effect, Layer, Schedule, Stream } from "effect";
+import { CandleStore, type CandleStoreShape } from "./index.js";
+import { ConfigTest } from "./config.js";
+import { TokenStorageTest } from "./token-storage.js";
+import { TokenManagerLive } from "./token-manager.js";
+import { RateLimiterLive } from "./rate-limiter.js";
+import { HttpClientLive } from "./http-client.js";
+import { PriceHistoryServiceLive } from "./price-history.js";
+import { UserPreferenceServiceLive } from "./user-preferences.js";
+import { StreamerServiceLive } from "./streamer.js";
+import { CandleStoreLive, mergeCandles } from "./candle-store.js";
+import { testConfig, testTokens } from "../layers/test.js";
+import type { Candle } from "../schemas/index.js";
+import { startFakeSchwabServer, type FakeSchwabServer } from "../../test/fake-server.js";
+
+const OPEN = Date.UTC(2024, 0, 16, 14, 30);
+const MINUTE = 60_000;
+
+const bar = (minute: number, close = 180 + minute): Candle => ({
+  open: close - 0.1,
+  high: close + 0.2,
+  low: close - 0.2,
+  close,
+  volume: 1000 + minute,
+  datetime: new Date(OPEN + minute * MINUTE),
+});
+
+// Price history response body for the given minutes
+const historyBody = (...minutes: number[]) => ({
+  symbol: "AAPL",
+  empty: minutes.length === 0,
+  candles: minutes.map((minute) => ({
+    ...bar(minute),
+    datetime: OPEN + minute * MINUTE,
+  })),
+});
+
+// CHART_EQUITY content entry for a minute
+const chartEntry = (minute: number) => {
+  const { open, high, low, close, volume } = bar(minute);
+  return {
+    key: "AAPL",
+    "1": open,
+    "2": high,
+    "3": low,
+    "4": close,
+    "5": volume,
+    "7": OPEN + minute * MINUTE,
+  };
+};
+
+describe("mergeCandles", () => {
+  it("keeps one bar per minute, oldest first, replacing older copies", () => {
+    const merged = mergeCandles([bar(0), bar(1)], [bar(2), bar(1, 200)], 10);
+    expect(merged.map((candle) => candle.close)).toEqual([180, 200, 182]);
+  });
+
+  it("drops the oldest bars beyond the window", () => {
+    const merged = mergeCandles([bar(0), bar(1), bar(2)], [bar(3)], 2);
+    expect(merged.map((candle) => candle.datetime.getTime())).toEqual([
+      OPEN + 2 * MINUTE,
+      OPEN + 3 * MINUTE,
+    ]);
+  });
+});
+
+describe("CandleStoreLive against the fake Schwab API", () => {
+  let server: FakeSchwabServer;
+
+  const makeLayer = () => {
+    const configLayer = ConfigTest({
+      ...testConfig,
+      baseUrl: server.url,
+      tokenUrl: server.tokenUrl,
+    });
+    const tokenManagerLayer = TokenManagerLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(TokenStorageTest(testTokens))
+    );
+    const httpClientLayer = HttpClientLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(tokenManagerLayer),
+      Layer.provide(RateLimiterLive.pipe(Layer.provide(configLayer)))
+    );
+    const streamerLayer = StreamerServiceLive({ requestTimeoutMs: 1000 }).pipe(
+      Layer.provide(UserPreferenceServiceLive.pipe(Layer.provide(httpClientLayer))),
+      Layer.provide(tokenManagerLayer)
+    );
+    return CandleStoreLive({ windowSize: 10 }).pipe(
+      Layer.provide(PriceHistoryServiceLive.pipe(Layer.provide(httpClientLayer))),
+      Layer.provide(streamerLayer)
+    );
+  };
+
+  const run = <A, E>(effect: Effect.Effect<A, E, CandleStore>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(makeLayer())));
+
+  // Live bars only reach the store once the chart subscription is in place
+  const chartSubscribed = Effect.sync(() =>
+    server.streamer.requests.some((request) => request.service === "CHART_EQUITY")
+  ).pipe(Effect.repeat({ schedule: Schedule.spaced("20 millis"), until: (done) => done }));
+
+  const historyRequests = () =>
+    server.requests.filter((request) => request.path === "/marketdata/v1/pricehistory");
+
+  beforeEach(() => {
+    server = startFakeSchwabServer();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("backfills one-minute bars and appends live ones", async () => {
+    server.enqueue("GET", "/marketdata/v1/pricehistory", { body: historyBody(0, 1, 2) });
+
+    const [backfill, windows] = await run(
+      Effect.gen(function* () {
+        const store: CandleStoreShape = yield* CandleStore;
+        const backfill = yield* store.candles("aapl");
+        const fiber = yield* store.changes("AAPL").pipe(
+          Stream.take(2),
+          Stream.runCollect,
+          Effect.fork
+        );
+        yield* chartSubscribed;
+        server.streamer.push("CHART_EQUITY", [chartEntry(3)]);
+        return [backfill, Chunk.toReadonlyArray(yield* fiber)] as const;
+      })
+    );
+
+    expect(backfill.map((candle) => candle.close)).toEqual([180, 181, 182]);
+    expect(windows[1].map((candle) => candle.close)).toEqual([180, 181, 182, 183]);
+
+    const [request] = historyRequests();
+    expect(request.query.get("frequencyType")).toBe("minute");
+    expect(request.query.get("frequency")).toBe("1");
+    expect(historyRequests()).toHaveLength(1);
+  });
+
+  it("fills the gap between the backfill and the first live bar", async () => {
+    server.enqueue("GET", "/marketdata/v1/pricehistory", { body: historyBody(0, 1) });
+    server.enqueue("GET", "/marketdata/v1/pricehistory", { body: historyBody(1, 2, 3) });
+
+    const windows = await run(
+      Effect.gen(function* () {
+        const store: CandleStoreShape = yield* CandleStore;
+        const fiber = yield* store.changes("AAPL").pipe(
+          Stream.take(2),
+          Stream.runCollect,
+          Effect.fork
+        );
+        yield* chartSubscribed;
+        server.streamer.push("CHART_EQUITY", [chartEntry(4)]);
+        return Chunk.toReadonlyArray(yield* fiber);
+      })
+    );
+
+    expect(windows[1].map((candle) => candle.close)).toEqual([180, 181, 182, 183, 184]);
+    const gap = historyRequests()[1];
+    expect(Number(gap.query.get("startDate"))).toBe(OPEN + MINUTE);
+    expect(Number(gap.query.get("endDate"))).toBe(OPEN + 4 * MINUTE);
+  });
+});
@@ -0,0 +1,221 @@
+import { Deferred, Effect, Fiber, Layer, Stream, SubscriptionRef } from "effect";
+import {
+  CandleStore,
+  PriceHistoryService,
+  StreamerService,
+  type CandleStoreShape,
+} from "./index.js";
+import { withRequestPriority } from "./rate-limiter.js";
+import type { SchwabClientError } from "../errors.js";
+import type { Candle, PriceHistoryParams, PriceHistoryPeriod } from "../schemas/index.js";
+
+export interface CandleStoreOptions {
+  /** Bars kept per symbol (default 390, one regular session) */
+  readonly windowSize?: number;
+  /** Backfill pre- and post-market bars too, as the chart stream sends them (default true) */
+  readonly extendedHours?: boolean;
+}
+
+const MINUTE_MS = 60_000;
+
+// One-minute bars in a trading day, regular session and 4:00-20:00 ET
+const REGULAR_BARS_PER_DAY = 390;
+const EXTENDED_BARS_PER_DAY = 960;
+
+// Price history periods long enough for a given number of days
+const BACKFILL_PERIODS: readonly (readonly [number, PriceHistoryPeriod])[] = [
+  [1, "1d"],
+  [2, "2d"],
+  [3, "3d"],
+  [4, "4d"],
+  [5, "5d"],
+  [10, "10d"],
+];
+
+/**
+ * Merge bars into a window, oldest first. A bar for a minute already in the
+ * window replaces it, and only the newest `windowSize` bars are kept.
+ */
+export const mergeCandles = (
+  window: readonly Candle[],
+  bars: readonly Candle[],
+  windowSize: number
+): Candle[] => {
+  const byMinute = new Map(window.map((candle) => [candle.datetime.getTime(), candle] as const));
+  for (const bar of bars) {
+    byMinute.set(bar.datetime.getTime(), bar);
+  }
+  return [...byMinute.values()]
+    .sort((a, b) => a.datetime.getTime() - b.datetime.getTime())
+    .slice(-windowSize);
+};
+
+interface Tracked {
+  readonly window: SubscriptionRef.SubscriptionRef<readonly Candle[]>;
+  /** Done once the backfill is in the window */
+  readonly ready: Deferred.Deferred<void, SchwabClientError>;
+  readonly fiber: Fiber.RuntimeFiber<void, SchwabClientError>;
+}
+
+const makeCandleStore = (options: CandleStoreOptions) =>
+  Effect.gen(function* () {
+    const priceHistory = yield* PriceHistoryService;
+    const streamer = yield* StreamerService;
+    const layerScope = yield* Effect.scope;
+
+    const windowSize = Math.max(1, options.windowSize ?? REGULAR_BARS_PER_DAY);
+    const extendedHours = options.extendedHours ?? true;
+    const days = Math.ceil(
+      windowSize / (extendedHours ? EXTENDED_BARS_PER_DAY : REGULAR_BARS_PER_DAY)
+    );
+    // A day more than the window needs, so early in the session the window
+    // still fills from the previous one
+    const period =
+      BACKFILL_PERIODS.find(([periodDays]) => periodDays > days)?.[1] ?? ("10d" as const);
+
+    const tracked = new Map<string, Tracked>();
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const history = (symbol: string, params: PriceHistoryParams) =>
+      priceHistory.getPriceHistory(symbol, {
+        ...params,
+        frequency: "1min",
+        needExtendedHoursData: extendedHours,
+      });
+
+    const liveBars = (symbol: string): Stream.Stream<Candle, SchwabClientError> =>
+      (symbol.startsWith("/")
+        ? streamer.chartFutures([symbol])
+        : streamer.chartEquity([symbol])
+      ).pipe(
+        Stream.map((bar) => ({
+          open: bar.openPrice,
+          high: bar.highPrice,
+          low: bar.lowPrice,
+          close: bar.closePrice,
+          volume: bar.volume,
+          datetime: new Date(bar.chartTime),
+        }))
+      );
+
+    const follow = (
+      symbol: string,
+      window: SubscriptionRef.SubscriptionRef<readonly Candle[]>,
+      ready: Deferred.Deferred<void, SchwabClientError>
+    ) =>
+      Effect.scoped(
+        Effect.gen(function* () {
+          // Subscribe first so bars closing during the backfill queue up
+          const live = yield* Stream.toQueue(liveBars(symbol), { strategy: "unbounded" });
+
+          const backfill = yield* history(symbol, { period });
+          yield* SubscriptionRef.update(window, (current) =>
+            mergeCandles(current, backfill, windowSize)
+          );
+          yield* Deferred.succeed(ready, undefined);
+
+          // The first live bar, and the first after each reconnect, may leave
+          // a hole behind it; fill it from price history
+          let reconnects = -1;
+          yield* Stream.fromQueue(live).pipe(
+            Stream.flattenTake,
+            Stream.runForEach((bar) =>
+              Effect.gen(function* () {
+                const status = yield* streamer.status;
+                const newest = (yield* SubscriptionRef.get(window)).at(-1);
+                const missed =
+                  status.reconnects !== reconnects &&
+                  newest !== undefined &&
+                  bar.datetime.getTime() - newest.datetime.getTime() > MINUTE_MS
+                    ? yield* history(symbol, {
+                        startDate: newest.datetime,
+                        endDate: bar.datetime,
+                      }).pipe(withRequestPriority("background"), Effect.orElseSucceed(() => []))
+                    : [];
+                reconnects = status.reconnects;
+                yield* SubscriptionRef.update(window, (current) =>
+                  mergeCandles(current, [...missed, bar], windowSize)
+                );
+              })
+            )
+          );
+        })
+      );
+
+    const track = (symbol: string) =>
+      lock.withPermits(1)(
+        Effect.gen(function* () {
+          const existing = tracked.get(symbol);
+          if (existing) {
+            return existing;
+          }
+          const window = yield* SubscriptionRef.make<readonly Candle[]>([]);
+          const ready = yield* Deferred.make<void, SchwabClientError>();
+          // A symbol whose stream ends is dropped, so the next read starts over
+          const fiber = yield* follow(symbol, window, ready).pipe(
+            Effect.onExit((exit) =>
+              Effect.zipRight(
+                lock.withPermits(1)(
+                  Effect.sync(() => {
+                    if (tracked.get(symbol)?.window === window) {
+                      tracked.delete(symbol);
+                    }
+                  })
+                ),
+                exit._tag === "Failure" ? Deferred.failCause(ready, exit.cause) : Effect.void
+              )
+            ),
+            Effect.interruptible,
+            Effect.forkIn(layerScope)
+          );
+          const entry: Tracked = { window, ready, fiber };
+          tracked.set(symbol, entry);
+          return entry;
+        })
+      );
+
+    const candles: CandleStoreShape["candles"] = (symbol) =>
+      Effect.gen(function* () {
+        const entry = yield* track(symbol.toUpperCase());
+        yield* Deferred.await(entry.ready);
+        return yield* SubscriptionRef.get(entry.window);
+      });
+
+    const changes: CandleStoreShape["changes"] = (symbol) =>
+      Stream.unwrap(
+        Effect.gen(function* () {
+          const entry = yield* track(symbol.toUpperCase());
+          yield* Deferred.await(entry.ready);
+          // End with the live stream, failing if it failed
+          return Stream.merge(
+            entry.window.changes,
+            Stream.drain(Stream.fromEffect(Fiber.join(entry.fiber))),
+            { haltStrategy: "either" }
+          );
+        })
+      );
+
+    const untrack: CandleStoreShape["untrack"] = (symbol) =>
+      Effect.gen(function* () {
+        const key = symbol.toUpperCase();
+        const entry = yield* lock.withPermits(1)(
+          Effect.sync(() => {
+            const existing = tracked.get(key);
+            tracked.delete(key);
+            return existing;
+          })
+        );
+        if (entry) {
+          yield* Fiber.interrupt(entry.fiber);
+        }
+      });
+
+    return { candles, changes, untrack } satisfies CandleStoreShape;
+  });
+
+/**
+ * Candle store layer. Symbols are followed from their first read until
+ * untracked or until the layer's scope ends.
+ */
+export const CandleStoreLive = (options: CandleStoreOptions = {}) =>
+  Layer.scoped(CandleStore, makeCandleStore(options));
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Exit, Layer } from "effect";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AccountService, OrderService, QuoteService } from "./index.js";
+import { ConfigTest } from "./config.js";
+import { TokenStorageTest } from "./token-storage.js";
+import { TokenManagerLive } from "./token-manager.js";
+import { RateLimiterLive } from "./rate-limiter.js";
+import { HttpClientLive, HttpClientReplay } from "./http-client.js";
+import { QuoteServiceLive } from "./quotes.js";
+import { AccountServiceLive } from "./accounts.js";
+import { OrderServiceLive } from "./orders.js";
+import { makeRedactor, type Cassette } from "./cassette.js";
+import { testConfig, testTokens } from "../layers/test.js";
+import { OrderBuilder } from "../utils/order-builder.js";
+import { startFakeSchwabServer, type FakeSchwabServer } from "../../test/fake-server.js";
+
+const DomainLive = Layer.mergeAll(QuoteServiceLive, AccountServiceLive, OrderServiceLive);
+
+const session = Effect.gen(function* () {
+  const accounts = yield* AccountService;
+  const quotes = yield* QuoteService;
+  const orders = yield* OrderService;
+  const [first] = yield* accounts.getAccountNumbers;
+  const account = yield* accounts.getAccount(first.hashValue);
+  const quoteList = yield* quotes.getQuotes(["AAPL", "MSFT"]);
+  const orderId = yield* orders.placeOrder(
+    first.hashValue,
+    OrderBuilder.equityBuyLimit("AAPL", 10, 175)
+  );
+  return { first, account, quoteList, orderId };
+});
+
+describe("HTTP cassettes", () => {
+  let server: FakeSchwabServer;
+  let dir: string;
+  let cassettePath: string;
+
+  const recordingLayer = () => {
+    const configLayer = ConfigTest({
+      ...testConfig,
+      baseUrl: server.url,
+      tokenUrl: server.tokenUrl,
+      recordCassette: cassettePath,
+    });
+    const httpClientLayer = HttpClientLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(
+        TokenManagerLive.pipe(
+          Layer.provide(configLayer),
+          Layer.provide(TokenStorageTest(testTokens))
+        )
+      ),
+      Layer.provide(RateLimiterLive.pipe(Layer.provide(configLayer)))
+    );
+    return DomainLive.pipe(Layer.provide(httpClientLayer));
+  };
+
+  beforeEach(() => {
+    server = startFakeSchwabServer();
+    dir = mkdtempSync(join(tmpdir(), "schwab-cassette-"));
+    cassettePath = join(dir, "session.json");
+  });
+
+  afterEach(() => {
+    server.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records every exchange with account numbers and hashes redacted", async () => {
+    await Effect.runPromise(session.pipe(Effect.provide(recordingLayer())));
+
+    const text = readFileSync(cassettePath, "utf-8");
+    const cassette = JSON.parse(text) as Cassette;
+
+    expect(cassette.interactions.map((i) => `${i.request.method} ${i.request.path}`)).toEqual([
+      "GET /trader/v1/accounts/accountNumbers",
+      "GET /trader/v1/accounts/ACCOUNT-HASH-1",
+      "GET /marketdata/v1/quotes",
+      "POST /trader/v1/accounts/ACCOUNT-HASH-1/orders",
+    ]);
+    expect(text).not.toContain("12345678");
+    expect(text).not.toContain("ABC123HASH");
+    expect(text).not.toContain(testTokens.accessToken);
+    expect(cassette.interactions[3].response.headers.location).toContain(
+      "/accounts/ACCOUNT-HASH-1/orders/2000001"
+    );
+  });
+
+  it("replays a recorded session without the network", async () => {
+    await Effect.runPromise(session.pipe(Effect.provide(recordingLayer())));
+    server.stop();
+
+    const replayed = await Effect.runPromise(
+      session.pipe(Effect.provide(DomainLive.pipe(Layer.provide(HttpClientReplay(cassettePath)))))
+    );
+
+    expect(replayed.first).toEqual({ accountNumber: "ACCOUNT-1", hashValue: "ACCOUNT-HASH-1" });
+    expect(replayed.account.accountNumber).toBe("ACCOUNT-1");
+    expect(replayed.account.positions.length).toBeGreaterThan(0);
+    expect(replayed.quoteList.map((q) => q.symbol)).toEqual(["AAPL", "MSFT"]);
+    expect(replayed.orderId).toBe("2000001");
+  });
+
+  it("decodes the committed fake-server cassette", async () => {
+    const replayLayer = DomainLive.pipe(
+      Layer.provide(HttpClientReplay(join(import.meta.dir, "../../test/cassettes/session.json")))
+    );
+
+    const result = await Effect.runPromise(session.pipe(Effect.provide(replayLayer)));
+
+    expect(result.account.balances.liquidationValue).toBeGreaterThan(0);
+    expect(result.quoteList[0].bidPrice).toBe(178.5);
+  });
+
+  it("fails requests with no recording", async () => {
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const quotes = yield* QuoteService;
+        return yield* quotes.getQuotes(["AAPL"]);
+      }).pipe(
+        Effect.provide(
+          QuoteServiceLive.pipe(
+            Layer.provide(
+              HttpClientReplay({ version: 1, recordedAt: "", interactions: [] })
+            )
+          )
+        )
+      )
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("ApiError");
+    }
+  });
+
+  it("redacts tokens and keeps placeholders stable across interactions", () => {
+    const redact = makeRedactor();
+    const first = redact({
+      request: { method: "GET", path: "/trader/v1/accounts/accountNumbers" },
+      response: {
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        body: [{ accountNumber: "99990000", hashValue: "SECRETHASH" }],
+      },
+    });
+    const second = redact({
+      request: { method: "GET", path: "/trader/v1/accounts/SECRETHASH/orders" },
+      response: {
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        body: [{ accountNumber: 99990000, access_token: "abc", orderId: 1999900001 }],
+      },
+    });
+
+    expect(first.response.body).toEqual([
+      { accountNumber: "ACCOUNT-1", hashValue: "ACCOUNT-HASH-1" },
+    ]);
+    expect(second.request.path).toBe("/trader/v1/accounts/ACCOUNT-HASH-1/orders");
+    expect(second.response.body).toEqual([
+      { accountNumber: "ACCOUNT-1", access_token: "REDACTED", orderId: 1999900001 },
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import { Effect } from "effect";
+import { dirname } from "path";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import type { RequestConfig } from "./index.js";
+import type { RawResponse } from "./http-client.js";
+import { FileSystemError } from "../errors.js";
+
+// ============================================================================
+// Cassette format
+// ============================================================================
+
+export interface CassetteRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly params?: RequestConfig["params"];
+  readonly body?: unknown;
+}
+
+export interface CassetteResponse {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: Readonly<Record<string, string>>;
+  /** Parsed JSON when the body was JSON, otherwise the raw text */
+  readonly body?: unknown;
+}
+
+export interface CassetteInteraction {
+  readonly request: CassetteRequest;
+  readonly response: CassetteResponse;
+}
+
+export interface Cassette {
+  readonly version: 1;
+  readonly recordedAt: string;
+  readonly interactions: readonly CassetteInteraction[];
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+// Values under these keys are replaced outright
+const SECRET_KEYS = new Set([
+  "access_token",
+  "refresh_token",
+  "id_token",
+  "schwabClientCustomerId",
+  "schwabClientCorrelId",
+]);
+
+// Values under these keys are replaced everywhere they appear, with stable
+// placeholders so paths and bodies stay consistent with each other
+const ACCOUNT_NUMBER_KEYS = new Set(["accountNumber", "accountId"]);
+const ACCOUNT_HASH_KEYS = new Set(["hashValue", "accountHash"]);
+
+const REDACTED = "REDACTED";
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Create a redactor that strips tokens and replaces account numbers and hashes
+ * with placeholders. Keeps state so a value maps to the same placeholder
+ * across every interaction in a cassette.
+ */
+export const makeRedactor = () => {
+  const placeholders = new Map<string, string>();
+  let accountCount = 0;
+  let hashCount = 0;
+
+  const register = (value: unknown, kind: "account" | "hash") => {
+    const key = String(value);
+    if (!key || placeholders.has(key) || key === REDACTED) {
+      return;
+    }
+    placeholders.set(
+      key,
+      kind === "account" ? `ACCOUNT-${++accountCount}` : `ACCOUNT-HASH-${++hashCount}`
+    );
+  };
+
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object") {
+      for (const [key, item] of Object.entries(value)) {
+        if (ACCOUNT_NUMBER_KEYS.has(key) && (typeof item === "string" || typeof item === "number")) {
+          register(item, "account");
+        } else if (ACCOUNT_HASH_KEYS.has(key) && typeof item === "string") {
+          register(item, "hash");
+        } else {
+          collect(item);
+        }
+      }
+    }
+  };
+
+  const replaceKnown = (text: string): string => {
+    let result = text;
+    for (const [value, placeholder] of placeholders) {
+      result = result.replace(
+        new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(value)}(?![A-Za-z0-9])`, "g"),
+        placeholder
+      );
+    }
+    return result;
+  };
+
+  const scrub = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(scrub);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => {
+          if (SECRET_KEYS.has(key) && item !== null && item !== undefined) {
+            return [key, REDACTED];
+          }
+          if (ACCOUNT_NUMBER_KEYS.has(key) && typeof item === "number") {
+            return [key, placeholders.get(String(item)) ?? REDACTED];
+          }
+          return [key, scrub(item)];
+        })
+      );
+    }
+    return typeof value === "string" ? replaceKnown(value) : value;
+  };
+
+  return (interaction: CassetteInteraction): CassetteInteraction => {
+    // Account hashes in trader paths are secrets even before any response
+    // has named them
+    const pathHash = interaction.request.path.match(/\/accounts\/([^/]+)/)?.[1];
+    if (pathHash && pathHash !== "accountNumbers") {
+      register(decodeURIComponent(pathHash), "hash");
+    }
+    collect(interaction.request.body);
+    collect(interaction.response.body);
+    return scrub(interaction) as CassetteInteraction;
+  };
+};
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Read a cassette file
+ */
+export const loadCassette = (path: string): Effect.Effect<Cassette, FileSystemError> =>
+  Effect.tryPromise({
+    try: async () => JSON.parse(await readFile(path, "utf-8")) as Cassette,
+    catch: (error) =>
+      new FileSystemError({
+        operation: "read",
+        path,
+        message: `Failed to read cassette: ${error instanceof Error ? error.message : String(error)}`,
+        cause: error,
+      }),
+  });
+
+const saveCassette = (path: string, cassette: Cassette): Effect.Effect<void, FileSystemError> =>
+  Effect.tryPromise({
+    try: async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(cassette, null, 2) + "\n");
+    },
+    catch: (error) =>
+      new FileSystemError({
+        operation: "write",
+        path,
+        message: `Failed to write cassette: ${error instanceof Error ? error.message : String(error)}`,
+        cause: error,
+      }),
+  });
+
+const parseBody = (raw: RawResponse): unknown => {
+  if (!raw.body) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw.body);
+  } catch {
+    return raw.body;
+  }
+};
+
+/**
+ * Recorder used by HttpClientLive in recording mode. Rewrites the whole
+ * cassette after every response so an interrupted session keeps what it saw.
+ */
+export const makeCassetteRecorder = (path: string) =>
+  Effect.gen(function* () {
+    const redact = makeRedactor();
+    const interactions: CassetteInteraction[] = [];
+    const recordedAt = new Date().toISOString();
+    const lock = yield* Effect.makeSemaphore(1);
+
+    const record = (request: RequestConfig, raw: RawResponse) =>
+      lock.withPermits(1)(
+        Effect.suspend(() => {
+          interactions.push(
+            redact({
+              request: {
+                method: request.method,
+                path: request.path,
+                params: request.params,
+                body: request.body,
+              },
+              response: {
+                status: raw.status,
+                statusText: raw.statusText,
+                headers: raw.headers,
+                body: parseBody(raw),
+              },
+            })
+          );
+          return saveCassette(path, { version: 1, recordedAt, interactions });
+        })
+      );
+
+    return { record };
+  });
+
+/**
+ * Rebuild the raw response a cassette interaction recorded
+ */
+export const toRawResponse = (response: CassetteResponse): RawResponse => ({
+  status: response.status,
+  statusText: response.statusText,
+  headers: response.headers,
+  body:
+    response.body === undefined
+      ? ""
+      : typeof response.body === "string"
+        ? response.body
+        : JSON.stringify(response.body),
+});
@@ -7,7 +7,9 @@ import { SchwabConfig, type SchwabConfigShape } from "./index.js";
 import { ConfigError } from "../errors.js";
 
 const SCHWAB_API_BASE = "https://api.schwabapi.com";
+const TOKEN_PATH = "/v1/oauth/token";
 const DEFAULT_REQUESTS_PER_MINUTE = 120;
+const DEFAULT_ORDER_REQUESTS_PER_MINUTE = 120;
 const DEFAULT_MAX_RETRIES = 3;
 
 const CONFIG_DIR = join(homedir(), ".schwab-tools");
@@ -19,7 +21,9 @@ export interface ConfigOptions {
   readonly callbackPort?: number;
   readonly callbackUrl?: string;
   readonly baseUrl?: string;
+  readonly tokenUrl?: string;
   readonly requestsPerMinute?: number;
+  readonly orderRequestsPerMinute?: number;
   readonly maxRetries?: number;
   readonly schwabClientAppId?: string;
   readonly schwabClientChannel?: string;
@@ -27,6 +31,11 @@ export interface ConfigOptions {
   readonly schwabResourceVersion?: string;
   readonly schwabThirdPartyId?: string;
   readonly schwabPilotRollout?: string;
+  readonly paperTrading?: boolean;
+  readonly paperLedgerPath?: string;
+  readonly recordCassette?: string;
+  readonly cache?: boolean;
+  readonly cacheDir?: string;
 }
 
 interface StoredConfig {
@@ -34,12 +43,19 @@ interface StoredConfig {
   clientSecret?: string;
   callbackPort?: number;
   callbackUrl?: string;
+  baseUrl?: string;
+  tokenUrl?: string;
+  orderRequestsPerMinute?: number;
   schwabClientAppId?: string;
   schwabClientChannel?: string;
   schwabClientFunctionId?: string;
   schwabResourceVersion?: string;
   schwabThirdPartyId?: string;
   schwabPilotRollout?: string;
+  paperTrading?: boolean;
+  paperLedgerPath?: string;
+  cache?: boolean;
+  cacheDir?: string;
 }
 
 /**
@@ -62,6 +78,18 @@ const loadStoredConfig = Effect.async<StoredConfig | null>((resume) => {
     .catch(() => resume(Effect.succeed(null)));
 });
 
+const parseBooleanEnv = (value: string | undefined): boolean | undefined => {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  return value === "1" || value.toLowerCase() === "true";
+};
+
+const parseNumberEnv = (value: string | undefined): number | undefined => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
 /**
  * Create a SchwabConfig layer from explicit options, stored config, and env vars
  */
@@ -90,6 +118,17 @@ export const makeConfigFromOptions = (
       "https://127.0.0.1";
     const callbackPort =
       options.callbackPort ?? storedConfig?.callbackPort ?? 443;
+    // Point both at a local server (e.g. the fake API) to run offline
+    const baseUrl =
+      options.baseUrl ??
+      process.env.SCHWAB_BASE_URL ??
+      storedConfig?.baseUrl ??
+      SCHWAB_API_BASE;
+    const tokenUrl =
+      options.tokenUrl ??
+      process.env.SCHWAB_TOKEN_URL ??
+      storedConfig?.tokenUrl ??
+      new URL(TOKEN_PATH, baseUrl).toString();
 
     if (!clientId) {
       return yield* Effect.fail(
@@ -116,8 +155,14 @@ export const makeConfigFromOptions = (
       clientSecret,
       callbackPort,
       callbackUrl,
-      baseUrl: options.baseUrl ?? SCHWAB_API_BASE,
+      baseUrl,
+      tokenUrl,
       requestsPerMinute: options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE,
+      orderRequestsPerMinute:
+        options.orderRequestsPerMinute ??
+        parseNumberEnv(process.env.SCHWAB_ORDER_REQUESTS_PER_MINUTE) ??
+        storedConfig?.orderRequestsPerMinute ??
+        DEFAULT_ORDER_REQUESTS_PER_MINUTE,
       maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
       schwabClientAppId:
         options.schwabClientAppId ??
@@ -143,6 +188,19 @@ export const makeConfigFromOptions = (
         options.schwabPilotRollout ??
         process.env.SCHWAB_PILOT_ROLLOUT ??
         storedConfig?.schwabPilotRollout,
+      paperTrading:
+        options.paperTrading ??
+        parseBooleanEnv(process.env.SCHWAB_PAPER_TRADING) ??
+        storedConfig?.paperTrading ??
+        false,
+      paperLedgerPath:
+        options.paperLedgerPath ??
+        process.env.SCHWAB_PAPER_LEDGER ??
+        storedConfig?.paperLedgerPath,
+      recordCassette: options.recordCassette ?? process.env.SCHWAB_RECORD_CASSETTE,
+      cache:
+        options.cache ?? parseBooleanEnv(process.env.SCHWAB_CACHE) ?? storedConfig?.cache ?? true,
+      cacheDir: options.cacheDir ?? process.env.SCHWAB_CACHE_DIR ?? storedConfig?.cacheDir,
     };
   });
 
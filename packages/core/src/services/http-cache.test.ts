@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { HttpClient, type RequestConfig } from "./index.js";
+import { HttpClientTest } from "./http-client.js";
+import { CachedHttpClient, bypassCache, cacheClass, type CacheOptions } from "./http-cache.js";
+
+describe("cacheClass", () => {
+  it("classifies market data GETs by endpoint", () => {
+    const get = (path: string): RequestConfig => ({ method: "GET", path });
+    expect(cacheClass(get("/marketdata/v1/instruments"))).toBe("instruments");
+    expect(cacheClass(get("/marketdata/v1/instruments/037833100"))).toBe("instruments");
+    expect(cacheClass(get("/marketdata/v1/expirationchain"))).toBe("expirations");
+    expect(cacheClass(get("/marketdata/v1/quotes"))).toBe("quotes");
+    expect(cacheClass(get("/marketdata/v1/AAPL/quotes"))).toBe("quotes");
+    expect(cacheClass(get("/marketdata/v1/movers/$SPX"))).toBeUndefined();
+    expect(cacheClass(get("/trader/v1/accounts"))).toBeUndefined();
+    expect(cacheClass({ method: "POST", path: "/marketdata/v1/quotes" })).toBeUndefined();
+  });
+});
+
+describe("CachedHttpClient", () => {
+  let calls: RequestConfig[];
+
+  const makeLayer = (options: CacheOptions = {}) =>
+    CachedHttpClient(options).pipe(
+      Layer.provide(
+        HttpClientTest(<T>(config: RequestConfig) =>
+          Effect.sync(() => {
+            calls.push(config);
+            return { call: calls.length } as T;
+          })
+        )
+      )
+    );
+
+  const request = (config: RequestConfig) =>
+    Effect.flatMap(HttpClient, (client) => client.request<{ call: number }>(config));
+
+  const quotes = (symbols: string, fields?: string): RequestConfig => ({
+    method: "GET",
+    path: "/marketdata/v1/quotes",
+    params: { fields, symbols },
+  });
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  it("answers repeated requests for the same path and params from memory", async () => {
+    const results = await Effect.runPromise(
+      Effect.all([
+        request(quotes("AAPL,MSFT")),
+        request({ ...quotes("AAPL,MSFT"), params: { symbols: "AAPL,MSFT", fields: undefined } }),
+        request(quotes("AAPL,MSFT", "quote")),
+      ]).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(results.map((result) => result.call)).toEqual([1, 1, 2]);
+    expect(calls).toHaveLength(2);
+  });
+
+  it("never caches trader endpoints", async () => {
+    const accounts: RequestConfig = { method: "GET", path: "/trader/v1/accounts" };
+    await Effect.runPromise(
+      Effect.all([request(accounts), request(accounts)]).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(calls).toHaveLength(2);
+  });
+
+  it("refetches once the endpoint's TTL has passed", async () => {
+    const results = await Effect.runPromise(
+      Effect.all([
+        request(quotes("AAPL")),
+        Effect.sleep("30 millis"),
+        request(quotes("AAPL")),
+      ]).pipe(Effect.provide(makeLayer({ ttls: { quotes: 20 } })))
+    );
+
+    expect(calls).toHaveLength(2);
+    expect(results[2].call).toBe(2);
+  });
+
+  it("goes to Schwab under bypassCache and refreshes the cached answer", async () => {
+    const results = await Effect.runPromise(
+      Effect.all([
+        request(quotes("AAPL")),
+        bypassCache(request(quotes("AAPL"))),
+        request(quotes("AAPL")),
+      ]).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(results.map((result) => result.call)).toEqual([1, 2, 2]);
+  });
+
+  describe("on disk", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "schwab-cache-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("serves answers cached by an earlier process", async () => {
+      const instrument: RequestConfig = {
+        method: "GET",
+        path: "/marketdata/v1/instruments",
+        params: { symbol: "AAPL", projection: "fundamental" },
+      };
+      const first = await Effect.runPromise(
+        request(instrument).pipe(Effect.provide(makeLayer({ dir })))
+      );
+      const second = await Effect.runPromise(
+        request(instrument).pipe(Effect.provide(makeLayer({ dir })))
+      );
+
+      expect(second).toEqual(first);
+      expect(calls).toHaveLength(1);
+    });
+  });
+});
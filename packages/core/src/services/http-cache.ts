@@ -0,0 +1,162 @@
+import { Effect, FiberRef, Layer } from "effect";
+import { createHash } from "crypto";
+import { join } from "path";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { HttpClient, type RequestConfig } from "./index.js";
+import type { SchwabClientError } from "../errors.js";
+
+/**
+ * Market data endpoints grouped by how quickly their answers go stale
+ */
+export type CacheClass =
+  | "instruments"
+  | "expirations"
+  | "marketHours"
+  | "priceHistory"
+  | "chains"
+  | "quotes";
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_CACHE_TTLS: Readonly<Record<CacheClass, number>> = {
+  instruments: 3 * DAY_MS,
+  expirations: 4 * HOUR_MS,
+  marketHours: HOUR_MS,
+  priceHistory: MINUTE_MS,
+  chains: 30 * SECOND_MS,
+  quotes: 5 * SECOND_MS,
+};
+
+// Only market data GETs are cached; trader endpoints always go to Schwab
+const CACHE_CLASSES: readonly (readonly [RegExp, CacheClass])[] = [
+  [/^\/marketdata\/v1\/instruments(\/|$)/, "instruments"],
+  [/^\/marketdata\/v1\/expirationchain$/, "expirations"],
+  [/^\/marketdata\/v1\/markets(\/|$)/, "marketHours"],
+  [/^\/marketdata\/v1\/pricehistory$/, "priceHistory"],
+  [/^\/marketdata\/v1\/chains$/, "chains"],
+  [/^\/marketdata\/v1\/([^/]+\/)?quotes$/, "quotes"],
+];
+
+export const cacheClass = (request: RequestConfig): CacheClass | undefined =>
+  request.method === "GET"
+    ? CACHE_CLASSES.find(([pattern]) => pattern.test(request.path))?.[1]
+    : undefined;
+
+/**
+ * Path plus params, with params in a fixed order
+ */
+export const cacheKey = (request: RequestConfig): string =>
+  `${request.method} ${request.path}?${JSON.stringify(
+    Object.entries(request.params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  )}`;
+
+/**
+ * Whether requests on this fiber skip cached answers
+ */
+export const currentCacheBypass = FiberRef.unsafeMake(false);
+
+/**
+ * Run an effect with its requests going to Schwab even when a cached answer
+ * is fresh; the answers still refresh the cache, e.g. `bypassCache(getQuotes)`
+ */
+export const bypassCache = <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+  Effect.locally(effect, currentCacheBypass, true);
+
+export interface CacheOptions {
+  /** Also keep answers on disk here, so they outlive the process */
+  readonly dir?: string;
+  /** TTL in ms per endpoint class; 0 turns caching off for the class */
+  readonly ttls?: Partial<Record<CacheClass, number>>;
+  /** Answers kept in memory (default 500); the least recently used go first */
+  readonly maxEntries?: number;
+}
+
+interface CacheEntry {
+  readonly key: string;
+  readonly expiresAt: number;
+  readonly value: unknown;
+}
+
+/**
+ * HttpClient decorator that answers repeated market data GETs from memory,
+ * and from disk when `dir` is set. Disk errors fall back to Schwab.
+ */
+export const CachedHttpClient = (
+  options: CacheOptions = {}
+): Layer.Layer<HttpClient, never, HttpClient> =>
+  Layer.effect(
+    HttpClient,
+    Effect.gen(function* () {
+      const inner = yield* HttpClient;
+      const ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+      const maxEntries = options.maxEntries ?? 500;
+      const memory = new Map<string, CacheEntry>();
+
+      const remember = (entry: CacheEntry) => {
+        memory.delete(entry.key);
+        memory.set(entry.key, entry);
+        if (memory.size > maxEntries) {
+          memory.delete(memory.keys().next().value!);
+        }
+      };
+
+      const filePath = (dir: string, key: string) =>
+        join(dir, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+
+      const readDisk = (key: string): Effect.Effect<CacheEntry | undefined> =>
+        options.dir
+          ? Effect.tryPromise(() => readFile(filePath(options.dir!, key), "utf8")).pipe(
+              Effect.map((text) => JSON.parse(text) as CacheEntry),
+              Effect.map((entry) => (entry.key === key ? entry : undefined)),
+              Effect.orElseSucceed(() => undefined)
+            )
+          : Effect.succeed(undefined);
+
+      const writeDisk = (entry: CacheEntry): Effect.Effect<void> =>
+        options.dir
+          ? Effect.tryPromise(async () => {
+              await mkdir(options.dir!, { recursive: true });
+              await writeFile(filePath(options.dir!, entry.key), JSON.stringify(entry));
+            }).pipe(Effect.ignore)
+          : Effect.void;
+
+      const lookup = (key: string) =>
+        Effect.gen(function* () {
+          const entry = memory.get(key) ?? (yield* readDisk(key));
+          if (!entry || entry.expiresAt <= Date.now()) {
+            return undefined;
+          }
+          remember(entry);
+          return entry;
+        });
+
+      const request = <T>(config: RequestConfig): Effect.Effect<T, SchwabClientError> => {
+        const kind = cacheClass(config);
+        const ttl = kind ? ttls[kind] : 0;
+        if (!ttl) {
+          return inner.request<T>(config);
+        }
+        const key = cacheKey(config);
+        return Effect.gen(function* () {
+          if (!(yield* FiberRef.get(currentCacheBypass))) {
+            const cached = yield* lookup(key);
+            if (cached) {
+              return cached.value as T;
+            }
+          }
+          const value = yield* inner.request<T>(config);
+          const entry = { key, expiresAt: Date.now() + ttl, value };
+          remember(entry);
+          yield* writeDisk(entry);
+          return value;
+        });
+      };
+
+      return { request, getRateLimitStatus: inner.getRateLimitStatus };
+    })
+  );
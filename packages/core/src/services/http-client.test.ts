@@ -0,0 +1,322 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Exit, Fiber, Layer } from "effect";
+import { AccountService, OrderService, QuoteService, type StoredTokensShape } from "./index.js";
+import { ConfigTest } from "./config.js";
+import { TokenStorageTest } from "./token-storage.js";
+import { TokenManagerLive } from "./token-manager.js";
+import { RateLimiterLive, withRequestPriority } from "./rate-limiter.js";
+import { HttpClientLive } from "./http-client.js";
+import { QuoteServiceLive } from "./quotes.js";
+import { AccountServiceLive } from "./accounts.js";
+import { OrderServiceLive } from "./orders.js";
+import { testConfig, testTokens } from "../layers/test.js";
+import { OrderBuilder } from "../utils/order-builder.js";
+import { startFakeSchwabServer, type FakeSchwabServer } from "../../test/fake-server.js";
+
+const expiredTokens: StoredTokensShape = {
+  ...testTokens,
+  accessToken: "expired-access-token",
+  accessTokenExpiresAt: new Date(Date.now() - 60 * 1000).toISOString(),
+};
+
+describe("HttpClientLive against the fake Schwab API", () => {
+  let server: FakeSchwabServer;
+
+  // Real config, token, rate limiter and HTTP layers; only the network is fake
+  const makeLayer = (tokens: StoredTokensShape = testTokens) => {
+    const configLayer = ConfigTest({
+      ...testConfig,
+      baseUrl: server.url,
+      tokenUrl: server.tokenUrl,
+      maxRetries: 1,
+    });
+    const tokenManagerLayer = TokenManagerLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(TokenStorageTest(tokens))
+    );
+    const httpClientLayer = HttpClientLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(tokenManagerLayer),
+      Layer.provide(RateLimiterLive.pipe(Layer.provide(configLayer)))
+    );
+    return Layer.mergeAll(QuoteServiceLive, AccountServiceLive, OrderServiceLive).pipe(
+      Layer.provide(httpClientLayer)
+    );
+  };
+
+  beforeEach(() => {
+    server = startFakeSchwabServer();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("builds quote URLs and sends auth and correlation headers", async () => {
+    const quotes = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* service.getQuotes(["AAPL", "MSFT"]);
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(quotes.map((q) => q.symbol)).toEqual(["AAPL", "MSFT"]);
+    const [request] = server.requests;
+    expect(request.path).toBe("/marketdata/v1/quotes");
+    expect(request.query.get("symbols")).toBe("AAPL,MSFT");
+    expect(request.headers.get("authorization")).toBe(`Bearer ${testTokens.accessToken}`);
+    expect(request.headers.get("schwab-client-correlid")).toBeTruthy();
+  });
+
+  it("reads the order ID from the 201 Location header", async () => {
+    const orderId = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.placeOrder(
+          "ABC123HASH",
+          OrderBuilder.equityBuyLimit("AAPL", 10, 175)
+        );
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(orderId).toBe("2000001");
+    const placed = server.requests.find((r) => r.method === "POST");
+    expect(placed?.path).toBe("/trader/v1/accounts/ABC123HASH/orders");
+    expect(placed?.body).toMatchObject({ orderType: "LIMIT", price: 175 });
+  });
+
+  it("refreshes an expired access token at the configured token URL", async () => {
+    const numbers = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* AccountService;
+        return yield* service.getAccountNumbers;
+      }).pipe(Effect.provide(makeLayer(expiredTokens)))
+    );
+
+    expect(numbers).toHaveLength(2);
+    const [refresh, call] = server.requests;
+    expect(refresh.path).toBe("/v1/oauth/token");
+    expect((refresh.body as URLSearchParams).get("grant_type")).toBe("refresh_token");
+    expect(call.headers.get("authorization")).toBe("Bearer fake-access-token-1");
+  });
+
+  it("retries after a 429 response", async () => {
+    server.enqueue("GET", "/marketdata/v1/quotes", {
+      status: 429,
+      headers: { "Retry-After": "0" },
+      body: { error: "Too Many Requests" },
+    });
+
+    const quotes = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* service.getQuotes(["AAPL"]);
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(quotes).toHaveLength(1);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("waits out Retry-After and holds back the throttled bucket only", async () => {
+    server.enqueue("POST", "/trader/v1/accounts/ABC123HASH/orders", {
+      status: 429,
+      headers: { "Retry-After": "2" },
+      body: { error: "Too Many Requests" },
+    });
+
+    const result = await Effect.runPromise(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const quotes = yield* QuoteService;
+        const placing = yield* Effect.fork(
+          orders.placeOrder("ABC123HASH", OrderBuilder.equityBuyLimit("AAPL", 10, 175))
+        );
+        // Queue a cancel behind the throttled placement; quotes have their own bucket
+        yield* Effect.sleep("200 millis");
+        const canceling = yield* Effect.fork(orders.cancelOrder("ABC123HASH", "1001"));
+        const quoteList = yield* quotes.getQuotes(["AAPL"]);
+        const orderId = yield* Fiber.join(placing);
+        yield* Fiber.join(canceling);
+        return { orderId, quoteList };
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(result.orderId).toBe("2000001");
+    expect(result.quoteList).toHaveLength(1);
+    const [throttled, ...rest] = server.requests;
+    expect(throttled.method).toBe("POST");
+    for (const request of rest) {
+      const waited = request.receivedAt - throttled.receivedAt;
+      if (request.path.startsWith("/marketdata/")) {
+        expect(waited).toBeLessThan(1000);
+      } else {
+        expect(waited).toBeGreaterThanOrEqual(1900);
+      }
+    }
+  });
+
+  it("refreshes and replays once when a valid-looking token gets a 401", async () => {
+    server.revokeToken(testTokens.accessToken);
+
+    const numbers = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* AccountService;
+        return yield* service.getAccountNumbers;
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(numbers).toHaveLength(2);
+    expect(server.requests.map((r) => r.path)).toEqual([
+      "/trader/v1/accounts/accountNumbers",
+      "/v1/oauth/token",
+      "/trader/v1/accounts/accountNumbers",
+    ]);
+    expect(server.requests[2].headers.get("authorization")).toBe(
+      "Bearer fake-access-token-1"
+    );
+  });
+
+  it("gives up with AuthError when the replay is also rejected", async () => {
+    server.enqueue(
+      "GET",
+      "/trader/v1/accounts/accountNumbers",
+      { status: 401, body: { error: "invalid_token" } },
+      { status: 401, body: { error: "invalid_token" } }
+    );
+
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const service = yield* AccountService;
+        return yield* service.getAccountNumbers;
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("AuthError");
+    }
+    expect(server.requests.filter((r) => r.path === "/v1/oauth/token")).toHaveLength(1);
+  });
+
+  it("reports 403 as ForbiddenError without refreshing", async () => {
+    server.enqueue("GET", "/trader/v1/accounts/ABC123HASH", {
+      status: 403,
+      body: { error: "Forbidden", error_description: "Account not linked to this app" },
+    });
+
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const service = yield* AccountService;
+        return yield* service.getAccount("ABC123HASH");
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("ForbiddenError");
+      expect(exit.cause.error.message).toContain("Account not linked");
+    }
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("sends identical GETs in flight together once", async () => {
+    const quotes = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* Effect.all(
+          [service.getQuote("AAPL"), service.getQuote("aapl"), service.getQuote("MSFT")],
+          { concurrency: "unbounded" }
+        );
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(quotes.map((quote) => quote.symbol)).toEqual(["AAPL", "AAPL", "MSFT"]);
+    expect(server.requests.map((request) => request.path).sort()).toEqual([
+      "/marketdata/v1/AAPL/quotes",
+      "/marketdata/v1/MSFT/quotes",
+    ]);
+  });
+
+  it("does not share a GET across rate limit lanes", async () => {
+    await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* Effect.all(
+          [service.getQuote("AAPL"), withRequestPriority("background")(service.getQuote("AAPL"))],
+          { concurrency: "unbounded" }
+        );
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it("batches getQuotes calls made together into one symbols request", async () => {
+    const [aapl, msft, unknown] = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* Effect.all(
+          [
+            service.getQuotes(["AAPL"]),
+            service.getQuotes(["MSFT", "AAPL"]),
+            Effect.either(service.getQuotes(["NOPE"])),
+          ],
+          { concurrency: "unbounded" }
+        );
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(aapl.map((quote) => quote.symbol)).toEqual(["AAPL"]);
+    expect(msft.map((quote) => quote.symbol)).toEqual(["MSFT", "AAPL"]);
+    // A batch-mate's unknown symbol fails only its own call
+    expect(unknown._tag).toBe("Left");
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].query.get("symbols")).toBe("AAPL,MSFT,NOPE");
+  });
+
+  it("splits oversized quote requests and reports unknown symbols in order", async () => {
+    const fillers = Array.from({ length: 248 }, (_, index) => `ZZ${index}`);
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* service.getQuoteResults({ symbols: ["MSFT", ...fillers, "AAPL"] });
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(results.quotes.map((quote) => quote.symbol)).toEqual(["MSFT", "AAPL"]);
+    expect(results.unresolved).toEqual(fillers);
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests.map((request) => request.query.get("symbols")!.split(",").length))
+      .toEqual([200, 50]);
+  });
+
+  it("isolates a malformed symbol that gets the whole request refused", async () => {
+    const results = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* service.getQuoteResults({ symbols: ["AAPL", "BAD!", "MSFT"] });
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(results.quotes.map((quote) => quote.symbol)).toEqual(["AAPL", "MSFT"]);
+    expect(results.unresolved).toEqual(["BAD!"]);
+  });
+
+  it("surfaces API errors with the status code", async () => {
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const service = yield* AccountService;
+        return yield* service.getAccount("UNKNOWN");
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("ApiError");
+      if (exit.cause.error._tag === "ApiError") {
+        expect(exit.cause.error.statusCode).toBe(404);
+      }
+    }
+  });
+});
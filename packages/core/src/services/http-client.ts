@@ -1,4 +1,4 @@
-import { Effect, Layer, Schedule, Duration } from "effect";
+import { Deferred, Effect, FiberId, FiberRef, Layer, Schedule, Duration } from "effect";
 import {
   HttpClient,
   TokenManager,
@@ -9,10 +9,21 @@ import {
 import {
   ApiError,
   AuthError,
+  ForbiddenError,
   NetworkError,
   RateLimitError,
+  FileSystemError,
   type SchwabClientError,
 } from "../errors.js";
+import {
+  loadCassette,
+  makeCassetteRecorder,
+  toRawResponse,
+  type Cassette,
+  type CassetteRequest,
+} from "./cassette.js";
+import { currentRequestPriority } from "./rate-limiter.js";
+import { cacheKey } from "./http-cache.js";
 
 interface SchwabErrorResponse {
   error: string;
@@ -57,14 +68,29 @@ const buildUrl = (
 };
 
 /**
- * Execute a single HTTP request
+ * Status, selected headers and body text of an HTTP response, as seen before
+ * any interpretation. Cassettes record and replay this shape.
  */
-const executeRequest = <T>(
+export interface RawResponse {
+  readonly status: number;
+  readonly statusText: string;
+  /** Lower-cased header names */
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body: string;
+}
+
+// Headers the client reads when interpreting a response
+const KEPT_HEADERS = ["content-type", "location", "retry-after"];
+
+/**
+ * Send a single HTTP request and read the raw response
+ */
+const fetchRaw = (
   url: string,
   config: RequestConfig,
   accessToken: string
-): Effect.Effect<T, SchwabClientError> =>
-  Effect.async<T, SchwabClientError>((resume) => {
+): Effect.Effect<RawResponse, NetworkError> =>
+  Effect.async<RawResponse, NetworkError>((resume) => {
     const headers: Record<string, string> = {
       Authorization: `Bearer ${accessToken}`,
       Accept: "application/json",
@@ -81,98 +107,21 @@ const executeRequest = <T>(
       body: config.body ? JSON.stringify(config.body) : undefined,
     })
       .then(async (response) => {
-        // Handle no-content responses
-        if (response.status === 204 || response.status === 201) {
-          // For 201 Created, try to get the Location header for order ID
-          const location = response.headers.get("Location");
-          if (location) {
-            const match = location.match(/orders\/(\d+)/);
-            if (match) {
-              resume(Effect.succeed({ orderId: match[1] } as T));
-              return;
-            }
-          }
-          resume(Effect.succeed({} as T));
-          return;
-        }
-
-        if (!response.ok) {
-          // Handle rate limiting
-          if (response.status === 429) {
-            const retryAfter = response.headers.get("Retry-After");
-            const retryAfterMs = retryAfter
-              ? parseInt(retryAfter, 10) * 1000
-              : 60000;
-            resume(
-              Effect.fail(
-                new RateLimitError({
-                  retryAfterMs,
-                  endpoint: config.path,
-                  message: `Rate limit exceeded. Retry after ${retryAfterMs}ms`,
-                })
-              )
-            );
-            return;
+        const kept: Record<string, string> = {};
+        for (const name of KEPT_HEADERS) {
+          const value = response.headers.get(name);
+          if (value !== null) {
+            kept[name] = value;
           }
-
-          // Handle auth errors
-          if (response.status === 401 || response.status === 403) {
-            resume(
-              Effect.fail(
-                new AuthError({
-                  code: "TOKEN_EXPIRED",
-                  message: `Authentication failed: ${response.status}`,
-                })
-              )
-            );
-            return;
-          }
-
-          // Parse error response
-          let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorBody = (await response.json()) as SchwabErrorResponse;
-            errorMessage = `${response.status}: ${errorBody.error || "Unknown error"}`;
-            if (errorBody.error_description) {
-              errorMessage += ` - ${errorBody.error_description}`;
-            }
-          } catch {
-            errorMessage = `${response.status}: ${response.statusText}`;
-          }
-
-          resume(
-            Effect.fail(
-              new ApiError({
-                statusCode: response.status,
-                endpoint: config.path,
-                method: config.method,
-                message: errorMessage,
-                body: config.body,
-              })
-            )
-          );
-          return;
-        }
-
-        // Check if response has content
-        const contentType = response.headers.get("content-type");
-        if (!contentType || !contentType.includes("application/json")) {
-          resume(Effect.succeed({} as T));
-          return;
-        }
-
-        const text = await response.text();
-        if (!text) {
-          resume(Effect.succeed({} as T));
-          return;
-        }
-
-        try {
-          const data = JSON.parse(text) as T;
-          resume(Effect.succeed(data));
-        } catch {
-          resume(Effect.succeed({} as T));
         }
+        resume(
+          Effect.succeed({
+            status: response.status,
+            statusText: response.statusText,
+            headers: kept,
+            body: await response.text(),
+          })
+        );
       })
       .catch((error) => {
         resume(
@@ -187,6 +136,125 @@ const executeRequest = <T>(
       });
   });
 
+// Used when a 429 carries no usable Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000;
+
+/**
+ * Retry-After as milliseconds; the header may be delta-seconds or an HTTP date
+ */
+const parseRetryAfter = (value: string | undefined): number => {
+  if (!value) {
+    return DEFAULT_RETRY_AFTER_MS;
+  }
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+};
+
+/**
+ * Error text from a Schwab error body, if it has one
+ */
+const errorDetail = (response: RawResponse): string | undefined => {
+  try {
+    const errorBody = JSON.parse(response.body) as SchwabErrorResponse;
+    let detail = errorBody.error || "Unknown error";
+    if (errorBody.error_description) {
+      detail += ` - ${errorBody.error_description}`;
+    }
+    return detail;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Turn a raw response into the parsed body or a typed error
+ */
+export const interpretResponse = <T>(
+  response: RawResponse,
+  config: RequestConfig
+): Effect.Effect<T, SchwabClientError> => {
+  // Handle no-content responses
+  if (response.status === 204 || response.status === 201) {
+    // For 201 Created, try to get the Location header for order ID
+    const location = response.headers.location;
+    if (location) {
+      const match = location.match(/orders\/(\d+)/);
+      if (match) {
+        return Effect.succeed({ orderId: match[1] } as T);
+      }
+    }
+    return Effect.succeed({} as T);
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    // Handle rate limiting
+    if (response.status === 429) {
+      const retryAfterMs = parseRetryAfter(response.headers["retry-after"]);
+      return Effect.fail(
+        new RateLimitError({
+          retryAfterMs,
+          endpoint: config.path,
+          message: `Rate limit exceeded. Retry after ${retryAfterMs}ms`,
+        })
+      );
+    }
+
+    // 401 means the access token was rejected; HttpClientLive refreshes and
+    // replays once before this reaches the caller
+    if (response.status === 401) {
+      return Effect.fail(
+        new AuthError({
+          code: "TOKEN_EXPIRED",
+          message: `Authentication failed: ${response.status}`,
+        })
+      );
+    }
+
+    // 403 is an entitlement problem that a new token will not fix
+    if (response.status === 403) {
+      return Effect.fail(
+        new ForbiddenError({
+          endpoint: config.path,
+          method: config.method,
+          message: `Access denied (403): ${errorDetail(response) ?? "not permitted for this account or app"}`,
+        })
+      );
+    }
+
+    // Parse error response
+    const detail = errorDetail(response);
+    const errorMessage = detail
+      ? `${response.status}: ${detail}`
+      : `${response.status}: ${response.statusText}`;
+
+    return Effect.fail(
+      new ApiError({
+        statusCode: response.status,
+        endpoint: config.path,
+        method: config.method,
+        message: errorMessage,
+        body: config.body,
+      })
+    );
+  }
+
+  // Check if response has content
+  const contentType = response.headers["content-type"];
+  if (!contentType || !contentType.includes("application/json") || !response.body) {
+    return Effect.succeed({} as T);
+  }
+
+  try {
+    return Effect.succeed(JSON.parse(response.body) as T);
+  } catch {
+    return Effect.succeed({} as T);
+  }
+};
+
 /**
  * Create the HTTP client implementation
  */
@@ -194,8 +262,13 @@ const makeHttpClient = Effect.gen(function* () {
   const config = yield* SchwabConfig;
   const tokenManager = yield* TokenManager;
   const rateLimiter = yield* RateLimiter;
+  const layerScope = yield* Effect.scope;
+  const recorder = config.recordCassette
+    ? yield* makeCassetteRecorder(config.recordCassette)
+    : undefined;
 
-  // Retry schedule for server errors and rate limits
+  // Retry schedule for server errors and rate limits. A 429 waits at least as
+  // long as the server's Retry-After, even when the backoff would be shorter.
   const retrySchedule = Schedule.exponential(Duration.seconds(1)).pipe(
     Schedule.compose(Schedule.recurs(config.maxRetries)),
     Schedule.whileInput<SchwabClientError>((error) => {
@@ -212,14 +285,17 @@ const makeHttpClient = Effect.gen(function* () {
         return true;
       }
       return false;
-    })
+    }),
+    Schedule.passthrough,
+    Schedule.modifyDelay((error, delay) =>
+      error._tag === "RateLimitError"
+        ? Duration.max(delay, Duration.millis(error.retryAfterMs))
+        : delay
+    )
   );
 
-  const request = <T>(requestConfig: RequestConfig): Effect.Effect<T, SchwabClientError> =>
+  const execute = <T>(requestConfig: RequestConfig): Effect.Effect<T, SchwabClientError> =>
     Effect.gen(function* () {
-      // Acquire rate limit slot
-      yield* rateLimiter.acquire;
-
       // Get access token (auto-refreshes if needed)
       const accessToken = yield* tokenManager.getAccessToken;
 
@@ -256,14 +332,66 @@ const makeHttpClient = Effect.gen(function* () {
         },
       };
 
-      // Execute request with retry
-      const result = yield* executeRequest<T>(url, requestWithHeaders, accessToken).pipe(
-        Effect.retry(retrySchedule)
-      );
+      // Execute request with retry, recording each raw response if asked.
+      // Every attempt takes a slot in the request's rate limit bucket, and a
+      // 429 pauses that bucket so its queued callers wait it out too.
+      const send = (token: string) =>
+        rateLimiter.acquire(requestConfig).pipe(
+          Effect.zipRight(fetchRaw(url, requestWithHeaders, token)),
+          Effect.tap((raw) => (recorder ? recorder.record(requestConfig, raw) : Effect.void)),
+          Effect.flatMap((raw) => interpretResponse<T>(raw, requestWithHeaders)),
+          Effect.tapError((error) =>
+            error._tag === "RateLimitError" ? rateLimiter.pause(requestConfig, error.retryAfterMs) : Effect.void
+          ),
+          Effect.retry(retrySchedule)
+        );
 
-      return result;
+      // A 401 can come before the token's stored expiry (revoked or expired
+      // early on Schwab's side): refresh once and replay the request
+      return yield* send(accessToken).pipe(
+        Effect.catchIf(
+          (error) => error._tag === "AuthError" && error.code === "TOKEN_EXPIRED",
+          () =>
+            tokenManager.refreshTokens.pipe(
+              Effect.zipRight(tokenManager.getAccessToken),
+              Effect.flatMap(send)
+            )
+        )
+      );
     });
 
+  // GETs in flight, keyed on lane, method, path and params
+  const inFlight = new Map<string, Deferred.Deferred<unknown, SchwabClientError>>();
+
+  // Identical GETs sent while one is in flight share its response and its
+  // rate limit slot. The shared call runs in the layer's scope, so it
+  // finishes for the others when the caller that started it is interrupted.
+  const request = <T>(requestConfig: RequestConfig): Effect.Effect<T, SchwabClientError> =>
+    requestConfig.method !== "GET"
+      ? execute<T>(requestConfig)
+      : Effect.gen(function* () {
+          const priority =
+            requestConfig.priority ?? (yield* FiberRef.get(currentRequestPriority));
+          const key = `${priority} ${cacheKey(requestConfig)}`;
+          const [shared, started] = yield* Effect.sync(() => {
+            const existing = inFlight.get(key);
+            if (existing) {
+              return [existing, false] as const;
+            }
+            const deferred = Deferred.unsafeMake<unknown, SchwabClientError>(FiberId.none);
+            inFlight.set(key, deferred);
+            return [deferred, true] as const;
+          });
+          if (started) {
+            yield* execute<unknown>(requestConfig).pipe(
+              Effect.intoDeferred(shared),
+              Effect.ensuring(Effect.sync(() => inFlight.delete(key))),
+              Effect.forkIn(layerScope)
+            );
+          }
+          return (yield* Deferred.await(shared)) as T;
+        });
+
   const getRateLimitStatus = rateLimiter.getStatus;
 
   return {
@@ -275,7 +403,7 @@ const makeHttpClient = Effect.gen(function* () {
 /**
  * Live HTTP client layer
  */
-export const HttpClientLive = Layer.effect(HttpClient, makeHttpClient);
+export const HttpClientLive = Layer.scoped(HttpClient, makeHttpClient);
 
 /**
  * Test HTTP client that uses a mock request handler
@@ -288,5 +416,81 @@ export const HttpClientTest = (
     getRateLimitStatus: Effect.succeed({
       requestsRemaining: 120,
       windowResetAt: new Date(),
+      buckets: [],
     }),
   });
+
+const sameParams = (
+  recorded: CassetteRequest["params"],
+  actual: RequestConfig["params"]
+): boolean => {
+  const normalize = (params: RequestConfig["params"]) =>
+    JSON.stringify(
+      Object.entries(params ?? {})
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+    );
+  return normalize(recorded) === normalize(actual);
+};
+
+/**
+ * HTTP client that serves responses from a cassette instead of the network.
+ *
+ * Requests match recorded interactions by method and path, preferring the
+ * ones whose query params match exactly (time-window params usually differ
+ * between recording and replay). Interactions for the same request replay in
+ * recorded order; the last one repeats once they run out.
+ */
+export const HttpClientReplay = (
+  cassette: Cassette | string
+): Layer.Layer<HttpClient, FileSystemError> =>
+  Layer.effect(
+    HttpClient,
+    Effect.gen(function* () {
+      const { interactions } =
+        typeof cassette === "string" ? yield* loadCassette(cassette) : cassette;
+      const used = new Set<number>();
+
+      const findInteraction = (config: RequestConfig) => {
+        const candidates = interactions
+          .map((interaction, index) => ({ interaction, index }))
+          .filter(
+            ({ interaction }) =>
+              interaction.request.method === config.method &&
+              interaction.request.path === config.path
+          );
+        const exact = candidates.filter(({ interaction }) =>
+          sameParams(interaction.request.params, config.params)
+        );
+        const pool = exact.length > 0 ? exact : candidates;
+        const next = pool.find(({ index }) => !used.has(index)) ?? pool[pool.length - 1];
+        if (next) {
+          used.add(next.index);
+        }
+        return next?.interaction;
+      };
+
+      return {
+        request: <T>(config: RequestConfig) =>
+          Effect.suspend(() => {
+            const interaction = findInteraction(config);
+            if (!interaction) {
+              return Effect.fail(
+                new ApiError({
+                  statusCode: 404,
+                  endpoint: config.path,
+                  method: config.method,
+                  message: `No recorded response for ${config.method} ${config.path}`,
+                })
+              );
+            }
+            return interpretResponse<T>(toRawResponse(interaction.response), config);
+          }),
+        getRateLimitStatus: Effect.succeed({
+          requestsRemaining: 120,
+          windowResetAt: new Date(),
+          buckets: [],
+        }),
+      };
+    })
+  );
@@ -1,4 +1,4 @@
-import { Context, Effect } from "effect";
+import { Context, Effect, Stream } from "effect";
 import type {
   AuthError,
   TokenExpiredError,
@@ -8,6 +8,8 @@ import type {
   RateLimitError,
   OrderRejectedError,
   SymbolNotFoundError,
+  SchemaParseError,
+  StreamerError,
 } from "../errors.js";
 import type {
   Account,
@@ -24,14 +26,28 @@ import type {
   InstrumentProjection,
   OptionChain,
   OptionChainParams,
+  OptionContract,
   CompactOptionChain,
   Expiration,
   UserPreference,
   Order,
   OrderSpec,
   OrderQueryParams,
+  OrderEvent,
+  StreamerServiceName,
+  LevelOneEquity,
+  LevelOneOption,
+  ChartEquity,
+  ChartFutures,
+  BookService,
+  BookSnapshot,
+  TimeAndSale,
 } from "../schemas/index.js";
-import type { MarketType, HttpMethod } from "../schemas/primitives.js";
+import type {
+  MarketType,
+  HttpMethod,
+  PriceHistoryFrequency,
+} from "../schemas/primitives.js";
 
 // ============================================================================
 // Configuration
@@ -43,7 +59,12 @@ export interface SchwabConfigShape {
   readonly callbackPort: number;
   readonly callbackUrl: string;
   readonly baseUrl: string;
+  /** OAuth token endpoint (defaults to `${baseUrl}/v1/oauth/token`) */
+  readonly tokenUrl: string;
+  /** Per-minute limit for market data and for trader reads */
   readonly requestsPerMinute: number;
+  /** Per-minute limit for order writes, per account */
+  readonly orderRequestsPerMinute: number;
   readonly maxRetries: number;
   readonly schwabClientAppId?: string;
   readonly schwabClientChannel?: string;
@@ -51,6 +72,15 @@ export interface SchwabConfigShape {
   readonly schwabResourceVersion?: string;
   readonly schwabThirdPartyId?: string;
   readonly schwabPilotRollout?: string;
+  /** Route orders and account reads to the local paper trading ledger */
+  readonly paperTrading?: boolean;
+  readonly paperLedgerPath?: string;
+  /** Record every HTTP exchange to this cassette file (tokens and accounts redacted) */
+  readonly recordCassette?: string;
+  /** Cache market data answers (default true) */
+  readonly cache?: boolean;
+  /** Also keep cached market data on disk here */
+  readonly cacheDir?: string;
 }
 
 export class SchwabConfig extends Context.Tag("SchwabConfig")<
@@ -123,13 +153,31 @@ export class TokenManager extends Context.Tag("TokenManager")<
 // Rate Limiter Service
 // ============================================================================
 
+export interface RateLimitBucketStatusShape {
+  /** `market-data`, `trader` or `orders:<accountHash>` */
+  readonly bucket: string;
+  /** Requests allowed per minute */
+  readonly limit: number;
+  readonly requestsRemaining: number;
+  readonly windowResetAt: Date;
+  /** Set while requests are held back after a server 429 */
+  readonly pausedUntil?: Date;
+}
+
 export interface RateLimitStatusShape {
+  /** Figures for the bucket closest to its limit */
   readonly requestsRemaining: number;
   readonly windowResetAt: Date;
+  /** Latest pause across all buckets */
+  readonly pausedUntil?: Date;
+  readonly buckets: readonly RateLimitBucketStatusShape[];
 }
 
 export interface RateLimiterShape {
-  readonly acquire: Effect.Effect<void, RateLimitError>;
+  /** Wait for a slot in the bucket the request counts against */
+  readonly acquire: (request: RequestConfig) => Effect.Effect<void, RateLimitError>;
+  /** Hold back queued and future requests in the request's bucket for at least retryAfterMs */
+  readonly pause: (request: RequestConfig, retryAfterMs: number) => Effect.Effect<void>;
   readonly getStatus: Effect.Effect<RateLimitStatusShape>;
   readonly reset: Effect.Effect<void>;
 }
@@ -143,9 +191,17 @@ export class RateLimiter extends Context.Tag("RateLimiter")<
 // HTTP Client Service
 // ============================================================================
 
+/**
+ * Rate limiter lane. Within a bucket, waiting `urgent` requests (order
+ * cancel/replace) go before `interactive` ones, which go before `background`.
+ */
+export type RequestPriority = "urgent" | "interactive" | "background";
+
 export interface RequestConfig {
   readonly method: HttpMethod;
   readonly path: string;
+  /** Defaults to the fiber's priority (see withRequestPriority), normally `interactive` */
+  readonly priority?: RequestPriority;
   readonly params?: Record<
     string,
     string | number | boolean | readonly (string | number | boolean)[] | undefined
@@ -201,6 +257,13 @@ export class AccountService extends Context.Tag("AccountService")<
 // Quote Service
 // ============================================================================
 
+export interface QuoteResults {
+  /** In the order requested */
+  readonly quotes: readonly Quote[];
+  /** Requested symbols Schwab returned no quote for */
+  readonly unresolved: readonly string[];
+}
+
 export interface QuoteServiceShape {
   readonly getQuotes: (
     symbols: readonly string[],
@@ -209,6 +272,13 @@ export interface QuoteServiceShape {
   readonly getQuotesByRequest: (
     request: QuoteRequestParams
   ) => Effect.Effect<readonly Quote[], SchwabClientError | SymbolNotFoundError>;
+  /**
+   * Like getQuotesByRequest, but reports unknown symbols instead of failing
+   * when none resolve
+   */
+  readonly getQuoteResults: (
+    request: QuoteRequestParams
+  ) => Effect.Effect<QuoteResults, SchwabClientError>;
   readonly getQuote: (
     symbol: string,
     options?: Omit<QuoteRequestParams, "symbols" | "cusips" | "ssids">
@@ -298,6 +368,13 @@ export interface OptionChainServiceShape {
   readonly getExpirationChain: (
     symbol: string
   ) => Effect.Effect<readonly Expiration[], SchwabClientError>;
+  /**
+   * Look up specific contracts by OCC symbol, fetching one chain per
+   * underlying. Symbols missing from the chain are left out of the result.
+   */
+  readonly getContracts: (
+    symbols: readonly string[]
+  ) => Effect.Effect<readonly OptionContract[], SchwabClientError>;
 }
 
 export class OptionChainService extends Context.Tag("OptionChainService")<
@@ -361,6 +438,178 @@ export class OrderService extends Context.Tag("OrderService")<
   OrderServiceShape
 >() {}
 
+// ============================================================================
+// Streamer Service
+// ============================================================================
+
+/**
+ * One keyed entry from a streamer data message, with Schwab's numbered
+ * fields as sent
+ */
+export interface StreamerDataItemShape {
+  readonly service: StreamerServiceName;
+  readonly key: string;
+  readonly timestamp: number;
+  readonly fields: Readonly<Record<string, unknown>>;
+}
+
+export interface StreamerStatusShape {
+  readonly state: "idle" | "connecting" | "connected" | "reconnecting";
+  /** Connections lost since the first login */
+  readonly reconnects: number;
+  readonly lastError?: string;
+  /** Subscribed keys per service */
+  readonly subscriptions: Readonly<Partial<Record<StreamerServiceName, readonly string[]>>>;
+}
+
+export interface StreamerServiceShape {
+  /**
+   * Subscribe to keys on a service, connecting and logging in on first use.
+   * Keys are reference counted so several consumers can share them.
+   */
+  readonly add: (
+    service: StreamerServiceName,
+    keys: readonly string[],
+    fields?: readonly number[]
+  ) => Effect.Effect<void, StreamerError>;
+  /** Release keys taken with `add`; the last release unsubscribes them */
+  readonly unsubscribe: (
+    service: StreamerServiceName,
+    keys: readonly string[]
+  ) => Effect.Effect<void, StreamerError>;
+  /** Replace the fields streamed for every key on a service */
+  readonly view: (
+    service: StreamerServiceName,
+    fields: readonly number[]
+  ) => Effect.Effect<void, StreamerError>;
+  /** Raw updates for a service, whoever subscribed the keys */
+  readonly data: (service: StreamerServiceName) => Stream.Stream<StreamerDataItemShape>;
+  /** Level one equity quotes, subscribed while the stream runs */
+  readonly levelOneEquities: (
+    symbols: readonly string[],
+    fields?: readonly number[]
+  ) => Stream.Stream<LevelOneEquity, StreamerError | SchemaParseError>;
+  /**
+   * Level one option quotes with greeks, subscribed while the stream runs.
+   * Takes OCC symbols, padded or not; records use OptionContract field names.
+   */
+  readonly levelOneOptions: (
+    symbols: readonly string[]
+  ) => Stream.Stream<LevelOneOption, StreamerError | SchemaParseError>;
+  /** One-minute equity bars, subscribed while the stream runs */
+  readonly chartEquity: (
+    symbols: readonly string[]
+  ) => Stream.Stream<ChartEquity, StreamerError | SchemaParseError>;
+  /** One-minute futures bars (`/ES`), subscribed while the stream runs */
+  readonly chartFutures: (
+    symbols: readonly string[]
+  ) => Stream.Stream<ChartFutures, StreamerError | SchemaParseError>;
+  /**
+   * Level II depth from one book service, a full snapshot per update. Fails
+   * with NOT_ENTITLED when the account lacks level II permissions.
+   */
+  readonly book: (
+    service: BookService,
+    symbols: readonly string[]
+  ) => Stream.Stream<BookSnapshot, StreamerError | SchemaParseError>;
+  /**
+   * Trade prints for equities. The streamer has no time-and-sales service,
+   * so prints come from the level one last-trade fields.
+   */
+  readonly timeAndSales: (
+    symbols: readonly string[]
+  ) => Stream.Stream<TimeAndSale, StreamerError | SchemaParseError>;
+  readonly status: Effect.Effect<StreamerStatusShape>;
+}
+
+export class StreamerService extends Context.Tag("StreamerService")<
+  StreamerService,
+  StreamerServiceShape
+>() {}
+
+// ============================================================================
+// Order Event Service
+// ============================================================================
+
+export interface OrderEventServiceShape {
+  /**
+   * Lifecycle events for orders in every linked account. Uses the account
+   * activity stream when the streamer is available and polls otherwise;
+   * orders as they stand when the stream starts produce no events.
+   */
+  readonly events: Stream.Stream<OrderEvent, SchwabClientError>;
+}
+
+export class OrderEventService extends Context.Tag("OrderEventService")<
+  OrderEventService,
+  OrderEventServiceShape
+>() {}
+
+// ============================================================================
+// Candle Store
+// ============================================================================
+
+export interface CandleStoreShape {
+  /**
+   * Rolling window of one-minute bars for the symbol, oldest first. The
+   * first call backfills from price history and follows the chart stream;
+   * later calls read the window as it stands.
+   */
+  readonly candles: (symbol: string) => Effect.Effect<readonly Candle[], SchwabClientError>;
+  /** The window, each time a bar is added or replaced */
+  readonly changes: (symbol: string) => Stream.Stream<readonly Candle[], SchwabClientError>;
+  /** Stop following the symbol and drop its window */
+  readonly untrack: (symbol: string) => Effect.Effect<void>;
+}
+
+export class CandleStore extends Context.Tag("CandleStore")<
+  CandleStore,
+  CandleStoreShape
+>() {}
+
+// ============================================================================
+// Candle Repository
+// ============================================================================
+
+export interface CandleSyncResult {
+  readonly symbol: string;
+  readonly frequency: PriceHistoryFrequency;
+  /** Candles stored after the sync */
+  readonly candles: number;
+  /** Candles that weren't stored before */
+  readonly added: number;
+  /** Stored prices no longer matched Schwab's (a split), so the series was downloaded again */
+  readonly readjusted: boolean;
+  readonly first?: Date;
+  readonly last?: Date;
+}
+
+export interface CandleRepositoryShape {
+  /**
+   * Candles in the range, oldest first, from the local store. Only the parts
+   * of the range not stored yet are downloaded.
+   */
+  readonly getCandles: (
+    symbol: string,
+    frequency: PriceHistoryFrequency,
+    range: { readonly startDate: Date; readonly endDate?: Date }
+  ) => Effect.Effect<readonly Candle[], SchwabClientError>;
+  /**
+   * Bring the stored series up to now, backfilling to `startDate` (default
+   * 20 years for daily and longer bars, 10 days for minute bars)
+   */
+  readonly sync: (
+    symbol: string,
+    frequency: PriceHistoryFrequency,
+    startDate?: Date
+  ) => Effect.Effect<CandleSyncResult, SchwabClientError>;
+}
+
+export class CandleRepository extends Context.Tag("CandleRepository")<
+  CandleRepository,
+  CandleRepositoryShape
+>() {}
+
 // ============================================================================
 // Re-export all service types
 // ============================================================================
@@ -1,12 +1,15 @@
 import { describe, it, expect } from "bun:test";
-import { Effect } from "effect";
-import { OptionChainService } from "./index.js";
+import { Effect, Layer } from "effect";
+import { OptionChainService, type RequestConfig } from "./index.js";
+import { HttpClientTest } from "./http-client.js";
+import { OptionChainServiceLive } from "./options.js";
 import { OptionChainServiceTest } from "../layers/test.js";
 import { SymbolNotFoundError } from "../errors.js";
 import {
   mockOptionChain,
   mockCompactOptionChain,
   mockExpirationChain,
+  mockSchwabOptionChainResponse,
 } from "../../test/fixtures/options.js";
 
 describe("OptionChainService", () => {
@@ -264,4 +267,35 @@ describe("OptionChainService", () => {
       }
     });
   });
+
+  describe("getContracts (live)", () => {
+    it("fetches one chain per underlying and returns the requested contracts", async () => {
+      const requests: RequestConfig[] = [];
+      const layer = OptionChainServiceLive.pipe(
+        Layer.provide(
+          HttpClientTest(<T>(config: RequestConfig) => {
+            requests.push(config);
+            return Effect.succeed(mockSchwabOptionChainResponse as T);
+          })
+        )
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OptionChainService;
+        return yield* service.getContracts([
+          "AAPL  240119C00180000",
+          "AAPL  240119C00999000",
+        ]);
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].params?.symbol).toBe("AAPL");
+      expect(result.map((contract) => contract.symbol)).toEqual([
+        "AAPL  240119C00180000",
+      ]);
+      expect(result[0].bid).toBe(3.5);
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { Effect, Layer } from "effect";
 import { OptionChainService, HttpClient } from "./index.js";
 import { decode } from "../validation.js";
+import { parseOptionSymbol } from "../utils/option-symbol.js";
 import {
   type OptionChain,
   type OptionChainParams,
@@ -140,6 +141,16 @@ const mapExpiration = (
 
 const formatDate = (date: Date): string => date.toISOString().split("T")[0];
 
+const chainContracts = (chain: OptionChain): OptionContract[] =>
+  [chain.callExpDateMap, chain.putExpDateMap].flatMap((dateMap) =>
+    Object.values(dateMap).flatMap((strikeMap) => Object.values(strikeMap).flat())
+  );
+
+// Chain symbols are space-padded OCC symbols; compare without the padding
+const normalizeSymbol = (symbol: string): string => symbol.replace(/\s+/g, "");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Create the Option Chain service implementation
  */
@@ -267,10 +278,40 @@ const makeOptionChainService = Effect.gen(function* () {
       return response.expirationList.map(mapExpiration);
     });
 
+  const getContracts = (symbols: readonly string[]) =>
+    Effect.gen(function* () {
+      const byUnderlying = new Map<string, Date[]>();
+      for (const symbol of symbols) {
+        const { underlying, expiration } = parseOptionSymbol(symbol);
+        const expirations = byUnderlying.get(underlying) ?? [];
+        expirations.push(expiration);
+        byUnderlying.set(underlying, expirations);
+      }
+
+      const wanted = new Set(symbols.map(normalizeSymbol));
+      const chains = yield* Effect.forEach(
+        Array.from(byUnderlying.entries()),
+        ([underlying, expirations]) => {
+          const times = expirations.map((date) => date.getTime());
+          // Pad the window a day each side: formatDate works in UTC while
+          // OCC expirations are local calendar dates
+          return getOptionChain(underlying, {
+            fromDate: new Date(Math.min(...times) - DAY_MS),
+            toDate: new Date(Math.max(...times) + DAY_MS),
+          });
+        }
+      );
+
+      return chains
+        .flatMap(chainContracts)
+        .filter((contract) => wanted.has(normalizeSymbol(contract.symbol)));
+    });
+
   return {
     getOptionChain,
     getCompactOptionChain,
     getExpirationChain,
+    getContracts,
   };
 });
 
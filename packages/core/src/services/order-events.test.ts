@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Chunk, Effect, Layer, Schedule, Stream } from "effect";
+import { OrderEventService, type OrderEventServiceShape } from "./index.js";
+import { ConfigTest } from "./config.js";
+import { TokenStorageTest } from "./token-storage.js";
+import { TokenManagerLive } from "./token-manager.js";
+import { RateLimiterLive } from "./rate-limiter.js";
+import { HttpClientLive } from "./http-client.js";
+import { OrderServiceLive } from "./orders.js";
+import { UserPreferenceServiceLive } from "./user-preferences.js";
+import { StreamerServiceLive } from "./streamer.js";
+import { OrderEventServiceLive, diffOrders } from "./order-events.js";
+import { testConfig, testTokens } from "../layers/test.js";
+import type { Order } from "../schemas/index.js";
+import {
+  mockOrders,
+  mockSchwabOrderResponse,
+  mockSchwabOrdersResponse,
+} from "../../test/fixtures/orders.js";
+import {
+  startFakeSchwabServer,
+  type FakeResponse,
+  type FakeSchwabServer,
+} from "../../test/fake-server.js";
+
+const working = mockOrders[0];
+const previous = new Map([[working.orderId, working]]);
+const withChanges = (changes: Partial<Order>): Order => ({ ...working, ...changes });
+
+describe("diffOrders", () => {
+  it("reports new working orders as accepted", () => {
+    const events = diffOrders(new Map(), [working], "poll");
+    expect(events.map((e) => e.type)).toEqual(["ACCEPTED"]);
+    expect(events[0]).toMatchObject({ orderId: "1000001", symbol: "AAPL", source: "poll" });
+  });
+
+  it("waits for acknowledgement before reporting acceptance", () => {
+    const pending = withChanges({ status: "PENDING_ACKNOWLEDGEMENT" });
+    expect(diffOrders(new Map(), [pending], "poll")).toEqual([]);
+    expect(
+      diffOrders(new Map([[pending.orderId, pending]]), [working], "poll").map((e) => e.type)
+    ).toEqual(["ACCEPTED"]);
+  });
+
+  it("reports partial fills with the quantity filled since the last read", () => {
+    const partial = withChanges({ filledQuantity: 40, remainingQuantity: 60 });
+    const [first] = diffOrders(previous, [partial], "stream");
+    expect(first).toMatchObject({ type: "PARTIAL_FILL", fillQuantity: 40 });
+
+    const filled = withChanges({ status: "FILLED", filledQuantity: 100, remainingQuantity: 0 });
+    const [second] = diffOrders(new Map([[partial.orderId, partial]]), [filled], "stream");
+    expect(second).toMatchObject({ type: "FILLED", fillQuantity: 60 });
+  });
+
+  it("reports cancels, rejects and replacements once", () => {
+    const types = (status: Order["status"]) => {
+      const changed = withChanges({ status });
+      return [
+        ...diffOrders(previous, [changed], "poll"),
+        ...diffOrders(new Map([[changed.orderId, changed]]), [changed], "poll"),
+      ].map((e) => e.type);
+    };
+    expect(types("CANCELED")).toEqual(["CANCELED"]);
+    expect(types("REJECTED")).toEqual(["REJECTED"]);
+    expect(types("REPLACED")).toEqual(["REPLACED"]);
+  });
+
+  it("reports a fill that ends in a cancel as both", () => {
+    const canceled = withChanges({
+      status: "CANCELED",
+      filledQuantity: 30,
+      remainingQuantity: 70,
+    });
+    expect(diffOrders(previous, [canceled], "poll").map((e) => e.type)).toEqual([
+      "PARTIAL_FILL",
+      "CANCELED",
+    ]);
+  });
+});
+
+describe("OrderEventServiceLive against the fake Schwab API", () => {
+  let server: FakeSchwabServer;
+
+  const makeLayer = () => {
+    const configLayer = ConfigTest({
+      ...testConfig,
+      baseUrl: server.url,
+      tokenUrl: server.tokenUrl,
+    });
+    const tokenManagerLayer = TokenManagerLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(TokenStorageTest(testTokens))
+    );
+    const httpClientLayer = HttpClientLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(tokenManagerLayer),
+      Layer.provide(RateLimiterLive.pipe(Layer.provide(configLayer)))
+    );
+    const streamerLayer = StreamerServiceLive({ requestTimeoutMs: 1000 }).pipe(
+      Layer.provide(UserPreferenceServiceLive.pipe(Layer.provide(httpClientLayer))),
+      Layer.provide(tokenManagerLayer)
+    );
+    return OrderEventServiceLive({ pollIntervalMs: 50, batchWindowMs: 20 }).pipe(
+      Layer.provide(OrderServiceLive.pipe(Layer.provide(httpClientLayer))),
+      Layer.provide(streamerLayer),
+      Layer.provide(configLayer)
+    );
+  };
+
+  // The working fixture order, filled
+  const filledResponse = [
+    { ...mockSchwabOrderResponse, status: "FILLED", filledQuantity: 100, remainingQuantity: 0 },
+    ...mockSchwabOrdersResponse.slice(1),
+  ];
+
+  // Wait for the baseline read, change the order, then trigger a re-read;
+  // reads answered with `failures` come before the changed order
+  const firstEvent = (trigger: Effect.Effect<void>, ...failures: FakeResponse[]) =>
+    Effect.runPromise(
+      Effect.gen(function* () {
+        const service: OrderEventServiceShape = yield* OrderEventService;
+        const fiber = yield* service.events.pipe(Stream.take(1), Stream.runCollect, Effect.fork);
+        const baselineRead = Effect.sync(() =>
+          server.requests.some((r) => r.path === "/trader/v1/orders")
+        );
+        yield* baselineRead.pipe(
+          Effect.repeat({ schedule: Schedule.spaced("20 millis"), until: (read) => read })
+        );
+        yield* Effect.sleep("100 millis");
+        server.enqueue("GET", "/trader/v1/orders", ...failures, { body: filledResponse });
+        yield* trigger;
+        return Chunk.unsafeHead(yield* fiber);
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+  beforeEach(() => {
+    server = startFakeSchwabServer();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("re-reads orders when account activity arrives", async () => {
+    const event = await firstEvent(
+      Effect.sync(() =>
+        server.streamer.push("ACCT_ACTIVITY", [
+          { key: "Account Activity", "1": "12345678", "2": "OrderFillCompleted", "3": "{}" },
+        ])
+      )
+    );
+
+    expect(event).toMatchObject({ type: "FILLED", orderId: "1000001", source: "stream" });
+    expect(
+      server.streamer.requests.find((request) => request.service === "ACCT_ACTIVITY")
+    ).toMatchObject({ command: "ADD", parameters: { keys: "Account Activity" } });
+  });
+
+  it("polls orders when the streamer is unavailable", async () => {
+    server.streamer.denyLogins();
+
+    const event = await firstEvent(Effect.void);
+
+    expect(event).toMatchObject({ type: "FILLED", fillQuantity: 100, source: "poll" });
+    const reads = server.requests.filter((r) => r.path === "/trader/v1/orders");
+    expect(reads.length).toBeGreaterThan(1);
+  });
+
+  it("keeps the event stream going when a read fails", async () => {
+    server.streamer.denyLogins();
+
+    const event = await firstEvent(Effect.void, {
+      status: 400,
+      body: { message: "Bad request" },
+    });
+
+    expect(event).toMatchObject({ type: "FILLED", fillQuantity: 100, source: "poll" });
+  });
+});
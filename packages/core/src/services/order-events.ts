@@ -0,0 +1,165 @@
+import { Chunk, Effect, Layer, Schedule, Stream } from "effect";
+import { OrderEventService, OrderService, SchwabConfig, StreamerService } from "./index.js";
+import { withRequestPriority } from "./rate-limiter.js";
+import type { Order, OrderEvent, OrderEventType, OrderStatus } from "../schemas/index.js";
+
+export interface OrderEventOptions {
+  /** Interval between order reads when streaming is unavailable (default 5s) */
+  readonly pollIntervalMs?: number;
+  /** Interval between full re-reads while streaming, to catch activity missed across reconnects (default 60s) */
+  readonly resyncIntervalMs?: number;
+  /** Activity messages arriving within this window share one order read (default 250ms) */
+  readonly batchWindowMs?: number;
+}
+
+// The account activity service has a single key covering every account
+const ACCOUNT_ACTIVITY_KEY = "Account Activity";
+// Message type (field 2) that acknowledges the subscription itself
+const SUBSCRIBED_MESSAGE = "SUBSCRIBED";
+
+// Orders Schwab has not acknowledged yet
+const PRE_ACCEPTANCE = new Set<OrderStatus>(["NEW", "PENDING_ACKNOWLEDGEMENT", "UNKNOWN"]);
+
+/**
+ * Orders with their child strategies (TRIGGER children, OCO legs) listed
+ * alongside them, since each has its own ID and lifecycle
+ */
+const flattenOrders = (orders: readonly Order[]): Order[] =>
+  orders.flatMap((order) => [order, ...flattenOrders(order.childOrderStrategies ?? [])]);
+
+/**
+ * Events implied by the change from `previous` to `current`. Orders missing
+ * from `previous` are new; orders missing from `current` are ignored.
+ */
+export const diffOrders = (
+  previous: ReadonlyMap<string, Order>,
+  current: readonly Order[],
+  source: OrderEvent["source"],
+  time: Date = new Date()
+): OrderEvent[] => {
+  const events: OrderEvent[] = [];
+
+  for (const order of current) {
+    const before = previous.get(order.orderId);
+    const event = (type: OrderEventType, fillQuantity?: number) =>
+      events.push({
+        type,
+        orderId: order.orderId,
+        accountNumber: order.accountNumber,
+        symbol: order.orderLegCollection[0]?.instrument.symbol ?? "",
+        fillQuantity,
+        source,
+        time,
+        order,
+      });
+
+    if (order.status === "REJECTED") {
+      if (before?.status !== "REJECTED") {
+        event("REJECTED");
+      }
+      continue;
+    }
+    if ((!before || PRE_ACCEPTANCE.has(before.status)) && !PRE_ACCEPTANCE.has(order.status)) {
+      event("ACCEPTED");
+    }
+
+    const filled = order.filledQuantity - (before?.filledQuantity ?? 0);
+    if (order.status === "FILLED" && before?.status !== "FILLED") {
+      event("FILLED", filled > 0 ? filled : undefined);
+    } else if (filled > 0) {
+      event("PARTIAL_FILL", filled);
+    }
+
+    if (order.status !== before?.status) {
+      if (order.status === "CANCELED") {
+        event("CANCELED");
+      } else if (order.status === "REPLACED") {
+        event("REPLACED");
+      }
+    }
+  }
+
+  return events;
+};
+
+const byId = (orders: readonly Order[]) =>
+  new Map(orders.map((order) => [order.orderId, order] as const));
+
+const makeOrderEventService = (options: OrderEventOptions) =>
+  Effect.gen(function* () {
+    const config = yield* SchwabConfig;
+    const orderService = yield* OrderService;
+    const streamer = yield* StreamerService;
+
+    const pollIntervalMs = options.pollIntervalMs ?? 5_000;
+    const resyncIntervalMs = options.resyncIntervalMs ?? 60_000;
+    const batchWindowMs = options.batchWindowMs ?? 250;
+
+    // Polls and resyncs wait behind interactive requests; reads prompted by
+    // account activity don't
+    const readOrders = (background: boolean) => {
+      const read = Effect.map(orderService.getAllOrders(), flattenOrders);
+      return background ? withRequestPriority("background")(read) : read;
+    };
+
+    // Holds the account activity subscription for the scope; false when the
+    // streamer is unavailable. Paper orders only change when read, so they
+    // are always polled.
+    const subscribeActivity = config.paperTrading
+      ? Effect.succeed(false)
+      : Effect.acquireRelease(streamer.add("ACCT_ACTIVITY", [ACCOUNT_ACTIVITY_KEY]), () =>
+          streamer.unsubscribe("ACCT_ACTIVITY", [ACCOUNT_ACTIVITY_KEY]).pipe(Effect.ignore)
+        ).pipe(
+          Effect.as(true),
+          Effect.orElseSucceed(() => false)
+        );
+
+    const events = Stream.unwrapScoped(
+      Effect.gen(function* () {
+        const streaming = yield* subscribeActivity;
+        const source: OrderEvent["source"] = streaming ? "stream" : "poll";
+
+        // Each trigger re-reads the orders; activity messages only say that
+        // something changed, the diff says what. A trigger is true when
+        // account activity prompted it, false for timed polls and resyncs.
+        const triggers: Stream.Stream<boolean> = streaming
+          ? Stream.merge(
+              streamer.data("ACCT_ACTIVITY").pipe(
+                Stream.filter((item) => item.fields["2"] !== SUBSCRIBED_MESSAGE),
+                Stream.as(true)
+              ),
+              Stream.fromSchedule(Schedule.spaced(resyncIntervalMs)).pipe(Stream.as(false))
+            ).pipe(
+              Stream.groupedWithin(100, batchWindowMs),
+              Stream.map(Chunk.some((activity) => activity))
+            )
+          : Stream.fromSchedule(Schedule.spaced(pollIntervalMs)).pipe(Stream.as(false));
+
+        const baseline = yield* readOrders(!streaming);
+
+        return triggers.pipe(
+          Stream.mapAccumEffect(byId(baseline), (previous, activity) =>
+            readOrders(!activity).pipe(
+              Effect.map((orders) => [byId(orders), diffOrders(previous, orders, source)] as const),
+              // A read that fails past the HTTP retries skips this trigger; the
+              // next one diffs against the last orders read
+              Effect.catchAll((error) =>
+                Effect.logWarning(`Failed to read orders: ${error.message}`).pipe(
+                  Effect.as([previous, [] as OrderEvent[]] as const)
+                )
+              )
+            )
+          ),
+          Stream.flattenIterables
+        );
+      })
+    );
+
+    return { events };
+  });
+
+/**
+ * Order event layer
+ */
+export const OrderEventServiceLive = (options: OrderEventOptions = {}) =>
+  Layer.effect(OrderEventService, makeOrderEventService(options));
@@ -1,11 +1,24 @@
 import { describe, it, expect } from "bun:test";
-import { Effect } from "effect";
-import { OrderService } from "./index.js";
+import { Effect, Layer } from "effect";
+import { OrderService, type RequestConfig } from "./index.js";
+import { HttpClientTest } from "./http-client.js";
+import { OrderServiceLive } from "./orders.js";
 import { OrderServiceTest } from "../layers/test.js";
-import { OrderNotFoundError, OrderRejectedError } from "../errors.js";
-import { mockOrders } from "../../test/fixtures/orders.js";
+import {
+  OrderNotFoundError,
+  OrderRejectedError,
+  type SchwabClientError,
+} from "../errors.js";
+import {
+  mockOrders,
+  mockSchwabTriggerOrderResponse,
+} from "../../test/fixtures/orders.js";
 import { OrderBuilder } from "../utils/order-builder.js";
 
+const makeLiveLayer = (
+  handler: <T>(config: RequestConfig) => Effect.Effect<T, SchwabClientError>
+) => OrderServiceLive.pipe(Layer.provide(HttpClientTest(handler)));
+
 describe("OrderService", () => {
   const testLayer = OrderServiceTest(mockOrders);
 
@@ -298,4 +311,249 @@ describe("OrderService", () => {
       expect(result).toHaveLength(0);
     });
   });
+
+  describe("child order strategies (live)", () => {
+    // The parts of the order request body these tests read
+    interface OrderRequestBody {
+      readonly orderStrategyType: string;
+      readonly orderType?: string;
+      readonly price?: number;
+      readonly stopPrice?: number;
+      readonly childOrderStrategies?: readonly OrderRequestBody[];
+    }
+
+    const entry = OrderBuilder.equityBuyLimit("AAPL", 100, 175.0);
+    const bracket = OrderBuilder.trigger(
+      entry,
+      OrderBuilder.oco(
+        OrderBuilder.equitySellLimit("AAPL", 100, 190.0),
+        OrderBuilder.withStopPrice(OrderBuilder.equitySell("AAPL", 100), 165.0)
+      )
+    );
+
+    it("sends nested childOrderStrategies when placing", async () => {
+      const requests: RequestConfig[] = [];
+      const layer = makeLiveLayer(<T>(config: RequestConfig) => {
+        requests.push(config);
+        return Effect.succeed({ orderId: "2000001" } as T);
+      });
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.placeOrder("ABC123HASH", bracket);
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+      const body = requests[0].body as OrderRequestBody;
+
+      expect(result).toBe("2000001");
+      expect(body.orderStrategyType).toBe("TRIGGER");
+      expect(body.childOrderStrategies).toHaveLength(1);
+
+      const oco = body.childOrderStrategies?.[0];
+      expect(oco).toEqual({
+        orderStrategyType: "OCO",
+        childOrderStrategies: expect.any(Array),
+      });
+      const [limit, stop] = oco?.childOrderStrategies ?? [];
+      expect(limit?.price).toBe(190.0);
+      expect(stop?.orderType).toBe("STOP");
+      expect(stop?.stopPrice).toBe(165.0);
+    });
+
+    it("sends nested childOrderStrategies when replacing", async () => {
+      const requests: RequestConfig[] = [];
+      const layer = makeLiveLayer(<T>(config: RequestConfig) => {
+        requests.push(config);
+        return Effect.succeed({ orderId: "2000005" } as T);
+      });
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.replaceOrder("ABC123HASH", "2000001", bracket);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(requests[0].method).toBe("PUT");
+      expect((requests[0].body as OrderRequestBody).childOrderStrategies).toHaveLength(1);
+    });
+
+    it("maps the child tree with per-child status", async () => {
+      const layer = makeLiveLayer(<T>() =>
+        Effect.succeed(mockSchwabTriggerOrderResponse as T)
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.getOrder("ABC123HASH", "2000001");
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(result.orderStrategyType).toBe("TRIGGER");
+      expect(result.status).toBe("FILLED");
+
+      const oco = result.childOrderStrategies?.[0];
+      expect(oco?.orderStrategyType).toBe("OCO");
+      expect(oco?.orderLegCollection).toHaveLength(0);
+      expect(oco?.session).toBe("NORMAL");
+      expect(oco?.duration).toBe("GOOD_TILL_CANCEL");
+      expect(oco?.childOrderStrategies?.map((c) => c.status)).toEqual([
+        "WORKING",
+        "AWAITING_STOP_CONDITION",
+      ]);
+      expect(oco?.childOrderStrategies?.[1].stopPrice).toBe(165.0);
+    });
+
+    it("maps preview children from the submitted spec", async () => {
+      const layer = makeLiveLayer(<T>() =>
+        Effect.succeed({
+          orderId: 0,
+          orderStrategy: { orderStrategyType: "TRIGGER", status: "ACCEPTED" },
+        } as T)
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.previewOrder("ABC123HASH", bracket);
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(result.childOrderStrategies).toHaveLength(1);
+      expect(result.childOrderStrategies?.[0].orderStrategyType).toBe("OCO");
+      expect(result.childOrderStrategies?.[0].childOrderStrategies).toHaveLength(2);
+    });
+
+    it("rejects a TRIGGER order without children before sending", async () => {
+      const requests: RequestConfig[] = [];
+      const layer = makeLiveLayer(<T>(config: RequestConfig) => {
+        requests.push(config);
+        return Effect.succeed({ orderId: "1" } as T);
+      });
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.placeOrder("ABC123HASH", {
+          ...entry,
+          orderStrategyType: "TRIGGER",
+        });
+      });
+
+      const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(layer)));
+
+      expect(exit._tag).toBe("Failure");
+      expect(requests).toHaveLength(0);
+      if (exit._tag === "Failure" && exit.cause._tag === "Fail") {
+        expect(exit.cause.error._tag).toBe("OrderRejectedError");
+      }
+    });
+  });
+
+  describe("trailing stops (live)", () => {
+    it("sends the trailing offset fields", async () => {
+      const requests: RequestConfig[] = [];
+      const layer = makeLiveLayer(<T>(config: RequestConfig) => {
+        requests.push(config);
+        return Effect.succeed({ orderId: "3000001" } as T);
+      });
+      const order = OrderBuilder.withTrailingStopLimit(
+        OrderBuilder.equitySell("AAPL", 100),
+        3,
+        0.5,
+        "PERCENT",
+        "LAST"
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.placeOrder("ABC123HASH", order);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(requests[0].body).toMatchObject({
+        orderType: "TRAILING_STOP_LIMIT",
+        stopPriceLinkBasis: "LAST",
+        stopPriceLinkType: "PERCENT",
+        stopPriceOffset: 3,
+        priceLinkBasis: "TRIGGER",
+        priceLinkType: "VALUE",
+        priceOffset: 0.5,
+      });
+    });
+
+    it("maps trailing fields from the API response", async () => {
+      const layer = makeLiveLayer(<T>() =>
+        Effect.succeed({
+          ...mockSchwabTriggerOrderResponse.childOrderStrategies[0]
+            .childOrderStrategies[1],
+          orderType: "TRAILING_STOP",
+          stopPriceLinkBasis: "BID",
+          stopPriceLinkType: "VALUE",
+          stopPriceOffset: 1.25,
+        } as T)
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.getOrder("ABC123HASH", "2000004");
+      });
+
+      const result = await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(result.orderType).toBe("TRAILING_STOP");
+      expect(result.stopPriceLinkBasis).toBe("BID");
+      expect(result.stopPriceOffset).toBe(1.25);
+    });
+
+    it("rejects a trailing stop without an offset", async () => {
+      const layer = makeLiveLayer(<T>() =>
+        Effect.succeed({ orderId: "1" } as T)
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.placeOrder("ABC123HASH", {
+          ...OrderBuilder.equitySell("AAPL", 100),
+          orderType: "TRAILING_STOP",
+        });
+      });
+
+      const exit = await Effect.runPromiseExit(program.pipe(Effect.provide(layer)));
+
+      expect(exit._tag).toBe("Failure");
+    });
+  });
+
+  describe("complex option strategies (live)", () => {
+    it("sends the complex strategy type with a net price", async () => {
+      const requests: RequestConfig[] = [];
+      const layer = makeLiveLayer(<T>(config: RequestConfig) => {
+        requests.push(config);
+        return Effect.succeed({ orderId: "4000001" } as T);
+      });
+      const order = OrderBuilder.straddle(
+        "AAPL  240119C00180000",
+        "AAPL  240119P00180000",
+        1,
+        8.25
+      );
+
+      const program = Effect.gen(function* () {
+        const service = yield* OrderService;
+        return yield* service.placeOrder("ABC123HASH", order);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+      expect(requests[0].body).toMatchObject({
+        orderType: "NET_DEBIT",
+        complexOrderStrategyType: "STRADDLE",
+        price: 8.25,
+        orderStrategyType: "SINGLE",
+      });
+    });
+  });
 });
@@ -9,6 +9,9 @@ import type {
   OrderStatus,
   OrderInstruction,
   AssetType,
+  ComplexOrderStrategyType,
+  PriceLinkBasis,
+  PriceLinkType,
 } from "../schemas/index.js";
 
 // Schwab API response types
@@ -29,16 +32,23 @@ interface SchwabOrderLeg {
 }
 
 interface SchwabOrder {
-  session: string;
-  duration: string;
-  orderType: string;
+  // OCO containers omit session, duration, type and legs; they live on the children
+  session?: string;
+  duration?: string;
+  orderType?: string;
   complexOrderStrategyType?: string;
   quantity?: number;
   filledQuantity?: number;
   remainingQuantity?: number;
   price?: number;
   stopPrice?: number;
-  orderLegCollection: SchwabOrderLeg[];
+  stopPriceLinkBasis?: string;
+  stopPriceLinkType?: string;
+  stopPriceOffset?: number;
+  priceLinkBasis?: string;
+  priceLinkType?: string;
+  priceOffset?: number;
+  orderLegCollection?: SchwabOrderLeg[];
   orderStrategyType: string;
   orderId: number;
   cancelable: boolean;
@@ -48,6 +58,7 @@ interface SchwabOrder {
   closeTime?: string;
   accountNumber: number;
   statusDescription?: string;
+  childOrderStrategies?: SchwabOrder[];
 }
 
 interface SchwabPreviewOrderLeg {
@@ -62,6 +73,7 @@ interface SchwabPreviewOrderStrategy {
   enteredTime?: string;
   closeTime?: string;
   orderStrategyType?: string;
+  complexOrderStrategyType?: string;
   session?: string;
   duration?: string;
   orderType?: string;
@@ -70,6 +82,7 @@ interface SchwabPreviewOrderStrategy {
   filledQuantity?: number;
   remainingQuantity?: number;
   orderLegs?: SchwabPreviewOrderLeg[];
+  childOrderStrategies?: SchwabPreviewOrderStrategy[];
 }
 
 interface SchwabPreviewOrderResponse {
@@ -93,11 +106,12 @@ const mapOrderLeg = (leg: SchwabOrderLeg): OrderLeg => ({
 });
 
 const mapOrder = (schwabOrder: SchwabOrder): Order => {
+  const legs = schwabOrder.orderLegCollection ?? [];
+  const childOrderStrategies = schwabOrder.childOrderStrategies?.map(mapOrder);
+  const firstChild = childOrderStrategies?.[0];
+
   // Calculate total quantities from legs
-  const totalQuantity = schwabOrder.orderLegCollection.reduce(
-    (sum, leg) => sum + leg.quantity,
-    0
-  );
+  const totalQuantity = legs.reduce((sum, leg) => sum + leg.quantity, 0);
   const filledQuantity = schwabOrder.filledQuantity ?? 0;
   const remainingQuantity =
     schwabOrder.remainingQuantity ?? totalQuantity - filledQuantity;
@@ -105,14 +119,29 @@ const mapOrder = (schwabOrder: SchwabOrder): Order => {
   return {
     orderId: String(schwabOrder.orderId),
     accountNumber: String(schwabOrder.accountNumber),
-    orderType: schwabOrder.orderType as Order["orderType"],
-    session: schwabOrder.session as Order["session"],
-    duration: schwabOrder.duration as Order["duration"],
+    orderType: (schwabOrder.orderType ??
+      firstChild?.orderType ??
+      "UNKNOWN") as Order["orderType"],
+    session: (schwabOrder.session ??
+      firstChild?.session ??
+      "NORMAL") as Order["session"],
+    duration: (schwabOrder.duration ??
+      firstChild?.duration ??
+      "UNKNOWN") as Order["duration"],
     price: schwabOrder.price,
     stopPrice: schwabOrder.stopPrice,
-    orderLegCollection: schwabOrder.orderLegCollection.map(mapOrderLeg),
+    stopPriceLinkBasis: schwabOrder.stopPriceLinkBasis as PriceLinkBasis | undefined,
+    stopPriceLinkType: schwabOrder.stopPriceLinkType as PriceLinkType | undefined,
+    stopPriceOffset: schwabOrder.stopPriceOffset,
+    priceLinkBasis: schwabOrder.priceLinkBasis as PriceLinkBasis | undefined,
+    priceLinkType: schwabOrder.priceLinkType as PriceLinkType | undefined,
+    priceOffset: schwabOrder.priceOffset,
+    orderLegCollection: legs.map(mapOrderLeg),
     orderStrategyType: schwabOrder.orderStrategyType as Order["orderStrategyType"],
-    status: schwabOrder.status as OrderStatus,
+    complexOrderStrategyType: schwabOrder.complexOrderStrategyType as
+      | ComplexOrderStrategyType
+      | undefined,
+    status: (schwabOrder.status ?? "UNKNOWN") as OrderStatus,
     filledQuantity,
     remainingQuantity,
     enteredTime: new Date(schwabOrder.enteredTime),
@@ -120,6 +149,7 @@ const mapOrder = (schwabOrder: SchwabOrder): Order => {
       ? new Date(schwabOrder.closeTime)
       : undefined,
     statusDescription: schwabOrder.statusDescription,
+    childOrderStrategies,
   };
 };
 
@@ -136,11 +166,11 @@ const toApiDuration = (duration: OrderSpec["duration"]): string => {
   }
 };
 
-const mapPreviewOrder = (
-  response: SchwabPreviewOrderResponse,
-  fallbackOrder: OrderSpec
+const mapPreviewStrategy = (
+  strategy: SchwabPreviewOrderStrategy | undefined,
+  fallbackOrder: OrderSpec,
+  orderId: string
 ): Order => {
-  const strategy = response.orderStrategy;
   const legs = strategy?.orderLegs ?? [];
   const orderLegCollection =
     legs.length > 0
@@ -161,28 +191,53 @@ const mapPreviewOrder = (
         }))
       : fallbackOrder.orderLegCollection;
   const totalQuantity = orderLegCollection.reduce((sum, leg) => sum + leg.quantity, 0);
+  // Children are matched to the submitted spec by position
+  const childOrderStrategies = fallbackOrder.childOrderStrategies?.map(
+    (child, index) =>
+      mapPreviewStrategy(strategy?.childOrderStrategies?.[index], child, orderId)
+  );
 
   return {
-    orderId: String(response.orderId ?? 0),
+    orderId,
     accountNumber: String(strategy?.accountNumber ?? ""),
     orderType: (strategy?.orderType as Order["orderType"]) ?? fallbackOrder.orderType,
     session: (strategy?.session as Order["session"]) ?? fallbackOrder.session,
     duration: (strategy?.duration as Order["duration"]) ?? fallbackOrder.duration,
     price: strategy?.price ?? fallbackOrder.price,
     stopPrice: fallbackOrder.stopPrice,
+    stopPriceLinkBasis: fallbackOrder.stopPriceLinkBasis,
+    stopPriceLinkType: fallbackOrder.stopPriceLinkType,
+    stopPriceOffset: fallbackOrder.stopPriceOffset,
+    priceLinkBasis: fallbackOrder.priceLinkBasis,
+    priceLinkType: fallbackOrder.priceLinkType,
+    priceOffset: fallbackOrder.priceOffset,
     orderLegCollection,
     orderStrategyType:
       (strategy?.orderStrategyType as Order["orderStrategyType"]) ??
       fallbackOrder.orderStrategyType,
+    complexOrderStrategyType:
+      (strategy?.complexOrderStrategyType as ComplexOrderStrategyType | undefined) ??
+      fallbackOrder.complexOrderStrategyType,
     status: (strategy?.status as OrderStatus) ?? "ACCEPTED",
     filledQuantity: strategy?.filledQuantity ?? 0,
     remainingQuantity: strategy?.remainingQuantity ?? totalQuantity,
     enteredTime: new Date(strategy?.enteredTime ?? new Date().toISOString()),
     closeTime: strategy?.closeTime ? new Date(strategy.closeTime) : undefined,
     statusDescription: undefined,
+    childOrderStrategies,
   };
 };
 
+const mapPreviewOrder = (
+  response: SchwabPreviewOrderResponse,
+  fallbackOrder: OrderSpec
+): Order =>
+  mapPreviewStrategy(
+    response.orderStrategy,
+    fallbackOrder,
+    String(response.orderId ?? 0)
+  );
+
 const resolveOrderWindow = (
   params: OrderQueryParams | undefined,
   maxRangeDays: number
@@ -204,7 +259,64 @@ const resolveOrderWindow = (
   };
 };
 
+/**
+ * Check an order tree before it is sent. Child strategies are only attached
+ * where Schwab accepts them (a TRIGGER needs at least one child, an OCO at
+ * least two) and trailing orders must carry their offsets.
+ */
+export const validateOrderSpec = (
+  order: OrderSpec
+): Effect.Effect<void, OrderRejectedError> => {
+  const children = order.childOrderStrategies ?? [];
+  let reason: string | undefined;
+
+  if (
+    (order.orderType === "TRAILING_STOP" ||
+      order.orderType === "TRAILING_STOP_LIMIT") &&
+    order.stopPriceOffset === undefined
+  ) {
+    reason = `${order.orderType} orders require a stopPriceOffset`;
+  } else if (
+    order.orderType === "TRAILING_STOP_LIMIT" &&
+    order.priceOffset === undefined
+  ) {
+    reason = "TRAILING_STOP_LIMIT orders require a priceOffset";
+  } else if (order.orderStrategyType === "TRIGGER" && children.length === 0) {
+    reason = "TRIGGER orders require at least one child order strategy";
+  } else if (order.orderStrategyType === "OCO" && children.length < 2) {
+    reason = "OCO orders require at least two child order strategies";
+  } else if (
+    children.length > 0 &&
+    order.orderStrategyType !== "TRIGGER" &&
+    order.orderStrategyType !== "OCO"
+  ) {
+    reason = `${order.orderStrategyType} orders cannot have child order strategies`;
+  }
+
+  if (reason) {
+    return Effect.fail(
+      new OrderRejectedError({
+        reason,
+        orderDetails: order,
+        message: reason,
+      })
+    );
+  }
+
+  return Effect.forEach(children, validateOrderSpec, { discard: true });
+};
+
 const buildOrderBody = (order: OrderSpec): Record<string, unknown> => {
+  const children = order.childOrderStrategies ?? [];
+
+  // An OCO container without legs only wraps its children
+  if (order.orderStrategyType === "OCO" && order.orderLegCollection.length === 0) {
+    return {
+      orderStrategyType: order.orderStrategyType,
+      childOrderStrategies: children.map(buildOrderBody),
+    };
+  }
+
   const body: Record<string, unknown> = {
     orderType: order.orderType,
     session: order.session,
@@ -220,6 +332,10 @@ const buildOrderBody = (order: OrderSpec): Record<string, unknown> => {
     })),
   };
 
+  if (order.complexOrderStrategyType !== undefined) {
+    body.complexOrderStrategyType = order.complexOrderStrategyType;
+  }
+
   if (order.price !== undefined) {
     body.price = order.price;
   }
@@ -228,6 +344,22 @@ const buildOrderBody = (order: OrderSpec): Record<string, unknown> => {
     body.stopPrice = order.stopPrice;
   }
 
+  if (order.stopPriceOffset !== undefined) {
+    body.stopPriceLinkBasis = order.stopPriceLinkBasis ?? "MARK";
+    body.stopPriceLinkType = order.stopPriceLinkType ?? "VALUE";
+    body.stopPriceOffset = order.stopPriceOffset;
+  }
+
+  if (order.priceOffset !== undefined) {
+    body.priceLinkBasis = order.priceLinkBasis ?? "MARK";
+    body.priceLinkType = order.priceLinkType ?? "VALUE";
+    body.priceOffset = order.priceOffset;
+  }
+
+  if (children.length > 0) {
+    body.childOrderStrategies = children.map(buildOrderBody);
+  }
+
   return body;
 };
 
@@ -239,6 +371,7 @@ const makeOrderService = Effect.gen(function* () {
 
   const placeOrder = (accountHash: string, order: OrderSpec) =>
     Effect.gen(function* () {
+      yield* validateOrderSpec(order);
       const encodedAccountHash = encodeURIComponent(accountHash);
       const body = buildOrderBody(order);
 
@@ -325,6 +458,7 @@ const makeOrderService = Effect.gen(function* () {
       yield* httpClient.request({
         method: "DELETE",
         path: `/trader/v1/accounts/${encodedAccountHash}/orders/${encodedOrderId}`,
+        priority: "urgent",
       });
     });
 
@@ -334,6 +468,7 @@ const makeOrderService = Effect.gen(function* () {
     newOrder: OrderSpec
   ) =>
     Effect.gen(function* () {
+      yield* validateOrderSpec(newOrder);
       const encodedAccountHash = encodeURIComponent(accountHash);
       const encodedOrderId = encodeURIComponent(orderId);
       const body = buildOrderBody(newOrder);
@@ -342,6 +477,7 @@ const makeOrderService = Effect.gen(function* () {
         method: "PUT",
         path: `/trader/v1/accounts/${encodedAccountHash}/orders/${encodedOrderId}`,
         body,
+        priority: "urgent",
       });
 
       if (!response.orderId) {
@@ -359,6 +495,7 @@ const makeOrderService = Effect.gen(function* () {
 
   const previewOrder = (accountHash: string, order: OrderSpec) =>
     Effect.gen(function* () {
+      yield* validateOrderSpec(order);
       const encodedAccountHash = encodeURIComponent(accountHash);
       const body = buildOrderBody(order);
 
@@ -371,7 +508,7 @@ const makeOrderService = Effect.gen(function* () {
       if (
         response &&
         typeof response === "object" &&
-        "orderLegCollection" in response
+        ("orderLegCollection" in response || "childOrderStrategies" in response)
       ) {
         return mapOrder(response as SchwabOrder);
       }
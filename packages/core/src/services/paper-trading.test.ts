@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Exit, Layer } from "effect";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AccountService, OrderService } from "./index.js";
+import { PaperTradingLive, PAPER_ACCOUNT_HASH } from "./paper-trading.js";
+import { QuoteServiceTest } from "../layers/test.js";
+import { OrderRejectedError } from "../errors.js";
+import { OrderBuilder } from "../utils/order-builder.js";
+import { mockQuotes } from "../../test/fixtures/quotes.js";
+import type { Quote } from "../schemas/index.js";
+
+const CALL_LOW = "AAPL  240119C00175000";
+const CALL_HIGH = "AAPL  240119C00180000";
+
+const optionQuote = (symbol: string, bid: number, ask: number): Quote => ({
+  ...mockQuotes[0],
+  assetType: "OPTION",
+  symbol,
+  bidPrice: bid,
+  askPrice: ask,
+  lastPrice: (bid + ask) / 2,
+  mark: (bid + ask) / 2,
+  description: symbol,
+});
+
+describe("PaperTradingLive", () => {
+  let dir: string;
+  let ledgerPath: string;
+  // Mutated in place so tests can move the market between calls
+  let quotes: Quote[];
+
+  const makeLayer = (startingCash = 100_000) =>
+    PaperTradingLive({ ledgerPath, startingCash }).pipe(
+      Layer.provide(QuoteServiceTest(quotes))
+    );
+
+  const setQuote = (symbol: string, bid: number, ask: number) => {
+    const index = quotes.findIndex((q) => q.symbol === symbol);
+    quotes[index] = { ...quotes[index], bidPrice: bid, askPrice: ask, mark: (bid + ask) / 2 };
+  };
+
+  const run = <A, E>(
+    program: Effect.Effect<A, E, OrderService | AccountService>,
+    layer = makeLayer()
+  ) => Effect.runPromise(program.pipe(Effect.provide(layer)));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "schwab-paper-"));
+    ledgerPath = join(dir, "ledger.json");
+    quotes = [
+      ...mockQuotes,
+      optionQuote(CALL_LOW, 5.0, 5.2),
+      optionQuote(CALL_HIGH, 2.0, 2.2),
+    ];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("fills market buys at the ask and debits cash", async () => {
+    const result = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const accounts = yield* AccountService;
+        const orderId = yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.equityBuy("AAPL", 10)
+        );
+        return {
+          order: yield* orders.getOrder(PAPER_ACCOUNT_HASH, orderId),
+          account: yield* accounts.getAccount(PAPER_ACCOUNT_HASH),
+        };
+      })
+    );
+
+    expect(result.order.status).toBe("FILLED");
+    expect(result.order.price).toBe(178.55);
+    expect(result.account.balances.cashBalance).toBeCloseTo(100_000 - 1785.5);
+    expect(result.account.positions).toHaveLength(1);
+    expect(result.account.positions[0].quantity).toBe(10);
+    expect(result.account.positions[0].averagePrice).toBe(178.55);
+  });
+
+  it("keeps limit orders working until the quote is marketable", async () => {
+    const orderId = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        return yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.equityBuyLimit("AAPL", 10, 175)
+        );
+      })
+    );
+
+    const getStatus = Effect.gen(function* () {
+      const orders = yield* OrderService;
+      return (yield* orders.getOrder(PAPER_ACCOUNT_HASH, orderId)).status;
+    });
+
+    expect(await run(getStatus)).toBe("WORKING");
+
+    setQuote("AAPL", 174.9, 174.95);
+    expect(await run(getStatus)).toBe("FILLED");
+  });
+
+  it("persists the ledger between layers", async () => {
+    await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        yield* orders.placeOrder(PAPER_ACCOUNT_HASH, OrderBuilder.equityBuy("MSFT", 2));
+      })
+    );
+
+    const ledger = JSON.parse(readFileSync(ledgerPath, "utf-8"));
+    expect(ledger.positions.MSFT.quantity).toBe(2);
+
+    const account = await run(
+      Effect.gen(function* () {
+        const accounts = yield* AccountService;
+        return yield* accounts.getAccount(PAPER_ACCOUNT_HASH);
+      })
+    );
+    expect(account.positions.map((p) => p.symbol)).toEqual(["MSFT"]);
+  });
+
+  it("keeps every write when separate layers share the ledger", async () => {
+    const buy = Effect.gen(function* () {
+      const orders = yield* OrderService;
+      return yield* orders.placeOrder(PAPER_ACCOUNT_HASH, OrderBuilder.equityBuy("MSFT", 1));
+    });
+
+    const orderIds = await Promise.all(Array.from({ length: 5 }, () => run(buy)));
+
+    const ledger = JSON.parse(readFileSync(ledgerPath, "utf-8"));
+    expect(orderIds.sort()).toEqual(["1", "2", "3", "4", "5"]);
+    expect(ledger.orders).toHaveLength(5);
+    expect(ledger.positions.MSFT.quantity).toBe(5);
+  });
+
+  it("rejects sells beyond the held quantity and buys beyond cash", async () => {
+    const exits = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const sell = yield* Effect.exit(
+          orders.placeOrder(PAPER_ACCOUNT_HASH, OrderBuilder.equitySell("AAPL", 5))
+        );
+        const buy = yield* Effect.exit(
+          orders.placeOrder(PAPER_ACCOUNT_HASH, OrderBuilder.equityBuy("AAPL", 1000))
+        );
+        return { sell, buy };
+      }),
+      makeLayer(10_000)
+    );
+
+    for (const exit of [exits.sell, exits.buy]) {
+      expect(Exit.isFailure(exit)).toBe(true);
+      if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+        expect(exit.cause.error).toBeInstanceOf(OrderRejectedError);
+      }
+    }
+  });
+
+  it("cancels working orders and refuses to cancel filled ones", async () => {
+    const result = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const working = yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.equityBuyLimit("AAPL", 1, 100)
+        );
+        const filled = yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.equityBuy("AAPL", 1)
+        );
+        yield* orders.cancelOrder(PAPER_ACCOUNT_HASH, working);
+        const refused = yield* Effect.exit(
+          orders.cancelOrder(PAPER_ACCOUNT_HASH, filled)
+        );
+        return {
+          status: (yield* orders.getOrder(PAPER_ACCOUNT_HASH, working)).status,
+          refused,
+        };
+      })
+    );
+
+    expect(result.status).toBe("CANCELED");
+    expect(Exit.isFailure(result.refused)).toBe(true);
+  });
+
+  it("leaves the original working when its replacement is rejected", async () => {
+    const result = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const working = yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.equityBuyLimit("AAPL", 1, 100)
+        );
+        const replaced = yield* Effect.exit(
+          orders.replaceOrder(PAPER_ACCOUNT_HASH, working, OrderBuilder.equityBuy("AAPL", 1000))
+        );
+        return {
+          replaced,
+          status: (yield* orders.getOrder(PAPER_ACCOUNT_HASH, working)).status,
+          next: yield* orders.placeOrder(PAPER_ACCOUNT_HASH, OrderBuilder.equityBuy("AAPL", 1)),
+        };
+      }),
+      makeLayer(10_000)
+    );
+
+    expect(Exit.isFailure(result.replaced)).toBe(true);
+    expect(result.status).toBe("WORKING");
+    expect(result.next).toBe("2");
+  });
+
+  it("works bracket exits once the entry fills and cancels the other side", async () => {
+    const orderId = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        return yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.bracket(OrderBuilder.equityBuy("AAPL", 10), 185, 170)
+        );
+      })
+    );
+
+    setQuote("AAPL", 185.1, 185.2);
+    const result = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const accounts = yield* AccountService;
+        return {
+          order: yield* orders.getOrder(PAPER_ACCOUNT_HASH, orderId),
+          account: yield* accounts.getAccount(PAPER_ACCOUNT_HASH),
+        };
+      })
+    );
+
+    const [oco] = result.order.childOrderStrategies ?? [];
+    const [takeProfit, stopLoss] = oco.childOrderStrategies ?? [];
+    expect(result.order.status).toBe("FILLED");
+    expect(takeProfit.status).toBe("FILLED");
+    expect(stopLoss.status).toBe("CANCELED");
+    expect(result.account.positions).toHaveLength(0);
+    expect(result.account.balances.cashBalance).toBeCloseTo(100_000 + 65.5);
+  });
+
+  it("moves a trailing stop with the market and fills when it is crossed", async () => {
+    const placed = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        yield* orders.placeOrder(PAPER_ACCOUNT_HASH, OrderBuilder.equityBuy("AAPL", 1));
+        return yield* orders.placeOrder(
+          PAPER_ACCOUNT_HASH,
+          OrderBuilder.withTrailingStop(OrderBuilder.equitySell("AAPL", 1), 2)
+        );
+      })
+    );
+
+    const getOrder = Effect.gen(function* () {
+      const orders = yield* OrderService;
+      return yield* orders.getOrder(PAPER_ACCOUNT_HASH, placed);
+    });
+
+    setQuote("AAPL", 189.9, 190.1);
+    const raised = await run(getOrder);
+    expect(raised.status).toBe("WORKING");
+    expect(raised.stopPrice).toBe(188);
+
+    setQuote("AAPL", 187.9, 188.0);
+    expect((await run(getOrder)).status).toBe("FILLED");
+  });
+
+  it("fills multi-leg orders against the natural net price", async () => {
+    const spread = OrderBuilder.verticalSpread(
+      { symbol: CALL_LOW, instruction: "BUY_TO_OPEN" },
+      { symbol: CALL_HIGH, instruction: "SELL_TO_OPEN" },
+      2,
+      3.0
+    );
+
+    const result = await run(
+      Effect.gen(function* () {
+        const orders = yield* OrderService;
+        const accounts = yield* AccountService;
+        const orderId = yield* orders.placeOrder(PAPER_ACCOUNT_HASH, spread);
+        const before = (yield* orders.getOrder(PAPER_ACCOUNT_HASH, orderId)).status;
+        setQuote(CALL_HIGH, 2.2, 2.4);
+        const after = yield* orders.getOrder(PAPER_ACCOUNT_HASH, orderId);
+        return { before, after, account: yield* accounts.getAccount(PAPER_ACCOUNT_HASH) };
+      })
+    );
+
+    // Natural debit is 5.20 - 2.00 = 3.20, then 5.20 - 2.20 = 3.00
+    expect(result.before).toBe("WORKING");
+    expect(result.after.status).toBe("FILLED");
+    expect(result.after.price).toBe(3);
+    expect(result.account.balances.cashBalance).toBeCloseTo(100_000 - 600);
+    expect(result.account.positions.map((p) => p.quantity).sort()).toEqual([-2, 2]);
+  });
+});
@@ -0,0 +1,1039 @@
+import { Context, Effect, Layer, type Types } from "effect";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import {
+  AccountService,
+  OrderService,
+  QuoteService,
+  type AccountServiceShape,
+  type OrderServiceShape,
+} from "./index.js";
+import { validateOrderSpec } from "./orders.js";
+import {
+  AccountNotFoundError,
+  FileSystemError,
+  OrderNotFoundError,
+  OrderRejectedError,
+  type SchwabClientError,
+} from "../errors.js";
+import type {
+  Account,
+  AssetType,
+  Order,
+  OrderInstruction,
+  OrderLeg,
+  OrderQueryParams,
+  OrderSpec,
+  OrderStatus,
+  Position,
+  Quote,
+  Transaction,
+  TransactionParams,
+} from "../schemas/index.js";
+import { isOptionSymbol, parseOptionSymbol } from "../utils/option-symbol.js";
+import { strategyLegWeights } from "../utils/spread-pricing.js";
+
+const DEFAULT_LEDGER_PATH = join(homedir(), ".schwab-tools", "paper-ledger.json");
+const DEFAULT_STARTING_CASH = 100_000;
+
+// How often a busy ledger lock is retried, and when a lock is treated as abandoned
+const LOCK_RETRY_MS = 20;
+const LOCK_STALE_MS = 30_000;
+
+export const PAPER_ACCOUNT_NUMBER = "PAPER";
+export const PAPER_ACCOUNT_HASH = "paper";
+
+export interface PaperTradingOptions {
+  /** Ledger file (default: ~/.schwab-tools/paper-ledger.json) */
+  readonly ledgerPath?: string;
+  /** Cash a new ledger starts with (default: 100,000) */
+  readonly startingCash?: number;
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+interface LedgerPosition {
+  quantity: number;
+  averagePrice: number;
+  assetType: AssetType;
+}
+
+/**
+ * Orders are stored with ISO date strings, plus the state the simulator needs
+ * to carry between sweeps
+ */
+interface LedgerOrder
+  extends Omit<
+    Types.Mutable<Order>,
+    "enteredTime" | "closeTime" | "childOrderStrategies"
+  > {
+  enteredTime: string;
+  closeTime?: string;
+  childOrderStrategies?: LedgerOrder[];
+  /** Best basis price seen since a trailing stop was placed */
+  trailAnchor?: number;
+  /** Set once a stop limit or trailing stop limit has triggered */
+  triggered?: boolean;
+}
+
+interface LedgerTransaction
+  extends Omit<Transaction, "transactionDate" | "settlementDate"> {
+  transactionDate: string;
+  settlementDate: string;
+}
+
+interface Ledger {
+  startingCash: number;
+  cash: number;
+  positions: Record<string, LedgerPosition>;
+  orders: LedgerOrder[];
+  transactions: LedgerTransaction[];
+  nextOrderId: number;
+  nextTransactionId: number;
+}
+
+const emptyLedger = (startingCash: number): Ledger => ({
+  startingCash,
+  cash: startingCash,
+  positions: {},
+  orders: [],
+  transactions: [],
+  nextOrderId: 1,
+  nextTransactionId: 1,
+});
+
+const loadLedger = (path: string, startingCash: number) =>
+  Effect.async<Ledger, FileSystemError>((resume) => {
+    if (!existsSync(path)) {
+      resume(Effect.succeed(emptyLedger(startingCash)));
+      return;
+    }
+    readFile(path, "utf-8")
+      .then((data) => {
+        try {
+          resume(Effect.succeed(JSON.parse(data) as Ledger));
+        } catch (error) {
+          resume(
+            Effect.fail(
+              new FileSystemError({
+                operation: "read",
+                path,
+                message: "Paper trading ledger is not valid JSON",
+                cause: error,
+              })
+            )
+          );
+        }
+      })
+      .catch((error) =>
+        resume(
+          Effect.fail(
+            new FileSystemError({
+              operation: "read",
+              path,
+              message: `Failed to read paper trading ledger: ${error.message}`,
+              cause: error,
+            })
+          )
+        )
+      );
+  });
+
+// Written beside the target and renamed, so readers never see half a ledger
+const saveLedger = (path: string, ledger: Ledger) =>
+  Effect.async<void, FileSystemError>((resume) => {
+    const partial = `${path}.${process.pid}.tmp`;
+    mkdir(dirname(path), { recursive: true, mode: 0o700 })
+      .then(() => writeFile(partial, JSON.stringify(ledger, null, 2), { mode: 0o600 }))
+      .then(() => rename(partial, path))
+      .then(() => resume(Effect.succeed(undefined)))
+      .catch((error) =>
+        resume(
+          Effect.fail(
+            new FileSystemError({
+              operation: "write",
+              path,
+              message: `Failed to save paper trading ledger: ${error.message}`,
+              cause: error,
+            })
+          )
+        )
+      );
+  });
+
+/**
+ * Run an effect holding the ledger's lock file, so processes sharing a ledger
+ * (the MCP server and the CLI, or separate tool calls) take turns at
+ * read-modify-write. A lock older than LOCK_STALE_MS was left by a process
+ * that died holding it and is taken over.
+ */
+const withLedgerLock = <A, E>(
+  path: string,
+  effect: Effect.Effect<A, E>
+): Effect.Effect<A, E | FileSystemError> => {
+  const lockPath = `${path}.lock`;
+  const fail = (operation: "write" | "mkdir", error: unknown) =>
+    new FileSystemError({
+      operation,
+      path: lockPath,
+      message: `Failed to lock paper trading ledger: ${(error as Error).message}`,
+      cause: error,
+    });
+
+  const tryLock = Effect.tryPromise({
+    try: () =>
+      open(lockPath, "wx").then(
+        (handle) => handle.close().then(() => true),
+        (error: NodeJS.ErrnoException) => {
+          if (error.code === "EEXIST") {
+            return false;
+          }
+          throw error;
+        }
+      ),
+    catch: (error) => fail("write", error),
+  });
+
+  const lockAge = Effect.promise(() =>
+    stat(lockPath).then(
+      (stats) => Date.now() - stats.mtimeMs,
+      () => 0
+    )
+  );
+
+  const release = Effect.promise(() => unlink(lockPath).catch(() => undefined));
+
+  const acquire = Effect.gen(function* () {
+    yield* Effect.tryPromise({
+      try: () => mkdir(dirname(path), { recursive: true, mode: 0o700 }),
+      catch: (error) => fail("mkdir", error),
+    });
+    while (!(yield* tryLock)) {
+      if ((yield* lockAge) > LOCK_STALE_MS) {
+        yield* release;
+      } else {
+        yield* Effect.sleep(LOCK_RETRY_MS);
+      }
+    }
+  });
+
+  return Effect.acquireUseRelease(acquire, () => effect, () => release);
+};
+
+/**
+ * Path of the paper trading ledger for the given options
+ */
+export const getPaperLedgerPath = (options: PaperTradingOptions = {}): string =>
+  options.ledgerPath ?? DEFAULT_LEDGER_PATH;
+
+/**
+ * Wipe the paper trading ledger and start again with fresh cash
+ */
+export const resetPaperLedger = (
+  options: PaperTradingOptions = {}
+): Effect.Effect<void, FileSystemError> => {
+  const path = getPaperLedgerPath(options);
+  return withLedgerLock(
+    path,
+    saveLedger(path, emptyLedger(options.startingCash ?? DEFAULT_STARTING_CASH))
+  );
+};
+
+// ============================================================================
+// Fill simulation
+// ============================================================================
+
+const BUY_INSTRUCTIONS: ReadonlySet<OrderInstruction> = new Set([
+  "BUY",
+  "BUY_TO_OPEN",
+  "BUY_TO_CLOSE",
+  "BUY_TO_COVER",
+]);
+
+const FINAL_STATUSES: ReadonlySet<OrderStatus> = new Set([
+  "FILLED",
+  "CANCELED",
+  "REJECTED",
+  "EXPIRED",
+  "REPLACED",
+]);
+
+const isBuy = (leg: OrderLeg): boolean => BUY_INSTRUCTIONS.has(leg.instruction);
+
+const multiplierOf = (symbol: string): number => (isOptionSymbol(symbol) ? 100 : 1);
+
+/**
+ * Price a leg would fill at right now: buys lift the ask, sells hit the bid
+ */
+const fillPriceOf = (leg: OrderLeg, quote: Quote): number => {
+  const price = isBuy(leg) ? quote.askPrice : quote.bidPrice;
+  return price > 0 ? price : quote.lastPrice;
+};
+
+const basisPriceOf = (order: LedgerOrder, quote: Quote): number => {
+  switch (order.stopPriceLinkBasis) {
+    case "BID":
+      return quote.bidPrice;
+    case "ASK":
+      return quote.askPrice;
+    case "LAST":
+      return quote.lastPrice;
+    default:
+      return quote.mark || quote.lastPrice;
+  }
+};
+
+const trailingOffsetFrom = (order: LedgerOrder, anchor: number): number => {
+  const offset = order.stopPriceOffset ?? 0;
+  switch (order.stopPriceLinkType) {
+    case "PERCENT":
+      return (anchor * offset) / 100;
+    case "TICK":
+      return offset * 0.01;
+    default:
+      return offset;
+  }
+};
+
+const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+const roundPrice = (price: number): number => Math.round(price * 100) / 100;
+
+type FillDecision =
+  | { readonly _tag: "Fill"; readonly prices: readonly number[] }
+  | { readonly _tag: "Wait" };
+
+const WAIT: FillDecision = { _tag: "Wait" };
+
+/**
+ * Decide whether a working order fills against the current quotes. Mutates
+ * trailing anchors and trigger flags on the order as the market moves.
+ */
+const decideFill = (
+  order: LedgerOrder,
+  quotes: ReadonlyMap<string, Quote>
+): FillDecision => {
+  const legQuotes = order.orderLegCollection.map((leg) =>
+    quotes.get(leg.instrument.symbol)
+  );
+  if (legQuotes.some((quote) => quote === undefined)) {
+    return WAIT;
+  }
+  const prices = order.orderLegCollection.map((leg, index) =>
+    fillPriceOf(leg, legQuotes[index]!)
+  );
+  const fill: FillDecision = { _tag: "Fill", prices };
+
+  if (order.orderLegCollection.length > 1) {
+    // Net debit per strategy unit at the natural price
+    const weights = strategyLegWeights(order);
+    const debit = order.orderLegCollection.reduce(
+      (total, leg, index) =>
+        total + (isBuy(leg) ? 1 : -1) * prices[index] * weights[index],
+      0
+    );
+    const limit = order.price ?? 0;
+    switch (order.orderType) {
+      case "MARKET":
+        return fill;
+      case "NET_CREDIT":
+        return -debit >= limit - 1e-9 ? fill : WAIT;
+      case "NET_ZERO":
+        return debit <= 1e-9 ? fill : WAIT;
+      case "NET_DEBIT":
+        return debit <= limit + 1e-9 ? fill : WAIT;
+      default:
+        // Plain LIMIT: the price is a debit or a credit, whichever the
+        // strategy trades at
+        return debit < 0
+          ? -debit >= limit - 1e-9
+            ? fill
+            : WAIT
+          : debit <= limit + 1e-9
+            ? fill
+            : WAIT;
+    }
+  }
+
+  const leg = order.orderLegCollection[0];
+  const quote = legQuotes[0]!;
+  const buy = isBuy(leg);
+  const price = prices[0];
+  const limitReached = (limit: number | undefined) =>
+    limit === undefined || (buy ? price <= limit + 1e-9 : price >= limit - 1e-9);
+  const stopReached = (stop: number | undefined) =>
+    stop !== undefined && (buy ? price >= stop - 1e-9 : price <= stop + 1e-9);
+
+  switch (order.orderType) {
+    case "LIMIT":
+      return limitReached(order.price) ? fill : WAIT;
+    case "STOP":
+      return stopReached(order.stopPrice) ? fill : WAIT;
+    case "STOP_LIMIT":
+      if (!order.triggered && stopReached(order.stopPrice)) {
+        order.triggered = true;
+      }
+      return order.triggered && limitReached(order.price) ? fill : WAIT;
+    case "TRAILING_STOP":
+    case "TRAILING_STOP_LIMIT": {
+      if (!order.triggered) {
+        const basis = basisPriceOf(order, quote);
+        // Sell stops trail the high, buy stops trail the low
+        const anchor =
+          order.trailAnchor === undefined
+            ? basis
+            : buy
+              ? Math.min(order.trailAnchor, basis)
+              : Math.max(order.trailAnchor, basis);
+        order.trailAnchor = anchor;
+        const offset = trailingOffsetFrom(order, anchor);
+        const stop = roundPrice(buy ? anchor + offset : anchor - offset);
+        order.stopPrice = stop;
+        if (buy ? basis < stop : basis > stop) {
+          return WAIT;
+        }
+        order.triggered = true;
+        if (order.orderType === "TRAILING_STOP_LIMIT") {
+          const limitOffset = order.priceOffset ?? 0;
+          order.price = roundPrice(buy ? stop + limitOffset : stop - limitOffset);
+        }
+      }
+      return order.orderType === "TRAILING_STOP" || limitReached(order.price)
+        ? fill
+        : WAIT;
+    }
+    default:
+      // MARKET and the session-close types fill at the current quote
+      return fill;
+  }
+};
+
+const toOrder = (order: LedgerOrder): Order => {
+  const {
+    trailAnchor: _trailAnchor,
+    triggered: _triggered,
+    enteredTime,
+    closeTime,
+    childOrderStrategies,
+    ...rest
+  } = order;
+  return {
+    ...rest,
+    enteredTime: new Date(enteredTime),
+    closeTime: closeTime ? new Date(closeTime) : undefined,
+    childOrderStrategies: childOrderStrategies?.map(toOrder),
+  };
+};
+
+const toTransaction = (tx: LedgerTransaction): Transaction => ({
+  ...tx,
+  transactionDate: new Date(tx.transactionDate),
+  settlementDate: new Date(tx.settlementDate),
+});
+
+const reject = (reason: string, order?: unknown) =>
+  new OrderRejectedError({ reason, orderDetails: order, message: reason });
+
+// ============================================================================
+// Services
+// ============================================================================
+
+/**
+ * Create order and account services backed by a local ledger. Orders fill
+ * against live QuoteService bid/ask; working orders are re-checked against
+ * fresh quotes whenever orders or accounts are read.
+ */
+const makePaperTrading = (options: PaperTradingOptions) =>
+  Effect.gen(function* () {
+    const quoteService = yield* QuoteService;
+    const ledgerPath = getPaperLedgerPath(options);
+    const startingCash = options.startingCash ?? DEFAULT_STARTING_CASH;
+    // Loaded up front so a corrupt ledger fails the layer
+    let ledger = yield* loadLedger(ledgerPath, startingCash);
+
+    // The ledger is mutated in place; one operation at a time, here and across
+    // every process sharing the file, each starting from what is on disk
+    const lock = yield* Effect.makeSemaphore(1);
+    const reload = Effect.map(loadLedger(ledgerPath, startingCash), (loaded) => {
+      ledger = loaded;
+    });
+    const serialized = <A, E>(effect: Effect.Effect<A, E>) =>
+      lock.withPermits(1)(withLedgerLock(ledgerPath, Effect.zipRight(reload, effect)));
+
+    const persist = Effect.suspend(() => saveLedger(ledgerPath, ledger));
+
+    const ensureAccount = (accountHash: string) =>
+      accountHash === PAPER_ACCOUNT_HASH
+        ? Effect.void
+        : Effect.fail(
+            new AccountNotFoundError({
+              accountNumber: accountHash,
+              message: `Paper trading only has account "${PAPER_ACCOUNT_HASH}"`,
+            })
+          );
+
+    const fetchQuotes = (symbols: readonly string[]) =>
+      symbols.length === 0
+        ? Effect.succeed(new Map<string, Quote>())
+        : quoteService
+            .getQuotes(Array.from(new Set(symbols)))
+            .pipe(
+              Effect.map(
+                (quotes) => new Map(quotes.map((quote) => [quote.symbol, quote]))
+              )
+            );
+
+    const legSymbols = (order: LedgerOrder): string[] => [
+      ...order.orderLegCollection.map((leg) => leg.instrument.symbol),
+      ...(order.childOrderStrategies ?? []).flatMap(legSymbols),
+    ];
+
+    /**
+     * Check a fill against positions and cash. Returns the reason it cannot
+     * happen, if any.
+     */
+    const checkFill = (order: LedgerOrder, prices: readonly number[]) => {
+      let cashDelta = 0;
+      for (const [index, leg] of order.orderLegCollection.entries()) {
+        const symbol = leg.instrument.symbol;
+        const held = ledger.positions[symbol]?.quantity ?? 0;
+        switch (leg.instruction) {
+          case "SELL":
+          case "SELL_TO_CLOSE":
+            if (held < leg.quantity) {
+              return `Cannot sell ${leg.quantity} ${symbol}: only ${Math.max(held, 0)} held`;
+            }
+            break;
+          case "BUY_TO_CLOSE":
+          case "BUY_TO_COVER":
+            if (-held < leg.quantity) {
+              return `Cannot buy to close ${leg.quantity} ${symbol}: only ${Math.max(-held, 0)} short`;
+            }
+            break;
+        }
+        cashDelta +=
+          (isBuy(leg) ? -1 : 1) * prices[index] * leg.quantity * multiplierOf(symbol);
+      }
+      if (ledger.cash + cashDelta < -1e-9) {
+        return `Insufficient cash: need $${(-cashDelta).toFixed(2)}, have $${ledger.cash.toFixed(2)}`;
+      }
+      return undefined;
+    };
+
+    const applyFill = (order: LedgerOrder, prices: readonly number[], now: Date) => {
+      for (const [index, leg] of order.orderLegCollection.entries()) {
+        const symbol = leg.instrument.symbol;
+        const price = prices[index];
+        const delta = (isBuy(leg) ? 1 : -1) * leg.quantity;
+        const amount = -delta * price * multiplierOf(symbol);
+        ledger.cash += amount;
+
+        const position = ledger.positions[symbol] ?? {
+          quantity: 0,
+          averagePrice: 0,
+          assetType: leg.instrument.assetType,
+        };
+        const quantity = position.quantity + delta;
+        if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(delta)) {
+          // Opening or adding: average the cost in
+          position.averagePrice =
+            (Math.abs(position.quantity) * position.averagePrice +
+              Math.abs(delta) * price) /
+            Math.abs(quantity);
+        } else if (Math.sign(quantity) === Math.sign(delta)) {
+          // Flipped through zero: the remainder opened at this price
+          position.averagePrice = price;
+        }
+        position.quantity = quantity;
+        if (quantity === 0) {
+          delete ledger.positions[symbol];
+        } else {
+          ledger.positions[symbol] = position;
+        }
+
+        ledger.transactions.push({
+          transactionId: String(ledger.nextTransactionId++),
+          type: "TRADE",
+          description: `${leg.instruction} ${leg.quantity} ${symbol} @ ${price.toFixed(2)}`,
+          transactionDate: now.toISOString(),
+          settlementDate: now.toISOString(),
+          netAmount: roundPrice(amount),
+          symbol,
+          quantity: delta,
+          price,
+        });
+      }
+
+      order.status = "FILLED";
+      order.filledQuantity = order.filledQuantity + order.remainingQuantity;
+      order.remainingQuantity = 0;
+      order.closeTime = now.toISOString();
+      if (order.orderLegCollection.length > 1) {
+        const weights = strategyLegWeights(order);
+        order.price = roundPrice(
+          Math.abs(
+            order.orderLegCollection.reduce(
+              (total, leg, index) =>
+                total + (isBuy(leg) ? 1 : -1) * prices[index] * weights[index],
+              0
+            )
+          )
+        );
+      } else if (order.orderType === "MARKET" || order.price === undefined) {
+        order.price = prices[0];
+      }
+    };
+
+    const closeOrder = (order: LedgerOrder, status: OrderStatus, now: Date, description?: string) => {
+      order.status = status;
+      order.closeTime = now.toISOString();
+      if (description) {
+        order.statusDescription = description;
+      }
+      for (const child of order.childOrderStrategies ?? []) {
+        if (!FINAL_STATUSES.has(child.status)) {
+          closeOrder(child, "CANCELED", now);
+        }
+      }
+    };
+
+    /**
+     * Advance one order (and its children) against the quotes
+     */
+    const advance = (order: LedgerOrder, quotes: ReadonlyMap<string, Quote>, now: Date): void => {
+      const children = order.childOrderStrategies ?? [];
+
+      if (!FINAL_STATUSES.has(order.status)) {
+        if (order.duration === "DAY" && !isSameDay(new Date(order.enteredTime), now)) {
+          closeOrder(order, "EXPIRED", now);
+          return;
+        }
+
+        if (order.orderLegCollection.length === 0) {
+          // Leg-less OCO container: work the children, first fill wins
+          for (const child of children) {
+            advance(child, quotes, now);
+            if (child.status === "FILLED") {
+              for (const sibling of children) {
+                if (sibling !== child && !FINAL_STATUSES.has(sibling.status)) {
+                  closeOrder(sibling, "CANCELED", now);
+                }
+              }
+              order.status = "FILLED";
+              order.closeTime = now.toISOString();
+              return;
+            }
+          }
+          return;
+        }
+
+        const decision = decideFill(order, quotes);
+        if (decision._tag === "Wait") {
+          return;
+        }
+        const problem = checkFill(order, decision.prices);
+        if (problem) {
+          closeOrder(order, "REJECTED", now, problem);
+          return;
+        }
+        applyFill(order, decision.prices, now);
+      }
+
+      if (order.status === "FILLED" && order.orderStrategyType === "TRIGGER") {
+        for (const child of children) {
+          if (child.status === "AWAITING_PARENT_ORDER") {
+            child.status = "WORKING";
+            child.enteredTime = now.toISOString();
+          }
+          advance(child, quotes, now);
+        }
+      }
+    };
+
+    const hasOpenWork = (order: LedgerOrder): boolean =>
+      !FINAL_STATUSES.has(order.status) ||
+      (order.childOrderStrategies ?? []).some(hasOpenWork);
+
+    /**
+     * Re-check every working order against fresh quotes. Quote failures leave
+     * the orders working rather than failing the read.
+     */
+    const sweep = Effect.gen(function* () {
+      const open = ledger.orders.filter(hasOpenWork);
+      if (open.length === 0) {
+        return;
+      }
+      const quotes = yield* fetchQuotes(open.flatMap(legSymbols)).pipe(
+        Effect.orElseSucceed(() => new Map<string, Quote>())
+      );
+      const now = new Date();
+      for (const order of open) {
+        advance(order, quotes, now);
+      }
+      yield* persist;
+    });
+
+    const toLedgerOrder = (
+      spec: OrderSpec,
+      orderId: string,
+      status: OrderStatus,
+      now: Date
+    ): LedgerOrder => {
+      const quantity = spec.orderLegCollection[0]?.quantity ?? 0;
+      return {
+        orderId,
+        accountNumber: PAPER_ACCOUNT_NUMBER,
+        orderType: spec.orderType,
+        session: spec.session,
+        duration: spec.duration,
+        price: spec.price,
+        stopPrice: spec.stopPrice,
+        stopPriceLinkBasis: spec.stopPriceLinkBasis,
+        stopPriceLinkType: spec.stopPriceLinkType,
+        stopPriceOffset: spec.stopPriceOffset,
+        priceLinkBasis: spec.priceLinkBasis,
+        priceLinkType: spec.priceLinkType,
+        priceOffset: spec.priceOffset,
+        orderLegCollection: spec.orderLegCollection,
+        orderStrategyType: spec.orderStrategyType,
+        complexOrderStrategyType: spec.complexOrderStrategyType,
+        status,
+        filledQuantity: 0,
+        remainingQuantity: quantity,
+        enteredTime: now.toISOString(),
+        childOrderStrategies: spec.childOrderStrategies?.map((child, index) =>
+          toLedgerOrder(
+            child,
+            `${orderId}.${index + 1}`,
+            spec.orderStrategyType === "TRIGGER" ? "AWAITING_PARENT_ORDER" : "WORKING",
+            now
+          )
+        ),
+      };
+    };
+
+    /**
+     * Build a new order under the next order ID and work it against current
+     * quotes. Nothing is stored and the ID is not taken until `store`.
+     */
+    const simulateNew = (accountHash: string, spec: OrderSpec) =>
+      Effect.gen(function* () {
+        yield* ensureAccount(accountHash);
+        yield* validateOrderSpec(spec);
+        if (spec.orderLegCollection.length === 0 && spec.orderStrategyType !== "OCO") {
+          return yield* Effect.fail(reject("Order has no legs", spec));
+        }
+
+        const now = new Date();
+        const order = toLedgerOrder(spec, String(ledger.nextOrderId), "WORKING", now);
+        const quotes = yield* fetchQuotes(legSymbols(order));
+
+        for (const symbol of order.orderLegCollection.map((leg) => leg.instrument.symbol)) {
+          if (!quotes.has(symbol)) {
+            return yield* Effect.fail(reject(`No quote for ${symbol}`, spec));
+          }
+        }
+
+        advance(order, quotes, now);
+        return order;
+      });
+
+    const store = (order: LedgerOrder) => {
+      ledger.nextOrderId++;
+      ledger.orders.push(order);
+      return persist;
+    };
+
+    const placeNew = (accountHash: string, spec: OrderSpec) =>
+      Effect.gen(function* () {
+        const order = yield* simulateNew(accountHash, spec);
+        yield* store(order);
+
+        if (order.status === "REJECTED") {
+          return yield* Effect.fail(
+            reject(order.statusDescription ?? "Order rejected", spec)
+          );
+        }
+        return order.orderId;
+      });
+
+    const findOrder = (orderId: string): LedgerOrder | undefined => {
+      const search = (orders: readonly LedgerOrder[]): LedgerOrder | undefined => {
+        for (const order of orders) {
+          if (order.orderId === orderId) {
+            return order;
+          }
+          const child = search(order.childOrderStrategies ?? []);
+          if (child) {
+            return child;
+          }
+        }
+        return undefined;
+      };
+      return search(ledger.orders);
+    };
+
+    const getOrderEntry = (accountHash: string, orderId: string) =>
+      Effect.gen(function* () {
+        yield* ensureAccount(accountHash);
+        const order = findOrder(orderId);
+        if (!order) {
+          return yield* Effect.fail(
+            new OrderNotFoundError({
+              orderId,
+              accountHash,
+              message: `Paper order ${orderId} not found`,
+            })
+          );
+        }
+        return order;
+      });
+
+    const filterOrders = (params?: OrderQueryParams): Order[] => {
+      const from = params?.fromEnteredTime?.getTime() ?? -Infinity;
+      const to = params?.toEnteredTime?.getTime() ?? Infinity;
+      return ledger.orders
+        .filter((order) => {
+          const entered = new Date(order.enteredTime).getTime();
+          return (
+            entered >= from &&
+            entered <= to &&
+            (!params?.status || params.status === "ALL" || order.status === params.status)
+          );
+        })
+        .reverse()
+        .slice(0, params?.maxResults ?? 3000)
+        .map(toOrder);
+    };
+
+    const cancelEntry = (accountHash: string, orderId: string) =>
+      Effect.gen(function* () {
+        const order = yield* getOrderEntry(accountHash, orderId);
+        if (FINAL_STATUSES.has(order.status)) {
+          return yield* Effect.fail(
+            reject(`Order ${orderId} is ${order.status} and cannot be canceled`)
+          );
+        }
+        closeOrder(order, "CANCELED", new Date());
+      });
+
+    const orderService: OrderServiceShape = {
+      placeOrder: (accountHash, order) => serialized(placeNew(accountHash, order)),
+
+      getOrders: (accountHash, params) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* ensureAccount(accountHash);
+            yield* sweep;
+            return filterOrders(params);
+          })
+        ),
+
+      getAllOrders: (params) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* sweep;
+            return filterOrders(params);
+          })
+        ),
+
+      getOrder: (accountHash, orderId) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* sweep;
+            return toOrder(yield* getOrderEntry(accountHash, orderId));
+          })
+        ),
+
+      cancelOrder: (accountHash, orderId) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* sweep;
+            yield* cancelEntry(accountHash, orderId);
+            yield* persist;
+          })
+        ),
+
+      replaceOrder: (accountHash, orderId, newOrder) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* sweep;
+            const original = yield* getOrderEntry(accountHash, orderId);
+            if (FINAL_STATUSES.has(original.status)) {
+              return yield* Effect.fail(
+                reject(`Order ${orderId} is ${original.status} and cannot be replaced`)
+              );
+            }
+            // The original keeps working unless its replacement is accepted
+            const replacement = yield* simulateNew(accountHash, newOrder);
+            if (replacement.status === "REJECTED") {
+              return yield* Effect.fail(
+                reject(replacement.statusDescription ?? "Order rejected", newOrder)
+              );
+            }
+            closeOrder(original, "REPLACED", new Date());
+            yield* store(replacement);
+            return replacement.orderId;
+          })
+        ),
+
+      previewOrder: (accountHash, order) =>
+        Effect.gen(function* () {
+          yield* ensureAccount(accountHash);
+          yield* validateOrderSpec(order);
+          return toOrder(toLedgerOrder(order, "0", "ACCEPTED", new Date()));
+        }),
+    };
+
+    const buildAccount = Effect.gen(function* () {
+      yield* sweep;
+      const symbols = Object.keys(ledger.positions);
+      const quotes = yield* fetchQuotes(symbols).pipe(
+        Effect.orElseSucceed(() => new Map<string, Quote>())
+      );
+
+      const positions = symbols.map((symbol): Position => {
+        const { quantity, averagePrice, assetType } = ledger.positions[symbol];
+        const quote = quotes.get(symbol);
+        const mark = quote ? quote.mark || quote.lastPrice : averagePrice;
+        const multiplier = multiplierOf(symbol);
+        const marketValue = quantity * mark * multiplier;
+        const costBasis = quantity * averagePrice * multiplier;
+        const unrealizedPL = marketValue - costBasis;
+        const option = isOptionSymbol(symbol) ? parseOptionSymbol(symbol) : undefined;
+        return {
+          symbol,
+          quantity,
+          averagePrice,
+          marketValue,
+          unrealizedPL,
+          unrealizedPLPercent:
+            costBasis !== 0 ? (unrealizedPL / Math.abs(costBasis)) * 100 : 0,
+          assetType,
+          underlyingSymbol: option?.underlying,
+          putCall: option ? (option.putCall === "C" ? "CALL" : "PUT") : undefined,
+          strikePrice: option?.strike,
+          expirationDate: option?.expiration.toISOString(),
+        };
+      });
+
+      const sum = (filter: (position: Position) => boolean) =>
+        positions.filter(filter).reduce((total, p) => total + p.marketValue, 0);
+      const longMarketValue = sum((p) => p.assetType !== "OPTION" && p.quantity > 0);
+      const shortMarketValue = sum((p) => p.assetType !== "OPTION" && p.quantity < 0);
+      const longOptionMarketValue = sum((p) => p.assetType === "OPTION" && p.quantity > 0);
+      const shortOptionMarketValue = sum((p) => p.assetType === "OPTION" && p.quantity < 0);
+      const liquidationValue =
+        ledger.cash +
+        longMarketValue +
+        shortMarketValue +
+        longOptionMarketValue +
+        shortOptionMarketValue;
+
+      const account: Account = {
+        accountNumber: PAPER_ACCOUNT_NUMBER,
+        accountHash: PAPER_ACCOUNT_HASH,
+        type: "MARGIN",
+        positions,
+        balances: {
+          cashBalance: ledger.cash,
+          cashAvailableForTrading: ledger.cash,
+          cashAvailableForWithdrawal: ledger.cash,
+          liquidationValue,
+          longMarketValue,
+          shortMarketValue,
+          longOptionMarketValue,
+          shortOptionMarketValue,
+          equity: liquidationValue,
+          marginBalance: 0,
+          maintenanceRequirement: 0,
+          buyingPower: ledger.cash,
+          dayTradingBuyingPower: ledger.cash,
+        },
+      };
+      return account;
+    });
+
+    const filterTransactions = (params?: TransactionParams): Transaction[] =>
+      ledger.transactions
+        .map(toTransaction)
+        .filter(
+          (tx) =>
+            (!params?.startDate || tx.transactionDate >= params.startDate) &&
+            (!params?.endDate || tx.transactionDate <= params.endDate) &&
+            (!params?.types || params.types.includes(tx.type)) &&
+            (!params?.symbol || tx.symbol === params.symbol)
+        );
+
+    const accountService: AccountServiceShape = {
+      getAccountNumbers: Effect.succeed([
+        { accountNumber: PAPER_ACCOUNT_NUMBER, hashValue: PAPER_ACCOUNT_HASH },
+      ]),
+
+      getAccountHash: (accountNumber) =>
+        accountNumber === PAPER_ACCOUNT_NUMBER
+          ? Effect.succeed(PAPER_ACCOUNT_HASH)
+          : Effect.fail(
+              new AccountNotFoundError({
+                accountNumber,
+                message: `Paper trading only has account ${PAPER_ACCOUNT_NUMBER}`,
+              })
+            ),
+
+      getAccount: (accountHash) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* ensureAccount(accountHash);
+            return yield* buildAccount;
+          })
+        ),
+
+      getAccounts: serialized(buildAccount.pipe(Effect.map((account) => [account]))),
+
+      getTransactions: (accountHash, params) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* ensureAccount(accountHash);
+            return filterTransactions(params);
+          })
+        ),
+
+      getTransaction: (accountHash, transactionId) =>
+        serialized(
+          Effect.gen(function* () {
+            yield* ensureAccount(accountHash);
+            const tx = ledger.transactions.find((t) => t.transactionId === transactionId);
+            if (!tx) {
+              return yield* Effect.fail<SchwabClientError>(
+                new AccountNotFoundError({
+                  accountNumber: PAPER_ACCOUNT_NUMBER,
+                  message: `Paper transaction ${transactionId} not found`,
+                })
+              );
+            }
+            return toTransaction(tx);
+          })
+        ),
+    };
+
+    return Context.make(OrderService, orderService).pipe(
+      Context.add(AccountService, accountService)
+    );
+  });
+
+/**
+ * Paper trading layer: OrderService and AccountService backed by a local
+ * file ledger, filling against live QuoteService bid/ask. Swap it in for
+ * OrderServiceLive/AccountServiceLive without changing calling code.
+ */
+export const PaperTradingLive = (
+  options: PaperTradingOptions = {}
+): Layer.Layer<OrderService | AccountService, FileSystemError, QuoteService> =>
+  Layer.effectContext(makePaperTrading(options));
@@ -1,9 +1,12 @@
 import { describe, it, expect } from "bun:test";
-import { Effect } from "effect";
+import { Effect, Layer } from "effect";
 import { QuoteService } from "./index.js";
 import { QuoteServiceTest } from "../layers/test.js";
+import { QuoteServiceLive, chunkQuoteRequest } from "./quotes.js";
 import { SymbolNotFoundError } from "../errors.js";
-import { mockQuotes } from "../../test/fixtures/quotes.js";
+import { HttpClientTest } from "./http-client.js";
+import type { EquityQuote } from "../schemas/index.js";
+import { mockQuotes, mockSchwabQuoteResponse } from "../../test/fixtures/quotes.js";
 
 describe("QuoteService", () => {
   const testLayer = QuoteServiceTest(mockQuotes);
@@ -178,3 +181,96 @@ describe("QuoteService", () => {
     });
   });
 });
+
+describe("chunkQuoteRequest", () => {
+  it("leaves a request under the limits whole", () => {
+    const request = { symbols: ["AAPL", "MSFT"], fields: ["quote" as const] };
+    expect(chunkQuoteRequest(request)).toEqual([request]);
+  });
+
+  it("splits by identifier count, keeping order and options", () => {
+    const chunks = chunkQuoteRequest(
+      { symbols: ["a", "b", "c"], cusips: ["037833100"], realtime: true },
+      { maxIdentifiers: 2 }
+    );
+    expect(chunks).toEqual([
+      { symbols: ["A", "B"], cusips: undefined, ssids: undefined, realtime: true },
+      { symbols: ["C"], cusips: ["037833100"], ssids: undefined, realtime: true },
+    ]);
+  });
+
+  it("splits by encoded length for long option symbols", () => {
+    const symbols = Array.from({ length: 10 }, (_, i) => `AAPL  240315C0018${i}000`);
+    const chunks = chunkQuoteRequest({ symbols }, { maxLength: 100 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.flatMap((chunk) => chunk.symbols)).toEqual(symbols);
+  });
+});
+
+describe("QuoteServiceLive", () => {
+  const liveLayer = QuoteServiceLive.pipe(
+    Layer.provide(HttpClientTest(<T>() => Effect.succeed(mockSchwabQuoteResponse as T)))
+  );
+
+  it("maps fundamental, extended and regular sections", async () => {
+    const quotes = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* service.getQuotes(["AAPL", "MSFT"]);
+      }).pipe(Effect.provide(liveLayer))
+    );
+    expect(quotes.map((quote) => quote.assetType)).toEqual(["EQUITY", "EQUITY"]);
+    const [aapl, msft] = quotes as readonly EquityQuote[];
+
+    expect(aapl.high52Week).toBe(199.62);
+    expect(aapl.bidSize).toBe(200);
+    expect(aapl.securityStatus).toBe("Normal");
+    expect(aapl.postMarketChangePercent).toBe(0.2);
+    expect(aapl.fundamental?.peRatio).toBe(29.12);
+    expect(aapl.fundamental?.divExDate?.toISOString()).toBe("2024-02-09T00:00:00.000Z");
+    // Schwab sends empty strings for dates a security doesn't have
+    expect(aapl.fundamental?.nextDivExDate).toBeUndefined();
+    expect(aapl.extended?.lastPrice).toBe(178.87);
+    expect(aapl.extended?.tradeTime?.getTime()).toBe(1705359590000);
+    expect(aapl.regular?.lastSize).toBe(1500);
+    expect(aapl.regular?.netChangePercent).toBe(1.42);
+
+    expect(msft.fundamental).toBeUndefined();
+    expect(msft.extended).toBeUndefined();
+  });
+
+  it("maps indexes, futures and forex with their own fields", async () => {
+    const quotes = await Effect.runPromise(
+      Effect.gen(function* () {
+        const service = yield* QuoteService;
+        return yield* service.getQuotes(["$SPX", "/ES", "EUR/USD"]);
+      }).pipe(Effect.provide(liveLayer))
+    );
+    const [spx, es, eur] = quotes;
+
+    expect(quotes.map((quote) => quote.assetType)).toEqual(["INDEX", "FUTURE", "FOREX"]);
+    expect(spx.lastPrice).toBe(4765.98);
+    expect(spx.mark).toBe(4765.98);
+    expect(spx.netChangePercent).toBe(-0.3731);
+    expect(spx.tradeTime.getTime()).toBe(1705352400000);
+
+    if (es.assetType !== "FUTURE") {
+      throw new Error("expected a future");
+    }
+    expect(es.symbol).toBe("/ESH24");
+    expect(es.product).toBe("/ES");
+    expect(es.multiplier).toBe(50);
+    expect(es.tickSize).toBe(0.25);
+    expect(es.tickAmount).toBe(12.5);
+    expect(es.expirationDate?.getTime()).toBe(1710475200000);
+    expect(es.settlementPrice).toBe(4803.5);
+    expect(es.netChangePercent).toBeCloseTo(-0.28);
+
+    if (eur.assetType !== "FOREX") {
+      throw new Error("expected a currency pair");
+    }
+    expect(eur.bidPrice).toBe(1.09499);
+    expect(eur.tickSize).toBe(0.00001);
+    expect(eur.high52Week).toBe(1.1276);
+  });
+});
@@ -1,21 +1,71 @@
-import { Effect, Layer } from "effect";
-import { QuoteService, HttpClient } from "./index.js";
-import { SymbolNotFoundError } from "../errors.js";
+import { Deferred, Effect, FiberId, FiberRef, Layer } from "effect";
+import { QuoteService, HttpClient, type QuoteResults } from "./index.js";
+import { currentRequestPriority } from "./rate-limiter.js";
+import { currentCacheBypass } from "./http-cache.js";
+import { SymbolNotFoundError, type SchwabClientError } from "../errors.js";
 import { decode } from "../validation.js";
 import {
+  type EquityQuote,
+  type ForexQuote,
+  type FutureQuote,
+  type IndexQuote,
   type Quote,
+  type QuoteFundamental,
   type QuoteRequestParams,
+  SchwabForexQuote,
+  SchwabFundamental,
+  SchwabFutureQuote,
+  SchwabIndexQuote,
   SchwabQuote,
 } from "../schemas/index.js";
 
+// Epoch millis or an ISO date; Schwab sends empty or unparseable dates for
+// securities without them
+const toDate = (value: number | string | undefined): Date | undefined => {
+  if (value === undefined || value === "" || value === 0) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const mapFundamental = (f: typeof SchwabFundamental.Type): QuoteFundamental => ({
+  peRatio: f.peRatio,
+  eps: f.eps,
+  divAmount: f.divAmount,
+  divYield: f.divYield,
+  divFreq: f.divFreq,
+  divPayAmount: f.divPayAmount,
+  divExDate: toDate(f.divExDate),
+  divPayDate: toDate(f.divPayDate),
+  nextDivExDate: toDate(f.nextDivExDate),
+  nextDivPayDate: toDate(f.nextDivPayDate),
+  declarationDate: toDate(f.declarationDate),
+  marketCap: f.marketCap,
+  avg10DaysVolume: f.avg10DaysVolume,
+  avg1YearVolume: f.avg1YearVolume,
+});
+
+const EQUITY_LIKE_TYPES: readonly EquityQuote["assetType"][] = [
+  "EQUITY",
+  "MUTUAL_FUND",
+  "OPTION",
+  "FUTURE_OPTION",
+  "BOND",
+];
+
+// Percent change from the net change when Schwab leaves it out
+const percentChange = (netChange: number | undefined, closePrice: number | undefined) =>
+  netChange !== undefined && closePrice ? (netChange / closePrice) * 100 : 0;
+
 /**
- * Map a validated Schwab quote to our Quote type
+ * Map a validated Schwab equity-shaped quote to an EquityQuote
  */
-const mapQuote = (
-  sq: typeof SchwabQuote.Type
-): Quote => {
+const mapEquityQuote = (sq: typeof SchwabQuote.Type): EquityQuote => {
   const q = sq.quote;
   return {
+    // Main types we don't know yet are quoted like equities
+    assetType: EQUITY_LIKE_TYPES.find((type) => type === sq.assetMainType) ?? "EQUITY",
     symbol: sq.symbol,
     bidPrice: q.bidPrice ?? 0,
     askPrice: q.askPrice ?? 0,
@@ -32,16 +82,158 @@ const mapQuote = (
     tradeTime: q.tradeTime ? new Date(q.tradeTime) : new Date(),
     exchange: sq.reference.exchange ?? "",
     description: sq.reference.description ?? sq.symbol,
+    bidSize: q.bidSize,
+    askSize: q.askSize,
+    lastSize: q.lastSize,
+    high52Week: q["52WeekHigh"],
+    low52Week: q["52WeekLow"],
+    postMarketChange: q.postMarketChange,
+    postMarketChangePercent: q.postMarketPercentChange,
+    securityStatus: q.securityStatus,
+    fundamental: sq.fundamental && mapFundamental(sq.fundamental),
+    extended: sq.extended && {
+      ...sq.extended,
+      quoteTime: toDate(sq.extended.quoteTime),
+      tradeTime: toDate(sq.extended.tradeTime),
+    },
+    regular: sq.regular && {
+      lastPrice: sq.regular.regularMarketLastPrice,
+      lastSize: sq.regular.regularMarketLastSize,
+      netChange: sq.regular.regularMarketNetChange,
+      netChangePercent: sq.regular.regularMarketPercentChange,
+      tradeTime: toDate(sq.regular.regularMarketTradeTime),
+    },
+  };
+};
+
+const mapIndexQuote = (sq: typeof SchwabIndexQuote.Type): IndexQuote => {
+  const q = sq.quote;
+  const tradeTime = q.tradeTime ? new Date(q.tradeTime) : new Date();
+  return {
+    assetType: "INDEX",
+    symbol: sq.symbol,
+    bidPrice: 0,
+    askPrice: 0,
+    lastPrice: q.lastPrice ?? 0,
+    totalVolume: q.totalVolume ?? 0,
+    netChange: q.netChange ?? 0,
+    netChangePercent: q.netPercentChange ?? percentChange(q.netChange, q.closePrice),
+    mark: q.lastPrice ?? 0,
+    openPrice: q.openPrice ?? 0,
+    highPrice: q.highPrice ?? 0,
+    lowPrice: q.lowPrice ?? 0,
+    closePrice: q.closePrice ?? 0,
+    quoteTime: tradeTime,
+    tradeTime,
+    exchange: sq.reference.exchange ?? "",
+    description: sq.reference.description ?? sq.symbol,
+    high52Week: q["52WeekHigh"],
+    low52Week: q["52WeekLow"],
+    securityStatus: q.securityStatus,
+  };
+};
+
+const mapFutureQuote = (sq: typeof SchwabFutureQuote.Type): FutureQuote => {
+  const q = sq.quote;
+  const ref = sq.reference;
+  return {
+    assetType: "FUTURE",
+    symbol: sq.symbol,
+    bidPrice: q.bidPrice ?? 0,
+    askPrice: q.askPrice ?? 0,
+    lastPrice: q.lastPrice ?? 0,
+    totalVolume: q.totalVolume ?? 0,
+    netChange: q.netChange ?? 0,
+    // futurePercentChange is a fraction, unlike the other classes' percentages
+    netChangePercent:
+      q.futurePercentChange !== undefined
+        ? q.futurePercentChange * 100
+        : percentChange(q.netChange, q.closePrice),
+    mark: q.mark ?? q.lastPrice ?? 0,
+    openPrice: q.openPrice ?? 0,
+    highPrice: q.highPrice ?? 0,
+    lowPrice: q.lowPrice ?? 0,
+    closePrice: q.closePrice ?? 0,
+    quoteTime: q.quoteTime ? new Date(q.quoteTime) : new Date(),
+    tradeTime: q.tradeTime ? new Date(q.tradeTime) : new Date(),
+    exchange: ref.exchange ?? "",
+    description: ref.description ?? sq.symbol,
+    bidSize: q.bidSize,
+    askSize: q.askSize,
+    lastSize: q.lastSize,
+    securityStatus: q.securityStatus,
+    product: ref.product,
+    activeSymbol: ref.futureActiveSymbol,
+    expirationDate: toDate(ref.futureExpirationDate),
+    multiplier: ref.futureMultiplier,
+    tickSize: q.tick,
+    tickAmount: q.tickAmount,
+    settlementPrice: ref.futureSettlementPrice,
+    openInterest: q.openInterest,
+    isActive: ref.futureIsActive,
+    tradingHours: ref.futureTradingHours,
   };
 };
 
-const maybeDecodeQuote = (entry: unknown, context: string) =>
-  decode(SchwabQuote, entry, context).pipe(
+const mapForexQuote = (sq: typeof SchwabForexQuote.Type): ForexQuote => {
+  const q = sq.quote;
+  const ref = sq.reference;
+  return {
+    assetType: "FOREX",
+    symbol: sq.symbol,
+    bidPrice: q.bidPrice ?? 0,
+    askPrice: q.askPrice ?? 0,
+    lastPrice: q.lastPrice ?? 0,
+    totalVolume: q.totalVolume ?? 0,
+    netChange: q.netChange ?? 0,
+    netChangePercent: q.netPercentChange ?? percentChange(q.netChange, q.closePrice),
+    mark: q.mark ?? q.lastPrice ?? 0,
+    openPrice: q.openPrice ?? 0,
+    highPrice: q.highPrice ?? 0,
+    lowPrice: q.lowPrice ?? 0,
+    closePrice: q.closePrice ?? 0,
+    quoteTime: q.quoteTime ? new Date(q.quoteTime) : new Date(),
+    tradeTime: q.tradeTime ? new Date(q.tradeTime) : new Date(),
+    exchange: ref.exchange ?? "",
+    description: ref.description ?? sq.symbol,
+    bidSize: q.bidSize,
+    askSize: q.askSize,
+    lastSize: q.lastSize,
+    high52Week: q["52WeekHigh"],
+    low52Week: q["52WeekLow"],
+    securityStatus: q.securityStatus,
+    product: ref.product,
+    tickSize: q.tick,
+    tickAmount: q.tickAmount,
+    isTradable: ref.isTradable,
+    tradingHours: ref.tradingHours,
+  };
+};
+
+/**
+ * Decode a quote response entry with its asset class's schema and map it,
+ * or null when it doesn't decode
+ */
+const maybeDecodeQuote = (entry: unknown, context: string): Effect.Effect<Quote | null> => {
+  const assetMainType =
+    typeof entry === "object" && entry !== null
+      ? (entry as { assetMainType?: unknown }).assetMainType
+      : undefined;
+  const decoded: Effect.Effect<Quote, unknown> =
+    assetMainType === "INDEX"
+      ? Effect.map(decode(SchwabIndexQuote, entry, context), mapIndexQuote)
+      : assetMainType === "FUTURE"
+        ? Effect.map(decode(SchwabFutureQuote, entry, context), mapFutureQuote)
+        : assetMainType === "FOREX"
+          ? Effect.map(decode(SchwabForexQuote, entry, context), mapForexQuote)
+          : Effect.map(decode(SchwabQuote, entry, context), mapEquityQuote);
+  return decoded.pipe(
     Effect.match({
       onFailure: () => null,
       onSuccess: (quote) => quote,
     })
   );
+};
 
 const buildQuoteQueryParams = (
   request: QuoteRequestParams
@@ -70,94 +262,227 @@ const buildQuoteQueryParams = (
   };
 };
 
+type QuoteOptions = Omit<QuoteRequestParams, "symbols" | "cusips" | "ssids">;
+
+// Schwab caps identifiers per quotes request, and long URLs are refused
+const MAX_QUOTE_IDENTIFIERS = 200;
+const MAX_QUOTE_IDENTIFIERS_LENGTH = 2000;
+
+type QuoteIdentifier = readonly ["symbols" | "cusips" | "ssids", string];
+
+const quoteIdentifiers = (request: QuoteRequestParams): QuoteIdentifier[] => [
+  ...(request.symbols ?? []).map((id): QuoteIdentifier => ["symbols", id.toUpperCase()]),
+  ...(request.cusips ?? []).map((id): QuoteIdentifier => ["cusips", id]),
+  ...(request.ssids ?? []).map((id): QuoteIdentifier => ["ssids", id]),
+];
+
+const withIdentifiers = (
+  request: QuoteRequestParams,
+  identifiers: readonly QuoteIdentifier[]
+): QuoteRequestParams => {
+  const of = (kind: QuoteIdentifier[0]) => {
+    const ids = identifiers.filter(([idKind]) => idKind === kind).map(([, id]) => id);
+    return ids.length > 0 ? ids : undefined;
+  };
+  return { ...request, symbols: of("symbols"), cusips: of("cusips"), ssids: of("ssids") };
+};
+
+/**
+ * Split a quotes request into requests under Schwab's identifier cap and
+ * URL length limit, keeping identifiers in order
+ */
+export const chunkQuoteRequest = (
+  request: QuoteRequestParams,
+  limits: { readonly maxIdentifiers?: number; readonly maxLength?: number } = {}
+): QuoteRequestParams[] => {
+  const maxIdentifiers = limits.maxIdentifiers ?? MAX_QUOTE_IDENTIFIERS;
+  const maxLength = limits.maxLength ?? MAX_QUOTE_IDENTIFIERS_LENGTH;
+  const chunks: QuoteIdentifier[][] = [];
+  let current: QuoteIdentifier[] = [];
+  let length = 0;
+  for (const identifier of quoteIdentifiers(request)) {
+    // Encoded, plus the comma before it
+    const size = encodeURIComponent(identifier[1]).length + 3;
+    if (current.length > 0 && (current.length >= maxIdentifiers || length + size > maxLength)) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(identifier);
+    length += size;
+  }
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks.length > 1 ? chunks.map((chunk) => withIdentifiers(request, chunk)) : [request];
+};
+
+// getQuotes calls this close together share one symbols request
+const QUOTE_BATCH_WINDOW_MS = 5;
+
+interface QuoteBatch {
+  readonly symbols: Set<string>;
+  readonly response: Deferred.Deferred<Record<string, unknown>, SchwabClientError>;
+}
+
 /**
  * Create the Quote service implementation
  */
 const makeQuoteService = Effect.gen(function* () {
   const httpClient = yield* HttpClient;
+  const layerScope = yield* Effect.scope;
 
-  const getQuotesByRequest = (request: QuoteRequestParams) =>
-    Effect.gen(function* () {
-      const hasSymbols = !!request.symbols?.length;
-      const hasCusips = !!request.cusips?.length;
-      const hasSsids = !!request.ssids?.length;
-      if (!hasSymbols && !hasCusips && !hasSsids) {
-        return [];
-      }
-
-      const response = yield* httpClient.request<Record<string, unknown>>({
+  /**
+   * One request's worth of quotes. A 400 usually means one malformed
+   * identifier, so the request is halved until that identifier is alone,
+   * and only it goes unanswered.
+   */
+  const fetchChunk = (
+    request: QuoteRequestParams
+  ): Effect.Effect<Record<string, unknown>, SchwabClientError> =>
+    httpClient
+      .request<Record<string, unknown>>({
         method: "GET",
         path: "/marketdata/v1/quotes",
         params: buildQuoteQueryParams(request),
+      })
+      .pipe(
+        Effect.catchIf(
+          (error) => error._tag === "ApiError" && error.statusCode === 400,
+          (error) => {
+            const identifiers = quoteIdentifiers(request);
+            if (identifiers.length <= 1) {
+              return identifiers.length === 1 ? Effect.succeed({}) : Effect.fail(error);
+            }
+            const half = Math.ceil(identifiers.length / 2);
+            return Effect.all(
+              [identifiers.slice(0, half), identifiers.slice(half)].map((part) =>
+                fetchChunk(withIdentifiers(request, part))
+              ),
+              { concurrency: "unbounded" }
+            ).pipe(Effect.map((responses) => Object.assign({}, ...responses)));
+          }
+        )
+      );
+
+  // Oversized requests go out as several, in parallel behind the rate limiter
+  const fetchQuotes = (request: QuoteRequestParams) =>
+    Effect.forEach(chunkQuoteRequest(request), fetchChunk, { concurrency: "unbounded" }).pipe(
+      Effect.map((responses): Record<string, unknown> => Object.assign({}, ...responses))
+    );
+
+  // Batches still collecting symbols, keyed on options, lane and cache bypass
+  const openBatches = new Map<string, QuoteBatch>();
+
+  /**
+   * Quotes response covering `symbols`, possibly with other callers' symbols
+   * too. The first call in a window opens a batch and sends it once the
+   * window has passed, in its own lane.
+   */
+  const fetchQuotesBatched = (symbols: readonly string[], options: QuoteOptions) =>
+    Effect.gen(function* () {
+      const priority = yield* FiberRef.get(currentRequestPriority);
+      const bypass = yield* FiberRef.get(currentCacheBypass);
+      const key = JSON.stringify([options, priority, bypass]);
+      const [batch, opened] = yield* Effect.sync(() => {
+        const existing = openBatches.get(key);
+        const batch: QuoteBatch = existing ?? {
+          symbols: new Set(),
+          response: Deferred.unsafeMake(FiberId.none),
+        };
+        symbols.forEach((symbol) => batch.symbols.add(symbol));
+        openBatches.set(key, batch);
+        return [batch, !existing] as const;
       });
+      if (opened) {
+        yield* Effect.sleep(QUOTE_BATCH_WINDOW_MS).pipe(
+          Effect.zipRight(
+            Effect.suspend(() => {
+              openBatches.delete(key);
+              return fetchQuotes({ ...options, symbols: [...batch.symbols] });
+            })
+          ),
+          Effect.intoDeferred(batch.response),
+          Effect.forkIn(layerScope)
+        );
+      }
+      return yield* Deferred.await(batch.response);
+    });
 
-      const requestedSymbols =
-        request.symbols?.map((symbol) => symbol.toUpperCase()) ?? [];
+  /**
+   * Quotes for the requested symbols in request order, and the symbols that
+   * got none. Without symbols, every quote in the response.
+   */
+  const readQuotes = (request: QuoteRequestParams, response: Record<string, unknown>) =>
+    Effect.gen(function* () {
+      const requestedSymbols = request.symbols?.map((symbol) => symbol.toUpperCase()) ?? [];
+      const quotes: Quote[] = [];
+      const unresolved: string[] = [];
 
       if (requestedSymbols.length > 0) {
-        const quotes: Quote[] = [];
-        const invalidSymbols: string[] = [];
-
         for (const symbol of requestedSymbols) {
           const entry =
             response[symbol] ??
             response[Object.keys(response).find((key) => key.toUpperCase() === symbol) ?? ""];
-          if (!entry) {
-            invalidSymbols.push(symbol);
-            continue;
-          }
-
-          const parsed = yield* maybeDecodeQuote(
-            entry,
-            `Quote API response for ${symbol}`
-          );
-
+          const parsed = entry
+            ? yield* maybeDecodeQuote(entry, `Quote API response for ${symbol}`)
+            : null;
           if (parsed) {
-            quotes.push(mapQuote(parsed));
-            continue;
+            quotes.push(parsed);
+          } else {
+            unresolved.push(symbol);
           }
-
-          invalidSymbols.push(symbol);
         }
-
-        if (quotes.length === 0 && invalidSymbols.length > 0) {
-          return yield* Effect.fail(
-            new SymbolNotFoundError({
-              symbol: invalidSymbols.join(", "),
-              message: `No valid quotes found for symbol(s): ${invalidSymbols.join(", ")}`,
-            })
-          );
-        }
-
-        return quotes;
+        return { quotes, unresolved } satisfies QuoteResults;
       }
 
-      const quotes: Quote[] = [];
       for (const [key, entry] of Object.entries(response)) {
-        const parsed = yield* maybeDecodeQuote(
-          entry,
-          `Quote API response for ${key}`
-        );
+        const parsed = yield* maybeDecodeQuote(entry, `Quote API response for ${key}`);
         if (parsed) {
-          quotes.push(mapQuote(parsed));
+          quotes.push(parsed);
         }
       }
-      return quotes;
+      return { quotes, unresolved } satisfies QuoteResults;
+    });
+
+  // Fails only when none of the symbols resolved
+  const requireQuotes = (results: QuoteResults) =>
+    results.quotes.length === 0 && results.unresolved.length > 0
+      ? Effect.fail(
+          new SymbolNotFoundError({
+            symbol: results.unresolved.join(", "),
+            message: `No valid quotes found for symbol(s): ${results.unresolved.join(", ")}`,
+          })
+        )
+      : Effect.succeed(results.quotes);
+
+  const getQuoteResults = (request: QuoteRequestParams) =>
+    Effect.gen(function* () {
+      const hasSymbols = !!request.symbols?.length;
+      const hasCusips = !!request.cusips?.length;
+      const hasSsids = !!request.ssids?.length;
+      if (!hasSymbols && !hasCusips && !hasSsids) {
+        return { quotes: [], unresolved: [] } satisfies QuoteResults;
+      }
+      return yield* readQuotes(request, yield* fetchQuotes(request));
     });
 
-  const getQuotes = (
-    symbols: readonly string[],
-    options?: Omit<QuoteRequestParams, "symbols" | "cusips" | "ssids">
-  ) =>
-    getQuotesByRequest({
-      symbols,
-      ...options,
+  const getQuotesByRequest = (request: QuoteRequestParams) =>
+    Effect.flatMap(getQuoteResults(request), requireQuotes);
+
+  // Each caller reads its own symbols out of the shared response, so a
+  // batch-mate's unknown symbols don't fail it
+  const getQuotes = (symbols: readonly string[], options: QuoteOptions = {}) =>
+    Effect.gen(function* () {
+      if (symbols.length === 0) {
+        return [];
+      }
+      const upper = symbols.map((symbol) => symbol.toUpperCase());
+      const response = yield* fetchQuotesBatched(upper, options);
+      return yield* requireQuotes(yield* readQuotes({ ...options, symbols: upper }, response));
     });
 
-  const getQuote = (
-    symbol: string,
-    options?: Omit<QuoteRequestParams, "symbols" | "cusips" | "ssids">
-  ) =>
+  const getQuote = (symbol: string, options?: QuoteOptions) =>
     Effect.gen(function* () {
       const symbolUpper = symbol.toUpperCase();
       const response = yield* httpClient.request<Record<string, unknown>>({
@@ -200,12 +525,13 @@ const makeQuoteService = Effect.gen(function* () {
         );
       }
 
-      return mapQuote(parsed);
+      return parsed;
     });
 
   return {
     getQuotes,
     getQuotesByRequest,
+    getQuoteResults,
     getQuote,
   };
 });
@@ -213,4 +539,4 @@ const makeQuoteService = Effect.gen(function* () {
 /**
  * Live Quote service layer
  */
-export const QuoteServiceLive = Layer.effect(QuoteService, makeQuoteService);
+export const QuoteServiceLive = Layer.scoped(QuoteService, makeQuoteService);
@@ -1,17 +1,28 @@
 import { describe, it, expect } from "bun:test";
-import { Effect, Layer, Ref } from "effect";
-import { RateLimiter, SchwabConfig } from "./index.js";
-import { RateLimiterTest } from "./rate-limiter.js";
+import { Effect, Fiber, Layer, Ref } from "effect";
+import { RateLimiter, SchwabConfig, type RequestConfig } from "./index.js";
+import {
+  RateLimiterLive,
+  RateLimiterTest,
+  rateLimitBucket,
+  withRequestPriority,
+} from "./rate-limiter.js";
 import { ConfigTest } from "./config.js";
 import { testConfig } from "../layers/test.js";
 
+const quoteRequest: RequestConfig = { method: "GET", path: "/marketdata/v1/quotes" };
+const cancelRequest: RequestConfig = {
+  method: "DELETE",
+  path: "/trader/v1/accounts/HASH1/orders/1001",
+};
+
 describe("RateLimiter", () => {
   describe("RateLimiterTest (no-op limiter)", () => {
     it("acquires immediately without delay", async () => {
       const program = Effect.gen(function* () {
         const limiter = yield* RateLimiter;
         const start = Date.now();
-        yield* limiter.acquire;
+        yield* limiter.acquire(quoteRequest);
         const elapsed = Date.now() - start;
         return elapsed;
       });
@@ -30,7 +41,7 @@ describe("RateLimiter", () => {
 
         // Acquire 10 times rapidly
         for (let i = 0; i < 10; i++) {
-          yield* limiter.acquire;
+          yield* limiter.acquire(quoteRequest);
         }
 
         const elapsed = Date.now() - start;
@@ -165,11 +176,11 @@ describe("RateLimiter", () => {
         // Run multiple acquires concurrently
         const results = yield* Effect.all(
           [
-            limiter.acquire,
-            limiter.acquire,
-            limiter.acquire,
-            limiter.acquire,
-            limiter.acquire,
+            limiter.acquire(quoteRequest),
+            limiter.acquire(quoteRequest),
+            limiter.acquire(quoteRequest),
+            limiter.acquire(quoteRequest),
+            limiter.acquire(quoteRequest),
           ],
           { concurrency: "unbounded" }
         );
@@ -224,7 +235,7 @@ describe("RateLimiter", () => {
 
         // Should be instant even with requestsPerMinute=1
         for (let i = 0; i < 5; i++) {
-          yield* limiter.acquire;
+          yield* limiter.acquire(quoteRequest);
         }
 
         return Date.now() - start;
@@ -238,4 +249,167 @@ describe("RateLimiter", () => {
       expect(result).toBeLessThan(100);
     });
   });
+
+  describe("RateLimiterLive pause", () => {
+    const liveLayer = RateLimiterLive.pipe(Layer.provide(ConfigTest(testConfig)));
+
+    it("holds acquires until the pause has passed", async () => {
+      const program = Effect.gen(function* () {
+        const limiter = yield* RateLimiter;
+        yield* limiter.pause(quoteRequest, 300);
+        const status = yield* limiter.getStatus;
+        const start = Date.now();
+        yield* limiter.acquire(quoteRequest);
+        return { status, elapsed: Date.now() - start };
+      });
+
+      const { status, elapsed } = await Effect.runPromise(
+        program.pipe(Effect.provide(liveLayer))
+      );
+
+      expect(status.pausedUntil).toBeInstanceOf(Date);
+      expect(elapsed).toBeGreaterThanOrEqual(250);
+    });
+
+    it("keeps the longer of two overlapping pauses", async () => {
+      const program = Effect.gen(function* () {
+        const limiter = yield* RateLimiter;
+        yield* limiter.pause(quoteRequest, 300);
+        yield* limiter.pause(quoteRequest, 50);
+        const start = Date.now();
+        yield* limiter.acquire(quoteRequest);
+        return Date.now() - start;
+      });
+
+      const elapsed = await Effect.runPromise(program.pipe(Effect.provide(liveLayer)));
+
+      expect(elapsed).toBeGreaterThanOrEqual(250);
+    });
+
+    it("reset clears a pause", async () => {
+      const program = Effect.gen(function* () {
+        const limiter = yield* RateLimiter;
+        yield* limiter.pause(quoteRequest, 60_000);
+        yield* limiter.reset;
+        yield* limiter.acquire(quoteRequest);
+        return yield* limiter.getStatus;
+      });
+
+      const status = await Effect.runPromise(program.pipe(Effect.provide(liveLayer)));
+
+      expect(status.pausedUntil).toBeUndefined();
+      expect(status.requestsRemaining).toBe(testConfig.requestsPerMinute - 1);
+    });
+  });
+
+  describe("RateLimiterLive buckets", () => {
+    const liveLayer = (requestsPerMinute: number) =>
+      RateLimiterLive.pipe(Layer.provide(ConfigTest({ ...testConfig, requestsPerMinute })));
+
+    it("chooses buckets by endpoint, method and account", () => {
+      expect(rateLimitBucket(quoteRequest)).toBe("market-data");
+      expect(rateLimitBucket({ method: "GET", path: "/trader/v1/accounts/HASH1/orders" })).toBe(
+        "trader"
+      );
+      expect(rateLimitBucket(cancelRequest)).toBe("orders:HASH1");
+      expect(
+        rateLimitBucket({ method: "POST", path: "/trader/v1/accounts/HASH2/previewOrder" })
+      ).toBe("orders:HASH2");
+    });
+
+    it("serves order writes while market data is exhausted and paused", async () => {
+      const program = Effect.gen(function* () {
+        const limiter = yield* RateLimiter;
+        yield* limiter.acquire(quoteRequest);
+        yield* limiter.pause(quoteRequest, 60_000);
+        const start = Date.now();
+        yield* limiter.acquire(cancelRequest);
+        return { elapsed: Date.now() - start, status: yield* limiter.getStatus };
+      });
+
+      const { elapsed, status } = await Effect.runPromise(
+        program.pipe(Effect.provide(liveLayer(1)))
+      );
+
+      expect(elapsed).toBeLessThan(100);
+      expect(status.buckets.map((b) => b.bucket)).toEqual([
+        "market-data",
+        "trader",
+        "orders:HASH1",
+      ]);
+      const [marketData, trader, orders] = status.buckets;
+      expect(marketData.requestsRemaining).toBe(0);
+      expect(marketData.pausedUntil).toBeInstanceOf(Date);
+      expect(trader.requestsRemaining).toBe(1);
+      expect(orders.limit).toBe(testConfig.orderRequestsPerMinute);
+      expect(orders.requestsRemaining).toBe(testConfig.orderRequestsPerMinute - 1);
+      expect(status.requestsRemaining).toBe(0);
+      expect(status.pausedUntil).toEqual(marketData.pausedUntil);
+    });
+  });
+
+  describe("RateLimiterLive priority lanes", () => {
+    const liveLayer = RateLimiterLive.pipe(Layer.provide(ConfigTest(testConfig)));
+
+    it("serves urgent, then interactive, then background callers", async () => {
+      const program = Effect.gen(function* () {
+        const limiter = yield* RateLimiter;
+        const served = yield* Ref.make<string[]>([]);
+        const waitFor = (label: string, request: RequestConfig) =>
+          limiter
+            .acquire(request)
+            .pipe(Effect.zipRight(Ref.update(served, (labels) => [...labels, label])));
+
+        // Hold the bucket so every caller queues up
+        yield* limiter.pause(quoteRequest, 200);
+        const fibers = [];
+        for (const label of ["sync-1", "sync-2", "sync-3"]) {
+          fibers.push(
+            yield* Effect.fork(withRequestPriority("background")(waitFor(label, quoteRequest)))
+          );
+          yield* Effect.sleep("5 millis");
+        }
+        fibers.push(yield* Effect.fork(waitFor("quote", quoteRequest)));
+        yield* Effect.sleep("5 millis");
+        fibers.push(
+          yield* Effect.fork(waitFor("urgent", { ...quoteRequest, priority: "urgent" }))
+        );
+        yield* Fiber.joinAll(fibers);
+        return yield* Ref.get(served);
+      });
+
+      const served = await Effect.runPromise(program.pipe(Effect.provide(liveLayer)));
+
+      expect(served).toEqual(["urgent", "quote", "sync-1", "sync-2", "sync-3"]);
+    });
+
+    it("lets an explicit request priority override the fiber's lane", async () => {
+      const program = Effect.gen(function* () {
+        const limiter = yield* RateLimiter;
+        const served = yield* Ref.make<string[]>([]);
+        yield* limiter.pause(cancelRequest, 200);
+        const background = yield* Effect.fork(
+          withRequestPriority("background")(
+            limiter.acquire(cancelRequest).pipe(
+              Effect.zipRight(Ref.update(served, (labels) => [...labels, "background"]))
+            )
+          )
+        );
+        yield* Effect.sleep("5 millis");
+        const cancel = yield* Effect.fork(
+          withRequestPriority("background")(
+            limiter.acquire({ ...cancelRequest, priority: "urgent" }).pipe(
+              Effect.zipRight(Ref.update(served, (labels) => [...labels, "cancel"]))
+            )
+          )
+        );
+        yield* Fiber.joinAll([background, cancel]);
+        return yield* Ref.get(served);
+      });
+
+      const served = await Effect.runPromise(program.pipe(Effect.provide(liveLayer)));
+
+      expect(served).toEqual(["cancel", "background"]);
+    });
+  });
 });
@@ -1,112 +1,272 @@
-import { Effect, Layer, Ref, Queue, Deferred } from "effect";
-import { RateLimiter, SchwabConfig, type RateLimitStatusShape } from "./index.js";
+import { Effect, FiberRef, Layer, Option, Ref, Queue, Deferred } from "effect";
+import {
+  RateLimiter,
+  SchwabConfig,
+  type RateLimitBucketStatusShape,
+  type RateLimitStatusShape,
+  type RequestConfig,
+  type RequestPriority,
+} from "./index.js";
 import { RateLimitError } from "../errors.js";
 
 const WINDOW_MS = 60 * 1000; // 1 minute
 
+/** Bucket for every /marketdata call */
+export const MARKET_DATA_BUCKET = "market-data";
+/** Bucket for trader reads and account-level writes that are not orders */
+export const TRADER_BUCKET = "trader";
+
+// Order placement, replacement, cancellation and preview for one account
+const ORDER_WRITE_PATH = /^\/trader\/v1\/accounts\/([^/]+)\/(?:orders|previewOrder)(?:\/|$)/;
+
+/**
+ * Name of the bucket a request counts against. Market data, trader reads and
+ * order writes have separate limits at Schwab, and order writes are limited
+ * per account, so each account hash gets its own `orders:<hash>` bucket.
+ */
+export const rateLimitBucket = (request: RequestConfig): string => {
+  if (request.path.startsWith("/marketdata/")) {
+    return MARKET_DATA_BUCKET;
+  }
+  if (request.method !== "GET") {
+    const match = request.path.match(ORDER_WRITE_PATH);
+    if (match) {
+      return `orders:${match[1]}`;
+    }
+  }
+  return TRADER_BUCKET;
+};
+
+// Lanes in the order they are served
+const PRIORITIES: readonly RequestPriority[] = ["urgent", "interactive", "background"];
+
+/**
+ * Priority for requests that don't set one, inherited by child fibers
+ */
+export const currentRequestPriority = FiberRef.unsafeMake<RequestPriority>("interactive");
+
+/**
+ * Run an effect with every request it makes queued in the given lane,
+ * e.g. `withRequestPriority("background")(syncHistory)`
+ */
+export const withRequestPriority =
+  (priority: RequestPriority) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+    Effect.locally(effect, currentRequestPriority, priority);
+
 interface RateLimiterState {
   readonly requestTimestamps: readonly number[];
   readonly processing: boolean;
+  /** Epoch ms before which no request may start (set by a server 429) */
+  readonly pausedUntil: number;
 }
 
+const initialState: RateLimiterState = {
+  requestTimestamps: [],
+  processing: false,
+  pausedUntil: 0,
+};
+
+const cleanupOldTimestamps = (timestamps: readonly number[]): readonly number[] => {
+  const cutoff = Date.now() - WINDOW_MS;
+  return timestamps.filter((ts) => ts > cutoff);
+};
+
 /**
- * Create a rate limiter effect that uses a sliding window
+ * One sliding window with a queue of waiting callers per priority lane
  */
-const makeRateLimiter = Effect.gen(function* () {
-  const config = yield* SchwabConfig;
-  const { requestsPerMinute } = config;
+const makeBucket = (name: string, limit: number) =>
+  Effect.gen(function* () {
+    // State: request timestamps within the window
+    const stateRef = yield* Ref.make<RateLimiterState>(initialState);
 
-  // State: request timestamps within the window
-  const stateRef = yield* Ref.make<RateLimiterState>({
-    requestTimestamps: [],
-    processing: false,
-  });
+    // Queues of pending requests, one per lane
+    const queues = {
+      urgent: yield* Queue.unbounded<Deferred.Deferred<void, RateLimitError>>(),
+      interactive: yield* Queue.unbounded<Deferred.Deferred<void, RateLimitError>>(),
+      background: yield* Queue.unbounded<Deferred.Deferred<void, RateLimitError>>(),
+    };
 
-  // Queue of pending requests
-  const queue = yield* Queue.unbounded<Deferred.Deferred<void, RateLimitError>>();
+    // Next waiting caller from the highest non-empty lane
+    const pollNext = Effect.gen(function* () {
+      for (const priority of PRIORITIES) {
+        const item = yield* Queue.poll(queues[priority]);
+        if (Option.isSome(item)) {
+          return item;
+        }
+      }
+      return Option.none<Deferred.Deferred<void, RateLimitError>>();
+    });
 
-  const cleanupOldTimestamps = (
-    timestamps: readonly number[]
-  ): readonly number[] => {
-    const cutoff = Date.now() - WINDOW_MS;
-    return timestamps.filter((ts) => ts > cutoff);
-  };
+    const queueSize = Effect.map(
+      Effect.forEach(PRIORITIES, (priority) => Queue.size(queues[priority])),
+      (sizes) => sizes.reduce((total, size) => total + size, 0)
+    );
 
-  const getWaitTime = (timestamps: readonly number[]): number => {
-    const cleaned = cleanupOldTimestamps(timestamps);
-    if (cleaned.length < requestsPerMinute) {
-      return 0;
-    }
-    // Wait until the oldest request falls out of the window
-    const oldestTimestamp = cleaned[0];
-    const waitUntil = oldestTimestamp + WINDOW_MS;
-    return Math.max(0, waitUntil - Date.now());
-  };
+    const getWaitTime = (timestamps: readonly number[]): number => {
+      const cleaned = cleanupOldTimestamps(timestamps);
+      if (cleaned.length < limit) {
+        return 0;
+      }
+      // Wait until the oldest request falls out of the window
+      const oldestTimestamp = cleaned[0];
+      const waitUntil = oldestTimestamp + WINDOW_MS;
+      return Math.max(0, waitUntil - Date.now());
+    };
 
-  const processQueue = Effect.gen(function* () {
-    const state = yield* Ref.get(stateRef);
-    if (state.processing) {
-      return;
-    }
+    const processQueue = Effect.gen(function* () {
+      const state = yield* Ref.get(stateRef);
+      if (state.processing) {
+        return;
+      }
+
+      yield* Ref.update(stateRef, (s) => ({ ...s, processing: true }));
 
-    yield* Ref.update(stateRef, (s) => ({ ...s, processing: true }));
+      // Process queue items. The next caller is picked only once a slot is
+      // free, so an urgent request that arrives during a wait goes first.
+      let waiting = yield* queueSize;
+      while (waiting > 0) {
+        // Sleep until both the server pause and the local window allow a
+        // request; a pause can be extended while we sleep, so check again
+        let waitTime = 0;
+        do {
+          if (waitTime > 0) {
+            yield* Effect.sleep(waitTime);
+          }
+          const currentState = yield* Ref.get(stateRef);
+          waitTime = Math.max(
+            currentState.pausedUntil - Date.now(),
+            getWaitTime(currentState.requestTimestamps)
+          );
+        } while (waitTime > 0);
 
-    // Process queue items
-    let item = yield* Queue.poll(queue);
-    while (item._tag === "Some") {
-      const deferred = item.value;
+        // Record this request
+        yield* Ref.update(stateRef, (s) => ({
+          ...s,
+          requestTimestamps: [...cleanupOldTimestamps(s.requestTimestamps), Date.now()],
+        }));
 
-      const currentState = yield* Ref.get(stateRef);
-      const waitTime = getWaitTime(currentState.requestTimestamps);
+        // Complete the deferred
+        const item = yield* pollNext;
+        if (Option.isSome(item)) {
+          yield* Deferred.succeed(item.value, undefined);
+        }
 
-      if (waitTime > 0) {
-        yield* Effect.sleep(waitTime);
+        waiting = yield* queueSize;
       }
 
-      // Record this request
-      yield* Ref.update(stateRef, (s) => ({
+      yield* Ref.update(stateRef, (s) => ({ ...s, processing: false }));
+    });
+
+    const acquire = (priority: RequestPriority) =>
+      Effect.gen(function* () {
+        const deferred = yield* Deferred.make<void, RateLimitError>();
+        yield* Queue.offer(queues[priority], deferred);
+        // Daemon so the processor keeps serving other lanes after the caller
+        // that started it has its slot and finishes
+        yield* Effect.forkDaemon(processQueue);
+        yield* Deferred.await(deferred);
+      });
+
+    const pause = (retryAfterMs: number) =>
+      Ref.update(stateRef, (s) => ({
         ...s,
-        requestTimestamps: [...cleanupOldTimestamps(s.requestTimestamps), Date.now()],
+        pausedUntil: Math.max(s.pausedUntil, Date.now() + retryAfterMs),
       }));
 
-      // Complete the deferred
-      yield* Deferred.succeed(deferred, undefined);
+    const getStatus = Effect.gen(function* () {
+      const state = yield* Ref.get(stateRef);
+      const cleaned = cleanupOldTimestamps(state.requestTimestamps);
+      return {
+        bucket: name,
+        limit,
+        requestsRemaining: Math.max(0, limit - cleaned.length),
+        windowResetAt: cleaned.length > 0 ? new Date(cleaned[0] + WINDOW_MS) : new Date(),
+        pausedUntil: state.pausedUntil > Date.now() ? new Date(state.pausedUntil) : undefined,
+      } satisfies RateLimitBucketStatusShape;
+    });
 
-      item = yield* Queue.poll(queue);
-    }
+    const reset = Ref.set(stateRef, initialState);
 
-    yield* Ref.update(stateRef, (s) => ({ ...s, processing: false }));
+    return { acquire, pause, getStatus, reset };
   });
 
-  const acquire = Effect.gen(function* () {
-    const deferred = yield* Deferred.make<void, RateLimitError>();
-    yield* Queue.offer(queue, deferred);
-    yield* Effect.fork(processQueue);
-    yield* Deferred.await(deferred);
-  });
+type Bucket = Effect.Effect.Success<ReturnType<typeof makeBucket>>;
+
+/**
+ * Create a rate limiter with a sliding window per bucket
+ */
+const makeRateLimiter = Effect.gen(function* () {
+  const config = yield* SchwabConfig;
+
+  const limitFor = (name: string) =>
+    name.startsWith("orders:") ? config.orderRequestsPerMinute : config.requestsPerMinute;
+
+  // The shared buckets always exist so status can report them; per-account
+  // order buckets are created on first use
+  const buckets = new Map<string, Bucket>();
+  for (const name of [MARKET_DATA_BUCKET, TRADER_BUCKET]) {
+    buckets.set(name, yield* makeBucket(name, limitFor(name)));
+  }
+  const createLock = yield* Effect.makeSemaphore(1);
+
+  const getBucket = (request: RequestConfig) => {
+    const name = rateLimitBucket(request);
+    const existing = buckets.get(name);
+    if (existing) {
+      return Effect.succeed(existing);
+    }
+    return createLock.withPermits(1)(
+      Effect.suspend(() => {
+        const created = buckets.get(name);
+        if (created) {
+          return Effect.succeed(created);
+        }
+        return makeBucket(name, limitFor(name)).pipe(
+          Effect.tap((bucket) => Effect.sync(() => buckets.set(name, bucket)))
+        );
+      })
+    );
+  };
+
+  const acquire = (request: RequestConfig) =>
+    Effect.gen(function* () {
+      const bucket = yield* getBucket(request);
+      const priority = request.priority ?? (yield* FiberRef.get(currentRequestPriority));
+      yield* bucket.acquire(priority);
+    });
+
+  const pause = (request: RequestConfig, retryAfterMs: number) =>
+    Effect.flatMap(getBucket(request), (bucket) => bucket.pause(retryAfterMs));
 
   const getStatus = Effect.gen(function* () {
-    const state = yield* Ref.get(stateRef);
-    const cleaned = cleanupOldTimestamps(state.requestTimestamps);
-    const requestsRemaining = Math.max(0, requestsPerMinute - cleaned.length);
-    const windowResetAt =
-      cleaned.length > 0
-        ? new Date(cleaned[0] + WINDOW_MS)
-        : new Date();
+    const statuses = yield* Effect.forEach([...buckets.values()], (bucket) => bucket.getStatus);
+    // The headline figures come from the bucket closest to its limit
+    const tightest = statuses.reduce((a, b) =>
+      b.requestsRemaining / b.limit < a.requestsRemaining / a.limit ? b : a
+    );
+    const paused = statuses
+      .map((status) => status.pausedUntil)
+      .filter((date): date is Date => date !== undefined);
 
     return {
-      requestsRemaining,
-      windowResetAt,
+      requestsRemaining: tightest.requestsRemaining,
+      windowResetAt: tightest.windowResetAt,
+      pausedUntil:
+        paused.length > 0
+          ? new Date(Math.max(...paused.map((date) => date.getTime())))
+          : undefined,
+      buckets: statuses,
     } satisfies RateLimitStatusShape;
   });
 
-  const reset = Ref.set(stateRef, {
-    requestTimestamps: [],
-    processing: false,
+  const reset = Effect.forEach([...buckets.values()], (bucket) => bucket.reset, {
+    discard: true,
   });
 
   return {
     acquire,
+    pause,
     getStatus,
     reset,
   };
@@ -121,10 +281,12 @@ export const RateLimiterLive = Layer.effect(RateLimiter, makeRateLimiter);
  * Test rate limiter that doesn't limit (for testing)
  */
 export const RateLimiterTest = Layer.succeed(RateLimiter, {
-  acquire: Effect.void,
+  acquire: () => Effect.void,
+  pause: () => Effect.void,
   getStatus: Effect.succeed({
     requestsRemaining: 120,
     windowResetAt: new Date(),
+    buckets: [],
   }),
   reset: Effect.void,
 });
@@ -0,0 +1,369 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Chunk, Effect, Exit, Layer, Stream } from "effect";
+import { StreamerService } from "./index.js";
+import { ConfigTest } from "./config.js";
+import { TokenStorageTest } from "./token-storage.js";
+import { TokenManagerLive } from "./token-manager.js";
+import { RateLimiterLive } from "./rate-limiter.js";
+import { HttpClientLive } from "./http-client.js";
+import { UserPreferenceServiceLive } from "./user-preferences.js";
+import { StreamerServiceLive } from "./streamer.js";
+import { testConfig, testTokens } from "../layers/test.js";
+import { startFakeSchwabServer, type FakeSchwabServer } from "../../test/fake-server.js";
+
+describe("StreamerServiceLive against the fake streamer", () => {
+  let server: FakeSchwabServer;
+
+  const makeLayer = () => {
+    const configLayer = ConfigTest({
+      ...testConfig,
+      baseUrl: server.url,
+      tokenUrl: server.tokenUrl,
+    });
+    const tokenManagerLayer = TokenManagerLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(TokenStorageTest(testTokens))
+    );
+    const httpClientLayer = HttpClientLive.pipe(
+      Layer.provide(configLayer),
+      Layer.provide(tokenManagerLayer),
+      Layer.provide(RateLimiterLive.pipe(Layer.provide(configLayer)))
+    );
+    return StreamerServiceLive({ initialBackoffMs: 50, requestTimeoutMs: 1000 }).pipe(
+      Layer.provide(UserPreferenceServiceLive.pipe(Layer.provide(httpClientLayer))),
+      Layer.provide(tokenManagerLayer)
+    );
+  };
+
+  const run = <A, E>(effect: Effect.Effect<A, E, StreamerService>) =>
+    Effect.runPromise(effect.pipe(Effect.provide(makeLayer())));
+
+  const commands = () =>
+    server.streamer.requests.map((request) =>
+      [request.service, request.command, request.parameters?.keys].filter(Boolean).join(" ")
+    );
+
+  beforeEach(() => {
+    server = startFakeSchwabServer();
+  });
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  it("logs in with the streamer info from user preferences", async () => {
+    await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL"]);
+      })
+    );
+
+    const [login] = server.streamer.requests;
+    expect(login.service).toBe("ADMIN");
+    expect(login.command).toBe("LOGIN");
+    expect(login.parameters).toMatchObject({
+      Authorization: testTokens.accessToken,
+      SchwabClientChannel: "N9",
+      SchwabClientFunctionId: "APIAPP",
+    });
+  });
+
+  it("merges level one deltas over the snapshot and unsubscribes when done", async () => {
+    const updates = await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        return yield* streamer.levelOneEquities(["aapl"]).pipe(
+          Stream.tap(() =>
+            Effect.sync(() => server.streamer.push("LEVELONE_EQUITIES", [{ key: "AAPL", "3": 179.1 }]))
+          ),
+          Stream.take(2),
+          Stream.runCollect
+        );
+      })
+    );
+
+    const [snapshot, delta] = Chunk.toReadonlyArray(updates);
+    expect(snapshot).toMatchObject({ symbol: "AAPL", bidPrice: 178.5, lastPrice: 178.52 });
+    expect(delta).toMatchObject({ symbol: "AAPL", bidPrice: 178.5, lastPrice: 179.1 });
+    expect(commands()).toContain("LEVELONE_EQUITIES UNSUBS AAPL");
+  });
+
+  it("reference counts keys shared by several subscribers", async () => {
+    await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL"]);
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL", "MSFT"]);
+        yield* streamer.unsubscribe("LEVELONE_EQUITIES", ["AAPL"]);
+        const status = yield* streamer.status;
+        expect(status.subscriptions.LEVELONE_EQUITIES).toEqual(["AAPL", "MSFT"]);
+        yield* streamer.unsubscribe("LEVELONE_EQUITIES", ["AAPL", "MSFT"]);
+      })
+    );
+
+    expect(commands().slice(1)).toEqual([
+      "LEVELONE_EQUITIES ADD AAPL",
+      "LEVELONE_EQUITIES ADD MSFT",
+      "LEVELONE_EQUITIES UNSUBS AAPL,MSFT",
+    ]);
+  });
+
+  it("changes fields with VIEW", async () => {
+    await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL"], [1, 2]);
+        yield* streamer.view("LEVELONE_EQUITIES", [1, 2, 3]);
+      })
+    );
+
+    const [, add, view] = server.streamer.requests;
+    expect(add.parameters?.fields).toBe("0,1,2");
+    expect(view.command).toBe("VIEW");
+    expect(view.parameters?.fields).toBe("0,1,2,3");
+  });
+
+  it("widens narrowed fields back to all of them for a caller without fields", async () => {
+    await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL"], [3]);
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL"]);
+      })
+    );
+
+    const [, add, view] = server.streamer.requests;
+    expect(add.parameters?.fields).toBe("0,3");
+    expect(view.command).toBe("VIEW");
+    expect(view.parameters?.fields).toStartWith("0,1,2,3,4,5,");
+  });
+
+  it("reconnects and re-subscribes after the connection drops", async () => {
+    const result = await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        // Drop the connection once, after the first snapshot
+        let dropped = false;
+        const updates = yield* streamer.levelOneEquities(["AAPL"]).pipe(
+          Stream.tap(() =>
+            Effect.sync(() => {
+              if (!dropped) {
+                dropped = true;
+                server.streamer.disconnectAll();
+              }
+            })
+          ),
+          Stream.take(2),
+          Stream.runCollect
+        );
+        return { updates, status: yield* streamer.status };
+      })
+    );
+
+    expect(Chunk.size(result.updates)).toBe(2);
+    expect(server.streamer.connections()).toBe(2);
+    expect(commands()).toEqual([
+      "ADMIN LOGIN",
+      "LEVELONE_EQUITIES ADD AAPL",
+      "ADMIN LOGIN",
+      "LEVELONE_EQUITIES SUBS AAPL",
+      "LEVELONE_EQUITIES UNSUBS AAPL",
+    ]);
+    expect(result.status.state).toBe("connected");
+    expect(result.status.reconnects).toBe(1);
+    expect(result.status.lastError).toContain("closed");
+  });
+
+  it("decodes one-minute chart bars", async () => {
+    const bars = await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        const fiber = yield* streamer.chartEquity(["AAPL"]).pipe(
+          Stream.take(1),
+          Stream.runCollect,
+          Effect.fork
+        );
+        yield* Effect.sleep("200 millis");
+        server.streamer.push("CHART_EQUITY", [
+          { key: "AAPL", seq: 1, "1": 178, "2": 179, "3": 177.5, "4": 178.6, "5": 12000, "6": 7, "7": 1705343940000, "8": 19737 },
+        ]);
+        return yield* fiber;
+      })
+    );
+
+    expect(Chunk.toReadonlyArray(bars)).toEqual([
+      {
+        symbol: "AAPL",
+        openPrice: 178,
+        highPrice: 179,
+        lowPrice: 177.5,
+        closePrice: 178.6,
+        volume: 12000,
+        sequence: 7,
+        chartTime: 1705343940000,
+        chartDay: 19737,
+      },
+    ]);
+  });
+
+  it("fails subscriptions with the login error when login is denied", async () => {
+    server.streamer.denyLogins();
+
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        yield* streamer.add("LEVELONE_EQUITIES", ["AAPL"]);
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("StreamerError");
+      expect(exit.cause.error.message).toContain("Login denied");
+    }
+  });
+
+  it("fails typed streams when the connection never comes up", async () => {
+    server.streamer.denyLogins();
+
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        return yield* streamer.levelOneEquities(["AAPL"]).pipe(Stream.runCollect);
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error._tag).toBe("StreamerError");
+    }
+  });
+
+  it("decodes level II book snapshots", async () => {
+    const snapshots = await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        const fiber = yield* streamer.book("NASDAQ_BOOK", ["aapl"]).pipe(
+          Stream.take(1),
+          Stream.runCollect,
+          Effect.fork
+        );
+        yield* Effect.sleep("200 millis");
+        server.streamer.push("NASDAQ_BOOK", [
+          {
+            key: "AAPL",
+            "1": 1705343940000,
+            "2": [
+              {
+                "0": 178.5,
+                "1": 300,
+                "2": 2,
+                "3": [
+                  { "0": "NSDQ", "1": 200, "2": 1705343939000 },
+                  { "0": "ARCX", "1": 100 },
+                ],
+              },
+            ],
+            "3": [{ "0": 178.55, "1": 100, "2": 1, "3": [{ "0": "NSDQ", "1": 100 }] }],
+          },
+        ]);
+        return yield* fiber;
+      })
+    );
+
+    const [snapshot] = Chunk.toReadonlyArray(snapshots);
+    expect(snapshot).toMatchObject({
+      symbol: "AAPL",
+      service: "NASDAQ_BOOK",
+      bookTime: 1705343940000,
+      asks: [{ price: 178.55, size: 100, marketMakerCount: 1 }],
+    });
+    expect(snapshot.bids[0].marketMakers).toEqual([
+      { marketMakerId: "NSDQ", size: 200, quoteTime: 1705343939000 },
+      { marketMakerId: "ARCX", size: 100 },
+    ]);
+  });
+
+  it("refuses book subscriptions without level II permissions", async () => {
+    server.enqueue("GET", "/trader/v1/userPreference", {
+      body: [{ streamerInfo: [], offers: [{ level2Permissions: false }] }],
+    });
+
+    const exit = await Effect.runPromiseExit(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        return yield* streamer.book("NYSE_BOOK", ["AAPL"]).pipe(Stream.runCollect);
+      }).pipe(Effect.provide(makeLayer()))
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit) && exit.cause._tag === "Fail") {
+      expect(exit.cause.error).toMatchObject({ _tag: "StreamerError", code: "NOT_ENTITLED" });
+    }
+    expect(server.streamer.connections()).toBe(0);
+  });
+
+  it("turns level one trade updates into time and sales prints", async () => {
+    const prints = await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        return yield* streamer.timeAndSales(["AAPL"]).pipe(
+          Stream.tap(() =>
+            Effect.sync(() =>
+              server.streamer.push("LEVELONE_EQUITIES", [
+                { key: "AAPL", "1": 178.51 },
+                { key: "AAPL", "3": 178.6, "9": 300, "35": 1705343999000, "41": "XNAS" },
+              ])
+            )
+          ),
+          Stream.take(2),
+          Stream.runCollect
+        );
+      })
+    );
+
+    const [, print] = Chunk.toReadonlyArray(prints);
+    expect(print).toEqual({
+      symbol: "AAPL",
+      price: 178.6,
+      size: 300,
+      tradeTime: 1705343999000,
+      exchange: "XNAS",
+    });
+  });
+
+  it("streams option quotes with greeks under OptionContract field names", async () => {
+    const updates = await run(
+      Effect.gen(function* () {
+        const streamer = yield* StreamerService;
+        return yield* streamer.levelOneOptions(["AAPL240119C00180000"]).pipe(
+          Stream.tap(() =>
+            Effect.sync(() =>
+              server.streamer.push("LEVELONE_OPTIONS", [
+                { key: "AAPL  240119C00180000", "2": 3.55, "28": 0.47 },
+              ])
+            )
+          ),
+          Stream.take(2),
+          Stream.runCollect
+        );
+      })
+    );
+
+    const [snapshot, delta] = Chunk.toReadonlyArray(updates);
+    expect(snapshot).toMatchObject({
+      symbol: "AAPL  240119C00180000",
+      putCall: "CALL",
+      strikePrice: 180,
+      expirationDate: "2024-01-19",
+      bid: 3.5,
+      ask: 3.7,
+      delta: 0.45,
+      impliedVolatility: 35,
+      inTheMoney: false,
+    });
+    expect(delta).toMatchObject({ bid: 3.55, ask: 3.7, delta: 0.47, gamma: 0.05 });
+    expect(commands()).toContain("LEVELONE_OPTIONS UNSUBS AAPL  240119C00180000");
+  });
+});
@@ -0,0 +1,1036 @@
+import {
+  Cause,
+  Deferred,
+  Effect,
+  Fiber,
+  Layer,
+  Option,
+  PubSub,
+  Queue,
+  Ref,
+  Schedule,
+  Schema,
+  Stream,
+} from "effect";
+import {
+  StreamerService,
+  TokenManager,
+  UserPreferenceService,
+  type StreamerDataItemShape,
+  type StreamerServiceShape,
+  type StreamerStatusShape,
+} from "./index.js";
+import { StreamerError } from "../errors.js";
+import {
+  BookSnapshot,
+  ChartEquity,
+  ChartFutures,
+  LevelOneEquity,
+  LevelOneOption,
+  StreamerMessage,
+  TimeAndSale,
+  type BookService,
+  type StreamerServiceName,
+  type UserPreference,
+} from "../schemas/index.js";
+import { decode } from "../validation.js";
+import { parseOptionSymbol, toStreamerOptionSymbol } from "../utils/option-symbol.js";
+
+export interface StreamerOptions {
+  /** Interval between WebSocket pings (default 10s) */
+  readonly heartbeatIntervalMs?: number;
+  /** Reconnect when nothing, not even a heartbeat, arrives for this long (default 30s) */
+  readonly idleTimeoutMs?: number;
+  /** First reconnect delay, doubled after each failed attempt (default 1s) */
+  readonly initialBackoffMs?: number;
+  /** Longest reconnect delay (default 30s) */
+  readonly maxBackoffMs?: number;
+  /** Time allowed to connect and log in, and for each command to be acknowledged (default 10s) */
+  readonly requestTimeoutMs?: number;
+}
+
+// ============================================================================
+// Field maps
+// ============================================================================
+
+// Field names by field number
+const LEVELONE_EQUITIES_FIELDS = [
+  "symbol",
+  "bidPrice",
+  "askPrice",
+  "lastPrice",
+  "bidSize",
+  "askSize",
+  "askId",
+  "bidId",
+  "totalVolume",
+  "lastSize",
+  "highPrice",
+  "lowPrice",
+  "closePrice",
+  "exchangeId",
+  "marginable",
+  "description",
+  "lastId",
+  "openPrice",
+  "netChange",
+  "high52Week",
+  "low52Week",
+  "peRatio",
+  "annualDividendAmount",
+  "dividendYield",
+  "nav",
+  "exchangeName",
+  "dividendDate",
+  "regularMarketQuote",
+  "regularMarketTrade",
+  "regularMarketLastPrice",
+  "regularMarketLastSize",
+  "regularMarketNetChange",
+  "securityStatus",
+  "markPrice",
+  "quoteTime",
+  "tradeTime",
+  "regularMarketTradeTime",
+  "bidTime",
+  "askTime",
+  "askMicId",
+  "bidMicId",
+  "lastMicId",
+  "netPercentChange",
+  "regularMarketPercentChange",
+  "markPriceNetChange",
+  "markPricePercentChange",
+  "hardToBorrowQuantity",
+  "hardToBorrowRate",
+  "hardToBorrow",
+  "shortable",
+  "postMarketNetChange",
+  "postMarketPercentChange",
+] as const;
+
+// Named after the OptionContract fields where there is one
+const LEVELONE_OPTIONS_FIELDS = [
+  "symbol",
+  "description",
+  "bid",
+  "ask",
+  "last",
+  "highPrice",
+  "lowPrice",
+  "closePrice",
+  "volume",
+  "openInterest",
+  "impliedVolatility",
+  "intrinsicValue",
+  "expirationYear",
+  "multiplier",
+  "digits",
+  "openPrice",
+  "bidSize",
+  "askSize",
+  "lastSize",
+  "netChange",
+  "strikePrice",
+  "contractType",
+  "underlying",
+  "expirationMonth",
+  "deliverables",
+  "timeValue",
+  "expirationDay",
+  "daysToExpiration",
+  "delta",
+  "gamma",
+  "theta",
+  "vega",
+  "rho",
+  "securityStatus",
+  "theoreticalValue",
+  "underlyingPrice",
+  "expirationType",
+  "mark",
+  "quoteTime",
+  "tradeTime",
+  "exchange",
+  "exchangeName",
+  "lastTradingDay",
+  "settlementType",
+  "netPercentChange",
+  "markChange",
+  "markPercentChange",
+  "impliedYield",
+  "pennyPilot",
+  "optionRoot",
+  "high52Week",
+  "low52Week",
+  "indicativeAskPrice",
+  "indicativeBidPrice",
+  "indicativeQuoteTime",
+  "exerciseType",
+] as const;
+
+const CHART_EQUITY_FIELDS = [
+  "symbol",
+  "openPrice",
+  "highPrice",
+  "lowPrice",
+  "closePrice",
+  "volume",
+  "sequence",
+  "chartTime",
+  "chartDay",
+] as const;
+
+const CHART_FUTURES_FIELDS = [
+  "symbol",
+  "chartTime",
+  "openPrice",
+  "highPrice",
+  "lowPrice",
+  "closePrice",
+  "volume",
+] as const;
+
+// Level one fields that describe the last trade; an update carrying a new
+// trade time or size is a print
+const TRADE_FIELDS = ["lastPrice", "lastSize", "tradeTime", "lastMicId"] as const;
+const TRADE_FIELD_NUMBERS = TRADE_FIELDS.map((name) => LEVELONE_EQUITIES_FIELDS.indexOf(name));
+const PRINT_FIELD_KEYS = (["lastSize", "tradeTime"] as const).map((name) =>
+  String(LEVELONE_EQUITIES_FIELDS.indexOf(name))
+);
+
+// Number of fields each service offers; subscriptions without explicit
+// fields ask for all of them
+const FIELD_COUNTS: Record<StreamerServiceName, number> = {
+  LEVELONE_EQUITIES: LEVELONE_EQUITIES_FIELDS.length,
+  LEVELONE_OPTIONS: LEVELONE_OPTIONS_FIELDS.length,
+  LEVELONE_FUTURES: 40,
+  LEVELONE_FUTURES_OPTIONS: 32,
+  LEVELONE_FOREX: 30,
+  NYSE_BOOK: 4,
+  NASDAQ_BOOK: 4,
+  OPTIONS_BOOK: 4,
+  CHART_EQUITY: CHART_EQUITY_FIELDS.length,
+  CHART_FUTURES: CHART_FUTURES_FIELDS.length,
+  SCREENER_EQUITY: 5,
+  SCREENER_OPTION: 5,
+  ACCT_ACTIVITY: 4,
+};
+
+const allFields = (service: StreamerServiceName): number[] =>
+  Array.from({ length: FIELD_COUNTS[service] }, (_, index) => index);
+
+/**
+ * Rename numbered fields; unknown numbers are dropped
+ */
+const nameFields = (
+  names: readonly string[],
+  fields: Readonly<Record<string, unknown>>
+): Record<string, unknown> => {
+  const named: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const name = names[Number(key)];
+    if (name !== undefined && value !== undefined && value !== null) {
+      named[name] = value;
+    }
+  }
+  return named;
+};
+
+/**
+ * Contract terms encoded in an option symbol, in OptionContract form
+ */
+const optionTerms = (symbol: string) => {
+  const { expiration, putCall, strike } = parseOptionSymbol(symbol);
+  const month = String(expiration.getMonth() + 1).padStart(2, "0");
+  const day = String(expiration.getDate()).padStart(2, "0");
+  return {
+    strikePrice: strike,
+    expirationDate: `${expiration.getFullYear()}-${month}-${day}`,
+    putCall: putCall === "C" ? ("CALL" as const) : ("PUT" as const),
+  };
+};
+
+/**
+ * Book levels arrive as arrays of numbered fields: price, total size,
+ * market maker count, then the market makers themselves
+ */
+const bookLevels = (raw: unknown): unknown[] =>
+  Array.isArray(raw)
+    ? raw.map((level: Record<string, unknown>) => ({
+        price: level["0"],
+        size: level["1"],
+        marketMakerCount: level["2"],
+        marketMakers: Array.isArray(level["3"])
+          ? level["3"].map((maker: Record<string, unknown>) => ({
+              marketMakerId: maker["0"],
+              size: maker["1"],
+              quoteTime: maker["2"],
+            }))
+          : [],
+      }))
+    : [];
+
+// ============================================================================
+// Socket
+// ============================================================================
+
+type SocketEvent =
+  | { readonly _tag: "Open" }
+  | { readonly _tag: "Message"; readonly data: string }
+  | { readonly _tag: "Close"; readonly code: number; readonly reason: string }
+  | { readonly _tag: "Error" };
+
+interface StreamerCredentials {
+  readonly socketUrl: string;
+  readonly customerId: string;
+  readonly correlId: string;
+  readonly channel: string;
+  readonly functionId: string;
+}
+
+interface Connection {
+  readonly socket: WebSocket;
+  readonly credentials: StreamerCredentials;
+}
+
+/**
+ * Open a WebSocket that reports its lifecycle and messages on a queue and is
+ * closed when the scope ends
+ */
+const openSocket = (url: string, events: Queue.Queue<SocketEvent>) =>
+  Effect.acquireRelease(
+    Effect.try({
+      try: () => {
+        const socket = new WebSocket(url);
+        socket.onopen = () => Queue.unsafeOffer(events, { _tag: "Open" });
+        socket.onmessage = (event) =>
+          Queue.unsafeOffer(events, { _tag: "Message", data: String(event.data) });
+        socket.onclose = (event) =>
+          Queue.unsafeOffer(events, { _tag: "Close", code: event.code, reason: event.reason });
+        socket.onerror = () => Queue.unsafeOffer(events, { _tag: "Error" });
+        return socket;
+      },
+      catch: (error) =>
+        new StreamerError({
+          code: "CONNECTION",
+          message: `Cannot open streamer socket ${url}`,
+          cause: error,
+        }),
+    }),
+    (socket) =>
+      Effect.sync(() => {
+        socket.onclose = null;
+        socket.onerror = null;
+        socket.onmessage = null;
+        if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+          socket.close(1000);
+        }
+      })
+  );
+
+const connectionLost = (event: SocketEvent) =>
+  new StreamerError({
+    code: "CONNECTION",
+    message:
+      event._tag === "Close"
+        ? `Streamer connection closed (${event.code}${event.reason ? `: ${event.reason}` : ""})`
+        : "Streamer connection failed",
+  });
+
+// ============================================================================
+// Service
+// ============================================================================
+
+interface Subscription {
+  /** Reference count per key */
+  readonly keys: Map<string, number>;
+  fields: readonly number[];
+}
+
+const makeStreamerService = (options: StreamerOptions) =>
+  Effect.gen(function* () {
+    const tokenManager = yield* TokenManager;
+    const userPreferenceService = yield* UserPreferenceService;
+    const layerScope = yield* Effect.scope;
+
+    const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 10_000;
+    const idleTimeoutMs = options.idleTimeoutMs ?? 30_000;
+    const initialBackoffMs = options.initialBackoffMs ?? 1_000;
+    const maxBackoffMs = options.maxBackoffMs ?? 30_000;
+    const requestTimeoutMs = options.requestTimeoutMs ?? 10_000;
+
+    // Every data entry is published here; each stream filters its own.
+    // Slow consumers lose the oldest updates rather than growing memory.
+    const updates = yield* PubSub.sliding<StreamerDataItemShape>(4096);
+
+    const subscriptions = new Map<StreamerServiceName, Subscription>();
+    const pending = new Map<string, Deferred.Deferred<void, StreamerError>>();
+    let requestCounter = 0;
+    let started = false;
+    let credentials: StreamerCredentials | undefined;
+
+    // Completed with the live connection after each login; replaced on disconnect
+    const ready = yield* Ref.make(yield* Deferred.make<Connection>());
+    // Serializes subscription changes with the replay that follows each login
+    const subscriptionLock = yield* Effect.makeSemaphore(1);
+    const state = yield* Ref.make<Omit<StreamerStatusShape, "subscriptions">>({
+      state: "idle",
+      reconnects: 0,
+    });
+
+    // Read once; streamer info and entitlements don't change while we run
+    let preferences: readonly UserPreference[] | undefined;
+    const getPreferences = Effect.gen(function* () {
+      if (!preferences) {
+        preferences = yield* userPreferenceService.getUserPreference.pipe(
+          Effect.mapError(
+            (error) =>
+              new StreamerError({
+                code: "NOT_AVAILABLE",
+                message: `Cannot read streamer info from user preferences: ${error.message}`,
+                cause: error,
+              })
+          )
+        );
+      }
+      return preferences;
+    });
+
+    const getCredentials = Effect.gen(function* () {
+      if (credentials) {
+        return credentials;
+      }
+      const info = (yield* getPreferences)
+        .flatMap((preference) => preference.streamerInfo ?? [])
+        .find((item) => item.streamerSocketUrl);
+      if (!info?.streamerSocketUrl) {
+        return yield* Effect.fail(
+          new StreamerError({
+            code: "NOT_AVAILABLE",
+            message: "User preferences contain no streamer socket URL",
+          })
+        );
+      }
+      credentials = {
+        socketUrl: info.streamerSocketUrl,
+        customerId: info.schwabClientCustomerId ?? "",
+        correlId: info.schwabClientCorrelId ?? "",
+        channel: info.schwabClientChannel ?? "",
+        functionId: info.schwabClientFunctionId ?? "",
+      };
+      return credentials;
+    });
+
+    // Book services need level II market data on one of the user's offers
+    const requireLevelTwo = Effect.gen(function* () {
+      const offers = (yield* getPreferences).flatMap((preference) => preference.offers ?? []);
+      if (!offers.some((offer) => offer.level2Permissions)) {
+        return yield* Effect.fail(
+          new StreamerError({
+            code: "NOT_ENTITLED",
+            message: "Level II book data requires level2Permissions on your Schwab account",
+          })
+        );
+      }
+    });
+
+    /**
+     * Send a request and wait for its acknowledgement. A socket that is no
+     * longer open is skipped: the subscription state is replayed after the
+     * next login anyway.
+     */
+    const sendCommand = (
+      connection: Connection,
+      service: string,
+      command: string,
+      parameters: Record<string, string>
+    ) =>
+      Effect.gen(function* () {
+        if (connection.socket.readyState !== WebSocket.OPEN) {
+          return;
+        }
+        const requestid = String(requestCounter++);
+        const ack = yield* Deferred.make<void, StreamerError>();
+        pending.set(requestid, ack);
+        yield* Effect.addFinalizer(() => Effect.sync(() => pending.delete(requestid)));
+        yield* Effect.try({
+          try: () =>
+            connection.socket.send(
+              JSON.stringify({
+                requests: [
+                  {
+                    service,
+                    command,
+                    requestid,
+                    SchwabClientCustomerId: connection.credentials.customerId,
+                    SchwabClientCorrelId: connection.credentials.correlId,
+                    parameters,
+                  },
+                ],
+              })
+            ),
+          catch: (error) =>
+            new StreamerError({
+              code: "CONNECTION",
+              message: `Failed to send ${service} ${command}`,
+              cause: error,
+            }),
+        });
+        // Interruptible so the timeout also fires inside acquire/release,
+        // which subscriptions held by a stream run in
+        yield* Deferred.await(ack).pipe(
+          Effect.interruptible,
+          Effect.timeoutFail({
+            duration: requestTimeoutMs,
+            onTimeout: () =>
+              new StreamerError({
+                code: "TIMEOUT",
+                message: `No response to ${service} ${command} within ${requestTimeoutMs}ms`,
+              }),
+          })
+        );
+      }).pipe(Effect.scoped);
+
+    const subscriptionParameters = (service: StreamerServiceName, keys: readonly string[]) => ({
+      keys: keys.join(","),
+      fields: (subscriptions.get(service)?.fields ?? allFields(service)).join(","),
+    });
+
+    const handleMessage = (raw: string) =>
+      Effect.gen(function* () {
+        let json: unknown;
+        try {
+          json = JSON.parse(raw);
+        } catch {
+          return;
+        }
+        const message = Schema.decodeUnknownOption(StreamerMessage)(json);
+        if (Option.isNone(message)) {
+          return;
+        }
+        for (const response of message.value.response ?? []) {
+          const ack = pending.get(response.requestid);
+          if (!ack) {
+            continue;
+          }
+          yield* response.content.code === 0
+            ? Deferred.succeed(ack, undefined)
+            : Deferred.fail(
+                ack,
+                new StreamerError({
+                  code: response.command === "LOGIN" ? "LOGIN_DENIED" : "COMMAND_FAILED",
+                  message: `${response.service} ${response.command} failed (${response.content.code})${
+                    response.content.msg ? `: ${response.content.msg}` : ""
+                  }`,
+                })
+              );
+        }
+        for (const batch of message.value.data ?? []) {
+          const timestamp = batch.timestamp ?? Date.now();
+          for (const entry of batch.content) {
+            if (typeof entry.key !== "string") {
+              continue;
+            }
+            yield* PubSub.publish(updates, {
+              service: batch.service as StreamerServiceName,
+              key: entry.key,
+              timestamp,
+              fields: entry,
+            });
+          }
+        }
+      });
+
+    // Runs until the socket closes, errors or goes quiet, then fails
+    const readLoop = (events: Queue.Queue<SocketEvent>) =>
+      Queue.take(events).pipe(
+        Effect.timeoutFail({
+          duration: idleTimeoutMs,
+          onTimeout: () =>
+            new StreamerError({
+              code: "TIMEOUT",
+              message: `No streamer messages or heartbeats for ${idleTimeoutMs}ms`,
+            }),
+        }),
+        Effect.flatMap((event) => {
+          switch (event._tag) {
+            case "Message":
+              return handleMessage(event.data);
+            case "Open":
+              return Effect.void;
+            default:
+              return Effect.fail(connectionLost(event));
+          }
+        }),
+        Effect.forever,
+        Effect.tapError((error) =>
+          Effect.forEach([...pending.values()], (ack) => Deferred.fail(ack, error), {
+            discard: true,
+          })
+        )
+      );
+
+    const waitForOpen = (events: Queue.Queue<SocketEvent>) =>
+      Queue.take(events).pipe(
+        Effect.flatMap((event) =>
+          event._tag === "Open" ? Effect.succeed(true) : Effect.fail(connectionLost(event))
+        ),
+        Effect.repeat({ until: (open) => open }),
+        Effect.timeoutFail({
+          duration: requestTimeoutMs,
+          onTimeout: () =>
+            new StreamerError({
+              code: "TIMEOUT",
+              message: `Streamer socket did not open within ${requestTimeoutMs}ms`,
+            }),
+        })
+      );
+
+    /**
+     * One connection: open, log in, replay subscriptions, then read until it
+     * drops. Always ends in failure; the supervisor reconnects.
+     */
+    const connectOnce = (onLogin: Effect.Effect<void>) =>
+      Effect.gen(function* () {
+        const creds = yield* getCredentials;
+        const accessToken = yield* tokenManager.getAccessToken.pipe(
+          Effect.mapError(
+            (error) =>
+              new StreamerError({
+                code: "LOGIN_DENIED",
+                message: `No access token for streamer login: ${error.message}`,
+                cause: error,
+              })
+          )
+        );
+
+        const events = yield* Queue.unbounded<SocketEvent>();
+        const socket = yield* openSocket(creds.socketUrl, events);
+        yield* waitForOpen(events);
+
+        const connection: Connection = { socket, credentials: creds };
+        const reader = yield* Effect.forkScoped(readLoop(events));
+
+        yield* sendCommand(connection, "ADMIN", "LOGIN", {
+          Authorization: accessToken,
+          SchwabClientChannel: creds.channel,
+          SchwabClientFunctionId: creds.functionId,
+        });
+
+        // Replay every subscription, including any made while disconnected,
+        // before anyone else can send on this connection
+        yield* subscriptionLock.withPermits(1)(
+          Effect.gen(function* () {
+            for (const [service, subscription] of subscriptions) {
+              if (subscription.keys.size > 0) {
+                yield* sendCommand(
+                  connection,
+                  service,
+                  "SUBS",
+                  subscriptionParameters(service, [...subscription.keys.keys()])
+                );
+              }
+            }
+            yield* onLogin;
+            yield* Deferred.succeed(yield* Ref.get(ready), connection);
+          })
+        );
+
+        yield* Effect.forkScoped(
+          Effect.sync(() => {
+            // Bun and Node clients can ping; browsers send none of their own
+            const pingable = socket as WebSocket & { ping?: () => void };
+            pingable.ping?.();
+          }).pipe(Effect.repeat(Schedule.spaced(heartbeatIntervalMs)))
+        );
+
+        return yield* Fiber.join(reader);
+      });
+
+    // Reconnect forever with exponential backoff, reset by each good login
+    const supervise = Effect.gen(function* () {
+      let attempt = 0;
+      let everConnected = false;
+      for (;;) {
+        const exit = yield* Effect.exit(
+          Effect.scoped(
+            connectOnce(
+              Effect.gen(function* () {
+                attempt = 0;
+                everConnected = true;
+                yield* Ref.update(state, (s) => ({ ...s, state: "connected" as const }));
+              })
+            )
+          )
+        );
+
+        const lost = yield* Ref.get(ready);
+        if (yield* Deferred.isDone(lost)) {
+          yield* Ref.set(ready, yield* Deferred.make<Connection>());
+        }
+        const reason =
+          exit._tag === "Failure"
+            ? Option.match(Cause.failureOption(exit.cause), {
+                onNone: () => Cause.pretty(exit.cause),
+                onSome: (error) => error.message,
+              })
+            : "Streamer connection ended";
+        yield* Ref.update(state, (s) => ({
+          ...s,
+          state: everConnected ? ("reconnecting" as const) : ("connecting" as const),
+          reconnects: everConnected && s.state === "connected" ? s.reconnects + 1 : s.reconnects,
+          lastError: reason,
+        }));
+
+        yield* Effect.sleep(Math.min(initialBackoffMs * 2 ** attempt, maxBackoffMs));
+        attempt += 1;
+      }
+    });
+
+    const ensureStarted = Effect.suspend(() => {
+      if (started) {
+        return Effect.void;
+      }
+      started = true;
+      return Ref.update(state, (s) => ({ ...s, state: "connecting" as const })).pipe(
+        // The first caller may be inside an uninterruptible acquire; the
+        // supervisor must still stop when the layer closes
+        Effect.zipRight(Effect.forkIn(Effect.interruptible(supervise), layerScope)),
+        Effect.asVoid
+      );
+    });
+
+    const awaitConnection = Effect.gen(function* () {
+      yield* ensureStarted;
+      const connection = yield* Ref.get(ready);
+      return yield* Deferred.await(connection).pipe(
+        Effect.interruptible,
+        Effect.timeoutFail({
+          duration: requestTimeoutMs,
+          onTimeout: () =>
+            new StreamerError({
+              code: "TIMEOUT",
+              message: `Streamer not connected after ${requestTimeoutMs}ms`,
+            }),
+        }),
+        Effect.catchTag("StreamerError", (error) =>
+          Ref.get(state).pipe(
+            Effect.flatMap((s) =>
+              Effect.fail(
+                s.lastError
+                  ? new StreamerError({ ...error, message: `${error.message}: ${s.lastError}` })
+                  : error
+              )
+            )
+          )
+        )
+      );
+    });
+
+    // Connection if logged in right now, without waiting for one
+    const currentConnection = Effect.flatMap(Ref.get(ready), Deferred.poll).pipe(
+      Effect.flatMap((polled) =>
+        Option.isSome(polled) ? Effect.asSome(polled.value) : Effect.succeedNone
+      )
+    );
+
+    // Subscription changes update the registry and, when logged in, tell the
+    // server; while disconnected the next login's replay sends them instead
+    const add: StreamerServiceShape["add"] = (service, keys, fields) =>
+      awaitConnection.pipe(
+        Effect.zipRight(
+          subscriptionLock.withPermits(1)(
+            Effect.gen(function* () {
+              const subscription = subscriptions.get(service) ?? {
+                keys: new Map<string, number>(),
+                fields: allFields(service),
+              };
+              subscriptions.set(service, subscription);
+
+              const previousFields = subscription.fields;
+              const hadKeys = subscription.keys.size > 0;
+              if (fields && fields.length > 0) {
+                const merged = new Set(hadKeys ? previousFields : []);
+                [0, ...fields].forEach((field) => merged.add(field));
+                subscription.fields = [...merged].sort((a, b) => a - b);
+              } else {
+                // A caller without fields wants all of them, whatever earlier
+                // callers narrowed the view to
+                subscription.fields = allFields(service);
+              }
+              const fieldsChanged = subscription.fields.join(",") !== previousFields.join(",");
+
+              const newKeys = keys.filter((key) => !subscription.keys.has(key));
+              keys.forEach((key) =>
+                subscription.keys.set(key, (subscription.keys.get(key) ?? 0) + 1)
+              );
+
+              const connection = yield* currentConnection;
+              if (Option.isNone(connection)) {
+                return;
+              }
+              yield* Effect.gen(function* () {
+                if (fieldsChanged && hadKeys) {
+                  yield* sendCommand(connection.value, service, "VIEW", {
+                    fields: subscription.fields.join(","),
+                  });
+                }
+                if (newKeys.length > 0) {
+                  yield* sendCommand(
+                    connection.value,
+                    service,
+                    "ADD",
+                    subscriptionParameters(service, newKeys)
+                  );
+                }
+              }).pipe(Effect.tapError(() => releaseKeys(service, keys)));
+            })
+          )
+        )
+      );
+
+    /**
+     * Drop one reference to each key, returning the keys no one holds anymore
+     */
+    const releaseKeys = (service: StreamerServiceName, keys: readonly string[]) =>
+      Effect.sync(() => {
+        const subscription = subscriptions.get(service);
+        const released: string[] = [];
+        if (!subscription) {
+          return released;
+        }
+        for (const key of keys) {
+          const count = (subscription.keys.get(key) ?? 0) - 1;
+          if (count > 0) {
+            subscription.keys.set(key, count);
+          } else if (subscription.keys.delete(key)) {
+            released.push(key);
+          }
+        }
+        if (subscription.keys.size === 0) {
+          subscriptions.delete(service);
+        }
+        return released;
+      });
+
+    const unsubscribe: StreamerServiceShape["unsubscribe"] = (service, keys) =>
+      subscriptionLock.withPermits(1)(
+        Effect.gen(function* () {
+          const released = yield* releaseKeys(service, keys);
+          const connection = yield* currentConnection;
+          if (released.length > 0 && Option.isSome(connection)) {
+            yield* sendCommand(connection.value, service, "UNSUBS", { keys: released.join(",") });
+          }
+        })
+      );
+
+    const view: StreamerServiceShape["view"] = (service, fields) =>
+      subscriptionLock.withPermits(1)(
+        Effect.gen(function* () {
+          const sorted = [...new Set([0, ...fields])].sort((a, b) => a - b);
+          const subscription = subscriptions.get(service);
+          if (!subscription) {
+            subscriptions.set(service, { keys: new Map(), fields: sorted });
+            return;
+          }
+          subscription.fields = sorted;
+          const connection = yield* currentConnection;
+          if (subscription.keys.size > 0 && Option.isSome(connection)) {
+            yield* sendCommand(connection.value, service, "VIEW", { fields: sorted.join(",") });
+          }
+        })
+      );
+
+    const data: StreamerServiceShape["data"] = (service) =>
+      Stream.unwrapScoped(
+        Effect.map(PubSub.subscribe(updates), (dequeue) =>
+          Stream.fromQueue(dequeue).pipe(Stream.filter((item) => item.service === service))
+        )
+      );
+
+    /**
+     * Updates for the given keys, holding their subscription for as long as
+     * the stream runs
+     */
+    const keyed = (
+      service: StreamerServiceName,
+      keys: readonly string[],
+      fields?: readonly number[]
+    ) =>
+      Stream.unwrapScoped(
+        Effect.gen(function* () {
+          // Subscribe to the hub first so the initial snapshot isn't missed
+          const dequeue = yield* PubSub.subscribe(updates);
+          yield* Effect.acquireRelease(add(service, keys, fields), () =>
+            unsubscribe(service, keys).pipe(Effect.ignore)
+          );
+          const wanted = new Set(keys);
+          return Stream.fromQueue(dequeue).pipe(
+            Stream.filter((item) => item.service === service && wanted.has(item.key))
+          );
+        })
+      );
+
+    const levelOneEquities: StreamerServiceShape["levelOneEquities"] = (symbols, fields) =>
+      keyed(
+        "LEVELONE_EQUITIES",
+        symbols.map((symbol) => symbol.toUpperCase()),
+        fields
+      ).pipe(
+        // Level one sends only changed fields; merge them over the last update
+        Stream.mapAccum(new Map<string, Record<string, unknown>>(), (latest, item) => {
+          const merged = {
+            ...latest.get(item.key),
+            ...nameFields(LEVELONE_EQUITIES_FIELDS, item.fields),
+            ...(typeof item.fields.delayed === "boolean" ? { delayed: item.fields.delayed } : {}),
+            symbol: item.key,
+          };
+          latest.set(item.key, merged);
+          return [latest, merged] as const;
+        }),
+        Stream.mapEffect((merged) => decode(LevelOneEquity, merged, "LEVELONE_EQUITIES update"))
+      );
+
+    const levelOneOptions: StreamerServiceShape["levelOneOptions"] = (symbols) =>
+      Stream.suspend(() =>
+        keyed("LEVELONE_OPTIONS", symbols.map(toStreamerOptionSymbol)).pipe(
+          Stream.mapAccum(new Map<string, Record<string, unknown>>(), (latest, item) => {
+            const merged: Record<string, unknown> = {
+              ...latest.get(item.key),
+              ...nameFields(LEVELONE_OPTIONS_FIELDS, item.fields),
+              ...(typeof item.fields.delayed === "boolean" ? { delayed: item.fields.delayed } : {}),
+              ...optionTerms(item.key),
+              symbol: item.key,
+            };
+            if (typeof merged.intrinsicValue === "number") {
+              merged.inTheMoney = merged.intrinsicValue > 0;
+            }
+            latest.set(item.key, merged);
+            return [latest, merged] as const;
+          }),
+          Stream.mapEffect((merged) => decode(LevelOneOption, merged, "LEVELONE_OPTIONS update"))
+        )
+      );
+
+    const chartEquity: StreamerServiceShape["chartEquity"] = (symbols) =>
+      keyed(
+        "CHART_EQUITY",
+        symbols.map((symbol) => symbol.toUpperCase())
+      ).pipe(
+        Stream.mapEffect((item) =>
+          decode(
+            ChartEquity,
+            { ...nameFields(CHART_EQUITY_FIELDS, item.fields), symbol: item.key },
+            "CHART_EQUITY update"
+          )
+        )
+      );
+
+    const chartFutures: StreamerServiceShape["chartFutures"] = (symbols) =>
+      keyed(
+        "CHART_FUTURES",
+        symbols.map((symbol) => symbol.toUpperCase())
+      ).pipe(
+        Stream.mapEffect((item) =>
+          decode(
+            ChartFutures,
+            { ...nameFields(CHART_FUTURES_FIELDS, item.fields), symbol: item.key },
+            "CHART_FUTURES update"
+          )
+        )
+      );
+
+    const book: StreamerServiceShape["book"] = (service, symbols) =>
+      Stream.unwrap(
+        Effect.as(
+          requireLevelTwo,
+          keyed(
+            service,
+            symbols.map((symbol) => symbol.toUpperCase())
+          ).pipe(
+            Stream.mapEffect((item) =>
+              decode(
+                BookSnapshot,
+                {
+                  symbol: item.key,
+                  service,
+                  bookTime: item.fields["1"] ?? item.timestamp,
+                  bids: bookLevels(item.fields["2"]),
+                  asks: bookLevels(item.fields["3"]),
+                },
+                `${service} update`
+              )
+            )
+          )
+        )
+      );
+
+    const timeAndSales: StreamerServiceShape["timeAndSales"] = (symbols) =>
+      keyed(
+        "LEVELONE_EQUITIES",
+        symbols.map((symbol) => symbol.toUpperCase()),
+        TRADE_FIELD_NUMBERS
+      ).pipe(
+        Stream.mapAccum(new Map<string, Record<string, unknown>>(), (latest, item) => {
+          const merged: Record<string, unknown> = {
+            ...latest.get(item.key),
+            ...nameFields(LEVELONE_EQUITIES_FIELDS, item.fields),
+            symbol: item.key,
+          };
+          latest.set(item.key, merged);
+          // Skip updates without a new trade, and trades we haven't seen in full
+          const traded =
+            PRINT_FIELD_KEYS.some((key) => key in item.fields) &&
+            typeof merged.lastPrice === "number" &&
+            typeof merged.lastSize === "number" &&
+            typeof merged.tradeTime === "number";
+          return [latest, traded ? Option.some(merged) : Option.none()] as const;
+        }),
+        Stream.filterMap((print) => print),
+        Stream.mapEffect((trade) =>
+          decode(
+            TimeAndSale,
+            {
+              symbol: trade.symbol,
+              price: trade.lastPrice,
+              size: trade.lastSize,
+              tradeTime: trade.tradeTime,
+              exchange: trade.lastMicId,
+            },
+            "time and sales print"
+          )
+        )
+      );
+
+    const status = Effect.map(Ref.get(state), (s) => ({
+      ...s,
+      subscriptions: Object.fromEntries(
+        [...subscriptions].map(([service, subscription]) => [
+          service,
+          [...subscription.keys.keys()],
+        ])
+      ),
+    }));
+
+    return {
+      add,
+      unsubscribe,
+      view,
+      data,
+      levelOneEquities,
+      levelOneOptions,
+      chartEquity,
+      chartFutures,
+      book,
+      timeAndSales,
+      status,
+    } satisfies StreamerServiceShape;
+  });
+
+/**
+ * Streamer layer. Nothing connects until the first subscription; the
+ * connection closes when the layer's scope ends.
+ */
+export const StreamerServiceLive = (options: StreamerOptions = {}) =>
+  Layer.scoped(StreamerService, makeStreamerService(options));
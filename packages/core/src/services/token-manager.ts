@@ -29,6 +29,7 @@ interface SchwabTokenResponse {
  * Refresh access token using refresh token
  */
 const refreshAccessToken = (
+  tokenUrl: string,
   clientId: string,
   clientSecret: string,
   refreshToken: string
@@ -43,7 +44,7 @@ const refreshAccessToken = (
       refresh_token: refreshToken,
     });
 
-    fetch(SCHWAB_TOKEN_URL, {
+    fetch(tokenUrl, {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
@@ -118,6 +119,20 @@ const makeTokenManager = Effect.gen(function* () {
   // Track in-flight refresh to deduplicate
   const refreshingRef = yield* Ref.make<boolean>(false);
 
+  // Once ours can't be refreshed, pick up tokens another process has saved
+  // since, e.g. a CLI login while a long-lived MCP server keeps its services
+  const usableTokens = Effect.gen(function* () {
+    const tokens = yield* Ref.get(tokensRef);
+    if (tokens && new Date(tokens.refreshTokenExpiresAt).getTime() > Date.now()) {
+      return tokens;
+    }
+    const stored = yield* storage.loadTokens;
+    if (stored) {
+      yield* Ref.set(tokensRef, stored);
+    }
+    return stored ?? tokens;
+  });
+
   const getTokenState: Effect.Effect<TokenStateShape> = Effect.gen(function* () {
     const tokens = yield* Ref.get(tokensRef);
 
@@ -157,7 +172,7 @@ const makeTokenManager = Effect.gen(function* () {
     void,
     AuthError | TokenExpiredError | FileSystemError
   > = Effect.gen(function* () {
-    const tokens = yield* Ref.get(tokensRef);
+    const tokens = yield* usableTokens;
 
     if (!tokens) {
       return yield* Effect.fail(
@@ -181,6 +196,7 @@ const makeTokenManager = Effect.gen(function* () {
     }
 
     const response = yield* refreshAccessToken(
+      config.tokenUrl,
       config.clientId,
       config.clientSecret,
       tokens.refreshToken
@@ -215,7 +231,7 @@ const makeTokenManager = Effect.gen(function* () {
     string,
     AuthError | TokenExpiredError | FileSystemError
   > = Effect.gen(function* () {
-    const tokens = yield* Ref.get(tokensRef);
+    const tokens = yield* usableTokens;
 
     if (!tokens) {
       return yield* Effect.fail(
@@ -366,7 +382,8 @@ export const exchangeCodeForTokens = (
   clientSecret: string,
   callbackUrl: string,
   code: string,
-  codeVerifier: string
+  codeVerifier: string,
+  tokenUrl: string = SCHWAB_TOKEN_URL
 ): Effect.Effect<SchwabTokenResponse, AuthError> =>
   Effect.async<SchwabTokenResponse, AuthError>((resume) => {
     const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString(
@@ -380,7 +397,7 @@ export const exchangeCodeForTokens = (
       code_verifier: codeVerifier,
     });
 
-    fetch(SCHWAB_TOKEN_URL, {
+    fetch(tokenUrl, {
       method: "POST",
       headers: {
         "Content-Type": "application/x-www-form-urlencoded",
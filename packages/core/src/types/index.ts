@@ -487,6 +487,7 @@ export interface SchwabConfig {
   clientSecret: string;
   callbackPort: number;
   callbackUrl: string;
+  tokenUrl?: string;
   schwabClientAppId?: string;
   schwabClientChannel?: string;
   schwabClientFunctionId?: string;
@@ -4,6 +4,8 @@ export {
   parseOptionSymbol,
   formatOptionSymbol,
   isOptionSymbol,
+  resolveOptionSymbol,
+  toStreamerOptionSymbol,
   type OptionSymbolParams,
 } from "./option-symbol.js";
 
@@ -18,4 +20,54 @@ export {
   type OrderType,
   type OrderSession,
   type OrderDuration,
+  type PriceLinkBasis,
+  type PriceLinkType,
+  type ComplexOrderStrategyType,
+  type StrategySide,
 } from "./order-builder.js";
+
+// Spread pricing
+export {
+  estimateNetPrice,
+  netPriceType,
+  fetchLegQuotes,
+  strategyLegWeights,
+  type NetPriceType,
+  type LegQuote,
+  type LegPriceEstimate,
+  type NetPriceEstimate,
+} from "./spread-pricing.js";
+
+// Level II order book model
+export {
+  emptyOrderBook,
+  applyBookSnapshot,
+  bookSpread,
+  type OrderBook,
+  type OrderBookLevel,
+} from "./order-book.js";
+
+// Technical indicators over candles
+export {
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollingerBands,
+  atr,
+  vwap,
+  stochastic,
+  obv,
+  historicalVolatility,
+  parseIndicators,
+  indicatorLabel,
+  computeIndicators,
+  INDICATOR_NAMES,
+  PERIODS_PER_YEAR,
+  type IndicatorName,
+  type IndicatorSpec,
+  type IndicatorSeries,
+  type MacdResult,
+  type BollingerBandsResult,
+  type StochasticResult,
+} from "./indicators.js";
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "bun:test";
+import {
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollingerBands,
+  atr,
+  vwap,
+  stochastic,
+  obv,
+  historicalVolatility,
+  parseIndicators,
+  computeIndicators,
+} from "./indicators.js";
+import type { Candle } from "../schemas/index.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 2, 21);
+
+// Daily candles closing at the given prices, each with a 2-point range
+const candlesAt = (...prices: number[]): Candle[] =>
+  prices.map((close, i) => ({
+    open: close,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 100,
+    datetime: new Date(START + i * DAY),
+  }));
+
+const rounded = (series: readonly (number | undefined)[]) =>
+  series.map((value) => (value === undefined ? undefined : Math.round(value * 1e4) / 1e4));
+
+describe("moving averages", () => {
+  it("averages the last period closes", () => {
+    expect(sma(candlesAt(1, 2, 3, 4, 5), 3)).toEqual([undefined, undefined, 2, 3, 4]);
+  });
+
+  it("seeds the EMA with the SMA, then weights by 2 / (period + 1)", () => {
+    expect(ema(candlesAt(1, 2, 3, 4, 6), 3)).toEqual([undefined, undefined, 2, 3, 4.5]);
+  });
+
+  it("rejects a period that isn't a positive integer", () => {
+    expect(() => sma(candlesAt(1, 2), 0)).toThrow("Invalid indicator period");
+  });
+});
+
+describe("rsi", () => {
+  it("smooths gains and losses the Wilder way", () => {
+    expect(rsi(candlesAt(1, 2, 1, 2, 1), 2)).toEqual([undefined, undefined, 50, 75, 37.5]);
+  });
+
+  it("is 100 when prices only rose", () => {
+    expect(rsi(candlesAt(1, 2, 3, 4), 2).at(-1)).toBe(100);
+  });
+});
+
+describe("macd", () => {
+  it("lines up the MACD, signal and histogram once each has enough candles", () => {
+    const prices = Array.from({ length: 40 }, (_, i) => 100 + i);
+    const result = macd(candlesAt(...prices));
+
+    expect(result.macd.findIndex((value) => value !== undefined)).toBe(25);
+    expect(result.signal.findIndex((value) => value !== undefined)).toBe(33);
+    expect(result.macd.at(-1)).toBeGreaterThan(0);
+    expect(result.histogram.at(-1)).toBeCloseTo(result.macd.at(-1)! - result.signal.at(-1)!);
+  });
+});
+
+describe("bollingerBands", () => {
+  it("puts the bands population standard deviations from the SMA", () => {
+    const { middle, upper, lower } = bollingerBands(candlesAt(1, 2, 3), 3, 2);
+    const width = 2 * Math.sqrt(2 / 3);
+
+    expect(middle.at(-1)).toBe(2);
+    expect(upper.at(-1)).toBeCloseTo(2 + width);
+    expect(lower.at(-1)).toBeCloseTo(2 - width);
+  });
+});
+
+describe("atr", () => {
+  it("includes gaps from the previous close in the true range", () => {
+    expect(atr(candlesAt(10, 10, 10), 2)).toEqual([undefined, undefined, 2]);
+    expect(atr(candlesAt(10, 10, 14), 2).at(-1)).toBe(3.5);
+  });
+});
+
+describe("vwap", () => {
+  it("weights the typical price by volume and restarts each session", () => {
+    const bars: Candle[] = [
+      { open: 10, high: 11, low: 9, close: 10, volume: 100, datetime: new Date(START) },
+      { open: 10, high: 13, low: 11, close: 12, volume: 300, datetime: new Date(START + 60_000) },
+      { open: 20, high: 21, low: 19, close: 20, volume: 50, datetime: new Date(START + DAY) },
+    ];
+
+    expect(vwap(bars)).toEqual([10, 11.5, 20]);
+    expect(vwap(bars, { anchor: "start" }).at(-1)).toBeCloseTo((1000 + 3600 + 1000) / 450);
+  });
+});
+
+describe("stochastic", () => {
+  it("places the close in the recent range", () => {
+    const { k, d } = stochastic(candlesAt(10, 11, 12, 13), { period: 2, dPeriod: 2 });
+
+    // Range of the last two candles is (close - 2) to (close + 1)
+    expect(rounded(k)).toEqual([undefined, 66.6667, 66.6667, 66.6667]);
+    expect(rounded(d)).toEqual([undefined, undefined, 66.6667, 66.6667]);
+  });
+});
+
+describe("obv", () => {
+  it("adds volume on up closes and subtracts it on down closes", () => {
+    expect(obv(candlesAt(10, 11, 11, 9, 12))).toEqual([0, 100, 100, 0, 100]);
+  });
+});
+
+describe("historicalVolatility", () => {
+  it("annualizes the standard deviation of log returns as a percentage", () => {
+    const up = Math.exp(0.01);
+    const series = historicalVolatility(candlesAt(100, 100 * up, 100), 2);
+
+    expect(series.slice(0, 2)).toEqual([undefined, undefined]);
+    expect(series[2]).toBeCloseTo(0.01 * Math.SQRT2 * Math.sqrt(252) * 100);
+  });
+});
+
+describe("parseIndicators", () => {
+  it("reads names with optional periods", () => {
+    expect(parseIndicators("rsi, SMA50,macd")).toEqual([
+      { name: "rsi", period: undefined },
+      { name: "sma", period: 50 },
+      { name: "macd", period: undefined },
+    ]);
+  });
+
+  it("rejects unknown indicators and periods on indicators without one", () => {
+    expect(() => parseIndicators("rsi,adx")).toThrow('Unknown indicator "adx"');
+    expect(() => parseIndicators("macd12")).toThrow("takes no period");
+    expect(() => parseIndicators("hv1")).toThrow("at least 2");
+  });
+});
+
+describe("computeIndicators", () => {
+  it("labels each series, with one entry per line", () => {
+    const prices = Array.from({ length: 30 }, (_, i) => 100 + (i % 5));
+    const result = computeIndicators(candlesAt(...prices), parseIndicators("sma5,bbands,stoch"));
+
+    expect(Object.keys(result)).toEqual([
+      "sma5",
+      "bbands.middle",
+      "bbands.upper",
+      "bbands.lower",
+      "stoch.k",
+      "stoch.d",
+    ]);
+    expect(result.sma5.at(-1)).toBe(102);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * Technical indicators over price history
+ *
+ * Every indicator returns series aligned with the candles passed in, oldest
+ * first: entry i is the value as of candle i, and `undefined` until there
+ * are enough candles to compute it (e.g. the first 13 entries of a 14-period
+ * RSI).
+ */
+
+import type { Candle } from "../schemas/index.js";
+import type { PriceHistoryFrequency } from "../schemas/primitives.js";
+
+export type IndicatorSeries = (number | undefined)[];
+
+export interface MacdResult {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export interface BollingerBandsResult {
+  middle: IndicatorSeries;
+  upper: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface StochasticResult {
+  k: IndicatorSeries;
+  d: IndicatorSeries;
+}
+
+const closes = (candles: readonly Candle[]): number[] => candles.map((candle) => candle.close);
+
+function checkPeriod(period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`Invalid indicator period: ${period}. Must be a positive integer`);
+  }
+}
+
+/**
+ * Simple moving average of a series; entries are undefined until `period`
+ * defined values have been seen
+ */
+function smaOf(values: readonly (number | undefined)[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  const window: number[] = [];
+  let sum = 0;
+  for (const value of values) {
+    if (value === undefined) {
+      result.push(undefined);
+      continue;
+    }
+    window.push(value);
+    sum += value;
+    if (window.length > period) {
+      sum -= window.shift()!;
+    }
+    result.push(window.length === period ? sum / period : undefined);
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average of a series, seeded with the SMA of its first
+ * `period` defined values. Wilder's smoothing is the same with alpha 1/period.
+ */
+function emaOf(
+  values: readonly (number | undefined)[],
+  period: number,
+  alpha = 2 / (period + 1)
+): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let seen = 0;
+  let seed = 0;
+  let previous: number | undefined;
+  for (const value of values) {
+    if (value === undefined) {
+      result.push(undefined);
+      continue;
+    }
+    if (previous === undefined) {
+      seen += 1;
+      seed += value;
+      if (seen === period) {
+        previous = seed / period;
+      }
+      result.push(previous);
+      continue;
+    }
+    previous = previous + alpha * (value - previous);
+    result.push(previous);
+  }
+  return result;
+}
+
+/**
+ * Simple moving average of closes
+ */
+export function sma(candles: readonly Candle[], period = 20): IndicatorSeries {
+  checkPeriod(period);
+  return smaOf(closes(candles), period);
+}
+
+/**
+ * Exponential moving average of closes
+ */
+export function ema(candles: readonly Candle[], period = 20): IndicatorSeries {
+  checkPeriod(period);
+  return emaOf(closes(candles), period);
+}
+
+/**
+ * Relative strength index (0-100) with Wilder's smoothing
+ */
+export function rsi(candles: readonly Candle[], period = 14): IndicatorSeries {
+  checkPeriod(period);
+  const changes = candles.map((candle, i) =>
+    i === 0 ? undefined : candle.close - candles[i - 1].close
+  );
+  const gains = emaOf(
+    changes.map((change) => (change === undefined ? undefined : Math.max(change, 0))),
+    period,
+    1 / period
+  );
+  const losses = emaOf(
+    changes.map((change) => (change === undefined ? undefined : Math.max(-change, 0))),
+    period,
+    1 / period
+  );
+  return gains.map((gain, i) => {
+    const loss = losses[i];
+    if (gain === undefined || loss === undefined) {
+      return undefined;
+    }
+    if (loss === 0) {
+      return gain === 0 ? 50 : 100;
+    }
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+/**
+ * Moving average convergence/divergence: fast EMA less slow EMA, its signal
+ * line, and the difference between the two
+ */
+export function macd(
+  candles: readonly Candle[],
+  options: { fast?: number; slow?: number; signal?: number } = {}
+): MacdResult {
+  const { fast = 12, slow = 26, signal = 9 } = options;
+  [fast, slow, signal].forEach(checkPeriod);
+  const fastEma = ema(candles, fast);
+  const slowEma = ema(candles, slow);
+  const line = fastEma.map((value, i) => {
+    const slowValue = slowEma[i];
+    return value === undefined || slowValue === undefined ? undefined : value - slowValue;
+  });
+  const signalLine = emaOf(line, signal);
+  return {
+    macd: line,
+    signal: signalLine,
+    histogram: line.map((value, i) => {
+      const signalValue = signalLine[i];
+      return value === undefined || signalValue === undefined ? undefined : value - signalValue;
+    }),
+  };
+}
+
+/**
+ * Bollinger Bands: SMA of closes, `stdDev` population standard deviations
+ * above and below it
+ */
+export function bollingerBands(
+  candles: readonly Candle[],
+  period = 20,
+  stdDev = 2
+): BollingerBandsResult {
+  checkPeriod(period);
+  const values = closes(candles);
+  const middle = smaOf(values, period);
+  const width = middle.map((mean, i) => {
+    if (mean === undefined) {
+      return undefined;
+    }
+    const window = values.slice(i + 1 - period, i + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    return stdDev * Math.sqrt(variance);
+  });
+  return {
+    middle,
+    upper: middle.map((mean, i) => (mean === undefined ? undefined : mean + width[i]!)),
+    lower: middle.map((mean, i) => (mean === undefined ? undefined : mean - width[i]!)),
+  };
+}
+
+/**
+ * Average true range with Wilder's smoothing
+ */
+export function atr(candles: readonly Candle[], period = 14): IndicatorSeries {
+  checkPeriod(period);
+  const trueRanges = candles.map((candle, i) => {
+    if (i === 0) {
+      return undefined;
+    }
+    const previousClose = candles[i - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+  return emaOf(trueRanges, period, 1 / period);
+}
+
+// Trading day of a candle, in New York
+const sessionDate = new Intl.DateTimeFormat("en-CA", { timeZone: "America/New_York" });
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3.
+ * Restarts each New York trading day, or accumulates over every candle with
+ * `anchor: "start"`, as daily and longer candles need.
+ */
+export function vwap(
+  candles: readonly Candle[],
+  options: { anchor?: "session" | "start" } = {}
+): IndicatorSeries {
+  const anchor = options.anchor ?? "session";
+  let session: string | undefined;
+  let volume = 0;
+  let weighted = 0;
+  return candles.map((candle) => {
+    const date = anchor === "session" ? sessionDate.format(candle.datetime) : undefined;
+    if (date !== session) {
+      session = date;
+      volume = 0;
+      weighted = 0;
+    }
+    volume += candle.volume;
+    weighted += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    return volume === 0 ? undefined : weighted / volume;
+  });
+}
+
+/**
+ * Stochastic oscillator: %K is where the close sits in the high-low range of
+ * the last `period` candles (0-100), %D its `dPeriod` SMA
+ */
+export function stochastic(
+  candles: readonly Candle[],
+  options: { period?: number; dPeriod?: number } = {}
+): StochasticResult {
+  const { period = 14, dPeriod = 3 } = options;
+  checkPeriod(period);
+  checkPeriod(dPeriod);
+  const k = candles.map((candle, i) => {
+    if (i + 1 < period) {
+      return undefined;
+    }
+    const window = candles.slice(i + 1 - period, i + 1);
+    const high = Math.max(...window.map((c) => c.high));
+    const low = Math.min(...window.map((c) => c.low));
+    return high === low ? 50 : (100 * (candle.close - low)) / (high - low);
+  });
+  return { k, d: smaOf(k, dPeriod) };
+}
+
+/**
+ * On-balance volume, starting from 0 at the first candle
+ */
+export function obv(candles: readonly Candle[]): IndicatorSeries {
+  let total = 0;
+  return candles.map((candle, i) => {
+    const previous = candles[i - 1];
+    if (previous) {
+      total += Math.sign(candle.close - previous.close) * candle.volume;
+    }
+    return total;
+  });
+}
+
+/**
+ * Historical volatility: the sample standard deviation of the last `period`
+ * log returns, annualized over `periodsPerYear` candles (252 for daily
+ * candles, 52 weekly) and given as a percentage
+ */
+export function historicalVolatility(
+  candles: readonly Candle[],
+  period = 20,
+  periodsPerYear = 252
+): IndicatorSeries {
+  checkPeriod(period);
+  if (period < 2) {
+    throw new Error("Historical volatility needs a period of at least 2");
+  }
+  const returns = candles.map((candle, i) =>
+    i === 0 ? undefined : Math.log(candle.close / candles[i - 1].close)
+  );
+  return returns.map((_, i) => {
+    if (i < period) {
+      return undefined;
+    }
+    const window = returns.slice(i + 1 - period, i + 1) as number[];
+    const mean = window.reduce((sum, value) => sum + value, 0) / period;
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (period - 1);
+    return Math.sqrt(variance * periodsPerYear) * 100;
+  });
+}
+
+export type IndicatorName =
+  | "sma"
+  | "ema"
+  | "rsi"
+  | "macd"
+  | "bbands"
+  | "atr"
+  | "vwap"
+  | "stoch"
+  | "obv"
+  | "hv";
+
+export const INDICATOR_NAMES: readonly IndicatorName[] = [
+  "sma",
+  "ema",
+  "rsi",
+  "macd",
+  "bbands",
+  "atr",
+  "vwap",
+  "stoch",
+  "obv",
+  "hv",
+];
+
+export interface IndicatorSpec {
+  name: IndicatorName;
+  /** Period for indicators that take one, e.g. 50 in "sma50" */
+  period?: number;
+}
+
+/**
+ * Parse a comma-separated list like "rsi,sma50,ema200,macd"; a number after
+ * the name sets the indicator's period
+ */
+export function parseIndicators(input: string): IndicatorSpec[] {
+  return input
+    .split(",")
+    .map((part) => part.trim().toLowerCase())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const match = /^([a-z]+)(\d+)?$/.exec(part);
+      const name = match?.[1] as IndicatorName | undefined;
+      if (!match || !name || !INDICATOR_NAMES.includes(name)) {
+        throw new Error(
+          `Unknown indicator "${part}". Use one of: ${INDICATOR_NAMES.join(", ")}`
+        );
+      }
+      const period = match[2] === undefined ? undefined : Number(match[2]);
+      if (period !== undefined) {
+        if (name === "macd" || name === "vwap" || name === "obv") {
+          throw new Error(`Indicator "${name}" takes no period`);
+        }
+        checkPeriod(period);
+        if (name === "hv" && period < 2) {
+          throw new Error("Historical volatility needs a period of at least 2");
+        }
+      }
+      return { name, period };
+    });
+}
+
+/**
+ * Label for an indicator's series, e.g. "sma50" or "macd.signal"
+ */
+export function indicatorLabel(spec: IndicatorSpec): string {
+  return `${spec.name}${spec.period ?? ""}`;
+}
+
+// Candles in a year of regular sessions (252 days of 390 minutes)
+export const PERIODS_PER_YEAR: Readonly<Record<PriceHistoryFrequency, number>> = {
+  "1min": 252 * 390,
+  "5min": 252 * 78,
+  "10min": 252 * 39,
+  "15min": 252 * 26,
+  "30min": 252 * 13,
+  "1d": 252,
+  "1w": 52,
+  "1mo": 12,
+};
+
+/**
+ * Compute indicators, keyed by label. Indicators with several lines get one
+ * entry per line, e.g. "macd", "macd.signal" and "macd.histogram". The
+ * candles' frequency (default "1d") sets how volatility is annualized and
+ * whether VWAP restarts each session (minute candles) or runs from the start.
+ */
+export function computeIndicators(
+  candles: readonly Candle[],
+  specs: readonly IndicatorSpec[],
+  frequency: PriceHistoryFrequency = "1d"
+): Record<string, IndicatorSeries> {
+  const intraday = frequency.endsWith("min");
+  const result: Record<string, IndicatorSeries> = {};
+  for (const spec of specs) {
+    const label = indicatorLabel(spec);
+    const lines = (name: string, series: Record<string, IndicatorSeries>) => {
+      for (const [line, values] of Object.entries(series)) {
+        result[line === name ? label : `${label}.${line}`] = values;
+      }
+    };
+    switch (spec.name) {
+      case "sma":
+        result[label] = sma(candles, spec.period);
+        break;
+      case "ema":
+        result[label] = ema(candles, spec.period);
+        break;
+      case "rsi":
+        result[label] = rsi(candles, spec.period);
+        break;
+      case "macd":
+        lines("macd", { ...macd(candles) });
+        break;
+      case "bbands":
+        lines("bbands", { ...bollingerBands(candles, spec.period) });
+        break;
+      case "atr":
+        result[label] = atr(candles, spec.period);
+        break;
+      case "vwap":
+        result[label] = vwap(candles, { anchor: intraday ? "session" : "start" });
+        break;
+      case "stoch":
+        lines("stoch", { ...stochastic(candles, { period: spec.period }) });
+        break;
+      case "obv":
+        result[label] = obv(candles);
+        break;
+      case "hv":
+        result[label] = historicalVolatility(candles, spec.period, PERIODS_PER_YEAR[frequency]);
+        break;
+    }
+  }
+  return result;
+}
@@ -4,6 +4,8 @@ import {
   parseOptionSymbol,
   formatOptionSymbol,
   isOptionSymbol,
+  resolveOptionSymbol,
+  toStreamerOptionSymbol,
 } from "./option-symbol.js";
 
 describe("buildOptionSymbol", () => {
@@ -220,3 +222,32 @@ describe("round-trip conversion", () => {
     expect(rebuilt).toBe(original);
   });
 });
+
+describe("resolveOptionSymbol", () => {
+  it("returns OCC symbols unchanged", () => {
+    expect(resolveOptionSymbol("AAPL  240119C00180000")).toBe("AAPL  240119C00180000");
+  });
+
+  it("builds a symbol from an underlying/expiry/type/strike tuple", () => {
+    expect(resolveOptionSymbol("aapl:2024-01-19:C:180")).toBe("AAPL  240119C00180000");
+    expect(resolveOptionSymbol("SPY:2024-03-15:put:472.5")).toBe("SPY   240315P00472500");
+  });
+
+  it("rejects malformed tuples", () => {
+    expect(() => resolveOptionSymbol("AAPL")).toThrow(/Invalid option leg/);
+    expect(() => resolveOptionSymbol("AAPL:01/19/2024:C:180")).toThrow(/YYYY-MM-DD/);
+    expect(() => resolveOptionSymbol("AAPL:2024-01-19:X:180")).toThrow(/C or P/);
+    expect(() => resolveOptionSymbol("AAPL:2024-01-19:C:abc")).toThrow(/Strike/);
+  });
+});
+
+describe("toStreamerOptionSymbol", () => {
+  it("pads the root of compact OCC symbols", () => {
+    expect(toStreamerOptionSymbol("aapl240119C00180000")).toBe("AAPL  240119C00180000");
+    expect(toStreamerOptionSymbol("AAPL  240119C00180000")).toBe("AAPL  240119C00180000");
+  });
+
+  it("accepts option leg tuples", () => {
+    expect(toStreamerOptionSymbol("SPY:2024-03-15:P:472.5")).toBe("SPY   240315P00472500");
+  });
+});
@@ -108,3 +108,64 @@ export function isOptionSymbol(symbol: string): boolean {
 
   return /^\d{6}$/.test(expirationStr) && /^\d{8}$/.test(strikeStr);
 }
+
+/**
+ * Resolve an option leg given either as an OCC symbol or as an
+ * `UNDERLYING:YYYY-MM-DD:C|P:STRIKE` tuple (e.g. `AAPL:2024-01-19:C:180`)
+ */
+export function resolveOptionSymbol(input: string): string {
+  if (isOptionSymbol(input)) {
+    return input;
+  }
+
+  const parts = input.trim().split(":");
+  if (parts.length !== 4) {
+    throw new Error(
+      `Invalid option leg "${input}". Use an OCC symbol or UNDERLYING:YYYY-MM-DD:C|P:STRIKE`
+    );
+  }
+
+  const [underlying, expirationStr, typeStr, strikeStr] = parts;
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(expirationStr);
+  if (!underlying || !dateMatch) {
+    throw new Error(`Invalid option leg "${input}". Expiration must be YYYY-MM-DD`);
+  }
+
+  const type = typeStr.toUpperCase();
+  const putCall = type === "C" || type === "CALL" ? "C" : type === "P" || type === "PUT" ? "P" : undefined;
+  if (!putCall) {
+    throw new Error(`Invalid option leg "${input}". Type must be C or P`);
+  }
+
+  const strike = Number(strikeStr);
+  if (!Number.isFinite(strike) || strike <= 0) {
+    throw new Error(`Invalid option leg "${input}". Strike must be a positive number`);
+  }
+
+  // Build the date from its parts so the calendar day is not shifted by the
+  // local timezone (new Date("YYYY-MM-DD") is UTC midnight)
+  return buildOptionSymbol({
+    underlying,
+    expiration: new Date(
+      Number(dateMatch[1]),
+      Number(dateMatch[2]) - 1,
+      Number(dateMatch[3])
+    ),
+    putCall,
+    strike,
+  });
+}
+
+/**
+ * Streamer key for an option. The Schwab streamer uses the OCC layout with
+ * the root space-padded to six characters (`AAPL  240119C00180000`); this
+ * also accepts the unpadded form (`AAPL240119C00180000`) and anything
+ * resolveOptionSymbol does.
+ */
+export function toStreamerOptionSymbol(input: string): string {
+  const compact = /^([A-Z0-9./]{1,6})\s*(\d{6}[CP]\d{8})$/.exec(input.trim().toUpperCase());
+  if (compact) {
+    return `${compact[1].padEnd(6, " ")}${compact[2]}`;
+  }
+  return resolveOptionSymbol(input);
+}
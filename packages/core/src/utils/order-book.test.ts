@@ -0,0 +1,63 @@
+import { describe, it, expect } from "bun:test";
+import { applyBookSnapshot, bookSpread, emptyOrderBook } from "./order-book.js";
+import type { BookSnapshot } from "../schemas/streamer.js";
+
+const level = (price: number, size: number) => ({
+  price,
+  size,
+  marketMakerCount: 1,
+  marketMakers: [],
+});
+
+const nyse: BookSnapshot = {
+  symbol: "AAPL",
+  service: "NYSE_BOOK",
+  bookTime: 1000,
+  bids: [level(178.5, 300), level(178.49, 100)],
+  asks: [level(178.55, 200)],
+};
+
+const nasdaq: BookSnapshot = {
+  symbol: "AAPL",
+  service: "NASDAQ_BOOK",
+  bookTime: 1005,
+  bids: [level(178.5, 200), level(178.51, 50)],
+  asks: [level(178.55, 100), level(178.6, 400)],
+};
+
+describe("applyBookSnapshot", () => {
+  it("merges venues into one ladder per side, best price first", () => {
+    const book = applyBookSnapshot(applyBookSnapshot(emptyOrderBook("AAPL"), nyse), nasdaq);
+
+    expect(book.bids.map((l) => [l.price, l.size])).toEqual([
+      [178.51, 50],
+      [178.5, 500],
+      [178.49, 100],
+    ]);
+    expect(book.asks.map((l) => [l.price, l.size])).toEqual([
+      [178.55, 300],
+      [178.6, 400],
+    ]);
+    expect(book.bids[1].marketMakerCount).toBe(2);
+    expect(book.bookTime).toBe(1005);
+    expect(bookSpread(book)).toBeCloseTo(0.04);
+  });
+
+  it("replaces a venue's previous snapshot and records size changes", () => {
+    const before = applyBookSnapshot(applyBookSnapshot(emptyOrderBook("AAPL"), nyse), nasdaq);
+    const after = applyBookSnapshot(before, {
+      ...nyse,
+      bookTime: 1010,
+      bids: [level(178.5, 100)],
+    });
+
+    const at = (price: number) => after.bids.find((l) => l.price === price);
+    expect(at(178.5)).toMatchObject({ size: 300, sizeChange: -200 });
+    expect(at(178.51)).toMatchObject({ size: 50, sizeChange: 0 });
+    expect(at(178.49)).toBeUndefined();
+  });
+
+  it("has no spread until both sides have depth", () => {
+    expect(bookSpread(emptyOrderBook("AAPL"))).toBeUndefined();
+  });
+});
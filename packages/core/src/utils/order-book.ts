@@ -0,0 +1,87 @@
+/**
+ * Consolidated level II order book
+ *
+ * Book services send a full snapshot per venue on every update. The model
+ * keeps the latest snapshot from each venue, merges them into one ladder
+ * per side, and records how each price level's size moved since the
+ * previous update so a view can show where liquidity is arriving or leaving.
+ */
+
+import type { BookService, BookSnapshot } from "../schemas/streamer.js";
+
+export interface OrderBookLevel {
+  price: number;
+  /** Total size at this price across venues */
+  size: number;
+  marketMakerCount: number;
+  /** Size change since the previous update; a new level's change is its size */
+  sizeChange: number;
+}
+
+export interface OrderBook {
+  symbol: string;
+  /** Latest book time across venues (epoch ms) */
+  bookTime: number;
+  /** Best (highest) price first */
+  bids: OrderBookLevel[];
+  /** Best (lowest) price first */
+  asks: OrderBookLevel[];
+  /** Latest snapshot from each venue */
+  venues: Partial<Record<BookService, BookSnapshot>>;
+}
+
+export const emptyOrderBook = (symbol: string): OrderBook => ({
+  symbol,
+  bookTime: 0,
+  bids: [],
+  asks: [],
+  venues: {},
+});
+
+const mergeSide = (
+  snapshots: readonly BookSnapshot[],
+  side: "bids" | "asks",
+  previous: readonly OrderBookLevel[]
+): OrderBookLevel[] => {
+  const byPrice = new Map<number, { size: number; marketMakerCount: number }>();
+  for (const snapshot of snapshots) {
+    for (const level of snapshot[side]) {
+      const merged = byPrice.get(level.price) ?? { size: 0, marketMakerCount: 0 };
+      merged.size += level.size;
+      merged.marketMakerCount += level.marketMakerCount;
+      byPrice.set(level.price, merged);
+    }
+  }
+
+  const previousSize = new Map(previous.map((level) => [level.price, level.size]));
+  return [...byPrice]
+    .map(([price, merged]) => ({
+      price,
+      ...merged,
+      sizeChange: merged.size - (previousSize.get(price) ?? 0),
+    }))
+    .sort((a, b) => (side === "bids" ? b.price - a.price : a.price - b.price));
+};
+
+/**
+ * Replace one venue's snapshot and rebuild the consolidated ladders
+ */
+export const applyBookSnapshot = (book: OrderBook, snapshot: BookSnapshot): OrderBook => {
+  const venues = { ...book.venues, [snapshot.service]: snapshot };
+  const snapshots = Object.values(venues);
+  return {
+    symbol: book.symbol,
+    bookTime: Math.max(book.bookTime, snapshot.bookTime),
+    bids: mergeSide(snapshots, "bids", book.bids),
+    asks: mergeSide(snapshots, "asks", book.asks),
+    venues,
+  };
+};
+
+/**
+ * Best ask minus best bid, when both sides have depth
+ */
+export const bookSpread = (book: OrderBook): number | undefined =>
+  book.bids.length > 0 && book.asks.length > 0
+    ? book.asks[0].price - book.bids[0].price
+    : undefined;
@@ -126,7 +126,7 @@ describe("OrderBuilder - Spread Orders", () => {
         1.50
       );
 
-      expect(order.orderType).toBe("LIMIT");
+      expect(order.orderType).toBe("NET_DEBIT");
       expect(order.price).toBe(1.50);
       expect(order.orderLegCollection).toHaveLength(2);
 
@@ -139,6 +139,52 @@ describe("OrderBuilder - Spread Orders", () => {
       expect(shortLeg.quantity).toBe(5);
       expect(shortLeg.instrument.symbol).toBe("AAPL  240119C00180000");
     });
+
+    it("is a net credit when the leg sold is nearer the money", () => {
+      const callCredit = OrderBuilder.verticalSpread(
+        { symbol: "AAPL  240119C00180000", instruction: "BUY_TO_OPEN" },
+        { symbol: "AAPL  240119C00175000", instruction: "SELL_TO_OPEN" },
+        1,
+        2
+      );
+      const putDebit = OrderBuilder.verticalSpread(
+        { symbol: "AAPL  240119P00180000", instruction: "BUY_TO_OPEN" },
+        { symbol: "AAPL  240119P00175000", instruction: "SELL_TO_OPEN" },
+        1,
+        2
+      );
+
+      expect(callCredit.orderType).toBe("NET_CREDIT");
+      expect(putDebit.orderType).toBe("NET_DEBIT");
+    });
+
+    it("rejects legs that don't form a vertical", () => {
+      const long = { symbol: "AAPL  240119C00175000", instruction: "BUY_TO_OPEN" } as const;
+      expect(() =>
+        OrderBuilder.verticalSpread(
+          long,
+          { symbol: "AAPL  240216C00180000", instruction: "SELL_TO_OPEN" },
+          1,
+          1
+        )
+      ).toThrow("same expiration");
+      expect(() =>
+        OrderBuilder.verticalSpread(
+          long,
+          { symbol: "AAPL  240119P00180000", instruction: "SELL_TO_OPEN" },
+          1,
+          1
+        )
+      ).toThrow("same option type");
+      expect(() =>
+        OrderBuilder.verticalSpread(
+          long,
+          { symbol: "AAPL  240119C00175000", instruction: "SELL_TO_OPEN" },
+          1,
+          1
+        )
+      ).toThrow("different strikes");
+    });
   });
 
   describe("ironCondor", () => {
@@ -156,7 +202,7 @@ describe("OrderBuilder - Spread Orders", () => {
         2.50
       );
 
-      expect(order.orderType).toBe("LIMIT");
+      expect(order.orderType).toBe("NET_CREDIT");
       expect(order.price).toBe(2.50);
       expect(order.orderLegCollection).toHaveLength(4);
 
@@ -186,6 +232,33 @@ describe("OrderBuilder - Spread Orders", () => {
       expect(longCallLeg?.instruction).toBe("BUY_TO_OPEN");
       expect(longCallLeg?.quantity).toBe(10);
     });
+
+    it("rejects swapped put and call legs or out-of-order strikes", () => {
+      expect(() =>
+        OrderBuilder.ironCondor(
+          { shortPut: "AAPL  240119C00170000", longPut: "AAPL  240119P00165000" },
+          { shortCall: "AAPL  240119C00190000", longCall: "AAPL  240119C00195000" },
+          1,
+          1
+        )
+      ).toThrow("Short put leg must be a put");
+      expect(() =>
+        OrderBuilder.ironCondor(
+          { shortPut: "AAPL  240119P00165000", longPut: "AAPL  240119P00170000" },
+          { shortCall: "AAPL  240119C00190000", longCall: "AAPL  240119C00195000" },
+          1,
+          1
+        )
+      ).toThrow("strikes must rise");
+      expect(() =>
+        OrderBuilder.ironCondor(
+          { shortPut: "AAPL  240119P00170000", longPut: "AAPL  240119P00165000" },
+          { shortCall: "AAPL  240216C00190000", longCall: "AAPL  240216C00195000" },
+          1,
+          1
+        )
+      ).toThrow("same expiration");
+    });
   });
 });
 
@@ -231,6 +304,56 @@ describe("OrderBuilder - Order Modifiers", () => {
     });
   });
 
+  describe("withTrailingStop", () => {
+    it("converts to a trailing stop by value", () => {
+      const order = OrderBuilder.withTrailingStop(
+        OrderBuilder.equitySellLimit("AAPL", 100, 175.00),
+        2.50
+      );
+
+      expect(order.orderType).toBe("TRAILING_STOP");
+      expect(order.price).toBeUndefined();
+      expect(order.stopPriceOffset).toBe(2.50);
+      expect(order.stopPriceLinkType).toBe("VALUE");
+      expect(order.stopPriceLinkBasis).toBe("MARK");
+    });
+
+    it("supports percent offsets and a custom link basis", () => {
+      const order = OrderBuilder.withTrailingStop(
+        OrderBuilder.equitySell("AAPL", 100),
+        5,
+        "PERCENT",
+        "BID"
+      );
+
+      expect(order.stopPriceLinkType).toBe("PERCENT");
+      expect(order.stopPriceLinkBasis).toBe("BID");
+    });
+
+    it("rejects offsets that aren't positive numbers", () => {
+      const order = OrderBuilder.equitySell("AAPL", 100);
+      expect(() => OrderBuilder.withTrailingStop(order, 0)).toThrow();
+      expect(() => OrderBuilder.withTrailingStop(order, NaN)).toThrow();
+      expect(() => OrderBuilder.withTrailingStopLimit(order, 1, NaN)).toThrow();
+    });
+  });
+
+  describe("withTrailingStopLimit", () => {
+    it("adds a limit offset from the triggered stop", () => {
+      const order = OrderBuilder.withTrailingStopLimit(
+        OrderBuilder.equitySell("AAPL", 100),
+        2.00,
+        0.25
+      );
+
+      expect(order.orderType).toBe("TRAILING_STOP_LIMIT");
+      expect(order.stopPriceOffset).toBe(2.00);
+      expect(order.priceOffset).toBe(0.25);
+      expect(order.priceLinkType).toBe("VALUE");
+      expect(order.priceLinkBasis).toBe("TRIGGER");
+    });
+  });
+
   describe("chained modifiers", () => {
     it("allows chaining multiple modifiers", () => {
       const order = OrderBuilder.withGTC(
@@ -247,6 +370,402 @@ describe("OrderBuilder - Order Modifiers", () => {
   });
 });
 
+describe("OrderBuilder - Conditional Orders", () => {
+  describe("trigger", () => {
+    it("attaches the child order to the primary order", () => {
+      const entry = OrderBuilder.equityBuyLimit("AAPL", 100, 175.00);
+      const exit = OrderBuilder.equitySellLimit("AAPL", 100, 190.00);
+      const order = OrderBuilder.trigger(entry, exit);
+
+      expect(order.orderStrategyType).toBe("TRIGGER");
+      expect(order.orderType).toBe("LIMIT");
+      expect(order.price).toBe(175.00);
+      expect(order.orderLegCollection[0].instruction).toBe("BUY");
+      expect(order.childOrderStrategies).toEqual([exit]);
+    });
+
+    it("appends to existing children", () => {
+      const entry = OrderBuilder.equityBuy("AAPL", 100);
+      const first = OrderBuilder.equitySellLimit("AAPL", 50, 190.00);
+      const second = OrderBuilder.equitySellLimit("AAPL", 50, 195.00);
+      const order = OrderBuilder.trigger(OrderBuilder.trigger(entry, first), second);
+
+      expect(order.childOrderStrategies).toEqual([first, second]);
+    });
+  });
+
+  describe("oco", () => {
+    it("wraps the orders in a leg-less OCO container", () => {
+      const target = OrderBuilder.equitySellLimit("AAPL", 100, 190.00);
+      const stop = OrderBuilder.withStopPrice(
+        OrderBuilder.equitySell("AAPL", 100),
+        165.00
+      );
+      const order = OrderBuilder.oco(target, stop);
+
+      expect(order.orderStrategyType).toBe("OCO");
+      expect(order.orderLegCollection).toHaveLength(0);
+      expect(order.childOrderStrategies).toEqual([target, stop]);
+    });
+  });
+});
+
+describe("OrderBuilder - Bracket Orders", () => {
+  it("triggers an OCO take-profit and stop-loss from a long entry", () => {
+    const entry = OrderBuilder.equityBuyLimit("AAPL", 100, 175.00);
+    const order = OrderBuilder.bracket(entry, 190.00, 165.00);
+
+    expect(order.orderStrategyType).toBe("TRIGGER");
+    expect(order.price).toBe(175.00);
+
+    const oco = order.childOrderStrategies![0];
+    expect(oco.orderStrategyType).toBe("OCO");
+
+    const [takeProfit, stopLoss] = oco.childOrderStrategies!;
+    expect(takeProfit.orderType).toBe("LIMIT");
+    expect(takeProfit.price).toBe(190.00);
+    expect(takeProfit.orderLegCollection[0].instruction).toBe("SELL");
+    expect(takeProfit.orderLegCollection[0].quantity).toBe(100);
+    expect(stopLoss.orderType).toBe("STOP");
+    expect(stopLoss.stopPrice).toBe(165.00);
+    expect(stopLoss.orderLegCollection[0].instruction).toBe("SELL");
+  });
+
+  it("closes option entries with the matching closing instruction", () => {
+    const symbol = "AAPL  240119C00180000";
+    const order = OrderBuilder.bracket(
+      OrderBuilder.optionSellToOpen(symbol, 2, 3.00),
+      1.50,
+      6.00
+    );
+
+    const [takeProfit, stopLoss] = order.childOrderStrategies![0].childOrderStrategies!;
+    expect(takeProfit.orderLegCollection[0].instruction).toBe("BUY_TO_CLOSE");
+    expect(takeProfit.orderLegCollection[0].instrument.assetType).toBe("OPTION");
+    expect(stopLoss.orderLegCollection[0].instruction).toBe("BUY_TO_CLOSE");
+  });
+
+  it("carries the entry duration to the exits", () => {
+    const entry = OrderBuilder.withGTC(OrderBuilder.equityBuyLimit("AAPL", 100, 175.00));
+    const order = OrderBuilder.bracket(entry, 190.00, 165.00);
+
+    const exits = order.childOrderStrategies![0].childOrderStrategies!;
+    expect(exits.map((exit) => exit.duration)).toEqual([
+      "GOOD_TILL_CANCEL",
+      "GOOD_TILL_CANCEL",
+    ]);
+  });
+
+  it("rejects exits on the wrong side of the entry", () => {
+    const entry = OrderBuilder.equityBuyLimit("AAPL", 100, 175.00);
+
+    expect(() => OrderBuilder.bracket(entry, 165.00, 190.00)).toThrow();
+    expect(() => OrderBuilder.bracket(entry, 190.00, 180.00)).toThrow();
+  });
+
+  it("rejects prices that aren't positive numbers", () => {
+    const entry = OrderBuilder.equityBuy("AAPL", 100);
+
+    expect(() => OrderBuilder.bracket(entry, 190.00, NaN)).toThrow(/Stop-loss price/);
+    expect(() => OrderBuilder.bracket(entry, 190.00, 0)).toThrow(/Stop-loss price/);
+    expect(() => OrderBuilder.bracket(entry, 190.00, -1)).toThrow(/Stop-loss price/);
+    expect(() => OrderBuilder.bracket(entry, NaN, 165.00)).toThrow(/Take-profit price/);
+    expect(() =>
+      OrderBuilder.bracket(OrderBuilder.equityBuyLimit("AAPL", 100, -5), 190.00, 165.00)
+    ).toThrow(/Entry price/);
+  });
+
+  it("rejects closing entries", () => {
+    const entry = OrderBuilder.equitySell("AAPL", 100);
+
+    expect(() => OrderBuilder.bracket(entry, 190.00, 165.00)).toThrow(
+      /must open a position/
+    );
+  });
+});
+
+describe("OrderBuilder - Option Strategies", () => {
+  it("tags vertical spreads and iron condors with their complex strategy type", () => {
+    const vertical = OrderBuilder.verticalSpread(
+      { symbol: "AAPL  240119C00175000", instruction: "BUY_TO_OPEN" },
+      { symbol: "AAPL  240119C00180000", instruction: "SELL_TO_OPEN" },
+      1,
+      1.5
+    );
+    expect(vertical.complexOrderStrategyType).toBe("VERTICAL");
+  });
+
+  describe("straddle", () => {
+    it("buys a call and put at the same strike for a net debit", () => {
+      const order = OrderBuilder.straddle(
+        "AAPL  240119C00180000",
+        "AAPL  240119P00180000",
+        2,
+        8.25
+      );
+
+      expect(order.orderType).toBe("NET_DEBIT");
+      expect(order.complexOrderStrategyType).toBe("STRADDLE");
+      expect(order.price).toBe(8.25);
+      expect(order.orderLegCollection.map((leg) => leg.instruction)).toEqual([
+        "BUY_TO_OPEN",
+        "BUY_TO_OPEN",
+      ]);
+    });
+
+    it("sells both legs for a net credit when short", () => {
+      const order = OrderBuilder.straddle(
+        "AAPL  240119C00180000",
+        "AAPL  240119P00180000",
+        1,
+        8,
+        "SHORT"
+      );
+
+      expect(order.orderType).toBe("NET_CREDIT");
+      expect(order.orderLegCollection.every((leg) => leg.instruction === "SELL_TO_OPEN")).toBe(true);
+    });
+
+    it("rejects mismatched strikes", () => {
+      expect(() =>
+        OrderBuilder.straddle("AAPL  240119C00180000", "AAPL  240119P00175000", 1, 8)
+      ).toThrow(/share a strike/);
+    });
+
+    it("uses NET_ZERO for an even-money price", () => {
+      const order = OrderBuilder.straddle(
+        "AAPL  240119C00180000",
+        "AAPL  240119P00180000",
+        1,
+        0
+      );
+      expect(order.orderType).toBe("NET_ZERO");
+    });
+  });
+
+  describe("strangle", () => {
+    it("requires the call strike above the put strike", () => {
+      const order = OrderBuilder.strangle(
+        "AAPL  240119C00190000",
+        "AAPL  240119P00170000",
+        1,
+        3.1
+      );
+      expect(order.complexOrderStrategyType).toBe("STRANGLE");
+
+      expect(() =>
+        OrderBuilder.strangle("AAPL  240119C00170000", "AAPL  240119P00190000", 1, 3.1)
+      ).toThrow(/above the put strike/);
+    });
+  });
+
+  describe("butterfly", () => {
+    it("doubles the body quantity", () => {
+      const order = OrderBuilder.butterfly(
+        "AAPL  240119C00175000",
+        "AAPL  240119C00180000",
+        "AAPL  240119C00185000",
+        3,
+        1.2
+      );
+
+      expect(order.complexOrderStrategyType).toBe("BUTTERFLY");
+      expect(order.orderType).toBe("NET_DEBIT");
+      expect(order.orderLegCollection.map((leg) => [leg.instruction, leg.quantity])).toEqual([
+        ["BUY_TO_OPEN", 3],
+        ["SELL_TO_OPEN", 6],
+        ["BUY_TO_OPEN", 3],
+      ]);
+    });
+
+    it("rejects uneven wings and mixed option types", () => {
+      expect(() =>
+        OrderBuilder.butterfly(
+          "AAPL  240119C00175000",
+          "AAPL  240119C00180000",
+          "AAPL  240119C00190000",
+          1,
+          1
+        )
+      ).toThrow(/same width/);
+      expect(() =>
+        OrderBuilder.butterfly(
+          "AAPL  240119C00175000",
+          "AAPL  240119P00180000",
+          "AAPL  240119C00185000",
+          1,
+          1
+        )
+      ).toThrow(/same option type/);
+    });
+  });
+
+  describe("ironButterfly", () => {
+    it("shares the short strike between the put and call spreads", () => {
+      const order = OrderBuilder.ironButterfly(
+        { shortPut: "AAPL  240119P00180000", longPut: "AAPL  240119P00170000" },
+        { shortCall: "AAPL  240119C00180000", longCall: "AAPL  240119C00190000" },
+        1,
+        6.4
+      );
+
+      expect(order.complexOrderStrategyType).toBe("IRON_CONDOR");
+      expect(order.orderType).toBe("NET_CREDIT");
+      expect(order.orderLegCollection).toHaveLength(4);
+
+      expect(() =>
+        OrderBuilder.ironButterfly(
+          { shortPut: "AAPL  240119P00175000", longPut: "AAPL  240119P00170000" },
+          { shortCall: "AAPL  240119C00180000", longCall: "AAPL  240119C00190000" },
+          1,
+          6.4
+        )
+      ).toThrow(/share a strike/);
+    });
+  });
+
+  describe("calendarSpread", () => {
+    it("sells the near month and buys the far month", () => {
+      const order = OrderBuilder.calendarSpread(
+        "AAPL  240119C00180000",
+        "AAPL  240216C00180000",
+        1,
+        2.05
+      );
+
+      expect(order.complexOrderStrategyType).toBe("CALENDAR");
+      expect(order.orderType).toBe("NET_DEBIT");
+      const [near, far] = order.orderLegCollection;
+      expect(near.instruction).toBe("SELL_TO_OPEN");
+      expect(far.instruction).toBe("BUY_TO_OPEN");
+    });
+
+    it("rejects legs in the wrong expiration order", () => {
+      expect(() =>
+        OrderBuilder.calendarSpread("AAPL  240216C00180000", "AAPL  240119C00180000", 1, 2)
+      ).toThrow(/expire before/);
+    });
+  });
+
+  describe("diagonalSpread", () => {
+    it("requires different strikes", () => {
+      const order = OrderBuilder.diagonalSpread(
+        "AAPL  240119C00185000",
+        "AAPL  240216C00180000",
+        1,
+        3.5
+      );
+      expect(order.complexOrderStrategyType).toBe("DIAGONAL");
+
+      expect(() =>
+        OrderBuilder.diagonalSpread("AAPL  240119C00180000", "AAPL  240216C00180000", 1, 3.5)
+      ).toThrow(/different strikes/);
+    });
+  });
+
+  describe("coveredCall", () => {
+    it("buys 100 shares per contract and sells the call", () => {
+      const order = OrderBuilder.coveredCall("AAPL", "AAPL  240119C00190000", 2, 172.4);
+
+      expect(order.complexOrderStrategyType).toBe("COVERED");
+      expect(order.orderType).toBe("NET_DEBIT");
+      const [stock, call] = order.orderLegCollection;
+      expect(stock.instrument.assetType).toBe("EQUITY");
+      expect(stock.instruction).toBe("BUY");
+      expect(stock.quantity).toBe(200);
+      expect(call.instruction).toBe("SELL_TO_OPEN");
+      expect(call.quantity).toBe(2);
+    });
+
+    it("rejects a call on another underlying", () => {
+      expect(() =>
+        OrderBuilder.coveredCall("MSFT", "AAPL  240119C00190000", 1, 172.4)
+      ).toThrow(/does not match/);
+    });
+  });
+
+  describe("collar", () => {
+    it("buys stock and a put and sells a call", () => {
+      const order = OrderBuilder.collar(
+        "AAPL",
+        "AAPL  240119P00170000",
+        "AAPL  240119C00190000",
+        1,
+        179.8
+      );
+
+      expect(order.complexOrderStrategyType).toBe("COLLAR_WITH_STOCK");
+      expect(order.orderLegCollection.map((leg) => leg.instruction)).toEqual([
+        "BUY",
+        "BUY_TO_OPEN",
+        "SELL_TO_OPEN",
+      ]);
+    });
+  });
+
+  describe("ratio and back spreads", () => {
+    it("sells more contracts than it buys in a ratio spread", () => {
+      const order = OrderBuilder.ratioSpread(
+        "AAPL  240119C00180000",
+        "AAPL  240119C00190000",
+        1,
+        2,
+        0.4,
+        "NET_CREDIT"
+      );
+
+      expect(order.complexOrderStrategyType).toBe("CUSTOM");
+      expect(order.orderType).toBe("NET_CREDIT");
+      expect(order.orderLegCollection.map((leg) => leg.quantity)).toEqual([1, 2]);
+
+      expect(() =>
+        OrderBuilder.ratioSpread(
+          "AAPL  240119C00180000",
+          "AAPL  240119C00190000",
+          2,
+          2,
+          0.4,
+          "NET_CREDIT"
+        )
+      ).toThrow(/more contracts than it buys/);
+    });
+
+    it("buys more contracts than it sells in a back spread", () => {
+      const order = OrderBuilder.backSpread(
+        "AAPL  240119P00180000",
+        "AAPL  240119P00170000",
+        1,
+        2,
+        0.3,
+        "NET_DEBIT"
+      );
+
+      expect(order.complexOrderStrategyType).toBe("BACK_RATIO");
+      expect(order.orderType).toBe("NET_DEBIT");
+
+      expect(() =>
+        OrderBuilder.backSpread(
+          "AAPL  240119P00170000",
+          "AAPL  240119P00180000",
+          1,
+          2,
+          0.3,
+          "NET_DEBIT"
+        )
+      ).toThrow(/further out of the money/);
+    });
+  });
+
+  it("rejects non-option legs and fractional quantities", () => {
+    expect(() =>
+      OrderBuilder.straddle("AAPL", "AAPL  240119P00180000", 1, 8)
+    ).toThrow(/OCC option symbol/);
+    expect(() =>
+      OrderBuilder.straddle("AAPL  240119C00180000", "AAPL  240119P00180000", 1.5, 8)
+    ).toThrow(/positive whole number/);
+  });
+});
+
 describe("OrderBuilder - Asset Type Detection", () => {
   it("detects equity symbol", () => {
     const order = OrderBuilder.equityBuy("AAPL", 100);
@@ -1,7 +1,11 @@
 /**
  * Order builder with factory methods for common order types
  */
-import { isOptionSymbol } from "./option-symbol.js";
+import {
+  isOptionSymbol,
+  parseOptionSymbol,
+  type OptionSymbolParams,
+} from "./option-symbol.js";
 
 // Types for order building
 export type AssetType =
@@ -19,7 +23,16 @@ export type OrderInstruction =
   | "BUY_TO_CLOSE"
   | "SELL_TO_CLOSE";
 
-export type OrderType = "MARKET" | "LIMIT" | "STOP" | "STOP_LIMIT";
+export type OrderType =
+  | "MARKET"
+  | "LIMIT"
+  | "STOP"
+  | "STOP_LIMIT"
+  | "TRAILING_STOP"
+  | "TRAILING_STOP_LIMIT"
+  | "NET_DEBIT"
+  | "NET_CREDIT"
+  | "NET_ZERO";
 export type OrderSession = "NORMAL" | "AM" | "PM" | "SEAMLESS";
 export type OrderDuration =
   | "DAY"
@@ -30,6 +43,48 @@ export type OrderDuration =
   | "END_OF_MONTH"
   | "NEXT_END_OF_MONTH";
 
+export type ComplexOrderStrategyType =
+  | "NONE"
+  | "COVERED"
+  | "VERTICAL"
+  | "BACK_RATIO"
+  | "CALENDAR"
+  | "DIAGONAL"
+  | "STRADDLE"
+  | "STRANGLE"
+  | "COLLAR_SYNTHETIC"
+  | "BUTTERFLY"
+  | "CONDOR"
+  | "IRON_CONDOR"
+  | "VERTICAL_ROLL"
+  | "COLLAR_WITH_STOCK"
+  | "DOUBLE_DIAGONAL"
+  | "UNBALANCED_BUTTERFLY"
+  | "UNBALANCED_CONDOR"
+  | "UNBALANCED_IRON_CONDOR"
+  | "UNBALANCED_VERTICAL_ROLL"
+  | "MUTUAL_FUND_SWAP"
+  | "CUSTOM";
+
+/**
+ * Direction of a multi-leg strategy: LONG buys the strategy (net debit),
+ * SHORT sells it (net credit)
+ */
+export type StrategySide = "LONG" | "SHORT";
+
+export type PriceLinkBasis =
+  | "MANUAL"
+  | "BASE"
+  | "TRIGGER"
+  | "LAST"
+  | "BID"
+  | "ASK"
+  | "ASK_BID"
+  | "MARK"
+  | "AVERAGE";
+
+export type PriceLinkType = "VALUE" | "PERCENT" | "TICK";
+
 export interface OrderLeg {
   instruction: OrderInstruction;
   quantity: number;
@@ -45,8 +100,16 @@ export interface OrderSpec {
   duration: OrderDuration;
   price?: number;
   stopPrice?: number;
+  stopPriceLinkBasis?: PriceLinkBasis;
+  stopPriceLinkType?: PriceLinkType;
+  stopPriceOffset?: number;
+  priceLinkBasis?: PriceLinkBasis;
+  priceLinkType?: PriceLinkType;
+  priceOffset?: number;
   orderLegCollection: OrderLeg[];
   orderStrategyType: "SINGLE" | "TRIGGER" | "OCO";
+  complexOrderStrategyType?: ComplexOrderStrategyType;
+  childOrderStrategies?: OrderSpec[];
 }
 
 export interface LegSpec {
@@ -79,6 +142,94 @@ function createLeg(
   };
 }
 
+/**
+ * Number of shares covered by one standard option contract
+ */
+const SHARES_PER_CONTRACT = 100;
+
+/**
+ * Parse an option leg symbol, naming the leg in the error if it is not an OCC symbol
+ */
+function parseLeg(symbol: string, role: string): OptionSymbolParams {
+  if (!isOptionSymbol(symbol)) {
+    throw new Error(`${role} leg must be an OCC option symbol, got "${symbol}"`);
+  }
+  return parseOptionSymbol(symbol);
+}
+
+function assertSameUnderlying(legs: readonly OptionSymbolParams[]): void {
+  const underlying = legs[0].underlying;
+  if (legs.some((leg) => leg.underlying !== underlying)) {
+    throw new Error("All legs must share the same underlying");
+  }
+}
+
+function assertSameExpiration(legs: readonly OptionSymbolParams[]): void {
+  const expiration = legs[0].expiration.getTime();
+  if (legs.some((leg) => leg.expiration.getTime() !== expiration)) {
+    throw new Error("All legs must share the same expiration");
+  }
+}
+
+function assertSamePutCall(legs: readonly OptionSymbolParams[]): void {
+  const putCall = legs[0].putCall;
+  if (legs.some((leg) => leg.putCall !== putCall)) {
+    throw new Error("All legs must be the same option type (all calls or all puts)");
+  }
+}
+
+function assertPutCall(leg: OptionSymbolParams, putCall: "P" | "C", role: string): void {
+  if (leg.putCall !== putCall) {
+    throw new Error(`${role} leg must be a ${putCall === "C" ? "call" : "put"}`);
+  }
+}
+
+function assertQuantity(quantity: number, label = "Quantity"): void {
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new Error(`${label} must be a positive whole number`);
+  }
+}
+
+/**
+ * Pick NET_DEBIT / NET_CREDIT from the strategy direction. Prices are always
+ * sent as positive numbers; a zero price is an even-money NET_ZERO order.
+ */
+function netOrderType(netPrice: number, debit: boolean): OrderType {
+  if (netPrice < 0) {
+    throw new Error("Net price cannot be negative; the order type carries debit or credit");
+  }
+  if (netPrice === 0) {
+    return "NET_ZERO";
+  }
+  return debit ? "NET_DEBIT" : "NET_CREDIT";
+}
+
+function multiLegOrder(
+  complexOrderStrategyType: ComplexOrderStrategyType,
+  orderType: OrderType,
+  netPrice: number,
+  legs: OrderLeg[]
+): OrderSpec {
+  return {
+    orderType,
+    session: "NORMAL",
+    duration: "DAY",
+    price: netPrice,
+    complexOrderStrategyType,
+    orderLegCollection: legs,
+    orderStrategyType: "SINGLE",
+  };
+}
+
+/**
+ * Closing instruction for each opening instruction a bracket can start from
+ */
+const BRACKET_EXIT_INSTRUCTIONS: Partial<Record<OrderInstruction, OrderInstruction>> = {
+  BUY: "SELL",
+  BUY_TO_OPEN: "SELL_TO_CLOSE",
+  SELL_TO_OPEN: "BUY_TO_CLOSE",
+};
+
 /**
  * Order builder with factory methods for common order types
  */
@@ -236,7 +387,9 @@ export const OrderBuilder = {
   // --- Spread Orders ---
 
   /**
-   * Create a vertical spread order (bull call, bear put, etc.)
+   * Create a vertical spread order (bull call, bear put, etc.). It is a net
+   * debit when the leg bought is the call with the lower strike or the put
+   * with the higher one, and a net credit otherwise.
    */
   verticalSpread(
     longLeg: LegSpec,
@@ -244,41 +397,519 @@ export const OrderBuilder = {
     quantity: number,
     netPrice: number
   ): OrderSpec {
-    return {
-      orderType: "LIMIT",
-      session: "NORMAL",
-      duration: "DAY",
-      price: netPrice,
-      orderLegCollection: [
-        createLeg(longLeg.symbol, longLeg.instruction, quantity),
-        createLeg(shortLeg.symbol, shortLeg.instruction, quantity),
-      ],
-      orderStrategyType: "SINGLE",
-    };
+    assertQuantity(quantity);
+    const first = parseLeg(longLeg.symbol, "Long");
+    const second = parseLeg(shortLeg.symbol, "Short");
+    const legs = [first, second];
+    assertSameUnderlying(legs);
+    assertSameExpiration(legs);
+    assertSamePutCall(legs);
+    if (first.strike === second.strike) {
+      throw new Error("Vertical spread legs must have different strikes");
+    }
+    const buys = [longLeg, shortLeg].map((leg) => leg.instruction.startsWith("BUY"));
+    if (buys[0] === buys[1]) {
+      throw new Error("Vertical spread must buy one leg and sell the other");
+    }
+
+    const [bought, sold] = buys[0] ? [first, second] : [second, first];
+    const debit =
+      bought.putCall === "C" ? bought.strike < sold.strike : bought.strike > sold.strike;
+    return multiLegOrder("VERTICAL", netOrderType(netPrice, debit), netPrice, [
+      createLeg(longLeg.symbol, longLeg.instruction, quantity),
+      createLeg(shortLeg.symbol, shortLeg.instruction, quantity),
+    ]);
   },
 
   /**
-   * Create an iron condor order
+   * Create an iron condor: a short put spread below the money and a short
+   * call spread above it, opened for a net credit
    */
   ironCondor(
     putSpread: { shortPut: string; longPut: string },
     callSpread: { shortCall: string; longCall: string },
     quantity: number,
     netCredit: number
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const shortPut = parseLeg(putSpread.shortPut, "Short put");
+    const longPut = parseLeg(putSpread.longPut, "Long put");
+    const shortCall = parseLeg(callSpread.shortCall, "Short call");
+    const longCall = parseLeg(callSpread.longCall, "Long call");
+    const legs = [shortPut, longPut, shortCall, longCall];
+    assertSameUnderlying(legs);
+    assertSameExpiration(legs);
+    assertPutCall(shortPut, "P", "Short put");
+    assertPutCall(longPut, "P", "Long put");
+    assertPutCall(shortCall, "C", "Short call");
+    assertPutCall(longCall, "C", "Long call");
+    if (
+      longPut.strike >= shortPut.strike ||
+      shortPut.strike >= shortCall.strike ||
+      shortCall.strike >= longCall.strike
+    ) {
+      throw new Error(
+        "Iron condor strikes must rise from long put to short put, short call and long call"
+      );
+    }
+
+    return multiLegOrder("IRON_CONDOR", netOrderType(netCredit, false), netCredit, [
+      createLeg(putSpread.shortPut, "SELL_TO_OPEN", quantity),
+      createLeg(putSpread.longPut, "BUY_TO_OPEN", quantity),
+      createLeg(callSpread.shortCall, "SELL_TO_OPEN", quantity),
+      createLeg(callSpread.longCall, "BUY_TO_OPEN", quantity),
+    ]);
+  },
+
+  /**
+   * Create an iron butterfly: short put and short call at the same strike,
+   * protected by a long put below and a long call above
+   */
+  ironButterfly(
+    putSpread: { shortPut: string; longPut: string },
+    callSpread: { shortCall: string; longCall: string },
+    quantity: number,
+    netCredit: number
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const shortPut = parseLeg(putSpread.shortPut, "Short put");
+    const longPut = parseLeg(putSpread.longPut, "Long put");
+    const shortCall = parseLeg(callSpread.shortCall, "Short call");
+    const longCall = parseLeg(callSpread.longCall, "Long call");
+    const legs = [shortPut, longPut, shortCall, longCall];
+    assertSameUnderlying(legs);
+    assertSameExpiration(legs);
+    assertPutCall(shortPut, "P", "Short put");
+    assertPutCall(longPut, "P", "Long put");
+    assertPutCall(shortCall, "C", "Short call");
+    assertPutCall(longCall, "C", "Long call");
+    if (shortPut.strike !== shortCall.strike) {
+      throw new Error("Iron butterfly short put and short call must share a strike");
+    }
+    if (longPut.strike >= shortPut.strike || longCall.strike <= shortCall.strike) {
+      throw new Error("Iron butterfly wings must lie outside the body strike");
+    }
+
+    // Schwab has no dedicated iron butterfly type; it is an iron condor with
+    // the short strikes collapsed together
+    return multiLegOrder("IRON_CONDOR", netOrderType(netCredit, false), netCredit, [
+      createLeg(putSpread.shortPut, "SELL_TO_OPEN", quantity),
+      createLeg(putSpread.longPut, "BUY_TO_OPEN", quantity),
+      createLeg(callSpread.shortCall, "SELL_TO_OPEN", quantity),
+      createLeg(callSpread.longCall, "BUY_TO_OPEN", quantity),
+    ]);
+  },
+
+  /**
+   * Create a straddle: a call and a put at the same strike and expiration.
+   * LONG buys both (net debit), SHORT sells both (net credit).
+   */
+  straddle(
+    callSymbol: string,
+    putSymbol: string,
+    quantity: number,
+    netPrice: number,
+    side: StrategySide = "LONG"
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const call = parseLeg(callSymbol, "Call");
+    const put = parseLeg(putSymbol, "Put");
+    assertPutCall(call, "C", "Call");
+    assertPutCall(put, "P", "Put");
+    assertSameUnderlying([call, put]);
+    assertSameExpiration([call, put]);
+    if (call.strike !== put.strike) {
+      throw new Error("Straddle legs must share a strike");
+    }
+
+    const instruction = side === "LONG" ? "BUY_TO_OPEN" : "SELL_TO_OPEN";
+    return multiLegOrder("STRADDLE", netOrderType(netPrice, side === "LONG"), netPrice, [
+      createLeg(callSymbol, instruction, quantity),
+      createLeg(putSymbol, instruction, quantity),
+    ]);
+  },
+
+  /**
+   * Create a strangle: an out-of-the-money call and put in the same expiration.
+   * LONG buys both (net debit), SHORT sells both (net credit).
+   */
+  strangle(
+    callSymbol: string,
+    putSymbol: string,
+    quantity: number,
+    netPrice: number,
+    side: StrategySide = "LONG"
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const call = parseLeg(callSymbol, "Call");
+    const put = parseLeg(putSymbol, "Put");
+    assertPutCall(call, "C", "Call");
+    assertPutCall(put, "P", "Put");
+    assertSameUnderlying([call, put]);
+    assertSameExpiration([call, put]);
+    if (call.strike <= put.strike) {
+      throw new Error("Strangle call strike must be above the put strike");
+    }
+
+    const instruction = side === "LONG" ? "BUY_TO_OPEN" : "SELL_TO_OPEN";
+    return multiLegOrder("STRANGLE", netOrderType(netPrice, side === "LONG"), netPrice, [
+      createLeg(callSymbol, instruction, quantity),
+      createLeg(putSymbol, instruction, quantity),
+    ]);
+  },
+
+  /**
+   * Create a butterfly: 1 lower, 2 middle, 1 upper strike of the same type with
+   * equal wing widths. LONG buys the wings and sells the body (net debit).
+   */
+  butterfly(
+    lowerSymbol: string,
+    middleSymbol: string,
+    upperSymbol: string,
+    quantity: number,
+    netPrice: number,
+    side: StrategySide = "LONG"
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const lower = parseLeg(lowerSymbol, "Lower");
+    const middle = parseLeg(middleSymbol, "Middle");
+    const upper = parseLeg(upperSymbol, "Upper");
+    const legs = [lower, middle, upper];
+    assertSameUnderlying(legs);
+    assertSameExpiration(legs);
+    assertSamePutCall(legs);
+    if (!(lower.strike < middle.strike && middle.strike < upper.strike)) {
+      throw new Error("Butterfly strikes must be ordered lower < middle < upper");
+    }
+    if (
+      Math.abs(middle.strike - lower.strike - (upper.strike - middle.strike)) > 1e-9
+    ) {
+      throw new Error("Butterfly wings must be the same width");
+    }
+
+    const [wing, body] =
+      side === "LONG"
+        ? (["BUY_TO_OPEN", "SELL_TO_OPEN"] as const)
+        : (["SELL_TO_OPEN", "BUY_TO_OPEN"] as const);
+    return multiLegOrder("BUTTERFLY", netOrderType(netPrice, side === "LONG"), netPrice, [
+      createLeg(lowerSymbol, wing, quantity),
+      createLeg(middleSymbol, body, quantity * 2),
+      createLeg(upperSymbol, wing, quantity),
+    ]);
+  },
+
+  /**
+   * Create a calendar spread: same strike and type, different expirations.
+   * LONG sells the near month and buys the far month (net debit).
+   */
+  calendarSpread(
+    nearSymbol: string,
+    farSymbol: string,
+    quantity: number,
+    netPrice: number,
+    side: StrategySide = "LONG"
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const near = parseLeg(nearSymbol, "Near");
+    const far = parseLeg(farSymbol, "Far");
+    assertSameUnderlying([near, far]);
+    assertSamePutCall([near, far]);
+    if (near.expiration.getTime() >= far.expiration.getTime()) {
+      throw new Error("Calendar near leg must expire before the far leg");
+    }
+    if (near.strike !== far.strike) {
+      throw new Error("Calendar legs must share a strike; use diagonalSpread for different strikes");
+    }
+
+    return multiLegOrder(
+      "CALENDAR",
+      netOrderType(netPrice, side === "LONG"),
+      netPrice,
+      side === "LONG"
+        ? [
+            createLeg(nearSymbol, "SELL_TO_OPEN", quantity),
+            createLeg(farSymbol, "BUY_TO_OPEN", quantity),
+          ]
+        : [
+            createLeg(nearSymbol, "BUY_TO_OPEN", quantity),
+            createLeg(farSymbol, "SELL_TO_OPEN", quantity),
+          ]
+    );
+  },
+
+  /**
+   * Create a diagonal spread: same type, different strikes and expirations.
+   * LONG sells the near month and buys the far month (net debit).
+   */
+  diagonalSpread(
+    nearSymbol: string,
+    farSymbol: string,
+    quantity: number,
+    netPrice: number,
+    side: StrategySide = "LONG"
+  ): OrderSpec {
+    assertQuantity(quantity);
+    const near = parseLeg(nearSymbol, "Near");
+    const far = parseLeg(farSymbol, "Far");
+    assertSameUnderlying([near, far]);
+    assertSamePutCall([near, far]);
+    if (near.expiration.getTime() >= far.expiration.getTime()) {
+      throw new Error("Diagonal near leg must expire before the far leg");
+    }
+    if (near.strike === far.strike) {
+      throw new Error("Diagonal legs must have different strikes; use calendarSpread for the same strike");
+    }
+
+    return multiLegOrder(
+      "DIAGONAL",
+      netOrderType(netPrice, side === "LONG"),
+      netPrice,
+      side === "LONG"
+        ? [
+            createLeg(nearSymbol, "SELL_TO_OPEN", quantity),
+            createLeg(farSymbol, "BUY_TO_OPEN", quantity),
+          ]
+        : [
+            createLeg(nearSymbol, "BUY_TO_OPEN", quantity),
+            createLeg(farSymbol, "SELL_TO_OPEN", quantity),
+          ]
+    );
+  },
+
+  /**
+   * Create a covered call: buy 100 shares per contract and sell calls against them
+   */
+  coveredCall(
+    stockSymbol: string,
+    callSymbol: string,
+    contracts: number,
+    netDebit: number
+  ): OrderSpec {
+    assertQuantity(contracts, "Contracts");
+    const call = parseLeg(callSymbol, "Call");
+    assertPutCall(call, "C", "Call");
+    if (call.underlying !== stockSymbol.toUpperCase()) {
+      throw new Error(`Call underlying ${call.underlying} does not match ${stockSymbol}`);
+    }
+
+    return multiLegOrder("COVERED", netOrderType(netDebit, true), netDebit, [
+      createLeg(stockSymbol, "BUY", contracts * SHARES_PER_CONTRACT),
+      createLeg(callSymbol, "SELL_TO_OPEN", contracts),
+    ]);
+  },
+
+  /**
+   * Create a collar with stock: buy 100 shares per contract, buy a protective
+   * put and sell a call above it
+   */
+  collar(
+    stockSymbol: string,
+    putSymbol: string,
+    callSymbol: string,
+    contracts: number,
+    netDebit: number
+  ): OrderSpec {
+    assertQuantity(contracts, "Contracts");
+    const put = parseLeg(putSymbol, "Put");
+    const call = parseLeg(callSymbol, "Call");
+    assertPutCall(put, "P", "Put");
+    assertPutCall(call, "C", "Call");
+    assertSameUnderlying([put, call]);
+    if (put.underlying !== stockSymbol.toUpperCase()) {
+      throw new Error(`Option underlying ${put.underlying} does not match ${stockSymbol}`);
+    }
+    if (put.strike >= call.strike) {
+      throw new Error("Collar put strike must be below the call strike");
+    }
+
+    return multiLegOrder("COLLAR_WITH_STOCK", netOrderType(netDebit, true), netDebit, [
+      createLeg(stockSymbol, "BUY", contracts * SHARES_PER_CONTRACT),
+      createLeg(putSymbol, "BUY_TO_OPEN", contracts),
+      createLeg(callSymbol, "SELL_TO_OPEN", contracts),
+    ]);
+  },
+
+  /**
+   * Create a ratio spread: buy the strike nearer the money and sell more
+   * contracts further out of the money. Whether it opens for a debit or a
+   * credit depends on the premiums, so the caller chooses the order type.
+   */
+  ratioSpread(
+    longSymbol: string,
+    shortSymbol: string,
+    longQuantity: number,
+    shortQuantity: number,
+    netPrice: number,
+    priceType: "NET_DEBIT" | "NET_CREDIT"
+  ): OrderSpec {
+    assertQuantity(longQuantity, "Long quantity");
+    assertQuantity(shortQuantity, "Short quantity");
+    const long = parseLeg(longSymbol, "Long");
+    const short = parseLeg(shortSymbol, "Short");
+    assertSameUnderlying([long, short]);
+    assertSameExpiration([long, short]);
+    assertSamePutCall([long, short]);
+    if (shortQuantity <= longQuantity) {
+      throw new Error("Ratio spread must sell more contracts than it buys");
+    }
+    if (long.putCall === "C" ? long.strike >= short.strike : long.strike <= short.strike) {
+      throw new Error("Ratio spread short strike must be further out of the money than the long strike");
+    }
+
+    // Schwab has no front-ratio strategy type, so it is sent as CUSTOM
+    return multiLegOrder(
+      "CUSTOM",
+      netOrderType(netPrice, priceType === "NET_DEBIT"),
+      netPrice,
+      [
+        createLeg(longSymbol, "BUY_TO_OPEN", longQuantity),
+        createLeg(shortSymbol, "SELL_TO_OPEN", shortQuantity),
+      ]
+    );
+  },
+
+  /**
+   * Create a back spread: sell the strike nearer the money and buy more
+   * contracts further out of the money. The caller chooses debit or credit.
+   */
+  backSpread(
+    shortSymbol: string,
+    longSymbol: string,
+    shortQuantity: number,
+    longQuantity: number,
+    netPrice: number,
+    priceType: "NET_DEBIT" | "NET_CREDIT"
+  ): OrderSpec {
+    assertQuantity(shortQuantity, "Short quantity");
+    assertQuantity(longQuantity, "Long quantity");
+    const short = parseLeg(shortSymbol, "Short");
+    const long = parseLeg(longSymbol, "Long");
+    assertSameUnderlying([short, long]);
+    assertSameExpiration([short, long]);
+    assertSamePutCall([short, long]);
+    if (longQuantity <= shortQuantity) {
+      throw new Error("Back spread must buy more contracts than it sells");
+    }
+    if (short.putCall === "C" ? short.strike >= long.strike : short.strike <= long.strike) {
+      throw new Error("Back spread long strike must be further out of the money than the short strike");
+    }
+
+    return multiLegOrder(
+      "BACK_RATIO",
+      netOrderType(netPrice, priceType === "NET_DEBIT"),
+      netPrice,
+      [
+        createLeg(shortSymbol, "SELL_TO_OPEN", shortQuantity),
+        createLeg(longSymbol, "BUY_TO_OPEN", longQuantity),
+      ]
+    );
+  },
+
+  // --- Conditional Orders ---
+
+  /**
+   * Submit the child orders once the primary order fills (first triggers second)
+   */
+  trigger(
+    primary: OrderSpec,
+    child: OrderSpec,
+    ...moreChildren: OrderSpec[]
   ): OrderSpec {
     return {
-      orderType: "LIMIT",
-      session: "NORMAL",
-      duration: "DAY",
-      price: netCredit,
-      orderLegCollection: [
-        createLeg(putSpread.shortPut, "SELL_TO_OPEN", quantity),
-        createLeg(putSpread.longPut, "BUY_TO_OPEN", quantity),
-        createLeg(callSpread.shortCall, "SELL_TO_OPEN", quantity),
-        createLeg(callSpread.longCall, "BUY_TO_OPEN", quantity),
+      ...primary,
+      orderStrategyType: "TRIGGER",
+      childOrderStrategies: [
+        ...(primary.childOrderStrategies ?? []),
+        child,
+        ...moreChildren,
       ],
+    };
+  },
+
+  /**
+   * Group orders so that a fill on one cancels the others (one cancels other)
+   */
+  oco(first: OrderSpec, second: OrderSpec, ...rest: OrderSpec[]): OrderSpec {
+    return {
+      orderType: first.orderType,
+      session: first.session,
+      duration: first.duration,
+      orderLegCollection: [],
+      orderStrategyType: "OCO",
+      childOrderStrategies: [first, second, ...rest],
+    };
+  },
+
+  /**
+   * Create a bracket order: the entry order triggers an OCO pair of a limit
+   * take-profit and a stop-loss that close the position.
+   * Exits inherit the entry's session and duration.
+   */
+  bracket(
+    entry: OrderSpec,
+    takeProfitPrice: number,
+    stopLossPrice: number
+  ): OrderSpec {
+    const [leg, ...extraLegs] = entry.orderLegCollection;
+    if (!leg || extraLegs.length > 0 || entry.childOrderStrategies?.length) {
+      throw new Error("Bracket entry must be a single-leg order without children");
+    }
+
+    const exitInstruction = BRACKET_EXIT_INSTRUCTIONS[leg.instruction];
+    if (!exitInstruction) {
+      throw new Error(
+        `Bracket entry must open a position (BUY, BUY_TO_OPEN or SELL_TO_OPEN), got ${leg.instruction}`
+      );
+    }
+
+    const prices: [string, number | undefined][] = [
+      ["Take-profit", takeProfitPrice],
+      ["Stop-loss", stopLossPrice],
+      ["Entry", entry.price],
+    ];
+    for (const [label, price] of prices) {
+      if (price !== undefined && !(Number.isFinite(price) && price > 0)) {
+        throw new Error(`${label} price must be a positive number, got ${price}`);
+      }
+    }
+
+    // Short entries profit when the price falls
+    const isShort = leg.instruction === "SELL_TO_OPEN";
+    const [low, high] = isShort
+      ? [takeProfitPrice, stopLossPrice]
+      : [stopLossPrice, takeProfitPrice];
+    if (low >= high) {
+      throw new Error(
+        isShort
+          ? "Take-profit price must be below the stop-loss price for short entries"
+          : "Take-profit price must be above the stop-loss price"
+      );
+    }
+    if (entry.price !== undefined && (entry.price <= low || entry.price >= high)) {
+      throw new Error(
+        `Entry price ${entry.price} must lie between the stop-loss and take-profit prices`
+      );
+    }
+
+    const exitLeg = createLeg(leg.instrument.symbol, exitInstruction, leg.quantity);
+    const takeProfit: OrderSpec = {
+      orderType: "LIMIT",
+      session: entry.session,
+      duration: entry.duration,
+      price: takeProfitPrice,
+      orderLegCollection: [exitLeg],
       orderStrategyType: "SINGLE",
     };
+    const stopLoss: OrderSpec = {
+      orderType: "STOP",
+      session: entry.session,
+      duration: entry.duration,
+      stopPrice: stopLossPrice,
+      orderLegCollection: [{ ...exitLeg }],
+      orderStrategyType: "SINGLE",
+    };
+
+    return OrderBuilder.trigger(entry, OrderBuilder.oco(takeProfit, stopLoss));
   },
 
   // --- Order Modifiers ---
@@ -307,4 +938,50 @@ export const OrderBuilder = {
       stopPrice,
     };
   },
+
+  /**
+   * Convert the order to a trailing stop that follows the link basis
+   * by a fixed amount (VALUE) or a percentage (PERCENT)
+   */
+  withTrailingStop(
+    order: OrderSpec,
+    offset: number,
+    linkType: PriceLinkType = "VALUE",
+    linkBasis: PriceLinkBasis = "MARK"
+  ): OrderSpec {
+    if (!(Number.isFinite(offset) && offset > 0)) {
+      throw new Error("Trailing stop offset must be a positive number");
+    }
+    const { price: _price, stopPrice: _stopPrice, ...rest } = order;
+    return {
+      ...rest,
+      orderType: "TRAILING_STOP",
+      stopPriceLinkBasis: linkBasis,
+      stopPriceLinkType: linkType,
+      stopPriceOffset: offset,
+    };
+  },
+
+  /**
+   * Convert the order to a trailing stop limit. Once the trailing stop
+   * triggers, a limit order is placed `limitOffset` dollars from the stop.
+   */
+  withTrailingStopLimit(
+    order: OrderSpec,
+    offset: number,
+    limitOffset: number,
+    linkType: PriceLinkType = "VALUE",
+    linkBasis: PriceLinkBasis = "MARK"
+  ): OrderSpec {
+    if (!(Number.isFinite(limitOffset) && limitOffset >= 0)) {
+      throw new Error("Trailing stop limit offset must be a non-negative number");
+    }
+    return {
+      ...OrderBuilder.withTrailingStop(order, offset, linkType, linkBasis),
+      orderType: "TRAILING_STOP_LIMIT",
+      priceLinkBasis: "TRIGGER",
+      priceLinkType: "VALUE",
+      priceOffset: limitOffset,
+    };
+  },
 };
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  estimateNetPrice,
+  fetchLegQuotes,
+  netPriceType,
+  type LegQuote,
+} from "./spread-pricing.js";
+import { OrderBuilder } from "./order-builder.js";
+import { OptionChainServiceTest, QuoteServiceTest } from "../layers/test.js";
+import { mockOptionChain } from "../../test/fixtures/options.js";
+import { mockQuotes } from "../../test/fixtures/quotes.js";
+
+const quotes = new Map<string, LegQuote>([
+  ["AAPL  240119C00175000", { bid: 5.2, ask: 5.4 }],
+  ["AAPL  240119C00180000", { bid: 3.4, ask: 3.6 }],
+  ["AAPL  240119C00185000", { bid: 2.1, ask: 2.3 }],
+  ["AAPL  240119P00180000", { bid: 3.0, ask: 3.2 }],
+  ["AAPL", { bid: 178.5, ask: 178.54 }],
+]);
+
+describe("estimateNetPrice", () => {
+  it("prices a long straddle as the sum of the mids", () => {
+    const order = OrderBuilder.straddle(
+      "AAPL  240119C00180000",
+      "AAPL  240119P00180000",
+      3,
+      0
+    );
+
+    const estimate = estimateNetPrice(order, quotes);
+
+    expect(estimate.price).toBe(6.6);
+    expect(estimate.orderType).toBe("NET_DEBIT");
+    expect(estimate.missing).toEqual([]);
+  });
+
+  it("prices a credit vertical", () => {
+    const order = OrderBuilder.verticalSpread(
+      { symbol: "AAPL  240119C00185000", instruction: "BUY_TO_OPEN" },
+      { symbol: "AAPL  240119C00180000", instruction: "SELL_TO_OPEN" },
+      2,
+      1
+    );
+
+    const estimate = estimateNetPrice(order, quotes);
+
+    expect(estimate.price).toBe(1.3);
+    expect(estimate.orderType).toBe("NET_CREDIT");
+  });
+
+  it("prices a butterfly per 1x2x1 unit", () => {
+    const order = OrderBuilder.butterfly(
+      "AAPL  240119C00175000",
+      "AAPL  240119C00180000",
+      "AAPL  240119C00185000",
+      4,
+      0
+    );
+
+    const estimate = estimateNetPrice(order, quotes);
+
+    // 5.30 + 2.20 - 2 * 3.50
+    expect(estimate.price).toBe(0.5);
+    expect(estimate.orderType).toBe("NET_DEBIT");
+  });
+
+  it("prices a covered call per share", () => {
+    const order = OrderBuilder.coveredCall("AAPL", "AAPL  240119C00185000", 2, 0);
+
+    const estimate = estimateNetPrice(order, quotes);
+
+    expect(estimate.price).toBe(176.32);
+    expect(estimate.orderType).toBe("NET_DEBIT");
+  });
+
+  it("reports legs without a usable quote", () => {
+    const order = OrderBuilder.straddle(
+      "AAPL  240119C00190000",
+      "AAPL  240119P00190000",
+      1,
+      0
+    );
+
+    const estimate = estimateNetPrice(
+      order,
+      new Map([["AAPL  240119P00190000", { bid: 0, ask: 0.05 }]])
+    );
+
+    expect(estimate.price).toBeUndefined();
+    expect(estimate.missing).toEqual([
+      "AAPL  240119C00190000",
+      "AAPL  240119P00190000",
+    ]);
+  });
+});
+
+describe("netPriceType", () => {
+  const ratio = (priceType: "NET_DEBIT" | "NET_CREDIT") =>
+    OrderBuilder.ratioSpread(
+      "AAPL  240119C00175000",
+      "AAPL  240119C00185000",
+      1,
+      2,
+      0,
+      priceType
+    );
+
+  it("takes the chain's side when the caller gives none", () => {
+    // 5.30 - 2 * 2.20
+    const estimate = estimateNetPrice(ratio("NET_DEBIT"), quotes);
+    expect(estimate.orderType).toBe("NET_DEBIT");
+    expect(netPriceType(estimate)).toBe("NET_DEBIT");
+    expect(netPriceType({ legs: [], missing: [] })).toBeUndefined();
+  });
+
+  it("refuses a side the chain contradicts", () => {
+    const estimate = estimateNetPrice(ratio("NET_CREDIT"), quotes);
+    expect(netPriceType(estimate, "NET_DEBIT")).toBe("NET_DEBIT");
+    expect(() => netPriceType(estimate, "NET_CREDIT")).toThrow(
+      "The chain prices this spread as a NET_DEBIT of 0.90, not a NET_CREDIT"
+    );
+  });
+});
+
+describe("fetchLegQuotes", () => {
+  it("quotes option legs from the chain and stock legs from quotes", async () => {
+    const order = {
+      orderLegCollection: [
+        { instrument: { symbol: "AAPL" } },
+        { instrument: { symbol: "AAPL  240119C00175000" } },
+        { instrument: { symbol: "AAPL  240119C00195000" } },
+      ],
+    };
+
+    const legQuotes = await Effect.runPromise(
+      fetchLegQuotes(order).pipe(
+        Effect.provide(
+          Layer.merge(
+            OptionChainServiceTest({ optionChain: mockOptionChain }),
+            QuoteServiceTest(mockQuotes)
+          )
+        )
+      )
+    );
+
+    expect(legQuotes.get("AAPL")).toEqual({ bid: 178.5, ask: 178.55 });
+    expect(legQuotes.get("AAPL  240119C00175000")).toEqual({ bid: 5.2, ask: 5.4 });
+    expect(legQuotes.has("AAPL  240119C00195000")).toBe(false);
+  });
+});
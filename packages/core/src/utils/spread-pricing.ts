@@ -0,0 +1,182 @@
+/**
+ * Net price estimation for multi-leg orders
+ *
+ * Prices a spread from the bid/ask midpoint of each leg, the same way a
+ * trader would read it off the chain: legs bought add to the debit, legs
+ * sold reduce it. The result is quoted per unit of the strategy (e.g. per
+ * 1x2x1 butterfly), matching how Schwab expects NET_DEBIT / NET_CREDIT prices.
+ */
+
+import { Effect } from "effect";
+import { isOptionSymbol } from "./option-symbol.js";
+import { OptionChainService, QuoteService } from "../services/index.js";
+import { bypassCache } from "../services/http-cache.js";
+import type { OrderInstruction } from "../schemas/primitives.js";
+
+export interface LegQuote {
+  bid: number;
+  ask: number;
+}
+
+export interface LegPriceEstimate {
+  symbol: string;
+  instruction: OrderInstruction;
+  quantity: number;
+  mid?: number;
+}
+
+export type NetPriceType = "NET_DEBIT" | "NET_CREDIT";
+
+export interface NetPriceEstimate {
+  /** Net price per strategy unit, always positive; undefined if any leg has no quote */
+  price?: number;
+  orderType?: NetPriceType | "NET_ZERO";
+  legs: LegPriceEstimate[];
+  /** Symbols with no usable quote */
+  missing: string[];
+}
+
+const SHARES_PER_CONTRACT = 100;
+
+const BUY_INSTRUCTIONS: ReadonlySet<OrderInstruction> = new Set([
+  "BUY",
+  "BUY_TO_OPEN",
+  "BUY_TO_CLOSE",
+  "BUY_TO_COVER",
+]);
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/**
+ * How many of each leg make up one unit of the strategy. One unit is the
+ * greatest common divisor of the option quantities; stock legs count in
+ * round lots of 100 shares per contract (a 2-contract covered call is
+ * [1 stock lot, 1 call] per unit).
+ */
+export function strategyLegWeights(order: {
+  readonly orderLegCollection: readonly {
+    readonly quantity: number;
+    readonly instrument: { readonly symbol: string };
+  }[];
+}): number[] {
+  const contractQuantities = order.orderLegCollection.map((leg) =>
+    isOptionSymbol(leg.instrument.symbol)
+      ? leg.quantity
+      : leg.quantity / SHARES_PER_CONTRACT
+  );
+  if (contractQuantities.length === 0) {
+    return [];
+  }
+  const unit = contractQuantities.every(Number.isInteger)
+    ? contractQuantities.reduce(gcd)
+    : Math.min(...contractQuantities);
+  return contractQuantities.map((quantity) => quantity / unit);
+}
+
+/**
+ * Round a price to the cent
+ */
+function roundPrice(price: number): number {
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Estimate the net price of a multi-leg order from leg quotes keyed by symbol.
+ * Takes an order being built or one read back from Schwab.
+ */
+export function estimateNetPrice(
+  order: {
+    readonly orderLegCollection: readonly {
+      readonly instruction: OrderInstruction;
+      readonly quantity: number;
+      readonly instrument: { readonly symbol: string };
+    }[];
+  },
+  quotes: ReadonlyMap<string, LegQuote>
+): NetPriceEstimate {
+  const legs: LegPriceEstimate[] = order.orderLegCollection.map((leg) => {
+    const quote = quotes.get(leg.instrument.symbol);
+    const usable = quote !== undefined && quote.bid > 0 && quote.ask > 0;
+    return {
+      symbol: leg.instrument.symbol,
+      instruction: leg.instruction,
+      quantity: leg.quantity,
+      mid: usable ? (quote.bid + quote.ask) / 2 : undefined,
+    };
+  });
+
+  const missing = legs.filter((leg) => leg.mid === undefined).map((leg) => leg.symbol);
+  if (missing.length > 0 || legs.length === 0) {
+    return { legs, missing };
+  }
+
+  const weights = strategyLegWeights(order);
+  const debit = legs.reduce((total, leg, index) => {
+    const sign = BUY_INSTRUCTIONS.has(leg.instruction) ? 1 : -1;
+    return total + sign * leg.mid! * weights[index];
+  }, 0);
+
+  const price = roundPrice(Math.abs(debit));
+  return {
+    price,
+    orderType: price === 0 ? "NET_ZERO" : debit > 0 ? "NET_DEBIT" : "NET_CREDIT",
+    legs,
+    missing,
+  };
+}
+
+/**
+ * Whether a spread is priced as a debit or a credit. The chain decides unless
+ * the caller asked for one side; when the chain prices it on the other side,
+ * this throws rather than let an order pay where it should collect.
+ */
+export function netPriceType(
+  estimate: NetPriceEstimate,
+  requested?: NetPriceType
+): NetPriceType | undefined {
+  const chain = estimate.orderType === "NET_ZERO" ? undefined : estimate.orderType;
+  if (requested !== undefined && chain !== undefined && chain !== requested) {
+    throw new Error(
+      `The chain prices this spread as a ${chain} of ${estimate.price!.toFixed(2)}, ` +
+        `not a ${requested}`
+    );
+  }
+  return requested ?? chain;
+}
+
+/**
+ * Fetch live bid/ask for every leg of an order: option legs from the chain,
+ * stock legs from quotes. Keyed by the order's leg symbols, for estimateNetPrice.
+ * Both reads skip the response cache, so orders are priced off fresh quotes.
+ */
+export const fetchLegQuotes = (order: {
+  readonly orderLegCollection: readonly { readonly instrument: { readonly symbol: string } }[];
+}) =>
+  Effect.gen(function* () {
+    const optionService = yield* OptionChainService;
+    const quoteService = yield* QuoteService;
+    const symbols = order.orderLegCollection.map((leg) => leg.instrument.symbol);
+    const optionSymbols = symbols.filter(isOptionSymbol);
+    const stockSymbols = symbols.filter((symbol) => !isOptionSymbol(symbol));
+
+    const contracts =
+      optionSymbols.length > 0 ? yield* optionService.getContracts(optionSymbols) : [];
+    const stockQuotes =
+      stockSymbols.length > 0 ? yield* quoteService.getQuotes(stockSymbols) : [];
+
+    // Chain symbols may be padded differently from the leg symbols
+    const bySymbol = new Map(symbols.map((symbol) => [symbol.replace(/\s+/g, ""), symbol]));
+    const quotes = new Map<string, LegQuote>();
+    for (const contract of contracts) {
+      const symbol = bySymbol.get(contract.symbol.replace(/\s+/g, ""));
+      if (symbol) {
+        quotes.set(symbol, { bid: contract.bid, ask: contract.ask });
+      }
+    }
+    for (const quote of stockQuotes) {
+      quotes.set(quote.symbol, { bid: quote.bidPrice, ask: quote.askPrice });
+    }
+    return quotes as ReadonlyMap<string, LegQuote>;
+  }).pipe(bypassCache);
@@ -0,0 +1,638 @@
+/**
+ * In-process fake of the Schwab API for integration tests.
+ *
+ * Serves `/v1/oauth/token`, `/trader/v1` and `/marketdata/v1` from the shared
+ * fixtures so the live HttpClient, RateLimiter and TokenManager layers can run
+ * end to end without network access. Point `baseUrl` and `tokenUrl` at
+ * `server.url` and `server.tokenUrl`.
+ *
+ * `/ws` speaks the Streamer protocol: LOGIN checks the access token, SUBS and
+ * ADD on LEVELONE_EQUITIES and LEVELONE_OPTIONS answer with a snapshot from
+ * the quote and option chain fixtures, and tests push further data with
+ * `server.streamer.push`.
+ */
+import {
+  mockSchwabAccountNumbersResponse,
+  mockSchwabAccountResponse,
+  mockSchwabTransactionsResponse,
+} from "./fixtures/accounts.js";
+import { mockSchwabQuoteResponse } from "./fixtures/quotes.js";
+import { mockSchwabOptionChainResponse } from "./fixtures/options.js";
+import {
+  mockSchwabOrderResponse,
+  mockSchwabOrdersResponse,
+} from "./fixtures/orders.js";
+
+export interface FakeResponse {
+  readonly status?: number;
+  readonly headers?: Record<string, string>;
+  readonly body?: unknown;
+}
+
+export interface RecordedRequest {
+  readonly method: string;
+  readonly path: string;
+  readonly query: URLSearchParams;
+  readonly headers: Headers;
+  readonly body?: unknown;
+  /** Epoch ms when the server received the request */
+  readonly receivedAt: number;
+}
+
+export interface FakeStreamerRequest {
+  readonly service: string;
+  readonly command: string;
+  readonly requestid: string;
+  readonly parameters?: Record<string, string>;
+}
+
+export interface FakeStreamer {
+  /** Every request received over streamer sockets, in order */
+  readonly requests: FakeStreamerRequest[];
+  /** Sockets opened so far */
+  readonly connections: () => number;
+  /** Send a data message to every logged-in socket subscribed to the service */
+  readonly push: (service: string, content: readonly Record<string, unknown>[]) => void;
+  /** Close every open socket, as if the network dropped */
+  readonly disconnectAll: () => void;
+  /** Answer every LOGIN with code 3 (login denied) */
+  readonly denyLogins: () => void;
+}
+
+export interface FakeSchwabServerOptions {
+  /** Access token accepted before any refresh (default: the test layer token) */
+  readonly accessToken?: string;
+  /** Lifetime reported for issued access tokens, in seconds */
+  readonly expiresIn?: number;
+}
+
+export interface FakeSchwabServer {
+  /** Base URL for `baseUrl` */
+  readonly url: string;
+  /** OAuth token endpoint for `tokenUrl` */
+  readonly tokenUrl: string;
+  /** Every request received, in order */
+  readonly requests: RecordedRequest[];
+  /**
+   * Queue one-shot responses for `METHOD /path`. Each matching request
+   * consumes the next one before falling back to the fixture route.
+   */
+  readonly enqueue: (method: string, path: string, ...responses: FakeResponse[]) => void;
+  /** Stop accepting the given access token, as if Schwab revoked it */
+  readonly revokeToken: (accessToken: string) => void;
+  readonly streamer: FakeStreamer;
+  readonly stop: () => void;
+}
+
+interface StreamerSocketData {
+  loggedIn: boolean;
+  readonly subscriptions: Map<string, Set<string>>;
+}
+
+type RouteHandler = (
+  match: RegExpMatchArray,
+  request: RecordedRequest
+) => FakeResponse;
+
+interface Route {
+  readonly method: string;
+  readonly pattern: RegExp;
+  readonly handle: RouteHandler;
+}
+
+const knownAccountHashes = new Set(
+  mockSchwabAccountNumbersResponse.map((account) => account.hashValue)
+);
+
+const notFound = (message: string): FakeResponse => ({
+  status: 404,
+  body: { error: "Not Found", error_description: message },
+});
+
+const withAccount = (hash: string, handle: () => FakeResponse): FakeResponse =>
+  knownAccountHashes.has(decodeURIComponent(hash))
+    ? handle()
+    : notFound(`Unknown account ${hash}`);
+
+const quotesFor = (symbols: readonly string[]) => {
+  const fixtures = mockSchwabQuoteResponse as Record<string, unknown>;
+  return Object.fromEntries(
+    symbols
+      .map((symbol) => symbol.trim().toUpperCase())
+      .filter((symbol) => symbol in fixtures)
+      .map((symbol) => [symbol, fixtures[symbol]])
+  );
+};
+
+/**
+ * Daily candles walking up from the fixture close, one per day ending today
+ */
+const candlesFor = (symbol: string) => {
+  const fixture = (mockSchwabQuoteResponse as Record<string, { quote: { closePrice: number } }>)[
+    symbol.toUpperCase()
+  ];
+  if (!fixture) {
+    return [];
+  }
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return Array.from({ length: 5 }, (_, index) => {
+    const close = fixture.quote.closePrice + index;
+    return {
+      open: close - 0.5,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1_000_000 + index * 1000,
+      datetime: today.getTime() - (4 - index) * 24 * 60 * 60 * 1000,
+    };
+  });
+};
+
+/**
+ * LEVELONE_EQUITIES snapshot fields for a fixture quote
+ */
+const levelOneSnapshot = (symbol: string): Record<string, unknown> | undefined => {
+  const fixtures = mockSchwabQuoteResponse as Record<
+    string,
+    { quote: Record<string, unknown> } | undefined
+  >;
+  const fixture = fixtures[symbol];
+  if (!fixture) {
+    return undefined;
+  }
+  const { quote } = fixture;
+  return {
+    key: symbol,
+    delayed: false,
+    "0": symbol,
+    "1": quote.bidPrice,
+    "2": quote.askPrice,
+    "3": quote.lastPrice,
+    "4": quote.bidSize,
+    "5": quote.askSize,
+    "8": quote.totalVolume,
+    "9": quote.lastSize,
+    "10": quote.highPrice,
+    "11": quote.lowPrice,
+    "12": quote.closePrice,
+    "17": quote.openPrice,
+    "18": quote.netChange,
+    "33": quote.mark,
+    "34": quote.quoteTime,
+    "35": quote.tradeTime,
+    "42": quote.netPercentChange,
+  };
+};
+
+/**
+ * LEVELONE_OPTIONS snapshot fields for a fixture option contract
+ */
+const levelOneOptionSnapshot = (symbol: string): Record<string, unknown> | undefined => {
+  const contract = [
+    ...Object.values(mockSchwabOptionChainResponse.callExpDateMap),
+    ...Object.values(mockSchwabOptionChainResponse.putExpDateMap),
+  ]
+    .flatMap((strikes) => Object.values(strikes).flat())
+    .find((candidate) => candidate.symbol === symbol);
+  if (!contract) {
+    return undefined;
+  }
+  return {
+    key: symbol,
+    delayed: false,
+    "0": symbol,
+    "1": contract.description,
+    "2": contract.bid,
+    "3": contract.ask,
+    "4": contract.last,
+    "8": contract.totalVolume,
+    "9": contract.openInterest,
+    "10": contract.volatility,
+    "11": contract.intrinsicValue,
+    "13": contract.multiplier,
+    "16": contract.bidSize,
+    "17": contract.askSize,
+    "25": contract.timeValue,
+    "27": contract.daysToExpiration,
+    "28": contract.delta,
+    "29": contract.gamma,
+    "30": contract.theta,
+    "31": contract.vega,
+    "32": contract.rho,
+    "34": contract.theoreticalOptionValue,
+    "35": mockSchwabOptionChainResponse.underlyingPrice,
+    "37": contract.mark,
+    "38": contract.quoteTimeInLong,
+  };
+};
+
+const STREAMER_SNAPSHOTS: Record<
+  string,
+  (symbol: string) => Record<string, unknown> | undefined
+> = {
+  LEVELONE_EQUITIES: levelOneSnapshot,
+  LEVELONE_OPTIONS: levelOneOptionSnapshot,
+};
+
+export const startFakeSchwabServer = (
+  options: FakeSchwabServerOptions = {}
+): FakeSchwabServer => {
+  const requests: RecordedRequest[] = [];
+  const queued = new Map<string, FakeResponse[]>();
+  const validTokens = new Set([options.accessToken ?? "test-access-token"]);
+  let tokenCounter = 0;
+  let nextOrderId = 2000001;
+
+  const issueTokens = (): FakeResponse => {
+    tokenCounter += 1;
+    const accessToken = `fake-access-token-${tokenCounter}`;
+    validTokens.add(accessToken);
+    return {
+      body: {
+        access_token: accessToken,
+        refresh_token: `fake-refresh-token-${tokenCounter}`,
+        expires_in: options.expiresIn ?? 1800,
+        refresh_token_expires_in: 604800,
+        scope: "api",
+        token_type: "Bearer",
+        id_token: "fake-id-token",
+      },
+    };
+  };
+
+  const created = (path: string, orderId: number): FakeResponse => ({
+    status: 201,
+    headers: { Location: `${server.url.toString().replace(/\/$/, "")}${path}/${orderId}` },
+  });
+
+  const routes: Route[] = [
+    {
+      method: "POST",
+      pattern: /^\/v1\/oauth\/token$/,
+      handle: (_, request) => {
+        const form = request.body as URLSearchParams | undefined;
+        if (!request.headers.get("authorization")?.startsWith("Basic ")) {
+          return { status: 401, body: { error: "invalid_client" } };
+        }
+        const grantType = form?.get("grant_type");
+        if (grantType === "refresh_token" && form?.get("refresh_token")) {
+          return issueTokens();
+        }
+        if (grantType === "authorization_code" && form?.get("code")) {
+          return issueTokens();
+        }
+        return {
+          status: 400,
+          body: { error: "invalid_request", error_description: "Unsupported grant" },
+        };
+      },
+    },
+
+    // Trader API
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts\/accountNumbers$/,
+      handle: () => ({ body: mockSchwabAccountNumbersResponse }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts$/,
+      handle: () => ({ body: [mockSchwabAccountResponse] }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)$/,
+      handle: ([, hash]) => withAccount(hash, () => ({ body: mockSchwabAccountResponse })),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/transactions$/,
+      handle: ([, hash]) =>
+        withAccount(hash, () => ({ body: mockSchwabTransactionsResponse })),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/transactions\/([^/]+)$/,
+      handle: ([, hash, id]) =>
+        withAccount(hash, () => {
+          const tx = mockSchwabTransactionsResponse.find(
+            (item) => String(item.activityId) === id
+          );
+          return tx ? { body: tx } : notFound(`Unknown transaction ${id}`);
+        }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/orders$/,
+      handle: ([, hash]) => withAccount(hash, () => ({ body: mockSchwabOrdersResponse })),
+    },
+    {
+      method: "POST",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/orders$/,
+      handle: ([path, hash]) => withAccount(hash, () => created(path, nextOrderId++)),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/orders\/(\d+)$/,
+      handle: ([, hash, orderId]) =>
+        withAccount(hash, () => ({
+          body: { ...mockSchwabOrderResponse, orderId: Number(orderId) },
+        })),
+    },
+    {
+      method: "PUT",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/orders\/(\d+)$/,
+      handle: ([path, hash]) =>
+        withAccount(hash, () =>
+          created(path.replace(/\/\d+$/, ""), nextOrderId++)
+        ),
+    },
+    {
+      method: "DELETE",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/orders\/(\d+)$/,
+      handle: ([, hash]) => withAccount(hash, () => ({ status: 200 })),
+    },
+    {
+      method: "POST",
+      pattern: /^\/trader\/v1\/accounts\/([^/]+)\/previewOrder$/,
+      handle: ([, hash], request) =>
+        withAccount(hash, () => ({ body: { orderId: 0, orderStrategy: request.body } })),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/orders$/,
+      handle: () => ({ body: mockSchwabOrdersResponse }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/trader\/v1\/userPreference$/,
+      handle: () => ({
+        body: [
+          {
+            accounts: mockSchwabAccountNumbersResponse.map((account, index) => ({
+              accountNumber: account.accountNumber,
+              primaryAccount: index === 0,
+              type: "BROKERAGE",
+            })),
+            streamerInfo: [
+              {
+                streamerSocketUrl: `${server.url.toString().replace(/^http/, "ws").replace(/\/$/, "")}/ws`,
+                schwabClientCustomerId: "fake-customer-id",
+                schwabClientCorrelId: "fake-correl-id",
+                schwabClientChannel: "N9",
+                schwabClientFunctionId: "APIAPP",
+              },
+            ],
+            offers: [{ level2Permissions: true, mktDataPermission: "NP" }],
+          },
+        ],
+      }),
+    },
+
+    // Market data API
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/quotes$/,
+      handle: (_, request) => {
+        const symbols = (request.query.get("symbols") ?? "").split(",");
+        // Schwab refuses the whole request over one malformed symbol
+        const malformed = symbols.find((symbol) => /[^A-Za-z0-9 .$/_-]/.test(symbol));
+        return malformed
+          ? {
+              status: 400,
+              body: { error: "Bad Request", error_description: `Invalid symbol ${malformed}` },
+            }
+          : { body: quotesFor(symbols) };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/([^/]+)\/quotes$/,
+      handle: ([, symbol]) => ({ body: quotesFor([decodeURIComponent(symbol)]) }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/chains$/,
+      handle: (_, request) =>
+        request.query.get("symbol")?.toUpperCase() === mockSchwabOptionChainResponse.symbol
+          ? { body: mockSchwabOptionChainResponse }
+          : { body: { symbol: request.query.get("symbol"), status: "FAILED" } },
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/expirationchain$/,
+      handle: () => ({ body: { expirationList: [] } }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/pricehistory$/,
+      handle: (_, request) => {
+        const symbol = (request.query.get("symbol") ?? "").toUpperCase();
+        const candles = candlesFor(symbol);
+        return { body: { symbol, empty: candles.length === 0, candles } };
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/markets(?:\/[^/]+)?$/,
+      handle: () => ({ body: {} }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/movers\/([^/]+)$/,
+      handle: () => ({ body: { screeners: [] } }),
+    },
+    {
+      method: "GET",
+      pattern: /^\/marketdata\/v1\/instruments(?:\/[^/]+)?$/,
+      handle: () => ({ body: { instruments: [] } }),
+    },
+  ];
+
+  const respond = ({ status = 200, headers = {}, body }: FakeResponse): Response =>
+    body === undefined
+      ? new Response(null, { status, headers })
+      : new Response(JSON.stringify(body), {
+          status,
+          headers: { "Content-Type": "application/json", ...headers },
+        });
+
+  const streamerRequests: FakeStreamerRequest[] = [];
+  const sockets = new Set<import("bun").ServerWebSocket<StreamerSocketData>>();
+  let streamerConnections = 0;
+  let loginsDenied = false;
+
+  const sendStreamer = (
+    socket: import("bun").ServerWebSocket<StreamerSocketData>,
+    message: unknown
+  ) => socket.send(JSON.stringify(message));
+
+  const handleStreamerRequest = (
+    socket: import("bun").ServerWebSocket<StreamerSocketData>,
+    request: FakeStreamerRequest
+  ) => {
+    streamerRequests.push(request);
+    const reply = (code: number, msg: string) =>
+      sendStreamer(socket, {
+        response: [
+          {
+            service: request.service,
+            command: request.command,
+            requestid: request.requestid,
+            SchwabClientCorrelId: "fake-correl-id",
+            timestamp: Date.now(),
+            content: { code, msg },
+          },
+        ],
+      });
+
+    if (request.command === "LOGIN") {
+      socket.data.loggedIn =
+        !loginsDenied && validTokens.has(request.parameters?.Authorization ?? "");
+      reply(socket.data.loggedIn ? 0 : 3, socket.data.loggedIn ? "server=fake" : "Login denied");
+      return;
+    }
+    if (!socket.data.loggedIn) {
+      reply(20, "Not logged in");
+      return;
+    }
+    if (request.command === "LOGOUT") {
+      reply(0, "Logged out");
+      socket.close(1000, "Logged out");
+      return;
+    }
+
+    const keys = (request.parameters?.keys ?? "").split(",").filter(Boolean);
+    const subscribed = socket.data.subscriptions.get(request.service) ?? new Set<string>();
+    if (request.command === "SUBS") {
+      subscribed.clear();
+    }
+    if (request.command === "SUBS" || request.command === "ADD") {
+      keys.forEach((key) => subscribed.add(key));
+    }
+    if (request.command === "UNSUBS") {
+      keys.forEach((key) => subscribed.delete(key));
+    }
+    socket.data.subscriptions.set(request.service, subscribed);
+    reply(0, `${request.command} command succeeded`);
+
+    const snapshot = STREAMER_SNAPSHOTS[request.service];
+    if (snapshot && (request.command === "SUBS" || request.command === "ADD")) {
+      const content = keys
+        .map(snapshot)
+        .filter((entry): entry is Record<string, unknown> => entry !== undefined);
+      if (content.length > 0) {
+        sendStreamer(socket, {
+          data: [{ service: request.service, timestamp: Date.now(), command: "SUBS", content }],
+        });
+      }
+    }
+  };
+
+  const server = Bun.serve<StreamerSocketData>({
+    port: 0,
+    hostname: "127.0.0.1",
+    websocket: {
+      open: (socket) => {
+        streamerConnections += 1;
+        sockets.add(socket);
+      },
+      message: (socket, message) => {
+        const { requests: batch } = JSON.parse(String(message)) as {
+          requests: FakeStreamerRequest[];
+        };
+        batch.forEach((request) => handleStreamerRequest(socket, request));
+      },
+      close: (socket) => {
+        sockets.delete(socket);
+      },
+    },
+    fetch: async (raw, bunServer) => {
+      const url = new URL(raw.url);
+      if (url.pathname === "/ws") {
+        return bunServer.upgrade(raw, {
+          data: { loggedIn: false, subscriptions: new Map() },
+        })
+          ? undefined
+          : new Response("Upgrade failed", { status: 400 });
+      }
+      const text = await raw.text();
+      const isForm = raw.headers
+        .get("content-type")
+        ?.includes("application/x-www-form-urlencoded");
+      const request: RecordedRequest = {
+        method: raw.method,
+        path: url.pathname,
+        query: url.searchParams,
+        headers: raw.headers,
+        body: text ? (isForm ? new URLSearchParams(text) : JSON.parse(text)) : undefined,
+        receivedAt: Date.now(),
+      };
+      requests.push(request);
+
+      const key = `${request.method} ${request.path}`;
+      const next = queued.get(key)?.shift();
+      if (next) {
+        return respond(next);
+      }
+
+      if (!request.path.startsWith("/v1/oauth/")) {
+        const token = request.headers.get("authorization")?.replace(/^Bearer /, "");
+        if (!token || !validTokens.has(token)) {
+          return respond({ status: 401, body: { error: "invalid_token" } });
+        }
+      }
+
+      for (const route of routes) {
+        if (route.method !== request.method) {
+          continue;
+        }
+        const match = request.path.match(route.pattern);
+        if (match) {
+          return respond(route.handle(match, request));
+        }
+      }
+      return respond(notFound(`No fake route for ${key}`));
+    },
+  });
+
+  const baseUrl = server.url.toString().replace(/\/$/, "");
+
+  return {
+    url: baseUrl,
+    tokenUrl: `${baseUrl}/v1/oauth/token`,
+    requests,
+    enqueue: (method, path, ...responses) => {
+      const key = `${method.toUpperCase()} ${path}`;
+      queued.set(key, [...(queued.get(key) ?? []), ...responses]);
+    },
+    revokeToken: (accessToken) => {
+      validTokens.delete(accessToken);
+    },
+    streamer: {
+      requests: streamerRequests,
+      connections: () => streamerConnections,
+      push: (service, content) => {
+        for (const socket of sockets) {
+          const subscribed = socket.data.subscriptions.get(service);
+          const matching = content.filter((entry) => subscribed?.has(String(entry.key)));
+          if (socket.data.loggedIn && matching.length > 0) {
+            sendStreamer(socket, {
+              data: [{ service, timestamp: Date.now(), command: "SUBS", content: matching }],
+            });
+          }
+        }
+      },
+      disconnectAll: () => {
+        for (const socket of sockets) {
+          socket.close(1011, "Fake network drop");
+        }
+      },
+      denyLogins: () => {
+        loginsDenied = true;
+      },
+    },
+    stop: () => server.stop(true),
+  };
+};
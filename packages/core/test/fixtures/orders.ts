@@ -192,3 +192,99 @@ export const mockOrderRejectedResponse = {
   error: "Order rejected",
   message: "Insufficient buying power",
 };
+
+/**
+ * Mock Schwab API response for a TRIGGER order whose child is an OCO
+ * take-profit / stop-loss pair
+ */
+export const mockSchwabTriggerOrderResponse = {
+  session: "NORMAL",
+  duration: "DAY",
+  orderType: "LIMIT",
+  price: 175.00,
+  orderLegCollection: [
+    {
+      orderLegType: "EQUITY",
+      legId: 1,
+      instrument: {
+        assetType: "EQUITY",
+        symbol: "AAPL",
+      },
+      instruction: "BUY",
+      quantity: 100,
+    },
+  ],
+  orderStrategyType: "TRIGGER",
+  orderId: 2000001,
+  cancelable: false,
+  editable: false,
+  status: "FILLED",
+  enteredTime: "2024-01-15T10:30:00+0000",
+  closeTime: "2024-01-15T10:31:00+0000",
+  accountNumber: 12345678,
+  filledQuantity: 100,
+  remainingQuantity: 0,
+  childOrderStrategies: [
+    {
+      orderStrategyType: "OCO",
+      orderId: 2000002,
+      cancelable: true,
+      editable: false,
+      status: "WORKING",
+      enteredTime: "2024-01-15T10:30:00+0000",
+      accountNumber: 12345678,
+      childOrderStrategies: [
+        {
+          session: "NORMAL",
+          duration: "GOOD_TILL_CANCEL",
+          orderType: "LIMIT",
+          price: 190.00,
+          orderLegCollection: [
+            {
+              orderLegType: "EQUITY",
+              legId: 1,
+              instrument: {
+                assetType: "EQUITY",
+                symbol: "AAPL",
+              },
+              instruction: "SELL",
+              quantity: 100,
+            },
+          ],
+          orderStrategyType: "SINGLE",
+          orderId: 2000003,
+          cancelable: true,
+          editable: true,
+          status: "WORKING",
+          enteredTime: "2024-01-15T10:30:00+0000",
+          accountNumber: 12345678,
+        },
+        {
+          session: "NORMAL",
+          duration: "GOOD_TILL_CANCEL",
+          orderType: "STOP",
+          stopPrice: 165.00,
+          orderLegCollection: [
+            {
+              orderLegType: "EQUITY",
+              legId: 1,
+              instrument: {
+                assetType: "EQUITY",
+                symbol: "AAPL",
+              },
+              instruction: "SELL",
+              quantity: 100,
+            },
+          ],
+          orderStrategyType: "SINGLE",
+          orderId: 2000004,
+          cancelable: true,
+          editable: true,
+          status: "AWAITING_STOP_CONDITION",
+          enteredTime: "2024-01-15T10:30:00+0000",
+          accountNumber: 12345678,
+        },
+      ],
+    },
+  ],
+};
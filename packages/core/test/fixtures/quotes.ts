@@ -5,6 +5,7 @@ import type { Quote } from "../../src/schemas/index.js";
 
 export const mockQuotes: readonly Quote[] = [
   {
+    assetType: "EQUITY",
     symbol: "AAPL",
     bidPrice: 178.50,
     askPrice: 178.55,
@@ -23,6 +24,7 @@ export const mockQuotes: readonly Quote[] = [
     description: "Apple Inc",
   },
   {
+    assetType: "EQUITY",
     symbol: "MSFT",
     bidPrice: 380.00,
     askPrice: 380.10,
@@ -41,6 +43,7 @@ export const mockQuotes: readonly Quote[] = [
     description: "Microsoft Corporation",
   },
   {
+    assetType: "EQUITY",
     symbol: "TSLA",
     bidPrice: 220.00,
     askPrice: 220.15,
@@ -85,7 +88,10 @@ export const mockSchwabQuoteResponse = {
       netChange: 2.50,
       netPercentChange: 1.42,
       openPrice: 176.00,
+      postMarketChange: 0.35,
+      postMarketPercentChange: 0.2,
       quoteTime: 1705344000000,
+      securityStatus: "Normal",
       totalVolume: 52000000,
       tradeTime: 1705343998000,
     },
@@ -95,6 +101,39 @@ export const mockSchwabQuoteResponse = {
       exchange: "NASDAQ",
       exchangeName: "NASDAQ",
     },
+    fundamental: {
+      avg10DaysVolume: 54100000,
+      avg1YearVolume: 57300000,
+      declarationDate: "2024-02-01T00:00:00Z",
+      divAmount: 0.96,
+      divExDate: "2024-02-09T00:00:00Z",
+      divFreq: 4,
+      divPayAmount: 0.24,
+      divPayDate: "2024-02-15T00:00:00Z",
+      divYield: 0.54,
+      eps: 6.13,
+      nextDivExDate: "",
+      peRatio: 29.12,
+    },
+    extended: {
+      askPrice: 178.9,
+      askSize: 300,
+      bidPrice: 178.8,
+      bidSize: 100,
+      lastPrice: 178.87,
+      lastSize: 25,
+      mark: 178.87,
+      quoteTime: 1705359600000,
+      totalVolume: 1250000,
+      tradeTime: 1705359590000,
+    },
+    regular: {
+      regularMarketLastPrice: 178.52,
+      regularMarketLastSize: 1500,
+      regularMarketNetChange: 2.5,
+      regularMarketPercentChange: 1.42,
+      regularMarketTradeTime: 1705352400000,
+    },
   },
   MSFT: {
     assetMainType: "EQUITY",
@@ -124,6 +163,112 @@ export const mockSchwabQuoteResponse = {
       exchange: "NASDAQ",
     },
   },
+  $SPX: {
+    assetMainType: "INDEX",
+    realtime: true,
+    ssid: 1819771877,
+    symbol: "$SPX",
+    quote: {
+      "52WeekHigh": 4802.4,
+      "52WeekLow": 3808.86,
+      closePrice: 4783.83,
+      highPrice: 4802.4,
+      lastPrice: 4765.98,
+      lowPrice: 4748.71,
+      netChange: -17.85,
+      netPercentChange: -0.3731,
+      openPrice: 4772.35,
+      securityStatus: "Unknown",
+      totalVolume: 0,
+      tradeTime: 1705352400000,
+    },
+    reference: {
+      description: "S&P 500 INDEX",
+      exchange: "$",
+      exchangeName: "Index",
+    },
+  },
+  "/ES": {
+    assetMainType: "FUTURE",
+    realtime: true,
+    ssid: 0,
+    symbol: "/ESH24",
+    quote: {
+      askPrice: 4790.25,
+      askSize: 23,
+      bidPrice: 4790,
+      bidSize: 31,
+      closePrice: 4803.5,
+      futurePercentChange: -0.0028,
+      highPrice: 4812.75,
+      lastPrice: 4790,
+      lastSize: 1,
+      lowPrice: 4785.5,
+      mark: 4790,
+      netChange: -13.5,
+      openInterest: 2251234,
+      openPrice: 4803.25,
+      quoteTime: 1705352400000,
+      quotedInSession: false,
+      securityStatus: "Normal",
+      settleTime: 1705352400000,
+      tick: 0.25,
+      tickAmount: 12.5,
+      totalVolume: 1120033,
+      tradeTime: 1705352399000,
+    },
+    reference: {
+      description: "E-mini S&P 500 Index Futures,Mar-2024,ETH",
+      exchange: "@",
+      exchangeName: "XCME",
+      futureActiveSymbol: "/ESH24",
+      futureExpirationDate: 1710475200000,
+      futureIsActive: true,
+      futureMultiplier: 50,
+      futurePriceFormat: "D,D",
+      futureSettlementPrice: 4803.5,
+      futureTradingHours: "GLBX(de=1640;0=-1700151515301600;1=r-17001600d-15551640;7=d-16401555)",
+      product: "/ES",
+    },
+  },
+  "EUR/USD": {
+    assetMainType: "FOREX",
+    realtime: true,
+    ssid: 0,
+    symbol: "EUR/USD",
+    quote: {
+      "52WeekHigh": 1.1276,
+      "52WeekLow": 1.0448,
+      askPrice: 1.09513,
+      askSize: 1000000,
+      bidPrice: 1.09499,
+      bidSize: 1000000,
+      closePrice: 1.09513,
+      highPrice: 1.09739,
+      lastPrice: 1.09506,
+      lastSize: 0,
+      lowPrice: 1.09413,
+      mark: 1.09506,
+      netChange: -0.00007,
+      netPercentChange: -0.0064,
+      openPrice: 1.0951,
+      quoteTime: 1705352400000,
+      securityStatus: "Unknown",
+      tick: 0.00001,
+      tickAmount: 1,
+      totalVolume: 0,
+      tradeTime: 1705352400000,
+    },
+    reference: {
+      description: "Euro/USDollar Spot",
+      exchange: "T",
+      exchangeName: "GFT",
+      isTradable: false,
+      marketMaker: "",
+      product: "",
+      tradingHours: "",
+    },
+  },
 };
 
 /**
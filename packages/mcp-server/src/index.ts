@@ -11,6 +11,17 @@ import { accountTools, handleAccountTool } from './tools/accounts.js';
 import { marketDataTools, handleMarketDataTool } from './tools/market-data.js';
 import { optionTools, handleOptionTool } from './tools/options.js';
 import { orderTools, handleOrderTool } from './tools/orders.js';
+import { keepSchwabServices } from '@schwab-tools/core';
+
+// `--paper` routes order and account tools to the local paper trading ledger;
+// config resolution reads the environment on every tool call
+if (process.argv.includes('--paper')) {
+  process.env.SCHWAB_PAPER_TRADING = '1';
+}
+
+// Tool calls share one set of services, so the response cache, in-flight
+// request sharing and quote batching carry from call to call
+keepSchwabServices();
 
 // Combine all tools
 const allTools = [
@@ -10,6 +10,10 @@ import {
   InstrumentService,
   runSchwab,
   formatError,
+  parseIndicators,
+  computeIndicators,
+  INDICATOR_NAMES,
+  type IndicatorSpec,
   type Quote,
   type Candle,
   type MarketHours,
@@ -26,7 +30,8 @@ export const marketDataTools = [
   {
     name: "schwab_get_quote",
     description:
-      "Get current quotes for one or more stock/ETF symbols",
+      "Get current quotes for stocks/ETFs, indexes ($SPX), futures (/ES) and forex (EUR/USD); " +
+      "each quote's assetType says which fields it has",
     inputSchema: {
       type: "object" as const,
       properties: {
@@ -58,7 +63,9 @@ export const marketDataTools = [
               "regular",
             ],
           },
-          description: "Optional quote field subsets",
+          description:
+            "Optional quote field subsets; fundamental (P/E, EPS, dividends), extended " +
+            "(pre/post-market) and regular (regular session close) are only returned when asked for",
         },
         indicative: {
           type: "boolean",
@@ -136,6 +143,46 @@ export const marketDataTools = [
       required: ["symbol"],
     },
   },
+  {
+    name: "schwab_get_indicators",
+    description:
+      "Compute technical indicators from a symbol's price history and return only their " +
+      "latest values, instead of the raw candles. Defaults: sma/ema 20, rsi/atr/stoch 14, " +
+      "bbands 20 (2 std devs), macd 12/26/9, hv 20 (annualized %)",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        symbol: {
+          type: "string",
+          description: "Stock/ETF symbol",
+        },
+        indicators: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            `Indicators (${INDICATOR_NAMES.join(", ")}); a number sets the period, ` +
+            "e.g. ['rsi', 'sma50', 'sma200', 'macd']",
+        },
+        frequency: {
+          type: "string",
+          enum: ["1min", "5min", "10min", "15min", "30min", "1d", "1w", "1mo"],
+          description: "Candle frequency (default: 1d)",
+        },
+        period: {
+          type: "string",
+          enum: ["1d", "2d", "3d", "4d", "5d", "10d", "1mo", "3mo", "6mo", "1y", "2y", "5y", "10y"],
+          description:
+            "History to compute over (default: 1y, or 5d for minute candles); " +
+            "long averages need enough candles",
+        },
+        last: {
+          type: "number",
+          description: "How many of the most recent candles to return values for (default: 1)",
+        },
+      },
+      required: ["symbol", "indicators"],
+    },
+  },
   {
     name: "schwab_get_market_hours",
     description:
@@ -245,10 +292,32 @@ export const marketDataTools = [
 ];
 
 // Effect programs for each tool
+const QUOTE_SECTIONS = ["fundamental", "extended", "regular"] as const;
+
 const getQuotesProgram = (request: QuoteRequestParams) =>
   Effect.gen(function* () {
     const quoteService = yield* QuoteService;
-    return yield* quoteService.getQuotesByRequest(request);
+    const results = yield* quoteService.getQuoteResults(request);
+    // Schwab sends every section when no fields are given; keep the reply short
+    const dropped = QUOTE_SECTIONS.filter(
+      (section) => !request.fields?.includes("all") && !request.fields?.includes(section)
+    );
+    return {
+      ...results,
+      quotes: results.quotes.map((quote): Quote => {
+        // Only equity-shaped quotes carry sections
+        if (
+          quote.assetType === "INDEX" ||
+          quote.assetType === "FUTURE" ||
+          quote.assetType === "FOREX"
+        ) {
+          return quote;
+        }
+        const trimmed = { ...quote };
+        dropped.forEach((section) => delete trimmed[section]);
+        return trimmed;
+      }),
+    };
   });
 
 const getPriceHistoryProgram = (
@@ -272,6 +341,36 @@ const getPriceHistoryProgram = (
     });
   });
 
+// Values are rounded so long series stay cheap to return
+const roundValue = (value: number | undefined) =>
+  value === undefined ? null : Math.round(value * 1e4) / 1e4;
+
+const getIndicatorsProgram = (
+  symbol: string,
+  indicators: readonly IndicatorSpec[],
+  frequency: PriceHistoryFrequency,
+  period: PriceHistoryPeriod,
+  last: number
+) =>
+  Effect.gen(function* () {
+    const priceHistoryService = yield* PriceHistoryService;
+    const candles = yield* priceHistoryService.getPriceHistory(symbol, { period, frequency });
+    const series = Object.entries(computeIndicators(candles, indicators, frequency));
+    const start = Math.max(0, candles.length - last);
+    return {
+      symbol: symbol.toUpperCase(),
+      frequency,
+      candles: candles.length,
+      values: candles.slice(start).map((candle, i) => ({
+        datetime: candle.datetime.toISOString(),
+        close: candle.close,
+        ...Object.fromEntries(
+          series.map(([label, values]) => [label, roundValue(values[start + i])])
+        ),
+      })),
+    };
+  });
+
 const getMarketHoursProgram = (markets: readonly MarketType[], date?: Date) =>
   Effect.gen(function* () {
     const priceHistoryService = yield* PriceHistoryService;
@@ -395,6 +494,17 @@ export async function handleMarketDataTool(
       );
     }
 
+    case "schwab_get_indicators": {
+      const symbol = args.symbol as string;
+      const indicators = parseIndicators(((args.indicators as string[]) ?? []).join(","));
+      const frequency = (args.frequency as PriceHistoryFrequency | undefined) ?? "1d";
+      const period =
+        (args.period as PriceHistoryPeriod | undefined) ??
+        (frequency.endsWith("min") ? "5d" : "1y");
+      const last = Math.max(1, Math.floor((args.last as number | undefined) ?? 1));
+      return runWithResult(getIndicatorsProgram(symbol, indicators, frequency, period, last));
+    }
+
     case "schwab_get_market_hours": {
       const markets = (args.markets as MarketType[] | undefined) ?? ["EQUITY"];
       const date = args.date
@@ -10,13 +10,45 @@ import {
   OrderBuilder,
   formatOptionSymbol,
   isOptionSymbol,
+  resolveOptionSymbol,
+  estimateNetPrice,
+  netPriceType,
+  fetchLegQuotes,
+  type LegQuote,
+  type NetPriceType,
+  type StrategySide,
   type Order,
   type OrderStatus,
   type OrderSpec,
   type OrderInstruction,
+  type PriceLinkBasis,
+  type PriceLinkType,
   type SchwabClientError,
 } from "@schwab-tools/core";
 
+const trailingStopProperties = {
+  trailingOffset: {
+    type: "number",
+    description:
+      "Trailing stop offset (required for TRAILING_STOP and TRAILING_STOP_LIMIT)",
+  },
+  trailingOffsetType: {
+    type: "string",
+    enum: ["VALUE", "PERCENT"],
+    description: "Whether trailingOffset is in dollars or percent (default: VALUE)",
+  },
+  trailingBasis: {
+    type: "string",
+    enum: ["MARK", "LAST", "BID", "ASK"],
+    description: "Price the trailing stop follows (default: MARK)",
+  },
+  trailingLimitOffset: {
+    type: "number",
+    description:
+      "Distance of the limit price from the triggered stop (required for TRAILING_STOP_LIMIT)",
+  },
+};
+
 export const orderTools = [
   {
     name: "schwab_get_orders",
@@ -127,13 +159,14 @@ export const orderTools = [
         },
         orderType: {
           type: "string",
-          enum: ["MARKET", "LIMIT"],
+          enum: ["MARKET", "LIMIT", "TRAILING_STOP", "TRAILING_STOP_LIMIT"],
           description: "Order type (default: LIMIT for safety)",
         },
         price: {
           type: "number",
           description: "Limit price (required for LIMIT orders)",
         },
+        ...trailingStopProperties,
         duration: {
           type: "string",
           enum: ["DAY", "GOOD_TILL_CANCEL", "GTC"],
@@ -143,6 +176,159 @@ export const orderTools = [
       required: ["accountHash", "action", "symbol", "quantity"],
     },
   },
+  {
+    name: "schwab_place_bracket_order",
+    description:
+      "Place an entry order that, once filled, triggers a limit take-profit and a stop-loss where a fill on one cancels the other. IMPORTANT: This executes a real trade.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        accountHash: {
+          type: "string",
+          description: "Account hash to place order in",
+        },
+        action: {
+          type: "string",
+          enum: ["BUY", "BUY_TO_OPEN", "SELL_TO_OPEN"],
+          description:
+            "Entry action. BUY for stocks, BUY_TO_OPEN or SELL_TO_OPEN for options",
+        },
+        symbol: {
+          type: "string",
+          description: "Stock symbol or OCC option symbol",
+        },
+        quantity: {
+          type: "number",
+          description: "Number of shares or contracts",
+        },
+        orderType: {
+          type: "string",
+          enum: ["MARKET", "LIMIT"],
+          description: "Entry order type (default: LIMIT for safety)",
+        },
+        price: {
+          type: "number",
+          description: "Entry limit price (required for LIMIT entries)",
+        },
+        takeProfitPrice: {
+          type: "number",
+          description: "Limit price of the take-profit exit",
+        },
+        stopLossPrice: {
+          type: "number",
+          description: "Trigger price of the stop-loss exit",
+        },
+        duration: {
+          type: "string",
+          enum: ["DAY", "GOOD_TILL_CANCEL", "GTC"],
+          description: "Duration for entry and exits (default: DAY)",
+        },
+      },
+      required: [
+        "accountHash",
+        "action",
+        "symbol",
+        "quantity",
+        "takeProfitPrice",
+        "stopLossPrice",
+      ],
+    },
+  },
+  {
+    name: "schwab_place_spread_order",
+    description:
+      "Price a multi-leg option spread against live chain mids and, with confirm: true, place it. " +
+      "Leg order by strategy: VERTICAL [long, short]; IRON_CONDOR and IRON_BUTTERFLY [longPut, shortPut, shortCall, longCall]; " +
+      "STRADDLE and STRANGLE [call, put]; BUTTERFLY [lower, middle, upper]; CALENDAR and DIAGONAL [near, far]; " +
+      "COVERED_CALL [stock, call]; COLLAR [stock, put, call]; RATIO [long, short]; BACK_RATIO [short, long]. " +
+      "IMPORTANT: With confirm: true this executes a real trade.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        accountHash: {
+          type: "string",
+          description: "Account hash to place order in",
+        },
+        strategy: {
+          type: "string",
+          enum: [
+            "VERTICAL",
+            "IRON_CONDOR",
+            "IRON_BUTTERFLY",
+            "STRADDLE",
+            "STRANGLE",
+            "BUTTERFLY",
+            "CALENDAR",
+            "DIAGONAL",
+            "COVERED_CALL",
+            "COLLAR",
+            "RATIO",
+            "BACK_RATIO",
+          ],
+          description: "Spread strategy",
+        },
+        legs: {
+          type: "array",
+          description:
+            "Legs in strategy order. Each is an OCC symbol, a stock symbol (covered call/collar), or an object with underlying, expiration (YYYY-MM-DD), putCall (C or P) and strike",
+          items: {
+            oneOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  underlying: { type: "string" },
+                  expiration: { type: "string" },
+                  putCall: { type: "string", enum: ["C", "P"] },
+                  strike: { type: "number" },
+                },
+                required: ["underlying", "expiration", "putCall", "strike"],
+              },
+            ],
+          },
+        },
+        quantity: {
+          type: "number",
+          description:
+            "Number of spreads (contracts per unit). For RATIO and BACK_RATIO use quantities instead",
+        },
+        quantities: {
+          type: "array",
+          items: { type: "number" },
+          description:
+            "RATIO and BACK_RATIO only: contract counts matching the legs, e.g. [1, 2]",
+        },
+        side: {
+          type: "string",
+          enum: ["LONG", "SHORT"],
+          description:
+            "STRADDLE, STRANGLE, BUTTERFLY, CALENDAR, DIAGONAL: LONG pays a debit, SHORT collects a credit (default: LONG)",
+        },
+        priceType: {
+          type: "string",
+          enum: ["NET_DEBIT", "NET_CREDIT"],
+          description:
+            "RATIO and BACK_RATIO only: whether you expect to pay or collect. Fails if the live " +
+            "chain prices it the other way (default: the chain's side, else NET_DEBIT)",
+        },
+        price: {
+          type: "number",
+          description: "Net price per spread (default: live chain mid)",
+        },
+        duration: {
+          type: "string",
+          enum: ["DAY", "GOOD_TILL_CANCEL", "GTC"],
+          description: "Order duration (default: DAY)",
+        },
+        confirm: {
+          type: "boolean",
+          description:
+            "Place the order. When false or omitted, only returns the priced spread for review",
+        },
+      },
+      required: ["accountHash", "strategy", "legs"],
+    },
+  },
   {
     name: "schwab_cancel_order",
     description: "Cancel an open order",
@@ -192,13 +378,14 @@ export const orderTools = [
         },
         orderType: {
           type: "string",
-          enum: ["MARKET", "LIMIT"],
+          enum: ["MARKET", "LIMIT", "TRAILING_STOP", "TRAILING_STOP_LIMIT"],
           description: "Order type (default: LIMIT)",
         },
         price: {
           type: "number",
           description: "Limit price (required for LIMIT orders)",
         },
+        ...trailingStopProperties,
         duration: {
           type: "string",
           enum: ["DAY", "GOOD_TILL_CANCEL", "GTC"],
@@ -243,13 +430,14 @@ export const orderTools = [
         },
         orderType: {
           type: "string",
-          enum: ["MARKET", "LIMIT"],
+          enum: ["MARKET", "LIMIT", "TRAILING_STOP", "TRAILING_STOP_LIMIT"],
           description: "Order type (default: LIMIT)",
         },
         price: {
           type: "number",
           description: "Limit price (required for LIMIT orders)",
         },
+        ...trailingStopProperties,
         duration: {
           type: "string",
           enum: ["DAY", "GOOD_TILL_CANCEL", "GTC"],
@@ -354,7 +542,23 @@ async function runWithResult<T>(
   }
 }
 
-function formatOrder(order: Order) {
+function formatTrailingStop(order: Order | OrderSpec) {
+  if (order.stopPriceOffset === undefined) {
+    return undefined;
+  }
+  return {
+    offset: order.stopPriceOffset,
+    offsetType: order.stopPriceLinkType,
+    basis: order.stopPriceLinkBasis,
+    limitOffset: order.priceOffset,
+  };
+}
+
+function formatLegSymbol(symbol: string): string {
+  return isOptionSymbol(symbol) ? formatOptionSymbol(symbol) : symbol;
+}
+
+function formatOrder(order: Order): Record<string, unknown> {
   const legs = order.orderLegCollection.map((leg) => {
     const isOption = leg.instrument.assetType === "OPTION";
     return {
@@ -373,24 +577,39 @@ function formatOrder(order: Order) {
     accountNumber: order.accountNumber,
     status: order.status,
     orderType: order.orderType,
+    orderStrategyType: order.orderStrategyType,
+    complexOrderStrategyType: order.complexOrderStrategyType,
     duration: order.duration,
     price: order.price,
+    stopPrice: order.stopPrice,
+    trailingStop: formatTrailingStop(order),
     filled: order.filledQuantity,
     remaining: order.remainingQuantity,
     enteredTime: order.enteredTime.toISOString(),
     closeTime: order.closeTime?.toISOString(),
     legs,
+    childOrders: order.childOrderStrategies?.map(formatOrder),
   };
 }
 
+type ToolOrderType = "MARKET" | "LIMIT" | "TRAILING_STOP" | "TRAILING_STOP_LIMIT";
+
 function buildOrderSpecFromArgs(
   args: Record<string, unknown>
-): Result<{ order: OrderSpec; action: OrderInstruction; symbol: string; quantity: number; orderType: "MARKET" | "LIMIT"; price?: number; duration: "DAY" | "GOOD_TILL_CANCEL" | "GTC" }> {
+): Result<{ order: OrderSpec; action: OrderInstruction; symbol: string; quantity: number; orderType: ToolOrderType; price?: number; duration: "DAY" | "GOOD_TILL_CANCEL" | "GTC" }> {
   const action = args.action as OrderInstruction;
   const symbol = args.symbol as string;
   const quantity = args.quantity as number;
-  const orderType = (args.orderType as "MARKET" | "LIMIT") || "LIMIT";
-  const price = args.price as number | undefined;
+  const orderType = (args.orderType as ToolOrderType) || "LIMIT";
+  const trailing =
+    orderType === "TRAILING_STOP" || orderType === "TRAILING_STOP_LIMIT";
+  const price = trailing ? undefined : (args.price as number | undefined);
+  const trailingOffset = args.trailingOffset as number | undefined;
+  const trailingOffsetType =
+    (args.trailingOffsetType as PriceLinkType | undefined) || "VALUE";
+  const trailingBasis =
+    (args.trailingBasis as PriceLinkBasis | undefined) || "MARK";
+  const trailingLimitOffset = args.trailingLimitOffset as number | undefined;
   const duration =
     (args.duration as "DAY" | "GOOD_TILL_CANCEL" | "GTC" | undefined) ||
     "DAY";
@@ -403,6 +622,22 @@ function buildOrderSpecFromArgs(
     };
   }
 
+  if (trailing && trailingOffset === undefined) {
+    return {
+      success: false,
+      error: "Trailing stop orders require a trailingOffset",
+      errorType: "ValidationError",
+    };
+  }
+
+  if (orderType === "TRAILING_STOP_LIMIT" && trailingLimitOffset === undefined) {
+    return {
+      success: false,
+      error: "Trailing stop limit orders require a trailingLimitOffset",
+      errorType: "ValidationError",
+    };
+  }
+
   const isOption = isOptionSymbol(symbol);
   let order: OrderSpec;
 
@@ -451,6 +686,23 @@ function buildOrderSpecFromArgs(
       }
     }
 
+    if (orderType === "TRAILING_STOP") {
+      order = OrderBuilder.withTrailingStop(
+        order,
+        trailingOffset!,
+        trailingOffsetType,
+        trailingBasis
+      );
+    } else if (orderType === "TRAILING_STOP_LIMIT") {
+      order = OrderBuilder.withTrailingStopLimit(
+        order,
+        trailingOffset!,
+        trailingLimitOffset!,
+        trailingOffsetType,
+        trailingBasis
+      );
+    }
+
     if (duration === "GTC" || duration === "GOOD_TILL_CANCEL") {
       order = OrderBuilder.withGTC(order as any) as any;
     }
@@ -468,6 +720,116 @@ function buildOrderSpecFromArgs(
   };
 }
 
+type SpreadStrategy =
+  | "VERTICAL"
+  | "IRON_CONDOR"
+  | "IRON_BUTTERFLY"
+  | "STRADDLE"
+  | "STRANGLE"
+  | "BUTTERFLY"
+  | "CALENDAR"
+  | "DIAGONAL"
+  | "COVERED_CALL"
+  | "COLLAR"
+  | "RATIO"
+  | "BACK_RATIO";
+
+const SPREAD_LEG_COUNTS: Record<SpreadStrategy, number> = {
+  VERTICAL: 2,
+  IRON_CONDOR: 4,
+  IRON_BUTTERFLY: 4,
+  STRADDLE: 2,
+  STRANGLE: 2,
+  BUTTERFLY: 3,
+  CALENDAR: 2,
+  DIAGONAL: 2,
+  COVERED_CALL: 2,
+  COLLAR: 3,
+  RATIO: 2,
+  BACK_RATIO: 2,
+};
+
+/**
+ * Turn a tool leg argument into a symbol: OCC and stock symbols pass through,
+ * tuples are built into OCC symbols
+ */
+function resolveLegArg(leg: unknown): string {
+  if (typeof leg === "string") {
+    return isOptionSymbol(leg) || leg.includes(":") ? resolveOptionSymbol(leg) : leg.toUpperCase();
+  }
+  const tuple = leg as { underlying?: string; expiration?: string; putCall?: string; strike?: number };
+  if (!tuple?.underlying || !tuple.expiration || !tuple.putCall || tuple.strike === undefined) {
+    throw new Error("Each leg object needs underlying, expiration, putCall and strike");
+  }
+  return resolveOptionSymbol(
+    `${tuple.underlying}:${tuple.expiration}:${tuple.putCall}:${tuple.strike}`
+  );
+}
+
+/**
+ * Build a spread order from tool arguments at the given net price. Ratio and
+ * back spreads are priced on `priceType`, other strategies on their direction.
+ */
+function buildSpreadFromArgs(
+  strategy: SpreadStrategy,
+  legs: string[],
+  args: Record<string, unknown>,
+  netPrice: number,
+  priceType: NetPriceType = "NET_DEBIT"
+): OrderSpec {
+  const quantity = args.quantity as number;
+  const side = (args.side as StrategySide | undefined) || "LONG";
+  const [first, second, third, fourth] = legs;
+
+  switch (strategy) {
+    case "VERTICAL":
+      return OrderBuilder.verticalSpread(
+        { symbol: first, instruction: "BUY_TO_OPEN" },
+        { symbol: second, instruction: "SELL_TO_OPEN" },
+        quantity,
+        netPrice
+      );
+    case "IRON_CONDOR":
+      return OrderBuilder.ironCondor(
+        { shortPut: second, longPut: first },
+        { shortCall: third, longCall: fourth },
+        quantity,
+        netPrice
+      );
+    case "IRON_BUTTERFLY":
+      return OrderBuilder.ironButterfly(
+        { shortPut: second, longPut: first },
+        { shortCall: third, longCall: fourth },
+        quantity,
+        netPrice
+      );
+    case "STRADDLE":
+      return OrderBuilder.straddle(first, second, quantity, netPrice, side);
+    case "STRANGLE":
+      return OrderBuilder.strangle(first, second, quantity, netPrice, side);
+    case "BUTTERFLY":
+      return OrderBuilder.butterfly(first, second, third, quantity, netPrice, side);
+    case "CALENDAR":
+      return OrderBuilder.calendarSpread(first, second, quantity, netPrice, side);
+    case "DIAGONAL":
+      return OrderBuilder.diagonalSpread(first, second, quantity, netPrice, side);
+    case "COVERED_CALL":
+      return OrderBuilder.coveredCall(first, second, quantity, netPrice);
+    case "COLLAR":
+      return OrderBuilder.collar(first, second, third, quantity, netPrice);
+    case "RATIO":
+    case "BACK_RATIO": {
+      const quantities = args.quantities as number[] | undefined;
+      if (!quantities || quantities.length !== 2) {
+        throw new Error(`${strategy} requires quantities with one count per leg`);
+      }
+      return strategy === "RATIO"
+        ? OrderBuilder.ratioSpread(first, second, quantities[0], quantities[1], netPrice, priceType)
+        : OrderBuilder.backSpread(first, second, quantities[0], quantities[1], netPrice, priceType);
+    }
+  }
+}
+
 /**
  * Handle order tool calls
  */
@@ -550,12 +912,160 @@ export async function handleOrderTool(
             quantity,
             orderType,
             price,
+            trailingStop: formatTrailingStop(order),
             duration,
           },
         },
       };
     }
 
+    case "schwab_place_bracket_order": {
+      const accountHash = args.accountHash as string;
+      const takeProfitPrice = args.takeProfitPrice as number;
+      const stopLossPrice = args.stopLossPrice as number;
+      const built = buildOrderSpecFromArgs(args);
+      if (!built.success) return built;
+      const { action, symbol, quantity, orderType, price, duration } = built.data;
+
+      let order: OrderSpec;
+      try {
+        order = OrderBuilder.bracket(built.data.order, takeProfitPrice, stopLossPrice);
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          errorType: "ValidationError",
+        };
+      }
+
+      const result = await runWithResult(placeOrderProgram(accountHash, order));
+      if (!result.success) return result;
+
+      return {
+        success: true,
+        data: {
+          orderId: result.data,
+          message: "Bracket order placed successfully",
+          details: {
+            action,
+            symbol: isOptionSymbol(symbol) ? formatOptionSymbol(symbol) : symbol,
+            quantity,
+            orderType,
+            price,
+            takeProfitPrice,
+            stopLossPrice,
+            duration,
+          },
+        },
+      };
+    }
+
+    case "schwab_place_spread_order": {
+      const accountHash = args.accountHash as string;
+      const strategy = args.strategy as SpreadStrategy;
+      const price = args.price as number | undefined;
+      const duration =
+        (args.duration as "DAY" | "GOOD_TILL_CANCEL" | "GTC" | undefined) || "DAY";
+
+      let legs: string[];
+      let order: OrderSpec;
+      try {
+        const legArgs = (args.legs as unknown[] | undefined) ?? [];
+        const expected = SPREAD_LEG_COUNTS[strategy];
+        if (expected === undefined) {
+          throw new Error(`Unknown spread strategy: ${strategy}`);
+        }
+        if (legArgs.length !== expected) {
+          throw new Error(`${strategy} needs ${expected} legs, got ${legArgs.length}`);
+        }
+        legs = legArgs.map(resolveLegArg);
+        order = buildSpreadFromArgs(strategy, legs, args, price ?? 0);
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          errorType: "ValidationError",
+        };
+      }
+
+      const quotes = await runWithResult(fetchLegQuotes(order));
+      const estimate = estimateNetPrice(
+        order,
+        quotes.success ? quotes.data : new Map<string, LegQuote>()
+      );
+
+      let priceType: NetPriceType | undefined;
+      try {
+        priceType = netPriceType(estimate, args.priceType as NetPriceType | undefined);
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          errorType: "ValidationError",
+        };
+      }
+
+      if (price === undefined) {
+        if (estimate.price === undefined || estimate.orderType === undefined) {
+          return {
+            success: false,
+            error: `No live mid for ${estimate.missing.map(formatLegSymbol).join(", ") || "the legs"}; pass a price`,
+            errorType: "ValidationError",
+          };
+        }
+        // At the chain mid the chain also says which side of the trade it is on
+        order = {
+          ...buildSpreadFromArgs(strategy, legs, args, estimate.price, priceType),
+          orderType: estimate.orderType,
+        };
+      } else {
+        order = buildSpreadFromArgs(strategy, legs, args, price, priceType);
+      }
+      if (duration === "GTC" || duration === "GOOD_TILL_CANCEL") {
+        order = OrderBuilder.withGTC(order);
+      }
+
+      const pricing = {
+        strategy,
+        orderType: order.orderType,
+        complexOrderStrategyType: order.complexOrderStrategyType,
+        price: order.price,
+        duration,
+        chainMid: estimate.price,
+        chainMidType: estimate.orderType,
+        legs: estimate.legs.map((leg) => ({
+          action: leg.instruction,
+          symbol: formatLegSymbol(leg.symbol),
+          rawSymbol: leg.symbol,
+          quantity: leg.quantity,
+          mid: leg.mid,
+        })),
+        quoteError: quotes.success ? undefined : quotes.error,
+      };
+
+      if (args.confirm !== true) {
+        return {
+          success: true,
+          data: {
+            message: "Spread priced but not placed. Call again with confirm: true to place it.",
+            ...pricing,
+          },
+        };
+      }
+
+      const result = await runWithResult(placeOrderProgram(accountHash, order));
+      if (!result.success) return result;
+
+      return {
+        success: true,
+        data: {
+          orderId: result.data,
+          message: "Spread order placed successfully",
+          ...pricing,
+        },
+      };
+    }
+
     case "schwab_preview_order": {
       const accountHash = args.accountHash as string;
       const built = buildOrderSpecFromArgs(args);